@@ -0,0 +1,195 @@
+// =====================================================
+// DUNNING
+// Failed payment -> grace period with reminder emails ->
+// write actions restricted (createHandler, 402) -> restored
+// when an invoice is paid. Grace period and reminder schedule
+// come from global_config 'dunning' (global or per tenant).
+// =====================================================
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { sendTemplateEmail, sendQuickEmail } from './email.ts'
+
+export const DUNNING_CONFIG_KEY = 'dunning'
+
+export interface DunningConfig {
+  grace_days: number
+  reminder_days: number[]  // Days after the failed payment; 0 = on the next run
+}
+
+const DEFAULT_DUNNING_CONFIG: DunningConfig = { grace_days: 7, reminder_days: [0, 3, 6] }
+const DAY_MS = 24 * 60 * 60 * 1000
+const BILLING_URL = `${Deno.env.get('APP_URL') || 'https://kurs.ing'}/billing`
+
+// Tenant columns reset when dunning ends (invoice paid, subscription gone)
+export const DUNNING_CLEARED = {
+  dunning_status: 'none',
+  grace_ends_at: null,
+  restricted_at: null,
+  dunning_reminders_sent: 0,
+  dunning_last_reminder_at: null
+}
+
+// Global config with the tenant's override on top
+export async function getDunningConfig(supabase: SupabaseClient, tenantId: string): Promise<DunningConfig> {
+  const { data } = await supabase
+    .from('global_config')
+    .select('scope, value')
+    .eq('key', DUNNING_CONFIG_KEY)
+    .or(`scope.eq.global,tenant_id.eq.${tenantId}`)
+
+  const global = data?.find(row => row.scope === 'global')?.value
+  const tenant = data?.find(row => row.scope === 'tenant')?.value
+  const config = { ...DEFAULT_DUNNING_CONFIG, ...global, ...tenant }
+
+  const reminderDays: number[] = (Array.isArray(config.reminder_days) ? config.reminder_days : []).map(Number)
+
+  return {
+    grace_days: Math.max(0, Number(config.grace_days) || 0),
+    reminder_days: reminderDays
+      .filter((day: number) => Number.isFinite(day) && day >= 0)
+      .sort((a: number, b: number) => a - b)
+  }
+}
+
+// Tenant columns that start dunning for a payment that failed at failedAt
+export async function startDunningFields(supabase: SupabaseClient, tenantId: string, failedAt: string) {
+  const config = await getDunningConfig(supabase, tenantId)
+  return {
+    ...DUNNING_CLEARED,
+    dunning_status: 'grace',
+    grace_ends_at: new Date(new Date(failedAt).getTime() + config.grace_days * DAY_MS).toISOString()
+  }
+}
+
+export interface DunningRunResult {
+  dry_run: boolean
+  reminded: { tenant_id: string; reminder: number; sent_to: string[] }[]
+  restricted: { tenant_id: string; sent_to: string[] }[]
+}
+
+// Sends due reminders and restricts tenants whose grace period is over.
+// Each step is claimed with a conditional update before the email goes
+// out, so overlapping runs don't send twice.
+export async function runDunning(
+  supabase: SupabaseClient,
+  options: { tenantId?: string; dryRun: boolean }
+): Promise<DunningRunResult> {
+  let query = supabase
+    .from('tenants')
+    .select('id, name, payment_failed_at, grace_ends_at, dunning_reminders_sent')
+    .eq('dunning_status', 'grace')
+
+  if (options.tenantId) query = query.eq('id', options.tenantId)
+
+  const { data: tenants, error } = await query
+  if (error) throw error
+
+  const result: DunningRunResult = { dry_run: options.dryRun, reminded: [], restricted: [] }
+  const now = Date.now()
+
+  for (const tenant of tenants || []) {
+    const graceEndsAt = new Date(tenant.grace_ends_at)
+
+    if (graceEndsAt.getTime() <= now) {
+      if (!options.dryRun) {
+        const { data: claimed } = await supabase
+          .from('tenants')
+          .update({ dunning_status: 'restricted', restricted_at: new Date().toISOString() })
+          .eq('id', tenant.id)
+          .eq('dunning_status', 'grace')
+          .select('id')
+        if (!claimed?.length) continue
+      }
+
+      const sentTo = options.dryRun ? [] : await sendDunningEmail(supabase, tenant, 'payment_restricted', graceEndsAt)
+      result.restricted.push({ tenant_id: tenant.id, sent_to: sentTo })
+      continue
+    }
+
+    // Reminders that are due; missed ones are folded into a single email
+    const config = await getDunningConfig(supabase, tenant.id)
+    const failedAt = new Date(tenant.payment_failed_at || now).getTime()
+    const due = config.reminder_days.filter(day => failedAt + day * DAY_MS <= now).length
+    if (due <= tenant.dunning_reminders_sent) continue
+
+    if (!options.dryRun) {
+      const { data: claimed } = await supabase
+        .from('tenants')
+        .update({ dunning_reminders_sent: due, dunning_last_reminder_at: new Date().toISOString() })
+        .eq('id', tenant.id)
+        .eq('dunning_status', 'grace')
+        .eq('dunning_reminders_sent', tenant.dunning_reminders_sent)
+        .select('id')
+      if (!claimed?.length) continue
+    }
+
+    const sentTo = options.dryRun ? [] : await sendDunningEmail(supabase, tenant, 'payment_reminder', graceEndsAt)
+    result.reminded.push({ tenant_id: tenant.id, reminder: due, sent_to: sentTo })
+  }
+
+  return result
+}
+
+// Emails the tenant's owners. Tenants can customize the emails with the
+// 'payment_reminder' and 'payment_restricted' templates; otherwise a
+// built-in message is sent.
+async function sendDunningEmail(
+  supabase: SupabaseClient,
+  tenant: { id: string; name: string },
+  templateName: 'payment_reminder' | 'payment_restricted',
+  graceEndsAt: Date
+): Promise<string[]> {
+  const { data: owners } = await supabase
+    .from('user_tenants')
+    .select('user_id')
+    .eq('tenant_id', tenant.id)
+    .eq('role', 'owner')
+
+  const variables = {
+    tenant_name: tenant.name,
+    grace_ends_at: graceEndsAt.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' }),
+    billing_url: BILLING_URL
+  }
+
+  const fallback = templateName === 'payment_reminder'
+    ? {
+      subject: `Payment failed for ${tenant.name}`,
+      text: `We couldn't collect the payment for ${tenant.name}. Please update your payment method by ${variables.grace_ends_at} to keep full access.\n\n${BILLING_URL}`
+    }
+    : {
+      subject: `${tenant.name} is now read-only`,
+      text: `The payment for ${tenant.name} is still outstanding, so changes are disabled until it is paid. Your data is safe and can still be viewed.\n\n${BILLING_URL}`
+    }
+
+  const sentTo: string[] = []
+
+  for (const owner of owners || []) {
+    const { data: { user } } = await supabase.auth.admin.getUserById(owner.user_id)
+    if (!user?.email) continue
+
+    let emailResult = await sendTemplateEmail(supabase, {
+      templateName,
+      to: user.email,
+      variables,
+      tenantId: tenant.id
+    })
+
+    if (!emailResult.success && emailResult.error === `Template '${templateName}' not found`) {
+      emailResult = await sendQuickEmail(supabase, {
+        to: user.email,
+        subject: fallback.subject,
+        html: `<p>${fallback.text.replace(/\n\n/g, '</p><p>')}</p>`,
+        text: fallback.text,
+        tenantId: tenant.id
+      })
+    }
+
+    if (emailResult.success) {
+      sentTo.push(user.email)
+    } else {
+      console.error(`Dunning email to ${user.email} failed:`, emailResult.error)
+    }
+  }
+
+  return sentTo
+}
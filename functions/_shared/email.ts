@@ -2,8 +2,6 @@
 // EMAIL SERVICE - Multi-domain support via Resend
 // =====================================================
 
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
-
 const RESEND_API_KEY = Deno.env.get('RESEND_FULL')!
 const RESEND_API_URL = 'https://api.resend.com'
 
@@ -156,7 +154,7 @@ async function sendWithTemplate(
   }
 
   // Get from address
-  const { from, domain } = await getFromAddress(supabase, options.domainId, options.tenantId)
+  const { from } = await getFromAddress(supabase, options.domainId, options.tenantId)
 
   // Send email
   const result = await sendEmail({ to: options.to, subject, html, text, from })
@@ -190,7 +188,7 @@ export async function sendQuickEmail(
     domainId?: string
   }
 ): Promise<EmailResult> {
-  const { from, domain } = await getFromAddress(supabase, options.domainId, options.tenantId)
+  const { from } = await getFromAddress(supabase, options.domainId, options.tenantId)
 
   const result = await sendEmail({
     to: options.to,
@@ -0,0 +1,348 @@
+// =====================================================
+// GIT FORGE
+// Issues and code search for the list_issues / search_code
+// MCP tools. Providers: GitHub, GitLab, and an in-memory
+// fake for local development.
+// No imports: mcp-server copies this file at build time
+// (npm run sync-schemas). Callers pass env lookups in.
+// =====================================================
+
+export type ForgeProviderName = 'github' | 'gitlab' | 'fake'
+export type IssueState = 'open' | 'closed'
+
+export interface Issue {
+  number: number
+  title: string
+  state: IssueState
+  labels: string[]
+  author: string | null
+  url: string
+  comments: number
+  created_at: string
+  updated_at: string
+  body: string  // Truncated to ISSUE_BODY_LIMIT characters
+}
+
+export interface CodeMatch {
+  line: number | null  // Null when the forge doesn't report line numbers (GitHub)
+  text: string
+}
+
+export interface CodeSearchHit {
+  path: string
+  url: string | null
+  matches: CodeMatch[]
+}
+
+export interface ListIssuesOptions {
+  state?: IssueState | 'all'  // Default: open
+  labels?: string[]  // Issues must have all of them
+  limit?: number
+}
+
+export interface SearchCodeOptions {
+  query: string
+  path?: string  // Only files under this path
+  limit?: number
+}
+
+export interface ForgeProvider {
+  name: ForgeProviderName
+  repo: string
+  listIssues(options: ListIssuesOptions): Promise<Issue[]>
+  searchCode(options: SearchCodeOptions): Promise<CodeSearchHit[]>
+}
+
+export interface ForgeConfig {
+  provider: ForgeProviderName
+  repo: string  // owner/repo, or the GitLab project path
+  token?: string
+  apiUrl?: string  // GitHub Enterprise / self-hosted GitLab
+  fakeData?: FakeForgeData
+}
+
+export interface FakeForgeData {
+  issues: Issue[]
+  files: Record<string, string>  // path -> contents
+}
+
+export class ForgeError extends Error {
+  constructor(message: string, public status: number, public code: string) {
+    super(message)
+    this.name = 'ForgeError'
+  }
+}
+
+const DEFAULT_LIMIT = 30
+const MAX_LIMIT = 100
+const ISSUE_BODY_LIMIT = 500
+const USER_AGENT = 'supabase-saas-mcp'
+const GITHUB_MAX_ISSUE_PAGES = 10
+
+// FORGE_PROVIDER (github | gitlab | fake, default github), FORGE_REPO,
+// FORGE_TOKEN, FORGE_API_URL, FORGE_FAKE_DATA (JSON, fake provider only)
+export function forgeConfigFromEnv(env: (name: string) => string | undefined): ForgeConfig {
+  const provider = (env('FORGE_PROVIDER') || 'github') as ForgeProviderName
+  if (!['github', 'gitlab', 'fake'].includes(provider)) {
+    throw new ForgeError(`Unknown FORGE_PROVIDER: ${provider}`, 500, 'FORGE_NOT_CONFIGURED')
+  }
+
+  const repo = env('FORGE_REPO') || (provider === 'fake' ? 'local/fake' : '')
+  if (!repo) {
+    throw new ForgeError('FORGE_REPO is not set', 500, 'FORGE_NOT_CONFIGURED')
+  }
+
+  const fakeData = env('FORGE_FAKE_DATA')
+  let parsedFakeData: FakeForgeData | undefined
+  if (fakeData) {
+    try {
+      parsedFakeData = JSON.parse(fakeData)
+    } catch {
+      throw new ForgeError('FORGE_FAKE_DATA is not valid JSON', 500, 'FORGE_CONFIG')
+    }
+  }
+
+  return {
+    provider,
+    repo,
+    token: env('FORGE_TOKEN'),
+    apiUrl: env('FORGE_API_URL'),
+    fakeData: parsedFakeData
+  }
+}
+
+export function createForgeProvider(config: ForgeConfig): ForgeProvider {
+  switch (config.provider) {
+    case 'github': return createGitHubForge(config)
+    case 'gitlab': return createGitLabForge(config)
+    case 'fake': return createFakeForge(config.fakeData || SAMPLE_DATA, config.repo)
+  }
+}
+
+// list_issues / search_code tool calls
+export async function handleForgeTool(forge: ForgeProvider, tool: string, args: Record<string, unknown>) {
+  const limit = args.limit === undefined ? undefined : Number(args.limit)
+  const source = { provider: forge.name, repo: forge.repo }
+
+  if (tool === 'list_issues') {
+    const state = (args.state as IssueState | 'all' | undefined) || 'open'
+    if (!['open', 'closed', 'all'].includes(state)) {
+      throw new ForgeError('state must be open, closed or all', 400, 'VALIDATION_ERROR')
+    }
+    const labels = typeof args.labels === 'string'
+      ? args.labels.split(',').map(l => l.trim()).filter(Boolean)
+      : (args.labels as string[] | undefined) || []
+
+    const issues = await forge.listIssues({ state, labels, limit })
+    return { ...source, state, labels, count: issues.length, issues }
+  }
+
+  if (tool === 'search_code') {
+    const query = typeof args.query === 'string' ? args.query.trim() : ''
+    if (!query) throw new ForgeError('query is required', 400, 'VALIDATION_ERROR')
+
+    const results = await forge.searchCode({ query, path: args.path as string | undefined, limit })
+    return { ...source, query, count: results.length, results }
+  }
+
+  throw new ForgeError(`Unknown forge tool: ${tool}`, 400, 'UNKNOWN_TOOL')
+}
+
+// ----- GITHUB -----
+function createGitHubForge(config: ForgeConfig): ForgeProvider {
+  const apiUrl = (config.apiUrl || 'https://api.github.com').replace(/\/$/, '')
+  const request = (path: string, accept = 'application/vnd.github+json') => forgeFetch('GitHub', `${apiUrl}${path}`, {
+    'Accept': accept,
+    'X-GitHub-Api-Version': '2022-11-28',
+    ...(config.token ? { 'Authorization': `Bearer ${config.token}` } : {})
+  })
+
+  return {
+    name: 'github',
+    repo: config.repo,
+
+    async listIssues({ state = 'open', labels = [], limit }) {
+      const wanted = clampLimit(limit)
+      const params = new URLSearchParams({ state, sort: 'updated', per_page: String(MAX_LIMIT) })
+      if (labels.length > 0) params.set('labels', labels.join(','))
+
+      // The issues API includes pull requests: page until enough issues are left
+      const issues: any[] = []
+      for (let page = 1; page <= GITHUB_MAX_ISSUE_PAGES && issues.length < wanted; page++) {
+        params.set('page', String(page))
+        const items: any[] = await request(`/repos/${config.repo}/issues?${params}`)
+        issues.push(...items.filter(item => !item.pull_request))
+        if (items.length < MAX_LIMIT) break
+      }
+
+      return issues
+        .slice(0, wanted)
+        .map(item => ({
+          number: item.number,
+          title: item.title,
+          state: item.state,
+          labels: (item.labels || []).map((l: any) => typeof l === 'string' ? l : l.name),
+          author: item.user?.login || null,
+          url: item.html_url,
+          comments: item.comments || 0,
+          created_at: item.created_at,
+          updated_at: item.updated_at,
+          body: truncate(item.body)
+        }))
+    },
+
+    async searchCode({ query, path, limit }) {
+      // Code search requires a token
+      if (!config.token) {
+        throw new ForgeError('FORGE_TOKEN is required for GitHub code search', 500, 'FORGE_NOT_CONFIGURED')
+      }
+      const q = [query, `repo:${config.repo}`, ...(path ? [`path:${path}`] : [])].join(' ')
+      const params = new URLSearchParams({ q, per_page: String(clampLimit(limit)) })
+
+      const data = await request(`/search/code?${params}`, 'application/vnd.github.text-match+json')
+      return (data.items || []).map((item: any) => ({
+        path: item.path,
+        url: item.html_url || null,
+        matches: (item.text_matches || []).map((m: any) => ({ line: null, text: m.fragment }))
+      }))
+    }
+  }
+}
+
+// ----- GITLAB -----
+function createGitLabForge(config: ForgeConfig): ForgeProvider {
+  const apiUrl = (config.apiUrl || 'https://gitlab.com/api/v4').replace(/\/$/, '')
+  const project = `/projects/${encodeURIComponent(config.repo)}`
+  const request = (path: string) => forgeFetch('GitLab', `${apiUrl}${project}${path}`, {
+    'Accept': 'application/json',
+    ...(config.token ? { 'PRIVATE-TOKEN': config.token } : {})
+  })
+
+  return {
+    name: 'gitlab',
+    repo: config.repo,
+
+    async listIssues({ state = 'open', labels = [], limit }) {
+      const params = new URLSearchParams({ order_by: 'updated_at', per_page: String(clampLimit(limit)) })
+      if (state !== 'all') params.set('state', state === 'open' ? 'opened' : 'closed')
+      if (labels.length > 0) params.set('labels', labels.join(','))
+
+      const items: any[] = await request(`/issues?${params}`)
+      return items.map(item => ({
+        number: item.iid,
+        title: item.title,
+        state: item.state === 'opened' ? 'open' : 'closed',
+        labels: item.labels || [],
+        author: item.author?.username || null,
+        url: item.web_url,
+        comments: item.user_notes_count || 0,
+        created_at: item.created_at,
+        updated_at: item.updated_at,
+        body: truncate(item.description)
+      }))
+    },
+
+    async searchCode({ query, path, limit }) {
+      const search = path ? `${query} path:${path}` : query
+      const params = new URLSearchParams({ scope: 'blobs', search, per_page: String(clampLimit(limit)) })
+
+      const blobs: any[] = await request(`/search?${params}`)
+
+      // GitLab returns one entry per matching chunk; group them by file
+      const hits = new Map<string, CodeSearchHit>()
+      for (const blob of blobs) {
+        const hit: CodeSearchHit = hits.get(blob.path) || { path: blob.path, url: null, matches: [] }
+        hit.matches.push({ line: blob.startline ?? null, text: blob.data })
+        hits.set(blob.path, hit)
+      }
+      return [...hits.values()]
+    }
+  }
+}
+
+// ----- FAKE -----
+// In-memory forge with the same filtering rules as the real providers
+export function createFakeForge(data: FakeForgeData, repo = 'local/fake'): ForgeProvider {
+  return {
+    name: 'fake',
+    repo,
+
+    async listIssues({ state = 'open', labels = [], limit }) {
+      return data.issues
+        .filter(issue => state === 'all' || issue.state === state)
+        .filter(issue => labels.every(label => issue.labels.includes(label)))
+        .sort((a, b) => b.updated_at.localeCompare(a.updated_at))
+        .slice(0, clampLimit(limit))
+        .map(issue => ({ ...issue, body: truncate(issue.body) }))
+    },
+
+    async searchCode({ query, path, limit }) {
+      const needle = query.toLowerCase()
+      const hits: CodeSearchHit[] = []
+
+      for (const [file, contents] of Object.entries(data.files)) {
+        if (path && !file.startsWith(path.replace(/^\//, ''))) continue
+
+        const matches = contents.split('\n')
+          .map((text, i) => ({ line: i + 1, text }))
+          .filter(({ text }) => text.toLowerCase().includes(needle))
+        if (matches.length > 0) hits.push({ path: file, url: null, matches })
+      }
+
+      return hits.slice(0, clampLimit(limit))
+    }
+  }
+}
+
+const SAMPLE_DATA: FakeForgeData = {
+  issues: [
+    {
+      number: 3, title: 'Webhook retries create duplicate purchases', state: 'open',
+      labels: ['bug', 'billing'], author: 'octocat', url: 'https://example.com/issues/3', comments: 2,
+      created_at: '2026-01-18T09:00:00Z', updated_at: '2026-01-20T14:30:00Z',
+      body: 'Stripe retried checkout.session.completed and we inserted the purchase twice.'
+    },
+    {
+      number: 2, title: 'Add CSV export to get_analytics', state: 'open',
+      labels: ['enhancement'], author: 'hubot', url: 'https://example.com/issues/2', comments: 0,
+      created_at: '2026-01-15T10:00:00Z', updated_at: '2026-01-15T10:00:00Z',
+      body: 'Tenants want to download usage reports.'
+    },
+    {
+      number: 1, title: 'Invite emails use the wrong domain', state: 'closed',
+      labels: ['bug'], author: 'octocat', url: 'https://example.com/issues/1', comments: 4,
+      created_at: '2026-01-10T08:00:00Z', updated_at: '2026-01-12T16:00:00Z',
+      body: 'invite-team-member ignores the tenant primary domain.'
+    }
+  ],
+  files: {
+    'functions/stripe-webhook/index.ts': "serve(createHandler(async ({ req, supabase, rawBody }) => {\n  const event = stripe.webhooks.constructEvent(rawBody, signature, secret)\n}))",
+    'functions/_shared/security.ts': "export function errorResponse(message: string, status = 400, code?: string) {\n  return jsonResponse({ error: message, code }, status)\n}"
+  }
+}
+
+// ----- HELPERS -----
+async function forgeFetch(forge: string, url: string, headers: Record<string, string>) {
+  const response = await fetch(url, { headers: { 'User-Agent': USER_AGENT, ...headers } })
+  const data = await response.json().catch(() => ({}))
+
+  if (!response.ok) {
+    const message = data.message || data.error || response.statusText
+    const code = response.status === 401 ? 'FORGE_UNAUTHORIZED'
+      : response.status === 404 ? 'FORGE_NOT_FOUND'
+      : response.status === 429 || response.headers.get('x-ratelimit-remaining') === '0' ? 'FORGE_RATE_LIMITED'
+      : 'FORGE_ERROR'
+    throw new ForgeError(`${forge} API error (${response.status}): ${message}`, response.status, code)
+  }
+
+  return data
+}
+
+function clampLimit(limit?: number): number {
+  return Math.min(Math.max(Math.floor(limit || DEFAULT_LIMIT), 1), MAX_LIMIT)
+}
+
+function truncate(text?: string | null): string {
+  if (!text) return ''
+  return text.length > ISSUE_BODY_LIMIT ? `${text.slice(0, ISSUE_BODY_LIMIT)}...` : text
+}
@@ -0,0 +1,283 @@
+// =====================================================
+// MCP STREAMABLE HTTP TRANSPORT
+// JSON-RPC 2.0 over HTTP POST (spec 2025-06-18, also
+// 2025-03-26 batches). Sessions live in mcp_sessions so
+// any isolate can serve them; long calls stream over SSE.
+// =====================================================
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+export const PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05']
+export const SESSION_HEADER = 'Mcp-Session-Id'
+export const PROTOCOL_HEADER = 'MCP-Protocol-Version'
+
+const SESSION_TTL_MS = 24 * 60 * 60 * 1000
+const SSE_KEEPALIVE_MS = 15000
+
+// JSON-RPC error codes
+export const PARSE_ERROR = -32700
+export const INVALID_REQUEST = -32600
+export const METHOD_NOT_FOUND = -32601
+export const INVALID_PARAMS = -32602
+export const INTERNAL_ERROR = -32603
+const SESSION_ERROR = -32000
+
+type JsonRpcId = string | number
+
+interface JsonRpcMessage {
+  jsonrpc: '2.0'
+  id?: JsonRpcId | null
+  method?: string
+  params?: Record<string, unknown>
+  result?: unknown
+  error?: { code: number; message: string; data?: unknown }
+}
+
+export class McpError extends Error {
+  constructor(public code: number, message: string, public data?: unknown) {
+    super(message)
+    this.name = 'McpError'
+  }
+}
+
+export interface McpSession {
+  id: string
+  protocol_version: string
+  client_info: Record<string, unknown> | null
+  client_capabilities: Record<string, unknown> | null
+  // Signed-in user (auth_sign_in within the session), null when anonymous
+  user_id: string | null
+  access_token: string | null
+  refresh_token: string | null
+  token_expires_at: string | null
+}
+
+export interface McpCallContext {
+  session: McpSession
+  // Sends notifications/progress when the client passed a progressToken and
+  // the response is streamed; a no-op otherwise.
+  progress(progress: number, total?: number, message?: string): void
+}
+
+export type McpMethodHandler = (params: Record<string, unknown>, call: McpCallContext) => Promise<unknown>
+
+export interface McpServerDefinition {
+  name: string
+  version: string
+  instructions?: string
+  capabilities: Record<string, unknown>
+  methods: Record<string, McpMethodHandler>  // tools/list, tools/call, ...
+  streamMethods?: string[]  // Streamed over SSE when the client accepts it (default: tools/call)
+}
+
+interface TransportContext {
+  req: Request
+  supabase: SupabaseClient
+  rawBody: string
+}
+
+// Handles one HTTP request on the MCP endpoint
+export async function handleMcpRequest(ctx: TransportContext, server: McpServerDefinition): Promise<Response> {
+  const { req, supabase } = ctx
+
+  if (req.method === 'DELETE') {
+    const sessionId = req.headers.get(SESSION_HEADER)
+    if (!sessionId) return rpcErrorResponse(null, SESSION_ERROR, `Missing ${SESSION_HEADER} header`, 400)
+
+    const { data } = await supabase.from('mcp_sessions').delete().eq('id', sessionId).select('id')
+    if (!data?.length) return rpcErrorResponse(null, SESSION_ERROR, 'Session not found', 404)
+    return new Response(null, { status: 204 })
+  }
+
+  // No server-initiated stream: responses go back on the POST that asked for them
+  if (req.method !== 'POST') {
+    return new Response(null, { status: 405, headers: { 'Allow': 'POST, DELETE' } })
+  }
+
+  let payload: unknown
+  try {
+    payload = JSON.parse(ctx.rawBody)
+  } catch {
+    return rpcErrorResponse(null, PARSE_ERROR, 'Parse error: body must be valid JSON', 400)
+  }
+
+  const isBatch = Array.isArray(payload)
+  const messages = (isBatch ? payload : [payload]) as JsonRpcMessage[]
+
+  if (messages.length === 0 || messages.some(m => !isJsonRpcMessage(m))) {
+    return rpcErrorResponse(null, INVALID_REQUEST, 'Invalid JSON-RPC 2.0 message', 400)
+  }
+
+  // initialize opens a session and must be sent on its own
+  const initialize = messages.find(m => m.method === 'initialize')
+  if (initialize) {
+    if (messages.length > 1) {
+      return rpcErrorResponse(initialize.id ?? null, INVALID_REQUEST, 'initialize must not be batched', 400)
+    }
+    return initializeSession(supabase, server, initialize)
+  }
+
+  const sessionId = req.headers.get(SESSION_HEADER)
+  if (!sessionId) return rpcErrorResponse(null, SESSION_ERROR, `Missing ${SESSION_HEADER} header`, 400)
+
+  const protocolVersion = req.headers.get(PROTOCOL_HEADER)
+  if (protocolVersion && !PROTOCOL_VERSIONS.includes(protocolVersion)) {
+    return rpcErrorResponse(null, SESSION_ERROR, `Unsupported ${PROTOCOL_HEADER}: ${protocolVersion}`, 400)
+  }
+
+  const session = await touchSession(supabase, sessionId)
+  if (!session) return rpcErrorResponse(null, SESSION_ERROR, 'Session not found or expired', 404)
+
+  // Notifications (initialized, cancelled, ...) and client responses need no reply
+  const requests = messages.filter(m => m.method && m.id !== undefined && m.id !== null)
+  if (requests.length === 0) return new Response(null, { status: 202 })
+
+  const streamMethods = server.streamMethods || ['tools/call']
+  const acceptsStream = (req.headers.get('Accept') || '').includes('text/event-stream')
+
+  if (acceptsStream && !isBatch && streamMethods.includes(requests[0].method!)) {
+    return streamResponse(server, session, requests[0])
+  }
+
+  const responses = await Promise.all(requests.map(m => dispatch(server, session, m, () => {})))
+  return rpcResponse(isBatch ? responses : responses[0], 200)
+}
+
+async function initializeSession(supabase: SupabaseClient, server: McpServerDefinition, message: JsonRpcMessage) {
+  if (message.id === undefined || message.id === null) {
+    return rpcErrorResponse(null, INVALID_REQUEST, 'initialize must be a request', 400)
+  }
+
+  const params = message.params || {}
+  const requested = typeof params.protocolVersion === 'string' ? params.protocolVersion : ''
+  const protocolVersion = PROTOCOL_VERSIONS.includes(requested) ? requested : PROTOCOL_VERSIONS[0]
+
+  const { data: session, error } = await supabase.from('mcp_sessions').insert({
+    protocol_version: protocolVersion,
+    client_info: params.clientInfo || null,
+    client_capabilities: params.capabilities || null,
+    expires_at: new Date(Date.now() + SESSION_TTL_MS).toISOString()
+  }).select('id').single()
+
+  if (error) return rpcErrorResponse(message.id, INTERNAL_ERROR, `Could not create session: ${error.message}`, 500)
+
+  return rpcResponse({
+    jsonrpc: '2.0',
+    id: message.id,
+    result: {
+      protocolVersion,
+      capabilities: server.capabilities,
+      serverInfo: { name: server.name, version: server.version },
+      ...(server.instructions && { instructions: server.instructions })
+    }
+  }, 200, { [SESSION_HEADER]: session.id })
+}
+
+// Returns the live session and extends its expiry, or null if unknown / expired
+async function touchSession(supabase: SupabaseClient, id: string): Promise<McpSession | null> {
+  const now = new Date()
+  const { data } = await supabase.from('mcp_sessions')
+    .update({ last_seen_at: now.toISOString(), expires_at: new Date(now.getTime() + SESSION_TTL_MS).toISOString() })
+    .eq('id', id)
+    .gt('expires_at', now.toISOString())
+    .select('id, protocol_version, client_info, client_capabilities, user_id, access_token, refresh_token, token_expires_at')
+    .maybeSingle()
+
+  return data
+}
+
+async function dispatch(
+  server: McpServerDefinition,
+  session: McpSession,
+  message: JsonRpcMessage,
+  notify: (message: JsonRpcMessage) => void
+): Promise<JsonRpcMessage> {
+  const id = message.id as JsonRpcId
+  const params = message.params || {}
+
+  if (message.method === 'ping') return { jsonrpc: '2.0', id, result: {} }
+
+  const method = server.methods[message.method!]
+  if (!method) return rpcError(id, METHOD_NOT_FOUND, `Method not found: ${message.method}`)
+
+  const progressToken = (params._meta as { progressToken?: JsonRpcId } | undefined)?.progressToken
+  const call: McpCallContext = {
+    session,
+    progress(progress, total, progressMessage) {
+      if (progressToken === undefined) return
+      notify({
+        jsonrpc: '2.0',
+        method: 'notifications/progress',
+        params: { progressToken, progress, total, message: progressMessage }
+      })
+    }
+  }
+
+  try {
+    return { jsonrpc: '2.0', id, result: await method(params, call) }
+  } catch (error) {
+    if (error instanceof McpError) return rpcError(id, error.code, error.message, error.data)
+    console.error(`MCP ${message.method} failed:`, error)
+    return rpcError(id, INTERNAL_ERROR, error.message || 'Internal error')
+  }
+}
+
+// One request answered over SSE: progress notifications, then the response.
+// Comment lines keep proxies from closing the stream during long calls.
+function streamResponse(server: McpServerDefinition, session: McpSession, message: JsonRpcMessage): Response {
+  const encoder = new TextEncoder()
+  let closed = false  // Client went away; the call still finishes
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const write = (text: string) => { if (!closed) controller.enqueue(encoder.encode(text)) }
+      const send = (event: JsonRpcMessage) => write(`event: message\ndata: ${JSON.stringify(event)}\n\n`)
+      const keepalive = setInterval(() => write(': ping\n\n'), SSE_KEEPALIVE_MS)
+
+      try {
+        send(await dispatch(server, session, message, send))
+      } finally {
+        clearInterval(keepalive)
+        if (!closed) controller.close()
+      }
+    },
+    cancel() {
+      closed = true
+    }
+  })
+
+  return new Response(stream, {
+    status: 200,
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive'
+    }
+  })
+}
+
+function isJsonRpcMessage(value: unknown): value is JsonRpcMessage {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return false
+  const message = value as JsonRpcMessage
+  if (message.jsonrpc !== '2.0') return false
+  if (message.method !== undefined) {
+    return typeof message.method === 'string' &&
+      (message.params === undefined || (typeof message.params === 'object' && message.params !== null))
+  }
+  return message.id !== undefined && ('result' in message || 'error' in message)
+}
+
+function rpcError(id: JsonRpcId | null, code: number, message: string, data?: unknown): JsonRpcMessage {
+  return { jsonrpc: '2.0', id, error: { code, message, ...(data !== undefined && { data }) } }
+}
+
+function rpcErrorResponse(id: JsonRpcId | null, code: number, message: string, status: number): Response {
+  return rpcResponse(rpcError(id, code, message), status)
+}
+
+function rpcResponse(data: unknown, status: number, extraHeaders: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...extraHeaders }
+  })
+}
@@ -6,16 +6,23 @@
 import {
   getCorsHeaders,
   handleCors,
-  checkRateLimit,
+  checkDistributedRateLimit,
+  getPlanRateLimit,
   getRateLimitHeaders,
   authenticateRequest,
   validateApiKey,
+  validateAdminKey,
+  validateCronSecret,
   createServiceClient,
-  jsonResponse,
-  errorResponse,
   getClientIp,
-  AuthResult
+  getMissingScopes,
+  PUBLIC_CORS_HEADERS,
+  TENANT_HEADER,
+  AuthResult,
+  RateLimitResult
 } from './security.ts'
+import { ActionSchemas } from './schemas.ts'
+import { validateAction } from './validation.ts'
 import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
 
 export interface RequestContext {
@@ -23,17 +30,40 @@ export interface RequestContext {
   supabase: SupabaseClient
   auth: AuthResult
   body: any
+  rawBody: string  // Unparsed request body, e.g. for webhook signatures
   clientIp: string
   corsHeaders: Record<string, string>
+  isAdmin: boolean  // Valid X-Admin-Key
+  isCron: boolean   // Valid X-Cron-Secret
 }
 
 export interface HandlerOptions {
-  requireAuth?: boolean
+  requireAuth?: boolean  // When false, a Bearer token is still checked if present (auth may be empty)
   requireTenant?: boolean
-  allowedRoles?: string[]
+  // Member roles allowed to call the endpoint. May depend on the body, e.g. per action
+  // (undefined: any role).
+  allowedRoles?: string[] | ((body: any) => string[] | undefined)
   allowApiKey?: boolean
-  rateLimit?: number  // requests per minute
-  rateLimitByTenant?: boolean
+  requireAdmin?: boolean  // X-Admin-Key (or body.admin_key) required, no user auth
+  allowAdminKey?: boolean  // X-Admin-Key accepted in place of user auth
+  allowCronSecret?: boolean  // X-Cron-Secret accepted in place of user auth
+  parseJson?: boolean  // Parse the body as JSON (default true). Set false for non-JSON payloads.
+  publicCors?: boolean  // Allow any origin, e.g. scripts on deployed landing pages
+  rateLimit?: number  // requests per minute, per IP and path
+  rateLimitByTenant?: boolean  // also apply the plan's api_rate_limit per tenant
+  rateLimitWindowMs?: number
+  // Scopes an API key must hold (see API_KEY_SCOPES). May depend on the body, e.g. per action.
+  // When allowApiKey is set without requiredScopes, only full-access keys are accepted.
+  requiredScopes?: string[] | ((body: any) => string[])
+  // Body schema per action (see schemas.ts). Invalid bodies get a 400 before the handler runs;
+  // the handler sees the coerced body with defaults applied.
+  actions?: ActionSchemas
+  // Reject write requests (see isWriteRequest) from tenants restricted by dunning with a 402
+  // (default true). Disable for endpoints needed to pay, e.g. billing.
+  restrictUnpaid?: boolean
+  // Serve suspended tenants and tenants scheduled for deletion (default false),
+  // e.g. to reactivate them or cancel the deletion
+  allowInactiveTenant?: boolean
 }
 
 type Handler = (ctx: RequestContext) => Promise<Response>
@@ -44,82 +74,183 @@ export function createHandler(handler: Handler, options: HandlerOptions = {}) {
     requireTenant = true,
     allowedRoles,
     allowApiKey = false,
+    requireAdmin = false,
+    allowAdminKey = false,
+    allowCronSecret = false,
+    parseJson = true,
+    publicCors = false,
     rateLimit = 100,
-    rateLimitByTenant = false
+    rateLimitByTenant = false,
+    rateLimitWindowMs = 60000,
+    requiredScopes = ['*'],
+    actions,
+    restrictUnpaid = true,
+    allowInactiveTenant = false
   } = options
 
-  return async (req: Request): Promise<Response> => {
+  const handle = async (req: Request, requestLog: ApiRequestLogEntry): Promise<Response> => {
     // CORS
-    const corsResponse = handleCors(req)
+    const supabase = createServiceClient()
+    if (publicCors && req.method === 'OPTIONS') return new Response('ok', { headers: PUBLIC_CORS_HEADERS })
+    const corsResponse = await handleCors(req, supabase)
     if (corsResponse) return corsResponse
     
-    const corsHeaders = getCorsHeaders(req)
-    const supabase = createServiceClient()
+    const corsHeaders = publicCors ? PUBLIC_CORS_HEADERS : await getCorsHeaders(req, supabase)
     const clientIp = getClientIp(req)
+    const fail = (error: string, status: number, code: string, extra: Record<string, any> = {}) =>
+      new Response(JSON.stringify({ error, code, ...extra }), {
+        status, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
     
     try {
-      // Rate limiting
-      const rateLimitKey = `${clientIp}:${new URL(req.url).pathname}`
-      const rateLimitResult = checkRateLimit(rateLimitKey, rateLimit)
+      // Rate limiting (per IP, before auth)
+      const rateLimitKey = `ip:${clientIp}:${new URL(req.url).pathname}`
+      let rateLimitResult = await checkDistributedRateLimit(supabase, rateLimitKey, rateLimit, rateLimitWindowMs)
       
       if (!rateLimitResult.allowed) {
-        return new Response(JSON.stringify({ error: 'Rate limit exceeded' }), {
-          status: 429,
-          headers: { ...corsHeaders, ...getRateLimitHeaders(rateLimitResult), 'Content-Type': 'application/json' }
-        })
+        return rateLimitExceeded(rateLimitResult, corsHeaders)
+      }
+      
+      // Parse body (empty body = {})
+      let body: any = {}
+      let rawBody = ''
+      if (req.method !== 'GET' && req.method !== 'HEAD') {
+        rawBody = await req.text()
+        if (parseJson && rawBody.trim()) {
+          try {
+            body = JSON.parse(rawBody)
+          } catch {
+            return fail('Request body must be valid JSON', 400, 'INVALID_JSON')
+          }
+          if (!body || typeof body !== 'object' || Array.isArray(body)) {
+            return fail('Request body must be a JSON object', 400, 'INVALID_BODY')
+          }
+        }
+      }
+      
+      // Admin key / cron secret (constant-time)
+      const isAdmin = (requireAdmin || allowAdminKey) &&
+        validateAdminKey(req.headers.get('X-Admin-Key') || body.admin_key)
+      const isCron = allowCronSecret && validateCronSecret(req.headers.get('X-Cron-Secret'))
+      
+      if (requireAdmin && !isAdmin) {
+        return fail('Admin key required', 401, 'ADMIN_KEY_REQUIRED')
       }
       
       // Authentication
       let auth: AuthResult = { user: null, tenant: null, role: null, error: null }
       
-      if (allowApiKey && req.headers.get('X-API-Key')) {
+      const roles = typeof allowedRoles === 'function' ? allowedRoles(body) : allowedRoles
+
+      if (isAdmin || isCron) {
+        // Trusted caller, no user context
+      } else if (allowApiKey && req.headers.get('X-API-Key')) {
         const apiKeyResult = await validateApiKey(req, supabase)
-        if (apiKeyResult.valid) {
-          auth = {
-            user: { id: 'api-key' },
-            tenant: apiKeyResult.tenant,
-            role: 'api',
-            error: null
-          }
-        } else {
-          return new Response(JSON.stringify({ error: apiKeyResult.error }), {
-            status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        if (!apiKeyResult.valid) {
+          return fail(apiKeyResult.error || 'Invalid API key', 401, 'INVALID_API_KEY')
+        }
+        
+        requestLog.apiKeyId = apiKeyResult.keyId || null
+        requestLog.tenantId = apiKeyResult.tenant?.id || null
+        
+        // API keys are bound to one tenant; a conflicting X-Tenant-Id is rejected
+        const requestedTenant = req.headers.get(TENANT_HEADER)?.trim()
+        if (requestedTenant && requestedTenant !== apiKeyResult.tenant?.id && requestedTenant !== apiKeyResult.tenant?.slug) {
+          return fail('API key does not belong to the requested tenant', 403, 'TENANT_MISMATCH')
+        }
+        
+        const needed = typeof requiredScopes === 'function' ? requiredScopes(body) : requiredScopes
+        const missingScopes = getMissingScopes(apiKeyResult.scopes, needed)
+        if (missingScopes.length > 0) {
+          return fail(`API key missing required scope: ${missingScopes.join(', ')}`, 403, 'INSUFFICIENT_SCOPE', {
+            missing_scopes: missingScopes
           })
         }
+        
+        auth = {
+          user: { id: 'api-key' },
+          tenant: apiKeyResult.tenant,
+          role: 'api',
+          error: null,
+          scopes: apiKeyResult.scopes
+        }
       } else if (requireAuth) {
         auth = await authenticateRequest(req, supabase)
         
         if (auth.error) {
-          return new Response(JSON.stringify({ error: auth.error }), {
-            status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-          })
+          return fail(auth.error, auth.status || 401, auth.status === 403 ? 'NOT_A_MEMBER' : 'UNAUTHORIZED')
         }
         
         if (requireTenant && !auth.tenant) {
-          return new Response(JSON.stringify({ error: 'No tenant found. Create one first.' }), {
-            status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-          })
+          return fail('No tenant found. Create one first.', 400, 'NO_TENANT')
         }
         
-        if (allowedRoles && auth.role && !allowedRoles.includes(auth.role)) {
-          return new Response(JSON.stringify({ error: 'Insufficient permissions' }), {
-            status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-          })
+        if (roles && auth.role && !roles.includes(auth.role)) {
+          return fail('Insufficient permissions', 403, 'FORBIDDEN')
+        }
+      } else if (req.headers.get('Authorization')?.startsWith('Bearer ')) {
+        // Optional auth: use the user when the token is valid, otherwise stay anonymous.
+        // A valid user naming a tenant they don't belong to is refused, not made anonymous.
+        const optionalAuth = await authenticateRequest(req, supabase)
+        if (optionalAuth.status === 403) {
+          return fail(optionalAuth.error!, 403, 'NOT_A_MEMBER')
+        }
+        if (!optionalAuth.error) {
+          auth = optionalAuth
+          if (roles && auth.role && !roles.includes(auth.role)) {
+            return fail('Insufficient permissions', 403, 'FORBIDDEN')
+          }
+        }
+      }
+      
+      // Rate limiting (per API key / tenant, plan-driven requests per minute)
+      if (auth.tenant && (requestLog.apiKeyId || rateLimitByTenant)) {
+        const planLimit = await getPlanRateLimit(supabase, auth.tenant.plan, rateLimit)
+        
+        if (planLimit !== -1) {
+          const keys = [
+            ...(requestLog.apiKeyId ? [`key:${requestLog.apiKeyId}`] : []),
+            ...(rateLimitByTenant ? [`tenant:${auth.tenant.id}`] : [])
+          ]
+          
+          for (const key of keys) {
+            const result = await checkDistributedRateLimit(supabase, key, planLimit, 60000)
+            if (!result.allowed) {
+              return rateLimitExceeded(result, corsHeaders)
+            }
+            if (result.remaining < rateLimitResult.remaining) rateLimitResult = result
+          }
         }
       }
       
-      // Parse body
-      let body = {}
-      if (req.method !== 'GET' && req.headers.get('content-type')?.includes('application/json')) {
-        try {
-          body = await req.json()
-        } catch {
-          body = {}
+      // Unpaid after the grace period: read-only until an invoice is paid
+      if (restrictUnpaid && auth.tenant?.dunning_status === 'restricted' &&
+          isWriteRequest(req, body, typeof requiredScopes === 'function' ? requiredScopes(body) : requiredScopes)) {
+        return fail('Payment overdue: changes are disabled until the outstanding invoice is paid', 402, 'PAYMENT_REQUIRED', {
+          billing_status: 'restricted'
+        })
+      }
+      
+      // Suspended: locked out. Scheduled for deletion: read-only, so data can still be exported
+      if (!allowInactiveTenant && auth.tenant?.status === 'suspended') {
+        return fail('This tenant is suspended', 403, 'TENANT_SUSPENDED')
+      }
+      if (!allowInactiveTenant && auth.tenant?.status === 'pending_deletion' &&
+          isWriteRequest(req, body, typeof requiredScopes === 'function' ? requiredScopes(body) : requiredScopes)) {
+        return fail('This tenant is scheduled for deletion: changes are disabled', 403, 'TENANT_PENDING_DELETION')
+      }
+      
+      // Validate body against the action schema
+      if (actions) {
+        const result = validateAction(body, actions)
+        if (!result.valid) {
+          return fail(result.error, result.status, result.code, result.details)
         }
+        body = result.data
       }
       
       // Execute handler
-      const ctx: RequestContext = { req, supabase, auth, body, clientIp, corsHeaders }
+      const ctx: RequestContext = { req, supabase, auth, body, rawBody, clientIp, corsHeaders, isAdmin, isCron }
       const response = await handler(ctx)
       
       // Add CORS headers to response
@@ -131,13 +262,69 @@ export function createHandler(handler: Handler, options: HandlerOptions = {}) {
         status: response.status,
         headers: newHeaders
       })
-      
+    
     } catch (error) {
       console.error('Handler error:', error)
-      return new Response(JSON.stringify({ error: 'Internal server error' }), {
-        status: 500,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return fail('Internal server error', 500, 'INTERNAL_ERROR')
+    }
+  }
+
+  return async (req: Request): Promise<Response> => {
+    const startedAt = Date.now()
+    const requestLog: ApiRequestLogEntry = { apiKeyId: null, tenantId: null }
+    
+    const response = await handle(req, requestLog)
+    
+    if (requestLog.apiKeyId) {
+      logApiRequest(req, requestLog, response.status, Date.now() - startedAt)
     }
+    
+    return response
   }
 }
+
+// Reads stay available to restricted tenants and tenants scheduled for deletion:
+// GET requests, read-only actions and endpoints whose API key scopes are all `:read`
+const READ_ACTION = /^(list|get|describe|check|verify)(_|$)|^(history|request_stats|switch_tenant)$/
+
+function isWriteRequest(req: Request, body: any, scopes: string[]): boolean {
+  if (req.method === 'GET' || req.method === 'HEAD' || req.method === 'OPTIONS') return false
+  if (typeof body?.action === 'string') return !READ_ACTION.test(body.action)
+  return !scopes.every(scope => scope.endsWith(':read'))
+}
+
+interface ApiRequestLogEntry {
+  apiKeyId: string | null
+  tenantId: string | null
+}
+
+// Writes to api_request_log without delaying the response.
+// waitUntil keeps the isolate alive until the insert finishes.
+function logApiRequest(req: Request, entry: ApiRequestLogEntry, status: number, latencyMs: number) {
+  const pending = createServiceClient().from('api_request_log').insert({
+    tenant_id: entry.tenantId,
+    api_key_id: entry.apiKeyId,
+    endpoint: new URL(req.url).pathname,
+    method: req.method,
+    status_code: status,
+    response_time_ms: latencyMs,
+    ip_address: getClientIp(req),
+    user_agent: req.headers.get('User-Agent')
+  }).then(({ error }) => {
+    if (error) console.error('api_request_log insert failed:', error.message)
+  })
+
+  ;(globalThis as any).EdgeRuntime?.waitUntil?.(pending)
+}
+
+function rateLimitExceeded(result: RateLimitResult, corsHeaders: Record<string, string>): Response {
+  return new Response(JSON.stringify({ error: 'Rate limit exceeded', code: 'RATE_LIMITED' }), {
+    status: 429,
+    headers: {
+      ...corsHeaders,
+      ...getRateLimitHeaders(result),
+      'Retry-After': Math.ceil(result.resetIn / 1000).toString(),
+      'Content-Type': 'application/json'
+    }
+  })
+}
@@ -0,0 +1,58 @@
+// =====================================================
+// PLAN PRICES
+// Stripe subscription prices mapped to plans (plan_prices),
+// managed with manage-billing set_plan_price
+// =====================================================
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+export interface PlanPrice {
+  stripe_price_id: string
+  plan: string
+  interval: 'day' | 'week' | 'month' | 'year'
+  currency: string
+  unit_amount: number | null
+  is_active: boolean
+}
+
+// Plan for a subscription price. Archived prices still count: existing
+// subscriptions keep them until they change plans.
+export async function getPlanForPrice(supabase: SupabaseClient, priceId: string): Promise<string | null> {
+  const { data } = await supabase
+    .from('plan_prices')
+    .select('plan')
+    .eq('stripe_price_id', priceId)
+    .maybeSingle()
+
+  return data?.plan || null
+}
+
+// Active price for a plan (default: monthly, usd)
+export async function findPlanPrice(
+  supabase: SupabaseClient,
+  plan: string,
+  options: { interval?: string; currency?: string } = {}
+): Promise<PlanPrice | null> {
+  const { data } = await supabase
+    .from('plan_prices')
+    .select('stripe_price_id, plan, interval, currency, unit_amount, is_active')
+    .eq('plan', plan)
+    .eq('interval', options.interval || 'month')
+    .eq('currency', (options.currency || 'usd').toLowerCase())
+    .eq('is_active', true)
+    .maybeSingle()
+
+  return data
+}
+
+// Active price by Stripe id, e.g. to check a price sent by a client
+export async function getActivePlanPrice(supabase: SupabaseClient, priceId: string): Promise<PlanPrice | null> {
+  const { data } = await supabase
+    .from('plan_prices')
+    .select('stripe_price_id, plan, interval, currency, unit_amount, is_active')
+    .eq('stripe_price_id', priceId)
+    .eq('is_active', true)
+    .maybeSingle()
+
+  return data
+}
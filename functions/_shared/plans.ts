@@ -0,0 +1,255 @@
+// =====================================================
+// PLAN CATALOG
+// Plans, features, limits, prices and entitlements
+// (plans, features, plan_limits, plan_prices). Every limit
+// check goes through checkPlanLimit, which checks and holds
+// quota atomically in SQL (reserve_usage_quota). A limit with a
+// hard_limit is soft: usage above it is allowed up to the ceiling
+// and recorded as overage (usage_overages). Features with a Stripe
+// metered price bill overage through report_usage instead.
+// =====================================================
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+export interface Feature {
+  id: string
+  name: string
+  description: string | null
+  unit: string | null
+  source: 'usage' | 'count'
+  count_table: string | null
+  count_exclude_status: string | null
+}
+
+export interface PlanLimit {
+  limit_value: number  // -1 = unlimited
+  period: string       // 'total', 'minute', 'daily', 'month', 'rolling_30d', 'billing_period'
+  hard_limit: number | null           // null = limit_value is hard, -1 = overage without a ceiling
+  overage_unit_amount: number | null  // Per unit, smallest currency unit
+  overage_currency: string
+}
+
+export interface LimitCheck {
+  allowed: boolean
+  allowed_with_overage: boolean  // Allowed, but above the soft limit
+  overage: number                // Units of this quantity above the soft limit
+  feature: string
+  current: number
+  reserved: number     // Held by pending reservations
+  limit: number
+  hard_limit: number | null
+  remaining: number    // Up to the soft limit
+  period: string
+  period_start?: string  // In the tenant's timezone / billing cycle
+  plan: string
+  upgrade_required: boolean
+  reservation_id?: string
+  expires_at?: string
+}
+
+// 'check' only looks; 'reserve' holds the quantity until commitUsage /
+// releaseUsage (or ttlSeconds); 'consume' records it right away
+export type QuotaMode = 'check' | 'reserve' | 'consume'
+
+export async function getPlanLimit(supabase: SupabaseClient, plan: string, feature: string): Promise<PlanLimit | null> {
+  const { data } = await supabase
+    .from('plan_limits')
+    .select('limit_value, period, hard_limit, overage_unit_amount, overage_currency')
+    .eq('plan', plan)
+    .eq('feature', feature)
+    .maybeSingle()
+
+  return data
+}
+
+// Current usage of a feature: rows in the feature's count_table, or the
+// usage rollups for the limit period ('usage' features)
+export async function getFeatureUsage(
+  supabase: SupabaseClient,
+  tenantId: string,
+  feature: string,
+  period: string
+): Promise<number> {
+  const { data: definition } = await supabase
+    .from('features')
+    .select('source, count_table, count_exclude_status')
+    .eq('id', feature)
+    .maybeSingle()
+
+  if (definition?.source === 'count') {
+    let query = supabase
+      .from(definition.count_table)
+      .select('*', { count: 'exact', head: true })
+      .eq('tenant_id', tenantId)
+
+    if (definition.count_exclude_status) query = query.neq('status', definition.count_exclude_status)
+
+    const { count } = await query
+    return count || 0
+  }
+
+  const { data, error } = await supabase.rpc('get_period_usage', {
+    p_tenant_id: tenantId,
+    p_feature: feature,
+    p_period: period
+  })
+
+  if (error) throw error
+  return Number(data) || 0
+}
+
+// Whether the tenant can use `quantity` more of a feature, counting pending
+// reservations. Features without a limit for the plan are unlimited; above
+// a soft limit the check is allowed_with_overage up to the hard ceiling.
+export async function checkPlanLimit(
+  supabase: SupabaseClient,
+  options: {
+    tenantId: string
+    plan: string
+    feature: string
+    quantity?: number
+    mode?: QuotaMode
+    ttlSeconds?: number
+    userId?: string | null             // consume: recorded on the usage event
+    metadata?: Record<string, unknown>
+  }
+): Promise<LimitCheck> {
+  const { tenantId, plan, feature, quantity = 1, mode = 'check', ttlSeconds = 300 } = options
+  const limit = await getPlanLimit(supabase, plan, feature)
+  const unlimited = !limit || limit.limit_value === -1
+
+  if (unlimited && mode === 'check') {
+    return {
+      allowed: true, allowed_with_overage: false, overage: 0, feature, current: 0, reserved: 0,
+      limit: -1, hard_limit: null, remaining: -1, period: 'unlimited', plan, upgrade_required: false
+    }
+  }
+
+  const period = limit?.period || 'month'
+  const { data: definition } = await supabase.from('features').select('source').eq('id', feature).maybeSingle()
+
+  const { data: quota, error } = await supabase.rpc('reserve_usage_quota', {
+    p_tenant_id: tenantId,
+    p_feature: feature,
+    p_quantity: quantity,
+    p_limit: unlimited ? -1 : limit!.limit_value,
+    p_hard_limit: unlimited ? null : limit!.hard_limit,
+    p_period: period,
+    p_mode: mode,
+    p_counted: definition?.source === 'count' ? await getFeatureUsage(supabase, tenantId, feature, period) : null,
+    p_ttl_seconds: ttlSeconds,
+    p_user_id: options.userId ?? null,
+    p_metadata: options.metadata ?? {}
+  })
+
+  if (error) throw error
+
+  return {
+    allowed: quota.allowed, allowed_with_overage: quota.allowed_with_overage, overage: quota.overage,
+    feature, current: quota.current, reserved: quota.reserved, limit: quota.limit, hard_limit: quota.hard_limit,
+    remaining: quota.remaining, period: unlimited ? 'unlimited' : period,
+    ...(!unlimited && { period_start: quota.period_start }),
+    plan, upgrade_required: !quota.allowed,
+    ...(quota.reservation_id && { reservation_id: quota.reservation_id, expires_at: quota.expires_at })
+  }
+}
+
+// Records a usage event and adds it to the usage record, rollups and overage
+// in one transaction; returns the event id and its units above the soft limit
+export async function recordUsage(
+  supabase: SupabaseClient,
+  options: { tenantId: string; feature: string; quantity: number; userId?: string | null; metadata?: Record<string, unknown> }
+): Promise<{ event_id: string; overage: number }> {
+  const { data, error } = await supabase.rpc('record_usage', {
+    p_tenant_id: options.tenantId,
+    p_feature: options.feature,
+    p_quantity: options.quantity,
+    p_user_id: options.userId ?? null,
+    p_metadata: options.metadata ?? {}
+  })
+
+  if (error) throw error
+  return data
+}
+
+// Records a reservation's usage (at most the reserved quantity)
+export async function commitUsage(
+  supabase: SupabaseClient,
+  tenantId: string,
+  reservationId: string,
+  options: { quantity?: number; userId?: string | null; metadata?: Record<string, unknown> } = {}
+): Promise<{ committed: boolean; status: string; feature?: string; quantity?: number; overage?: number }> {
+  const { data, error } = await supabase.rpc('commit_usage', {
+    p_tenant_id: tenantId,
+    p_reservation_id: reservationId,
+    p_quantity: options.quantity ?? null,
+    p_user_id: options.userId ?? null,
+    p_metadata: options.metadata ?? {}
+  })
+
+  if (error) throw error
+  return data
+}
+
+export async function releaseUsage(
+  supabase: SupabaseClient,
+  tenantId: string,
+  reservationId: string
+): Promise<{ released: boolean; status: string; feature?: string }> {
+  const { data, error } = await supabase.rpc('release_usage', {
+    p_tenant_id: tenantId,
+    p_reservation_id: reservationId
+  })
+
+  if (error) throw error
+  return data
+}
+
+// On/off entitlement from plans.entitlements; missing keys are off
+export async function hasEntitlement(supabase: SupabaseClient, plan: string, entitlement: string): Promise<boolean> {
+  const { data } = await supabase
+    .from('plans')
+    .select('entitlements')
+    .eq('id', plan)
+    .maybeSingle()
+
+  return data?.entitlements?.[entitlement] === true
+}
+
+// Plans with their limits and active prices, in display order
+export async function getPlanCatalog(supabase: SupabaseClient, options: { includeHidden?: boolean } = {}) {
+  let query = supabase
+    .from('plans')
+    .select('id, name, description, sort_order, is_public, is_active, entitlements, plan_limits(feature, limit_value, period, hard_limit, overage_unit_amount, overage_currency), plan_prices(stripe_price_id, interval, currency, unit_amount, is_active)')
+    .order('sort_order')
+
+  if (!options.includeHidden) query = query.eq('is_public', true).eq('is_active', true)
+
+  const [{ data: plans, error }, { data: features }] = await Promise.all([
+    query,
+    supabase.from('features').select('id, name, description, unit, source').order('id')
+  ])
+
+  if (error) throw error
+
+  return {
+    plans: (plans || []).map((plan: any) => ({
+      ...plan,
+      limits: Object.fromEntries(
+        (plan.plan_limits || []).map((l: any) => [l.feature, {
+          limit: l.limit_value,
+          period: l.period,
+          ...(l.hard_limit !== null && {
+            hard_limit: l.hard_limit,
+            overage_unit_amount: l.overage_unit_amount,
+            overage_currency: l.overage_currency
+          })
+        }])
+      ),
+      prices: (plan.plan_prices || []).filter((p: any) => options.includeHidden || p.is_active),
+      plan_limits: undefined,
+      plan_prices: undefined
+    })),
+    features: features || []
+  }
+}
@@ -0,0 +1,378 @@
+// =====================================================
+// PRIVACY (GDPR)
+// Exports everything stored about a tenant or one user as a ZIP
+// (manifest.json + one JSON-lines file per table) or a single
+// JSON-lines file, uploaded to the private 'data-exports'
+// bucket and served through short-lived signed URLs. Files are
+// deleted after EXPORT_TTL_DAYS. Erasure removes the subject's
+// export files, then anonymizes their rows (anonymize_subject);
+// billing records stay, unlinked from the person.
+// =====================================================
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { zipSync, strToU8 } from 'https://esm.sh/fflate@0.8.2'
+
+export const EXPORT_BUCKET = 'data-exports'
+export const EXPORT_TTL_DAYS = 7
+export const SIGNED_URL_TTL_SECONDS = 60 * 60
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const PAGE_SIZE = 1000
+const STUCK_AFTER_MS = 60 * 60 * 1000   // A running export older than this is retried
+const EXPORTS_PER_RUN = 5
+
+export interface PrivacyRequest {
+  id: string
+  tenant_id: string | null
+  scope: 'tenant' | 'user'
+  subject_user_id: string | null
+  subject_email: string | null
+  format: 'zip' | 'jsonl'
+}
+
+interface Subject {
+  userId: string | null
+  email: string | null
+}
+
+type Row = Record<string, unknown>
+type ExportData = Record<string, Row[]>
+
+// Columns left out of exports: secrets, not personal data
+const INVITE_COLUMNS = 'id, tenant_id, email, role, invited_by, expires_at, accepted_at, created_at'
+const SUB_SAAS_USER_COLUMNS = 'id, sub_saas_id, auth_user_id, email, name, avatar_url, email_verified, role, stripe_customer_id, subscription_status, subscription_plan, metadata, last_login_at, created_at, updated_at'
+
+// ilike without wildcards: case-insensitive equality
+const likeExact = (value: string) => value.replace(/[%_\\]/g, '\\$&')
+
+// Rows found by several queries, once each
+const mergeById = (rows: Row[]) => [...new Map(rows.map(row => [row.id, row])).values()]
+
+// Reads every page of a query
+async function fetchAll(
+  page: (from: number, to: number) => PromiseLike<{ data: unknown[] | null; error: { message: string } | null }>
+): Promise<Row[]> {
+  const rows: Row[] = []
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await page(from, from + PAGE_SIZE - 1)
+    if (error) throw new Error(error.message)
+    rows.push(...((data || []) as Row[]))
+    if (!data || data.length < PAGE_SIZE) return rows
+  }
+}
+
+// Rows of one app's ss_* tables: all of them, or the subject's
+async function collectSubSaasTables(
+  supabase: SupabaseClient,
+  appIds: string[],
+  data: ExportData,
+  subject?: { email: string | null; ids: string[] }
+): Promise<void> {
+  for (const appId of appIds) {
+    const { data: tables, error } = await supabase.rpc('list_sub_saas_tables', { sub_saas_uuid: appId })
+    if (error) throw new Error(error.message)
+
+    for (const { table_name } of tables || []) {
+      const rows = await fetchAll((from) => supabase.rpc('export_sub_saas_rows', {
+        p_table: table_name,
+        p_email: subject?.email ?? null,
+        p_ids: subject ? subject.ids : null,
+        p_limit: PAGE_SIZE,
+        p_offset: from
+      }))
+      if (rows.length) data[table_name] = rows
+    }
+  }
+}
+
+async function collectTenant(supabase: SupabaseClient, tenantId: string): Promise<ExportData> {
+  const byTenant = (table: string, columns = '*') =>
+    fetchAll((from, to) => supabase.from(table).select(columns).eq('tenant_id', tenantId).order('created_at').range(from, to))
+
+  const { data: tenant, error } = await supabase.from('tenants').select('*').eq('id', tenantId).single()
+  if (error || !tenant) throw new Error(`Tenant not found: ${tenantId}`)
+
+  const data: ExportData = {
+    tenants: [tenant],
+    user_tenants: await byTenant('user_tenants'),
+    invites: await byTenant('invites', INVITE_COLUMNS),
+    activity_log: await byTenant('activity_log'),
+    usage_events: await byTenant('usage_events'),
+    email_log: await fetchAll((from, to) => supabase.from('email_log').select('*').eq('tenant_id', tenantId).order('sent_at').range(from, to)),
+    purchases: await byTenant('purchases'),
+    sub_saas_apps: await byTenant('sub_saas_apps')
+  }
+
+  const appIds = data.sub_saas_apps.map(app => app.id as string)
+  data.sub_saas_users = appIds.length
+    ? await fetchAll((from, to) => supabase.from('sub_saas_users').select(SUB_SAAS_USER_COLUMNS).in('sub_saas_id', appIds).order('created_at').range(from, to))
+    : []
+
+  await collectSubSaasTables(supabase, appIds, data)
+  return data
+}
+
+// One person in one tenant, or in all tenants (tenantId null)
+async function collectUser(supabase: SupabaseClient, tenantId: string | null, subject: Subject): Promise<ExportData> {
+  const { userId, email } = subject
+  const inTenant = (query: any) => tenantId ? query.eq('tenant_id', tenantId) : query
+  const byUser = (table: string) => userId
+    ? fetchAll((from, to) => inTenant(supabase.from(table).select('*').eq('user_id', userId)).order('created_at').range(from, to))
+    : Promise.resolve([])
+
+  const data: ExportData = {}
+
+  if (userId) {
+    const { data: { user } } = await supabase.auth.admin.getUserById(userId)
+    if (user) {
+      data.profile = [{
+        id: user.id,
+        email: user.email,
+        phone: user.phone,
+        created_at: user.created_at,
+        last_sign_in_at: user.last_sign_in_at,
+        user_metadata: user.user_metadata
+      }]
+    }
+  }
+
+  data.user_tenants = await byUser('user_tenants')
+  data.activity_log = await byUser('activity_log')
+  data.usage_events = await byUser('usage_events')
+  data.purchases = await byUser('purchases')
+
+  if (email) {
+    data.invites = await fetchAll((from, to) => inTenant(supabase.from('invites').select(INVITE_COLUMNS).ilike('email', likeExact(email))).order('created_at').range(from, to))
+    data.email_log = await fetchAll((from, to) => inTenant(supabase.from('email_log').select('*').ilike('to_email', likeExact(email))).order('sent_at').range(from, to))
+  }
+
+  // Sub-SaaS accounts of this person, by email or by platform account
+  const endUsers = (match: (query: any) => any) => fetchAll((from, to) => {
+    let query = match(supabase.from('sub_saas_users').select(`${SUB_SAAS_USER_COLUMNS}, sub_saas_apps!inner(tenant_id)`))
+    if (tenantId) query = query.eq('sub_saas_apps.tenant_id', tenantId)
+    return query.order('created_at').range(from, to)
+  })
+  const accounts = mergeById([
+    ...(email ? await endUsers(query => query.ilike('email', likeExact(email))) : []),
+    ...(userId ? await endUsers(query => query.eq('auth_user_id', userId)) : [])
+  ])
+  data.sub_saas_users = accounts.map(({ sub_saas_apps, ...account }) => account)
+
+  // ss_* rows in the tenant's apps, or (all tenants) in the apps of the
+  // person's tenants and the apps they are an end user of
+  const tenantIds = tenantId ? [tenantId] : data.user_tenants.map(membership => membership.tenant_id as string)
+  const { data: apps } = tenantIds.length
+    ? await supabase.from('sub_saas_apps').select('id').in('tenant_id', tenantIds)
+    : { data: [] }
+  const appIds = [...new Set([
+    ...(apps || []).map((app: any) => app.id as string),
+    ...data.sub_saas_users.map(account => account.sub_saas_id as string)
+  ])]
+
+  const ids = [...data.sub_saas_users.map(account => account.id as string), ...(userId ? [userId] : [])]
+  await collectSubSaasTables(supabase, appIds, data, { email, ids })
+
+  return data
+}
+
+// ZIP: manifest.json plus <table>.jsonl. JSON lines: a manifest line, then
+// one {"table", "row"} line per row.
+export function buildBundle(format: 'zip' | 'jsonl', manifest: Row, data: ExportData): Uint8Array {
+  const tables = Object.entries(data).filter(([, rows]) => rows.length)
+
+  if (format === 'jsonl') {
+    const lines = [JSON.stringify({ manifest })]
+    for (const [table, rows] of tables) {
+      for (const row of rows) lines.push(JSON.stringify({ table, row }))
+    }
+    return strToU8(lines.join('\n') + '\n')
+  }
+
+  const files: Record<string, Uint8Array> = { 'manifest.json': strToU8(JSON.stringify(manifest, null, 2)) }
+  for (const [table, rows] of tables) {
+    files[`${table}.jsonl`] = strToU8(rows.map(row => JSON.stringify(row)).join('\n') + '\n')
+  }
+  return zipSync(files)
+}
+
+// Export files live under the tenant's folder ('platform' for exports across all tenants)
+function exportPath(request: PrivacyRequest): string {
+  return `${request.tenant_id || 'platform'}/${request.id}.${request.format}`
+}
+
+// Runs one export request and records the outcome on its row
+export async function runExport(supabase: SupabaseClient, request: PrivacyRequest): Promise<{ status: string; error?: string }> {
+  // Claimed in one update, so the request handler and the cron (or two
+  // cron runs) never run the same export; running ones only once stuck
+  const stuckBefore = new Date(Date.now() - STUCK_AFTER_MS).toISOString()
+  const { data: claimed, error: claimError } = await supabase
+    .from('privacy_requests')
+    .update({ status: 'running', started_at: new Date().toISOString(), error: null })
+    .eq('id', request.id)
+    .or(`status.in.(queued,failed),and(status.eq.running,started_at.lt.${stuckBefore})`)
+    .select('id')
+
+  if (claimError) return { status: 'failed', error: claimError.message }
+  if (!claimed?.length) return { status: 'skipped' }
+
+  try {
+    const subject: Subject = { userId: request.subject_user_id, email: request.subject_email }
+    const data = request.scope === 'tenant'
+      ? await collectTenant(supabase, request.tenant_id!)
+      : await collectUser(supabase, request.tenant_id, subject)
+
+    const rowCounts = Object.fromEntries(Object.entries(data).map(([table, rows]) => [table, rows.length]))
+    const manifest = {
+      request_id: request.id,
+      scope: request.scope,
+      tenant_id: request.tenant_id,
+      subject: request.scope === 'user' ? { user_id: subject.userId, email: subject.email } : null,
+      format: request.format,
+      generated_at: new Date().toISOString(),
+      row_counts: rowCounts
+    }
+
+    const bundle = buildBundle(request.format, manifest, data)
+    const path = exportPath(request)
+
+    const { error: uploadError } = await supabase.storage
+      .from(EXPORT_BUCKET)
+      .upload(path, bundle, {
+        contentType: request.format === 'zip' ? 'application/zip' : 'application/x-ndjson',
+        upsert: true
+      })
+    if (uploadError) throw new Error(uploadError.message)
+
+    await supabase
+      .from('privacy_requests')
+      .update({
+        status: 'completed',
+        storage_path: path,
+        file_size: bundle.byteLength,
+        row_counts: rowCounts,
+        expires_at: new Date(Date.now() + EXPORT_TTL_DAYS * DAY_MS).toISOString(),
+        completed_at: new Date().toISOString()
+      })
+      .eq('id', request.id)
+
+    return { status: 'completed' }
+  } catch (error) {
+    console.error(`Export ${request.id} failed:`, error.message)
+
+    await supabase
+      .from('privacy_requests')
+      .update({ status: 'failed', error: error.message, completed_at: new Date().toISOString() })
+      .eq('id', request.id)
+
+    return { status: 'failed', error: error.message }
+  }
+}
+
+export async function createExportUrl(supabase: SupabaseClient, path: string): Promise<string | null> {
+  const { data, error } = await supabase.storage.from(EXPORT_BUCKET).createSignedUrl(path, SIGNED_URL_TTL_SECONDS)
+  if (error) console.error(`Signed URL for ${path} failed:`, error.message)
+  return data?.signedUrl || null
+}
+
+// Deletes export files and marks their requests expired
+async function expireExports(supabase: SupabaseClient, requests: { id: string; storage_path: string }[]): Promise<number> {
+  if (!requests.length) return 0
+
+  const { error } = await supabase.storage.from(EXPORT_BUCKET).remove(requests.map(r => r.storage_path))
+  if (error) throw new Error(error.message)
+
+  await supabase
+    .from('privacy_requests')
+    .update({ status: 'expired', storage_path: null })
+    .in('id', requests.map(r => r.id))
+
+  return requests.length
+}
+
+export interface ExportRunResult {
+  processed: { request_id: string; status: string; error?: string }[]
+  expired: number
+}
+
+// Cron: removes expired files, then runs queued (and stuck) exports.
+// With requestId only that export runs.
+export async function processExports(supabase: SupabaseClient, options: { requestId?: string } = {}): Promise<ExportRunResult> {
+  const { data: due } = await supabase
+    .from('privacy_requests')
+    .select('id, storage_path')
+    .eq('status', 'completed')
+    .lt('expires_at', new Date().toISOString())
+    .not('storage_path', 'is', null)
+
+  const expired = await expireExports(supabase, due || [])
+
+  let query = supabase
+    .from('privacy_requests')
+    .select('id, tenant_id, scope, subject_user_id, subject_email, format')
+    .eq('type', 'export')
+
+  query = options.requestId
+    ? query.eq('id', options.requestId).in('status', ['queued', 'running', 'failed'])
+    : query
+      .or(`status.eq.queued,and(status.eq.running,started_at.lt.${new Date(Date.now() - STUCK_AFTER_MS).toISOString()})`)
+      .order('created_at')
+      .limit(EXPORTS_PER_RUN)
+
+  const { data: requests, error } = await query
+  if (error) throw error
+
+  const processed: ExportRunResult['processed'] = []
+  for (const request of requests || []) {
+    processed.push({ request_id: request.id, ...await runExport(supabase, request as PrivacyRequest) })
+  }
+
+  return { processed, expired }
+}
+
+// Every export file of a tenant (tenant purge)
+export async function listTenantExportFiles(supabase: SupabaseClient, tenantId: string): Promise<string[]> {
+  const { data, error } = await supabase.storage.from(EXPORT_BUCKET).list(tenantId, { limit: 1000 })
+  if (error) throw new Error(error.message)
+  return (data || []).map(file => `${tenantId}/${file.name}`)
+}
+
+export async function removeExportFiles(supabase: SupabaseClient, paths: string[]): Promise<void> {
+  if (!paths.length) return
+  const { error } = await supabase.storage.from(EXPORT_BUCKET).remove(paths)
+  if (error) throw new Error(error.message)
+}
+
+// Erases one person in one tenant (or all tenants): their export files
+// first, then their rows. Returns rows changed per table.
+export async function eraseSubject(
+  supabase: SupabaseClient,
+  tenantId: string | null,
+  subject: Subject
+): Promise<{ files_removed: number; anonymized: Record<string, number> }> {
+  // Exports about the subject, by email or by user id
+  const subjectExports = (match: (query: any) => any) => fetchAll((from, to) => {
+    let query = match(supabase
+      .from('privacy_requests')
+      .select('id, storage_path')
+      .eq('type', 'export')
+      .not('storage_path', 'is', null))
+    if (tenantId) query = query.eq('tenant_id', tenantId)
+    return query.order('created_at').range(from, to)
+  })
+  const exports = mergeById([
+    ...(subject.email ? await subjectExports(query => query.ilike('subject_email', likeExact(subject.email!))) : []),
+    ...(subject.userId ? await subjectExports(query => query.eq('subject_user_id', subject.userId)) : [])
+  ])
+
+  const filesRemoved = await expireExports(supabase, exports as { id: string; storage_path: string }[])
+
+  const { data: anonymized, error: eraseError } = await supabase.rpc('anonymize_subject', {
+    p_tenant_id: tenantId,
+    p_user_id: subject.userId,
+    p_email: subject.email
+  })
+  if (eraseError) throw new Error(eraseError.message)
+
+  return { files_removed: filesRemoved, anonymized: anonymized || {} }
+}
@@ -0,0 +1,1143 @@
+// =====================================================
+// REQUEST SCHEMAS
+// Per-action body schemas for Edge Functions
+// Validated by createHandler (see validation.ts) and turned
+// into MCP tool inputSchemas by toToolInputSchema.
+// No imports: mcp-server copies this file at build time
+// (npm run sync-schemas).
+// =====================================================
+
+export type FieldType = 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object'
+
+// A JSON Schema subset. Omitting `type` accepts any JSON value.
+export interface FieldSchema {
+  type?: FieldType
+  description?: string
+  enum?: string[]
+  format?: 'email' | 'uuid' | 'uri' | 'date-time'
+  pattern?: string
+  minLength?: number
+  maxLength?: number
+  minimum?: number
+  maximum?: number
+  minItems?: number
+  items?: FieldSchema
+  properties?: Record<string, FieldSchema>
+  required?: string[]
+  default?: unknown
+}
+
+export interface ActionSchema {
+  description?: string
+  properties?: Record<string, FieldSchema>
+  required?: string[]
+  requireAny?: string[]  // At least one of these must be present
+  example?: Record<string, unknown>  // Returned with validation errors
+}
+
+export type ActionSchemas = Record<string, ActionSchema>
+
+export type ToolInputSchema = {
+  type: 'object'
+  properties: Record<string, FieldSchema>
+  required?: string[]
+}
+
+// ----- SHARED FIELDS -----
+const uuid = (description: string): FieldSchema => ({ type: 'string', format: 'uuid', description })
+const text = (description: string, maxLength = 255): FieldSchema => ({ type: 'string', description, maxLength })
+const flag = (description: string): FieldSchema => ({ type: 'boolean', description })
+const url = (description: string): FieldSchema => ({ type: 'string', format: 'uri', description })
+const stringList = (description: string): FieldSchema => ({ type: 'array', items: { type: 'string' }, description })
+
+const TENANT_ID = uuid('Tenant UUID (admin key callers)')
+const SUB_SAAS_ID = uuid('Sub-SaaS app UUID')
+const TABLE_NAME: FieldSchema = {
+  type: 'string', pattern: '^[a-z_][a-z0-9_]*$', maxLength: 63,
+  description: 'Table name (lowercase with underscores)'
+}
+const COLUMNS: FieldSchema = {
+  type: 'array',
+  minItems: 1,
+  description: 'Column definitions',
+  items: {
+    type: 'object',
+    required: ['name', 'type'],
+    properties: {
+      name: { type: 'string', pattern: '^[a-z_][a-z0-9_]*$' },
+      type: { type: 'string', description: 'Postgres type, e.g. TEXT, UUID, TIMESTAMPTZ' },
+      primary: { type: 'boolean' },
+      nullable: { type: 'boolean' },
+      unique: { type: 'boolean' },
+      default: { type: 'string', description: 'SQL default expression' },
+      references: { type: 'string', description: 'e.g. tenants(id)' },
+      on_delete: { type: 'string', enum: ['CASCADE', 'SET NULL', 'RESTRICT', 'NO ACTION'] },
+      check: { type: 'string', description: 'CHECK constraint expression' }
+    }
+  }
+}
+const JOB_NAME: FieldSchema = {
+  type: 'string', pattern: '^[a-z0-9_-]+$', maxLength: 100,
+  description: 'Job name (lowercase alphanumeric with hyphens/underscores)'
+}
+const FUNCTION_NAME: FieldSchema = {
+  type: 'string', pattern: '^[a-z0-9-]+$', maxLength: 100,
+  description: 'Function name (slug format)'
+}
+const SECRET_NAME: FieldSchema = {
+  type: 'string', pattern: '^[A-Za-z0-9_.-]+$', maxLength: 100,
+  description: 'Secret name'
+}
+
+// ----- MANAGE API KEYS -----
+export const MANAGE_API_KEYS_SCHEMAS: ActionSchemas = {
+  list: {
+    description: 'List API keys',
+    properties: { include_revoked: { ...flag('Include revoked keys'), default: false } }
+  },
+  request_stats: {
+    description: 'Per-key request counts, error rates and p95 latency',
+    properties: {
+      key_id: uuid('Only report this key'),
+      start_date: { type: 'string', format: 'date-time', description: 'Range start (default: 7 days ago)' },
+      end_date: { type: 'string', format: 'date-time', description: 'Range end (default: now)' }
+    }
+  },
+  revoke: {
+    description: 'Revoke a key immediately',
+    properties: { key_id: uuid('API key ID'), reason: text('Revocation reason', 500) },
+    required: ['key_id']
+  },
+  rotate: {
+    description: 'Issue a new secret; the old key stays valid for overlap_hours',
+    properties: {
+      key_id: uuid('API key ID'),
+      overlap_hours: {
+        type: 'number', minimum: 0, maximum: 720, default: 24,
+        description: 'Hours the old key stays valid (0 = revoke now)'
+      }
+    },
+    required: ['key_id']
+  },
+  update_scopes: {
+    description: 'Replace the scopes of a key',
+    properties: { key_id: uuid('API key ID'), scopes: { ...stringList('New scopes'), minItems: 1 } },
+    required: ['key_id', 'scopes']
+  },
+  set_ip_allowlist: {
+    description: 'Restrict a key to IPs or CIDR ranges',
+    properties: { key_id: uuid('API key ID'), ip_allowlist: stringList('IPs or CIDR ranges, empty = any IP') },
+    required: ['key_id', 'ip_allowlist']
+  }
+}
+
+// ----- MANAGE BILLING -----
+const PLAN_ID: FieldSchema = { type: 'string', pattern: '^[a-z0-9_-]+$', maxLength: 50, description: 'Plan ID, e.g. pro' }
+const PRICE_INTERVAL: FieldSchema = { type: 'string', enum: ['day', 'week', 'month', 'year'] }
+const STRIPE_EVENT_STATUS: FieldSchema = {
+  type: 'string', enum: ['pending', 'processing', 'processed', 'skipped', 'failed', 'dead_letter']
+}
+export const MANAGE_BILLING_SCHEMAS: ActionSchemas = {
+  create_product: {
+    description: 'Create a one-time product with a Stripe price (admin)',
+    properties: {
+      name: text('Product name'),
+      description: text('Product description', 2000),
+      price: { type: 'number', minimum: 0.5, description: 'Price in major units, e.g. 9.99' },
+      currency: { type: 'string', minLength: 3, maxLength: 3, description: 'ISO currency code (default: usd)' },
+      metadata: { type: 'object', description: 'Extra product metadata' },
+      images: stringList('Image URLs')
+    },
+    required: ['name', 'price']
+  },
+  update_product: {
+    description: 'Update a product (admin)',
+    properties: {
+      product_id: uuid('Product UUID'),
+      name: text('Product name'),
+      description: text('Product description', 2000),
+      active: flag('Whether the product can be purchased'),
+      metadata: { type: 'object', description: 'Extra product metadata' }
+    },
+    required: ['product_id']
+  },
+  archive_product: {
+    description: 'Archive a product (admin)',
+    properties: { product_id: uuid('Product UUID') },
+    required: ['product_id']
+  },
+  list_products: { description: 'List active one-time products' },
+  purchase_product: {
+    description: 'Start a Stripe checkout for a product',
+    properties: {
+      product_id: uuid('Product UUID'),
+      success_url: url('Redirect after payment'),
+      cancel_url: url('Redirect after cancel'),
+      quantity: { type: 'integer', minimum: 1, description: 'Quantity (default: 1)' }
+    },
+    required: ['product_id']
+  },
+  get_purchases: {
+    description: 'List purchases for the tenant or user',
+    properties: { tenant_id: TENANT_ID }
+  },
+  verify_purchase: {
+    description: 'Confirm a checkout session was paid',
+    properties: { session_id: text('Stripe checkout session ID') },
+    required: ['session_id']
+  },
+  get_status: { description: 'Current subscription status, including dunning (grace period / restricted)' },
+  change_plan: {
+    description: 'Switch the subscription to another plan',
+    properties: {
+      plan: text('New plan, e.g. pro (see list_plan_prices)'),
+      interval: { ...PRICE_INTERVAL, description: 'Billing interval (default: the current one)' }
+    },
+    required: ['plan']
+  },
+  cancel: { description: 'Cancel at the end of the billing period' },
+  reactivate: { description: 'Undo a pending cancellation' },
+  update_payment_method: {
+    description: 'Set the default payment method',
+    properties: { payment_method_id: text('Stripe payment method ID') },
+    required: ['payment_method_id']
+  },
+  get_invoices: { description: 'Recent invoices, with metered line items reconciled against reported usage' },
+  list_metered_prices: { description: 'Features billed through Stripe metered prices, per plan' },
+  set_metered_price: {
+    description: 'Bill usage of a feature above its plan limit through a Stripe metered price (admin)',
+    properties: {
+      plan: text('Plan, e.g. starter'),
+      feature: text('plan_limits feature, e.g. api_calls'),
+      stripe_price_id: text('Stripe metered price ID (aggregate_usage: last_during_period)'),
+      is_active: flag('Report usage for this price (default: true)')
+    },
+    required: ['plan', 'feature', 'stripe_price_id']
+  },
+  remove_metered_price: {
+    description: 'Stop metering a feature for a plan (admin)',
+    properties: { plan: text('Plan'), feature: text('Feature') },
+    required: ['plan', 'feature']
+  },
+  report_usage: {
+    description: 'Report usage overage to Stripe now (admin; runs hourly via cron)',
+    properties: {
+      tenant_id: TENANT_ID,
+      dry_run: flag('Show what would be reported without calling Stripe')
+    }
+  },
+  list_usage_reports: {
+    description: 'Usage reports sent to Stripe (admin: any tenant)',
+    properties: {
+      tenant_id: TENANT_ID,
+      feature: text('Only this feature'),
+      status: { type: 'string', enum: ['reported', 'failed'], description: 'Only reports with this status' },
+      limit: { type: 'integer', minimum: 1, maximum: 500, default: 50, description: 'Max rows (default: 50)' }
+    }
+  },
+  list_overages: {
+    description: 'Usage above soft limits per limit period, for invoicing (admin: any tenant)',
+    properties: {
+      tenant_id: TENANT_ID,
+      feature: text('Only this feature'),
+      limit: { type: 'integer', minimum: 1, maximum: 500, default: 50, description: 'Max rows (default: 50)' }
+    }
+  },
+  list_plans: {
+    description: 'Plan catalog for pricing pages: plans with limits, prices and entitlements (no sign-in needed)',
+    properties: { include_hidden: flag('Include private and inactive plans (admin)') }
+  },
+  set_plan: {
+    description: 'Create or update a plan (admin). is_active: false stops selling it and archives its prices.',
+    properties: {
+      plan: PLAN_ID,
+      name: text('Display name (required for a new plan)'),
+      description: text('Plan description', 2000),
+      sort_order: { type: 'integer', description: 'Position on pricing pages' },
+      is_public: flag('List on pricing pages'),
+      is_active: flag('Can be subscribed to'),
+      entitlements: { type: 'object', description: 'On/off features, e.g. {"custom_branding": true}' }
+    },
+    required: ['plan']
+  },
+  delete_plan: {
+    description: 'Delete a plan nobody is on, with its limits (admin)',
+    properties: { plan: PLAN_ID },
+    required: ['plan']
+  },
+  set_feature: {
+    description: 'Define a limited feature and how its usage is measured (admin)',
+    properties: {
+      feature: { type: 'string', pattern: '^[a-z0-9_]+$', maxLength: 50, description: 'Feature key, e.g. api_calls' },
+      name: text('Display name'),
+      description: text('Feature description', 2000),
+      unit: text('Unit, e.g. requests', 50),
+      source: {
+        type: 'string', enum: ['usage', 'count'], default: 'usage',
+        description: 'usage: recorded with track-usage; count: rows in count_table (default: usage)'
+      },
+      count_table: { ...TABLE_NAME, description: 'Table counted per tenant (needs a tenant_id column)' },
+      count_exclude_status: text('Rows with this status are not counted, e.g. deleted', 50)
+    },
+    required: ['feature']
+  },
+  set_plan_limit: {
+    description: 'Set a plan\'s limit for a feature (admin)',
+    properties: {
+      plan: PLAN_ID,
+      feature: text('Feature key, e.g. api_calls'),
+      limit_value: { type: 'integer', minimum: -1, description: 'Limit (-1 = unlimited); the included amount when hard_limit is set' },
+      period: {
+        type: 'string',
+        enum: ['total', 'minute', 'daily', 'month', 'rolling_30d', 'billing_period'],
+        default: 'month',
+        description: 'Limit period; daily and month follow the tenant timezone, billing_period the Stripe subscription (default: month)'
+      },
+      hard_limit: {
+        type: 'integer', minimum: -1,
+        description: 'Makes limit_value a soft limit: usage above it is allowed up to hard_limit (-1 = no ceiling) and recorded as overage. Omit for a hard limit. Not allowed with a metered price'
+      },
+      overage_unit_amount: { type: 'number', minimum: 0, description: 'Overage price per unit in the smallest currency unit, e.g. 0.5 = half a cent' },
+      overage_currency: { type: 'string', pattern: '^[A-Za-z]{3}$', description: 'Overage currency (default: usd)' }
+    },
+    required: ['plan', 'feature', 'limit_value']
+  },
+  remove_plan_limit: {
+    description: 'Remove a plan\'s limit for a feature, making it unlimited (admin)',
+    properties: { plan: PLAN_ID, feature: text('Feature key') },
+    required: ['plan', 'feature']
+  },
+  list_plan_prices: {
+    description: 'Stripe prices for each plan and billing interval',
+    properties: { include_inactive: flag('Include archived prices (admin)') }
+  },
+  set_plan_price: {
+    description: 'Map a recurring Stripe price to a plan; replaces the plan\'s active price for the same interval and currency (admin)',
+    properties: {
+      stripe_price_id: text('Stripe price ID (recurring, licensed)'),
+      plan: PLAN_ID,
+      is_active: flag('Offer this price for new subscriptions (default: true)')
+    },
+    required: ['stripe_price_id', 'plan']
+  },
+  archive_plan_price: {
+    description: 'Stop offering a price; existing subscriptions keep their plan (admin)',
+    properties: { stripe_price_id: text('Stripe price ID') },
+    required: ['stripe_price_id']
+  },
+  process_dunning: {
+    description: 'Send due payment reminders and restrict tenants whose grace period ended (admin; runs hourly via cron)',
+    properties: {
+      tenant_id: TENANT_ID,
+      dry_run: flag('Show what would happen without sending emails or restricting')
+    }
+  },
+  list_stripe_events: {
+    description: 'Stripe webhook events recorded for a tenant, oldest first (admin: any tenant)',
+    properties: {
+      tenant_id: TENANT_ID,
+      status: { ...STRIPE_EVENT_STATUS, description: 'Only events with this status' },
+      type: text('Only this event type, e.g. customer.subscription.updated'),
+      limit: { type: 'integer', minimum: 1, maximum: 500, default: 100, description: 'Max rows (default: 100)' }
+    }
+  },
+  replay_stripe_events: {
+    description: 'Re-apply recorded Stripe events for a tenant in event order (admin). Defaults to failed and dead-lettered events.',
+    properties: {
+      tenant_id: TENANT_ID,
+      event_id: text('Replay only this event (evt_...)'),
+      statuses: {
+        type: 'array',
+        items: STRIPE_EVENT_STATUS,
+        minItems: 1,
+        default: ['failed', 'dead_letter'],
+        description: 'Event statuses to replay (default: failed, dead_letter)'
+      },
+      dry_run: flag('List the events that would be replayed')
+    },
+    required: ['tenant_id']
+  }
+}
+
+// ----- MANAGE CONFIG -----
+const CONFIG_SCOPE: FieldSchema = { type: 'string', enum: ['global', 'tenant'], description: 'Config scope (default: global)' }
+const CONFIG_FILTERS = { key: text('Config key'), scope: CONFIG_SCOPE, tenant_id: uuid('Tenant UUID (tenant scope)') }
+
+export const MANAGE_CONFIG_SCHEMAS: ActionSchemas = {
+  get: {
+    description: 'Get one key, or all config matching the filters',
+    properties: CONFIG_FILTERS
+  },
+  set: {
+    description: 'Create or update a config value',
+    properties: { ...CONFIG_FILTERS, value: { description: 'Any JSON value' } },
+    required: ['key', 'value']
+  },
+  delete: {
+    description: 'Delete a config key',
+    properties: CONFIG_FILTERS,
+    required: ['key']
+  },
+  toggle_feature: {
+    description: 'Flip a boolean feature flag',
+    properties: CONFIG_FILTERS,
+    required: ['key']
+  },
+  maintenance_mode: {
+    description: 'Turn maintenance mode on or off',
+    properties: { value: { type: 'boolean', default: true, description: 'true to enable, false to disable' } }
+  },
+  list_cors_origins: { description: 'List the admin CORS allowlist' },
+  add_cors_origin: {
+    description: 'Allow an origin',
+    properties: { value: { type: 'string', description: 'Origin, e.g. https://app.example.com or https://*.example.com' } },
+    required: ['value']
+  },
+  remove_cors_origin: {
+    description: 'Remove an allowed origin',
+    properties: { value: { type: 'string', description: 'Origin to remove' } },
+    required: ['value']
+  }
+}
+
+// ----- MANAGE CRON -----
+export const MANAGE_CRON_SCHEMAS: ActionSchemas = {
+  list: { description: 'List cron jobs' },
+  get: {
+    description: 'Get one job',
+    properties: { job_name: JOB_NAME },
+    required: ['job_name']
+  },
+  create: {
+    description: 'Schedule a SQL command',
+    properties: {
+      job_name: JOB_NAME,
+      schedule: {
+        type: 'string', pattern: '^\\S+( \\S+){4}$',
+        description: "Cron schedule with 5 parts: minute hour day month weekday, e.g. '0 3 * * *' (daily at 3 AM), '*/5 * * * *' (every 5 minutes)"
+      },
+      command: text('SQL command to execute', 10000),
+      description: text('What the job does', 500)
+    },
+    required: ['job_name', 'schedule', 'command'],
+    example: {
+      job_name: 'cleanup-old-logs',
+      schedule: '0 3 * * *',
+      command: "DELETE FROM activity_log WHERE created_at < now() - interval '90 days'",
+      description: 'Clean up logs older than 90 days'
+    }
+  },
+  update: {
+    description: 'Change the schedule, command or active flag',
+    properties: {
+      job_name: JOB_NAME,
+      schedule: { type: 'string', pattern: '^\\S+( \\S+){4}$', description: 'New cron schedule' },
+      command: text('New SQL command', 10000),
+      active: flag('Enable/disable the job')
+    },
+    required: ['job_name']
+  },
+  delete: {
+    description: 'Unschedule a job',
+    properties: { job_name: JOB_NAME },
+    required: ['job_name']
+  },
+  run_now: {
+    description: 'Run a job immediately',
+    properties: { job_name: JOB_NAME },
+    required: ['job_name']
+  },
+  history: {
+    description: 'Recent runs',
+    properties: {
+      job_name: JOB_NAME,
+      limit: { type: 'integer', minimum: 1, maximum: 500, default: 50, description: 'Max runs to return' }
+    }
+  }
+}
+
+// ----- MANAGE DATABASE -----
+export const MANAGE_DATABASE_SCHEMAS: ActionSchemas = {
+  list_tables: { description: 'List public tables' },
+  describe: {
+    description: 'Columns, indexes and policies of a table',
+    properties: { table_name: TABLE_NAME },
+    required: ['table_name']
+  },
+  create_table: {
+    description: 'Create a table, optionally with RLS and tenant isolation',
+    properties: {
+      table_name: TABLE_NAME,
+      columns: COLUMNS,
+      enable_rls: { ...flag('Enable RLS (default: true)'), default: true },
+      tenant_isolated: flag('Add a tenant isolation policy (needs a tenant_id column)')
+    },
+    required: ['table_name', 'columns'],
+    example: {
+      table_name: 'my_table',
+      columns: [
+        { name: 'id', type: 'UUID', primary: true, default: 'gen_random_uuid()' },
+        { name: 'tenant_id', type: 'UUID', references: 'tenants(id)', on_delete: 'CASCADE' },
+        { name: 'name', type: 'TEXT', nullable: false },
+        { name: 'created_at', type: 'TIMESTAMPTZ', default: 'now()' }
+      ],
+      enable_rls: true,
+      tenant_isolated: true
+    }
+  },
+  add_column: {
+    description: 'Add columns to a table',
+    properties: { table_name: TABLE_NAME, columns: COLUMNS },
+    required: ['table_name', 'columns'],
+    example: {
+      table_name: 'my_table',
+      columns: [{ name: 'new_field', type: 'TEXT', nullable: true, default: "''" }]
+    }
+  },
+  create_index: {
+    description: 'Create an index',
+    properties: {
+      table_name: TABLE_NAME,
+      column_names: { ...stringList('Columns to index'), minItems: 1 },
+      index_name: { type: 'string', pattern: '^[a-z_][a-z0-9_]*$', description: 'Index name (default: idx_<table>_<columns>)' },
+      unique: flag('Create a unique index')
+    },
+    required: ['table_name', 'column_names']
+  },
+  run_sql: {
+    description: 'Run raw SQL',
+    properties: {
+      sql: text('SQL to execute', 100000),
+      migration_name: text('Record the statement as a named migration')
+    },
+    required: ['sql']
+  },
+  drop_table: {
+    description: 'Drop a table',
+    properties: { table_name: TABLE_NAME },
+    required: ['table_name']
+  }
+}
+
+// ----- MANAGE DOMAIN -----
+const DOMAIN_ID = uuid('Domain UUID')
+
+export const MANAGE_DOMAIN_SCHEMAS: ActionSchemas = {
+  list: { description: 'List domains' },
+  add: {
+    description: 'Add a domain and get its DNS records',
+    properties: {
+      domain: {
+        type: 'string', maxLength: 253,
+        pattern: '^(?:[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?\\.)+[a-zA-Z]{2,}$',
+        description: 'Domain name, e.g. mail.example.com'
+      }
+    },
+    required: ['domain']
+  },
+  verify: {
+    description: 'Check DNS and mark the domain verified',
+    properties: { domain_id: DOMAIN_ID },
+    required: ['domain_id']
+  },
+  set_primary: {
+    description: 'Make a domain the primary sending domain',
+    properties: { domain_id: DOMAIN_ID },
+    required: ['domain_id']
+  },
+  update_email: {
+    description: 'Set the sender name and address',
+    properties: {
+      domain_id: DOMAIN_ID,
+      email_from_name: text('Sender name'),
+      email_from_address: { type: 'string', pattern: '^[a-zA-Z0-9._+-]+$', description: 'Sender address prefix, e.g. hello' }
+    },
+    required: ['domain_id']
+  },
+  delete: {
+    description: 'Remove a domain',
+    properties: { domain_id: DOMAIN_ID },
+    required: ['domain_id']
+  }
+}
+
+// ----- MANAGE FUNCTIONS -----
+export const MANAGE_FUNCTIONS_SCHEMAS: ActionSchemas = {
+  list: { description: 'List deployed Edge Functions' },
+  get: {
+    description: 'Get one function',
+    properties: { function_name: FUNCTION_NAME },
+    required: ['function_name']
+  },
+  create: {
+    description: 'Deploy a new function',
+    properties: {
+      function_name: FUNCTION_NAME,
+      function_code: text('TypeScript code for the function', 1000000),
+      verify_jwt: { ...flag('Require JWT auth (default: true)'), default: true },
+      import_map: { type: 'object', description: 'Deno import map' }
+    },
+    required: ['function_name', 'function_code']
+  },
+  update: {
+    description: 'Replace the code of a function',
+    properties: {
+      function_name: FUNCTION_NAME,
+      function_code: text('TypeScript code for the function', 1000000),
+      verify_jwt: flag('Require JWT auth'),
+      import_map: { type: 'object', description: 'Deno import map' }
+    },
+    required: ['function_name', 'function_code']
+  },
+  delete: {
+    description: 'Delete a function',
+    properties: { function_name: FUNCTION_NAME },
+    required: ['function_name']
+  }
+}
+
+// ----- MANAGE NOTIFICATIONS -----
+const PERCENTS: FieldSchema = {
+  type: 'array',
+  items: { type: 'integer', minimum: 1, maximum: 1000 },
+  description: 'Percent of the plan limit, e.g. [80, 100]'
+}
+
+export const MANAGE_NOTIFICATIONS_SCHEMAS: ActionSchemas = {
+  list_notifications: {
+    description: 'In-app notifications for you and the tenant, newest first',
+    properties: {
+      unread_only: flag('Only unread notifications'),
+      limit: { type: 'integer', minimum: 1, maximum: 200, default: 50, description: 'Max rows (default: 50)' }
+    }
+  },
+  mark_notifications_read: {
+    description: 'Mark notifications as read (all when no ids are given)',
+    properties: { notification_ids: { type: 'array', items: { type: 'string', format: 'uuid' }, description: 'Notification UUIDs' } }
+  },
+  get_usage_alerts: {
+    description: 'Usage alert thresholds and channels, with recently fired alerts',
+    properties: { limit: { type: 'integer', minimum: 1, maximum: 200, default: 50, description: 'Max fired alerts (default: 50)' } }
+  },
+  set_usage_alerts: {
+    description: 'Set usage alert thresholds and channels for the tenant (owner/admin). Each threshold fires once per limit period.',
+    properties: {
+      thresholds: PERCENTS,
+      features: { type: 'object', description: 'Per-feature thresholds, e.g. {"api_calls": [50, 80, 100]}' },
+      channels: {
+        type: 'array',
+        items: { type: 'string', enum: ['email', 'webhook', 'in_app'] },
+        description: 'Delivery channels (default: email, webhook, in_app)'
+      }
+    }
+  },
+  list_webhooks: { description: 'Outbound webhook endpoints with their recent deliveries' },
+  create_webhook: {
+    description: 'Add an HTTPS endpoint for outbound events (owner/admin). Returns the signing secret once.',
+    properties: {
+      url: url('HTTPS endpoint URL'),
+      events: {
+        type: 'array',
+        items: { type: 'string', enum: ['usage.threshold_reached'] },
+        minItems: 1,
+        default: ['usage.threshold_reached'],
+        description: 'Events to send (default: usage.threshold_reached)'
+      }
+    },
+    required: ['url']
+  },
+  delete_webhook: {
+    description: 'Remove a webhook endpoint (owner/admin)',
+    properties: { webhook_id: uuid('Webhook endpoint UUID') },
+    required: ['webhook_id']
+  }
+}
+
+// ----- MANAGE PRIVACY -----
+const SUBJECT_EMAIL: FieldSchema = { type: 'string', format: 'email', description: 'Email of the person, e.g. a sub-SaaS end user without a platform account' }
+const PRIVACY_SUBJECT = { user_id: uuid('User UUID (default: yourself)'), email: SUBJECT_EMAIL }
+
+export const MANAGE_PRIVACY_SCHEMAS: ActionSchemas = {
+  create_export: {
+    description: 'Queue an export of everything stored about the tenant (owner/admin) or one user (yourself, or a member as owner/admin); get_export returns a signed download URL once it is ready',
+    properties: {
+      scope: { type: 'string', enum: ['tenant', 'user'], default: 'user', description: 'Export the whole tenant or one user (default: user)' },
+      ...PRIVACY_SUBJECT,
+      format: { type: 'string', enum: ['zip', 'jsonl'], default: 'zip', description: 'ZIP with one JSON-lines file per table, or a single JSON-lines file (default: zip)' },
+      tenant_id: { ...TENANT_ID, description: 'Tenant UUID (admin key callers; omit for a user export across all tenants)' }
+    }
+  },
+  get_export: {
+    description: 'Status of an export, with a signed download URL when completed',
+    properties: { request_id: uuid('Export request UUID') },
+    required: ['request_id']
+  },
+  list_exports: {
+    description: 'Export and erasure requests of the tenant (owner/admin), or your own',
+    properties: {
+      tenant_id: TENANT_ID,
+      limit: { type: 'integer', minimum: 1, maximum: 200, default: 50, description: 'Max rows (default: 50)' }
+    }
+  },
+  erase_user: {
+    description: 'Anonymize a user\'s personal data: activity, usage and email logs, invites, membership, sub-SaaS accounts and ss_* rows. Billing records are kept, unlinked. Cannot be undone (owner/admin, or admin key)',
+    properties: {
+      ...PRIVACY_SUBJECT,
+      tenant_id: { ...TENANT_ID, description: 'Tenant UUID (admin key callers; omit to erase across all tenants)' },
+      confirm: text('The email or user UUID being erased, to confirm', 255)
+    },
+    required: ['confirm']
+  },
+  process_exports: {
+    description: 'Run queued exports and delete expired export files (admin)',
+    properties: { request_id: uuid('Run this export now') }
+  }
+}
+
+// ----- MANAGE RBAC -----
+const ROLE_NAME = text('Role name', 50)
+const USER_ID = uuid('User UUID')
+const RBAC_TENANT_ID = uuid('Tenant UUID')
+
+export const MANAGE_RBAC_SCHEMAS: ActionSchemas = {
+  list_roles: { description: 'List roles and their permissions' },
+  create_role: {
+    description: 'Create a role',
+    properties: { role_name: ROLE_NAME, permissions: stringList('Permissions, e.g. pages:write') },
+    required: ['role_name', 'permissions']
+  },
+  update_role: {
+    description: "Replace a role's permissions",
+    properties: { role_name: ROLE_NAME, permissions: stringList('Permissions') },
+    required: ['role_name']
+  },
+  delete_role: {
+    description: 'Delete a role',
+    properties: { role_name: ROLE_NAME },
+    required: ['role_name']
+  },
+  assign_role: {
+    description: "Set a member's role in a tenant",
+    properties: { user_id: USER_ID, tenant_id: RBAC_TENANT_ID, role_name: ROLE_NAME },
+    required: ['user_id', 'tenant_id', 'role_name']
+  },
+  get_user_role: {
+    description: "Get a member's role in a tenant",
+    properties: { user_id: USER_ID, tenant_id: RBAC_TENANT_ID },
+    required: ['user_id', 'tenant_id']
+  },
+  check_permission: {
+    description: "Get a member's role and permissions in a tenant",
+    properties: { user_id: USER_ID, tenant_id: RBAC_TENANT_ID },
+    required: ['user_id', 'tenant_id']
+  }
+}
+
+// ----- MANAGE SECRETS -----
+const ENV_SECRET_NAME: FieldSchema = {
+  type: 'string', pattern: '^[A-Z][A-Z0-9_]*$', description: 'UPPERCASE_WITH_UNDERSCORES'
+}
+
+export const MANAGE_SECRETS_SCHEMAS: ActionSchemas = {
+  list: { description: 'List secret names (values are never returned)' },
+  set: {
+    description: 'Create or update secrets',
+    properties: {
+      secrets: {
+        type: 'array',
+        minItems: 1,
+        description: 'Secrets to set: [{ name, value }]',
+        items: {
+          type: 'object',
+          required: ['name', 'value'],
+          properties: { name: ENV_SECRET_NAME, value: { type: 'string', minLength: 1 } }
+        }
+      }
+    },
+    required: ['secrets'],
+    example: { secrets: [{ name: 'MY_API_KEY', value: 'value' }] }
+  },
+  delete: {
+    description: 'Delete secrets by name',
+    properties: { secrets: { ...stringList('Secret names to delete'), minItems: 1 } },
+    required: ['secrets'],
+    example: { secrets: ['MY_API_KEY'] }
+  }
+}
+
+// ----- MANAGE STRIPE CONNECT -----
+// Every action targets one sub-SaaS app
+const appAction = (
+  description: string,
+  properties: Record<string, FieldSchema> = {},
+  required: string[] = []
+): ActionSchema => ({
+  description,
+  properties: { sub_saas_id: SUB_SAAS_ID, tenant_id: TENANT_ID, ...properties },
+  required: ['sub_saas_id', ...required]
+})
+
+export const MANAGE_STRIPE_CONNECT_SCHEMAS: ActionSchemas = {
+  create_account: appAction('Create a connected Stripe account', {
+    account_type: { type: 'string', enum: ['express', 'standard', 'custom'], default: 'express', description: 'Account type' },
+    country: { type: 'string', minLength: 2, maxLength: 2, default: 'US', description: 'ISO country code' }
+  }),
+  get_onboarding_link: appAction('Get the Stripe onboarding URL', {
+    return_url: url('Redirect after onboarding'),
+    refresh_url: url('Redirect when the link expires')
+  }),
+  get_dashboard_link: appAction('Get a Stripe Express dashboard login link'),
+  create_payment_link: appAction('Create a payment link on the connected account', {
+    amount: { type: 'number', minimum: 0.5, description: 'Amount in major units, e.g. 19.99' },
+    currency: { type: 'string', minLength: 3, maxLength: 3, default: 'usd', description: 'ISO currency code' },
+    description: text('Line item description', 500),
+    metadata: { type: 'object', description: 'Extra metadata' }
+  }, ['amount']),
+  list_payments: appAction('Recent payments', {
+    limit: { type: 'integer', minimum: 1, maximum: 100, default: 10, description: 'Max payments to return' }
+  }),
+  get_balance: appAction('Available and pending balance'),
+  get_status: appAction('Onboarding and payout status')
+}
+
+// ----- MANAGE SUB-SAAS -----
+export const MANAGE_SUB_SAAS_SCHEMAS: ActionSchemas = {
+  list: {
+    description: 'List sub-SaaS apps',
+    properties: { tenant_id: TENANT_ID }
+  },
+  get: appAction('Get one app with user count'),
+  update: appAction('Update app settings', {
+    name: text('App name', 100),
+    description: text('App description', 2000),
+    settings: { type: 'object', description: 'Merged into current settings' },
+    branding: { type: 'object', description: 'Merged into current branding' },
+    status: { type: 'string', enum: ['active', 'paused', 'suspended'], description: 'App status' },
+    custom_domain: text('Custom domain', 253),
+    max_users: { type: 'integer', minimum: 1, description: 'User limit' }
+  }),
+  delete: appAction('Delete an app'),
+  list_users: appAction('List app users'),
+  add_user: appAction('Add a user to the app', {
+    user_email: { type: 'string', format: 'email', description: 'User email' },
+    user_name: text('Display name', 100),
+    user_role: { ...text('Role in the app', 50), default: 'user' }
+  }, ['user_email']),
+  remove_user: {
+    ...appAction('Remove a user from the app', {
+      user_id: uuid('App user UUID'),
+      user_email: { type: 'string', format: 'email', description: 'User email' }
+    }),
+    requireAny: ['user_id', 'user_email']
+  },
+  get_metrics: appAction('Users, records and activity metrics')
+}
+
+// ----- MANAGE TEMPLATES -----
+const TEMPLATE_ID = uuid('Template UUID')
+const TEMPLATE_FIELDS: Record<string, FieldSchema> = {
+  name: text('Template name', 100),
+  description: text('Template description', 2000),
+  icon: text('Icon name or emoji', 50),
+  category: text('Category (default: general)', 50),
+  features: stringList('Feature list'),
+  default_settings: { type: 'object', description: 'Settings for new apps' },
+  default_branding: { type: 'object', description: 'Branding for new apps' }
+}
+
+export const MANAGE_TEMPLATES_SCHEMAS: ActionSchemas = {
+  list: {
+    description: 'List public and own templates',
+    properties: { tenant_id: TENANT_ID }
+  },
+  get: {
+    description: 'Get a template with its tables',
+    properties: { template_id: TEMPLATE_ID, slug: text('Template slug', 50) },
+    requireAny: ['template_id', 'slug']
+  },
+  create: {
+    description: 'Create a template',
+    properties: {
+      slug: { type: 'string', pattern: '^[a-z0-9]+(?:-[a-z0-9]+)*$', maxLength: 50, description: 'URL-friendly identifier' },
+      ...TEMPLATE_FIELDS,
+      tables: { type: 'array', items: { type: 'object' }, description: 'Table schemas to create with the template' },
+      is_public: flag('Visible to all tenants (admin only)'),
+      tenant_id: TENANT_ID
+    },
+    required: ['slug', 'name']
+  },
+  update: {
+    description: 'Update a template',
+    properties: { template_id: TEMPLATE_ID, ...TEMPLATE_FIELDS, is_active: flag('Whether the template can be used'), tenant_id: TENANT_ID },
+    required: ['template_id']
+  },
+  delete: {
+    description: 'Delete a template',
+    properties: { template_id: TEMPLATE_ID, tenant_id: TENANT_ID },
+    required: ['template_id']
+  },
+  add_table: {
+    description: 'Add a table schema to a template',
+    properties: {
+      template_id: TEMPLATE_ID,
+      table: { type: 'object', description: 'Table schema: { table_name, display_name, description, icon, columns, ... }' },
+      tenant_id: TENANT_ID
+    },
+    required: ['template_id', 'table']
+  },
+  update_table: {
+    description: 'Update a table schema',
+    properties: { schema_id: uuid('Table schema UUID'), updates: { type: 'object', description: 'Fields to change' }, tenant_id: TENANT_ID },
+    required: ['schema_id', 'updates']
+  },
+  delete_table: {
+    description: 'Remove a table schema',
+    properties: { schema_id: uuid('Table schema UUID'), tenant_id: TENANT_ID },
+    required: ['schema_id']
+  }
+}
+
+// ----- MANAGE TENANT -----
+export const MANAGE_TENANT_SCHEMAS: ActionSchemas = {
+  list_tenants: { description: 'List your tenants and roles' },
+  switch_tenant: {
+    description: 'Switch the active tenant',
+    properties: {
+      tenant: text('Tenant UUID or slug', 100),
+      set_default: { ...flag('Also make it the default tenant (default: false)'), default: false }
+    },
+    required: ['tenant']
+  },
+  set_timezone: {
+    description: 'Set the timezone for daily and monthly usage periods of the current tenant (owner/admin)',
+    properties: { timezone: text('IANA timezone, e.g. Europe/Berlin', 64) },
+    required: ['timezone']
+  },
+  suspend: {
+    description: 'Suspend a tenant: all its requests get 403 TENANT_SUSPENDED (admin)',
+    properties: { tenant_id: TENANT_ID, reason: text('Why the tenant is suspended', 500) },
+    required: ['tenant_id']
+  },
+  reactivate: {
+    description: 'Lift a suspension and cancel a scheduled deletion (admin), or cancel your tenant\'s scheduled deletion (owner)',
+    properties: { tenant_id: TENANT_ID }
+  },
+  schedule_deletion: {
+    description: 'Schedule the tenant for deletion after a grace period; until then it is read-only (owner, or admin with tenant_id)',
+    properties: {
+      tenant_id: TENANT_ID,
+      grace_days: { type: 'integer', minimum: 0, maximum: 90, default: 30, description: 'Days until the purge (default: 30)' },
+      reason: text('Why the tenant is closed', 500),
+      confirm: text('The tenant slug, to confirm (owners)', 100)
+    }
+  },
+  purge: {
+    description: 'Delete tenants whose grace period ended, or one tenant\'s scheduled deletion now: Stripe subscription, ss_* tables, vault secrets, cron jobs, Cloudflare projects, Resend domains, data export files, then all rows (admin)',
+    properties: {
+      tenant_id: { ...TENANT_ID, description: 'Purge this tenant\'s scheduled deletion now' },
+      dry_run: flag('Only report what would be deleted'),
+      force: flag('Delete the rows even if an external cleanup step failed')
+    }
+  },
+  get_deletion_report: {
+    description: 'Latest deletion of the tenant with its purge report (owner/admin, or admin key with tenant_id or deletion_id)',
+    properties: { tenant_id: TENANT_ID, deletion_id: uuid('Deletion UUID') }
+  },
+  list_deletions: {
+    description: 'Scheduled, failed and completed tenant deletions (admin)',
+    properties: {
+      status: { type: 'string', enum: ['scheduled', 'canceled', 'failed', 'completed'], description: 'Only deletions with this status' },
+      limit: { type: 'integer', minimum: 1, maximum: 500, default: 50, description: 'Max rows (default: 50)' }
+    }
+  }
+}
+
+// ----- MANAGE VAULT -----
+const VAULT_SCOPE: FieldSchema = { type: 'string', enum: ['global', 'tenant', 'user'], description: 'Secret scope (default: tenant)' }
+const VAULT_REF = { secret_name: SECRET_NAME, secret_id: uuid('Secret UUID') }
+const VAULT_WRITE: ActionSchema = {
+  description: 'Store an encrypted secret',
+  properties: {
+    secret_name: SECRET_NAME,
+    secret_value: { type: 'string', minLength: 1, maxLength: 10000, description: 'Secret value' },
+    description: text('Secret description', 500),
+    scope: VAULT_SCOPE
+  },
+  required: ['secret_name', 'secret_value'],
+  example: { secret_name: 'OPENAI_API_KEY', secret_value: 'sk-...', description: 'OpenAI API key for this tenant', scope: 'tenant' }
+}
+
+export const MANAGE_VAULT_SCHEMAS: ActionSchemas = {
+  list: { description: 'List secrets (names only)' },
+  get: {
+    description: 'Get a decrypted secret',
+    properties: VAULT_REF,
+    requireAny: ['secret_name', 'secret_id']
+  },
+  create: VAULT_WRITE,
+  set: VAULT_WRITE,
+  update: {
+    description: 'Change a secret value or description',
+    properties: {
+      ...VAULT_REF,
+      secret_value: { type: 'string', minLength: 1, maxLength: 10000, description: 'New value' },
+      description: text('Secret description', 500)
+    },
+    requireAny: ['secret_name', 'secret_id']
+  },
+  delete: {
+    description: 'Delete a secret',
+    properties: VAULT_REF,
+    requireAny: ['secret_name', 'secret_id']
+  }
+}
+
+// ----- CONFIGURE SERVICE -----
+const SERVICE_ID = text('Service ID, e.g. stripe', 100)
+
+export const CONFIGURE_SERVICE_SCHEMAS: ActionSchemas = {
+  enable: {
+    description: 'Enable a service for the tenant (required dependencies must be enabled)',
+    properties: { service_id: SERVICE_ID },
+    required: ['service_id']
+  },
+  disable: {
+    description: 'Disable a service (core services cannot be disabled)',
+    properties: { service_id: SERVICE_ID },
+    required: ['service_id']
+  },
+  configure: {
+    description: 'Save service configuration',
+    properties: { service_id: SERVICE_ID, config: { type: 'object', description: 'Service configuration' } },
+    required: ['service_id']
+  },
+  mark_configured: {
+    description: 'Mark the service credentials as set',
+    properties: { service_id: SERVICE_ID },
+    required: ['service_id']
+  }
+}
+
+// ----- UPDATE SERVICE CATALOG -----
+const SERVICE_DEFINITION: FieldSchema = {
+  type: 'object',
+  description: 'Service definition',
+  required: ['id', 'name', 'category'],
+  properties: {
+    id: SERVICE_ID,
+    name: text('Display name', 100),
+    description: text('Description', 2000),
+    category: text('Category', 50),
+    is_core: flag('Core service (cannot be disabled by tenants)'),
+    is_enabled: flag('Available to tenants (default: true)'),
+    config_schema: { type: 'object', description: 'JSON Schema for tenant configuration' },
+    docs_url: url('Documentation URL'),
+    icon: text('Icon name or emoji', 50),
+    sort_order: { type: 'integer', description: 'Position in the catalog' },
+    dependencies: {
+      type: 'array',
+      description: 'Services this one depends on',
+      items: {
+        type: 'object',
+        required: ['service_id'],
+        properties: { service_id: SERVICE_ID, is_required: flag('Must be enabled first') }
+      }
+    }
+  }
+}
+const catalogAction = (description: string): ActionSchema => ({
+  description,
+  properties: { service_id: SERVICE_ID },
+  required: ['service_id']
+})
+
+export const UPDATE_SERVICE_CATALOG_SCHEMAS: ActionSchemas = {
+  add: {
+    description: 'Add a service to the catalog',
+    properties: { service: SERVICE_DEFINITION },
+    required: ['service']
+  },
+  update: {
+    description: 'Update a service definition',
+    properties: { service: SERVICE_DEFINITION },
+    required: ['service']
+  },
+  deprecate: catalogAction('Disable a service for new configurations'),
+  disable: catalogAction('Disable a service'),
+  enable: catalogAction('Re-enable a service'),
+  remove: catalogAction('Remove a service from the catalog (soft delete)')
+}
+
+// Edge Function name -> action schemas
+export const FUNCTION_SCHEMAS: Record<string, ActionSchemas> = {
+  'configure-service': CONFIGURE_SERVICE_SCHEMAS,
+  'manage-api-keys': MANAGE_API_KEYS_SCHEMAS,
+  'manage-billing': MANAGE_BILLING_SCHEMAS,
+  'manage-config': MANAGE_CONFIG_SCHEMAS,
+  'manage-cron': MANAGE_CRON_SCHEMAS,
+  'manage-database': MANAGE_DATABASE_SCHEMAS,
+  'manage-domain': MANAGE_DOMAIN_SCHEMAS,
+  'manage-functions': MANAGE_FUNCTIONS_SCHEMAS,
+  'manage-notifications': MANAGE_NOTIFICATIONS_SCHEMAS,
+  'manage-privacy': MANAGE_PRIVACY_SCHEMAS,
+  'manage-rbac': MANAGE_RBAC_SCHEMAS,
+  'manage-secrets': MANAGE_SECRETS_SCHEMAS,
+  'manage-stripe-connect': MANAGE_STRIPE_CONNECT_SCHEMAS,
+  'manage-sub-saas': MANAGE_SUB_SAAS_SCHEMAS,
+  'manage-templates': MANAGE_TEMPLATES_SCHEMAS,
+  'manage-tenant': MANAGE_TENANT_SCHEMAS,
+  'manage-vault': MANAGE_VAULT_SCHEMAS,
+  'update-service-catalog': UPDATE_SERVICE_CATALOG_SCHEMAS,
+}
+
+// ----- MCP INPUT SCHEMA -----
+// One object schema per tool: an `action` enum plus every action's fields.
+// Fields used by only some actions say which in their description.
+export function toToolInputSchema(actions: ActionSchemas): ToolInputSchema {
+  const names = Object.keys(actions)
+  const fields: Record<string, { schema: FieldSchema; usedBy: string[]; requiredBy: string[] }> = {}
+
+  for (const [name, action] of Object.entries(actions)) {
+    for (const [field, schema] of Object.entries(action.properties || {})) {
+      const entry = fields[field] ||= { schema, usedBy: [], requiredBy: [] }
+      if (entry.schema !== schema && JSON.stringify(entry.schema) !== JSON.stringify(schema)) {
+        entry.schema = mergeFieldSchemas(entry.schema, schema)
+      }
+      entry.usedBy.push(name)
+      if (action.required?.includes(field)) entry.requiredBy.push(name)
+    }
+  }
+
+  const properties: Record<string, FieldSchema> = {
+    action: {
+      type: 'string',
+      enum: names,
+      description: names.map(n => actions[n].description ? `${n}: ${actions[n].description}` : n).join('; ')
+    }
+  }
+
+  for (const [field, { schema, usedBy, requiredBy }] of Object.entries(fields)) {
+    const notes: string[] = []
+    if (requiredBy.length > 0) notes.push(`required for ${requiredBy.join(', ')}`)
+    const optionalIn = usedBy.filter(n => !requiredBy.includes(n))
+    if (usedBy.length < names.length && optionalIn.length > 0) notes.push(`optional for ${optionalIn.join(', ')}`)
+
+    properties[field] = {
+      ...schema,
+      description: [schema.description, notes.length ? `(${notes.join('; ')})` : ''].filter(Boolean).join(' ')
+    }
+  }
+
+  return { type: 'object', properties, required: ['action'] }
+}
+
+// Keeps what two actions' versions of a field agree on
+function mergeFieldSchemas(a: FieldSchema, b: FieldSchema): FieldSchema {
+  const merged: FieldSchema = {}
+  for (const key of Object.keys(a) as (keyof FieldSchema)[]) {
+    if (key === 'description') continue
+    if (JSON.stringify(a[key]) === JSON.stringify(b[key])) (merged as any)[key] = a[key]
+  }
+  merged.description = a.description
+  return merged
+}
@@ -6,27 +6,177 @@
 import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
 
 // ----- CORS -----
-const ALLOWED_ORIGINS = [
+const STATIC_ORIGINS = [
   'http://localhost:3000',
   'http://localhost:5173',
   Deno.env.get('APP_URL') || 'https://your-app.com',
 ]
 
-export function getCorsHeaders(req: Request) {
+const PLATFORM_DOMAIN = Deno.env.get('PLATFORM_DOMAIN')?.toLowerCase()
+const CORS_CACHE_TTL_MS = 5 * 60 * 1000
+const ORIGIN_CACHE_MAX = 500
+const HOSTNAME_PATTERN = /^[a-z0-9.-]+$/
+
+// Admin-managed entries in global_config (key: 'cors_allowed_origins'),
+// e.g. ["https://partner.com", "https://*.partner.com"]
+export const CORS_CONFIG_KEY = 'cors_allowed_origins'
+
+let globalOriginsCache: { origins: string[]; expiresAt: number } | null = null
+// Allowed origins only, least recently used first (the Origin header is caller-controlled)
+const originCache = new Map<string, number>()
+
+function cacheAllowedOrigin(origin: string) {
+  originCache.delete(origin)
+  if (originCache.size >= ORIGIN_CACHE_MAX) {
+    originCache.delete(originCache.keys().next().value!)
+  }
+  originCache.set(origin, Date.now() + CORS_CACHE_TTL_MS)
+}
+
+export function matchesOriginPattern(origin: string, pattern: string): boolean {
+  if (pattern === origin) return true
+  if (!pattern.includes('*.')) return false
+
+  // 'https://*.example.com' matches any subdomain, not the apex
+  const [scheme, host] = pattern.split('://*.')
+  try {
+    const url = new URL(origin)
+    return url.protocol === `${scheme}:` && url.hostname.endsWith(`.${host}`)
+  } catch {
+    return false
+  }
+}
+
+async function getGlobalAllowedOrigins(supabase: SupabaseClient): Promise<string[]> {
+  if (globalOriginsCache && globalOriginsCache.expiresAt > Date.now()) {
+    return globalOriginsCache.origins
+  }
+
+  const { data } = await supabase
+    .from('global_config')
+    .select('value')
+    .eq('key', CORS_CONFIG_KEY)
+    .eq('scope', 'global')
+    .maybeSingle()
+
+  const origins = Array.isArray(data?.value) ? data.value.map(String) : []
+  globalOriginsCache = { origins, expiresAt: Date.now() + CORS_CACHE_TTL_MS }
+  return origins
+}
+
+// Tenant hostnames: verified domains and active sub-SaaS custom domains/subdomains
+async function isTenantOrigin(supabase: SupabaseClient, hostname: string): Promise<boolean> {
+  // Goes into a filter string below; URL keeps quotes, commas and parentheses in hostnames
+  if (!HOSTNAME_PATTERN.test(hostname)) return false
+
+  const apex = hostname.startsWith('www.') ? hostname.slice(4) : hostname
+
+  const { data: domain } = await supabase
+    .from('domains')
+    .select('id')
+    .in('domain', [hostname, apex])
+    .eq('is_verified', true)
+    .eq('is_active', true)
+    .limit(1)
+    .maybeSingle()
+
+  if (domain) return true
+
+  const candidates = [hostname]
+  if (PLATFORM_DOMAIN && hostname.endsWith(`.${PLATFORM_DOMAIN}`)) {
+    candidates.push(hostname.slice(0, -(PLATFORM_DOMAIN.length + 1)))
+  }
+
+  const list = candidates.map(c => `"${c}"`).join(',')
+  const { data: app } = await supabase
+    .from('sub_saas_apps')
+    .select('id')
+    .or(`custom_domain.in.(${list}),subdomain.in.(${list})`)
+    .eq('status', 'active')
+    .limit(1)
+    .maybeSingle()
+
+  return !!app
+}
+
+export async function isOriginAllowed(origin: string, supabase: SupabaseClient): Promise<boolean> {
+  if (!origin) return false
+  if (STATIC_ORIGINS.includes(origin)) return true
+
+  let url: URL
+  try {
+    url = new URL(origin)
+  } catch {
+    return false
+  }
+
+  if (PLATFORM_DOMAIN && url.protocol === 'https:' &&
+      (url.hostname === PLATFORM_DOMAIN || url.hostname.endsWith(`.${PLATFORM_DOMAIN}`))) {
+    return true
+  }
+
+  const cachedUntil = originCache.get(origin)
+  if (cachedUntil && cachedUntil > Date.now()) {
+    cacheAllowedOrigin(origin)
+    return true
+  }
+
+  let allowed = false
+  try {
+    const globalOrigins = await getGlobalAllowedOrigins(supabase)
+    allowed = globalOrigins.some(pattern => matchesOriginPattern(origin, pattern))
+
+    if (!allowed && url.protocol === 'https:') {
+      allowed = await isTenantOrigin(supabase, url.hostname.toLowerCase())
+    }
+  } catch (error) {
+    console.error('CORS origin lookup failed:', error)
+    return false
+  }
+
+  if (allowed) cacheAllowedOrigin(origin)
+  return allowed
+}
+
+export async function getCorsHeaders(
+  req: Request,
+  supabase: SupabaseClient = createServiceClient()
+): Promise<Record<string, string>> {
   const origin = req.headers.get('Origin') || ''
-  const allowedOrigin = ALLOWED_ORIGINS.includes(origin) ? origin : ALLOWED_ORIGINS[0]
+
+  // Runs before createHandler's try/catch: a failed lookup falls back to the static list
+  let allowed: boolean
+  try {
+    allowed = await isOriginAllowed(origin, supabase)
+  } catch (error) {
+    console.error('CORS origin check failed:', error)
+    allowed = STATIC_ORIGINS.includes(origin)
+  }
   
   return {
-    'Access-Control-Allow-Origin': allowedOrigin,
-    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-api-key',
+    // Unknown origins get no Allow-Origin header, so the browser blocks them
+    ...(allowed && { 'Access-Control-Allow-Origin': origin }),
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-api-key, x-tenant-id, x-admin-key, x-cron-secret, mcp-session-id, mcp-protocol-version',
     'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+    'Access-Control-Expose-Headers': 'mcp-session-id',
     'Access-Control-Allow-Credentials': 'true',
+    'Vary': 'Origin',
   }
 }
 
-export function handleCors(req: Request) {
+// For endpoints embedded in tenant landing pages on any origin (no credentials)
+export const PUBLIC_CORS_HEADERS: Record<string, string> = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+}
+
+export async function handleCors(
+  req: Request,
+  supabase?: SupabaseClient
+): Promise<Response | null> {
   if (req.method === 'OPTIONS') {
-    return new Response('ok', { headers: getCorsHeaders(req) })
+    return new Response('ok', { headers: await getCorsHeaders(req, supabase) })
   }
   return null
 }
@@ -54,8 +204,67 @@ export function checkRateLimit(
   return { allowed: record.count <= limit, remaining, resetIn }
 }
 
-export function getRateLimitHeaders(result: { remaining: number; resetIn: number }) {
+export interface RateLimitResult {
+  allowed: boolean
+  remaining: number
+  resetIn: number
+  limit?: number
+}
+
+// Shared across isolates via the check_rate_limit() SQL function.
+// Falls back to the in-process limiter if the database call fails.
+export async function checkDistributedRateLimit(
+  supabase: SupabaseClient,
+  identifier: string,
+  limit: number = 100,
+  windowMs: number = 60000
+): Promise<RateLimitResult> {
+  const { data, error } = await supabase.rpc('check_rate_limit', {
+    p_key: identifier,
+    p_limit: limit,
+    p_window_seconds: Math.max(1, Math.round(windowMs / 1000))
+  })
+
+  if (error || !data) {
+    console.error('Distributed rate limit unavailable:', error?.message)
+    return { ...checkRateLimit(identifier, limit, windowMs), limit }
+  }
+
   return {
+    allowed: data.allowed,
+    remaining: data.remaining,
+    resetIn: data.reset_in_ms,
+    limit: data.limit
+  }
+}
+
+// Plan limits rarely change, so cache per isolate for a few minutes
+const planRateLimitCache = new Map<string, { value: number; expiresAt: number }>()
+const PLAN_RATE_LIMIT_TTL_MS = 5 * 60 * 1000
+
+export async function getPlanRateLimit(
+  supabase: SupabaseClient,
+  plan: string,
+  fallback: number = 100
+): Promise<number> {
+  const cached = planRateLimitCache.get(plan)
+  if (cached && cached.expiresAt > Date.now()) return cached.value
+
+  const { data } = await supabase
+    .from('plan_limits')
+    .select('limit_value')
+    .eq('plan', plan)
+    .eq('feature', 'api_rate_limit')
+    .single()
+
+  const value = data?.limit_value ?? fallback
+  planRateLimitCache.set(plan, { value, expiresAt: Date.now() + PLAN_RATE_LIMIT_TTL_MS })
+  return value
+}
+
+export function getRateLimitHeaders(result: { remaining: number; resetIn: number; limit?: number }) {
+  return {
+    ...(result.limit !== undefined && { 'X-RateLimit-Limit': result.limit.toString() }),
     'X-RateLimit-Remaining': result.remaining.toString(),
     'X-RateLimit-Reset': Math.ceil(result.resetIn / 1000).toString(),
   }
@@ -64,9 +273,41 @@ export function getRateLimitHeaders(result: { remaining: number; resetIn: number
 // ----- AUTHENTICATION -----
 export interface AuthResult {
   user: { id: string; email?: string } | null
-  tenant: { id: string; name: string; slug: string; plan: string } | null
+  tenant: { id: string; name: string; slug: string; plan: string; dunning_status?: string; status?: string } | null
   role: string | null
   error: string | null
+  status?: number  // HTTP status for error (defaults to 401)
+  scopes?: string[]  // Set for API key requests
+}
+
+// Lets users who belong to several tenants act on one without changing their default
+export const TENANT_HEADER = 'X-Tenant-Id'
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+// Look up a user's membership by tenant id or slug (or their default tenant)
+export async function resolveTenantMembership(
+  supabase: SupabaseClient,
+  userId: string,
+  tenantRef?: string | null
+): Promise<{ tenant: AuthResult['tenant']; role: string } | null> {
+  let query = supabase
+    .from('user_tenants')
+    .select('tenant_id, role, tenants!inner(id, name, slug, plan, dunning_status, status)')
+    .eq('user_id', userId)
+  
+  if (!tenantRef) {
+    query = query.eq('is_default', true)
+  } else if (UUID_REGEX.test(tenantRef)) {
+    query = query.eq('tenant_id', tenantRef)
+  } else {
+    query = query.eq('tenants.slug', tenantRef.toLowerCase())
+  }
+  
+  const { data } = await query.maybeSingle()
+  if (!data) return null
+  
+  return { tenant: data.tenants as any, role: data.role }
 }
 
 export async function authenticateRequest(
@@ -86,22 +327,23 @@ export async function authenticateRequest(
     return { user: null, tenant: null, role: null, error: 'Invalid or expired token' }
   }
   
-  // Get default tenant
-  const { data: userTenant } = await supabase
-    .from('user_tenants')
-    .select('tenant_id, role, tenants(id, name, slug, plan)')
-    .eq('user_id', user.id)
-    .eq('is_default', true)
-    .single()
+  const authUser = { id: user.id, email: user.email }
+  
+  // Requested tenant (X-Tenant-Id: uuid or slug), else default tenant
+  const requestedTenant = req.headers.get(TENANT_HEADER)?.trim() || null
+  const membership = await resolveTenantMembership(supabase, user.id, requestedTenant)
   
-  if (!userTenant) {
-    return { user: { id: user.id, email: user.email }, tenant: null, role: null, error: null }
+  if (!membership) {
+    if (requestedTenant) {
+      return { user: authUser, tenant: null, role: null, error: 'Not a member of the requested tenant', status: 403 }
+    }
+    return { user: authUser, tenant: null, role: null, error: null }
   }
   
   return {
-    user: { id: user.id, email: user.email },
-    tenant: userTenant.tenants as any,
-    role: userTenant.role,
+    user: authUser,
+    tenant: membership.tenant,
+    role: membership.role,
     error: null
   }
 }
@@ -124,7 +366,7 @@ export function requireRole(auth: AuthResult, allowedRoles: string[]): Response
 export async function validateApiKey(
   req: Request,
   supabase: SupabaseClient
-): Promise<{ valid: boolean; tenant: any; scopes: string[]; error?: string }> {
+): Promise<{ valid: boolean; tenant: any; scopes: string[]; keyId?: string; error?: string }> {
   const apiKey = req.headers.get('X-API-Key')
   
   if (!apiKey) {
@@ -135,7 +377,7 @@ export async function validateApiKey(
   
   const { data: keyRecord } = await supabase
     .from('api_keys')
-    .select('*, tenants(id, name, slug, plan)')
+    .select('*, tenants(id, name, slug, plan, dunning_status, status)')
     .eq('key_hash', keyHash)
     .eq('is_active', true)
     .single()
@@ -148,29 +390,141 @@ export async function validateApiKey(
     return { valid: false, tenant: null, scopes: [], error: 'API key expired' }
   }
   
+  const clientIp = getClientIp(req)
+  if (!isIpAllowed(clientIp, keyRecord.ip_allowlist || [])) {
+    return { valid: false, tenant: null, scopes: [], error: 'API key not allowed from this IP' }
+  }
+  
   // Update last used
   await supabase.from('api_keys').update({
     last_used_at: new Date().toISOString(),
-    last_used_ip: getClientIp(req)
+    last_used_ip: clientIp
   }).eq('id', keyRecord.id)
   
-  return { valid: true, tenant: keyRecord.tenants, scopes: keyRecord.scopes || [] }
+  return { valid: true, tenant: keyRecord.tenants, scopes: keyRecord.scopes || [], keyId: keyRecord.id }
 }
 
-// ----- ADMIN KEY -----
-export function validateAdminKey(providedKey: string): boolean {
-  const adminKey = Deno.env.get('ADMIN_KEY')
-  if (!adminKey || !providedKey) return false
+// Generates a `pk_<tenant-slug>_<random>` key. Only the hash is stored.
+export async function generateApiKey(tenantSlug: string): Promise<{ key: string; prefix: string; hash: string }> {
+  const randomPart = crypto.randomUUID().replace(/-/g, '') + crypto.randomUUID().replace(/-/g, '')
+  const key = `pk_${tenantSlug}_${randomPart}`
+  return { key, prefix: key.substring(0, 20) + '...', hash: await hashString(key) }
+}
+
+// Status shown for a key: a rotated key stays 'rotating' until its grace period expires
+export function keyStatus(
+  key: { is_active: boolean; expires_at?: string | null; rotated_at?: string | null },
+  now: Date = new Date()
+): 'revoked' | 'expired' | 'rotating' | 'active' {
+  if (!key.is_active) return 'revoked'
+  if (key.expires_at && new Date(key.expires_at) < now) return 'expired'
+  if (key.rotated_at) return 'rotating'
+  return 'active'
+}
+
+// ----- API KEY IP ALLOWLIST -----
+// Entries are exact IPs or IPv4 CIDR ranges. An empty list allows any IP.
+function ipv4ToInt(ip: string): number | null {
+  const parts = ip.split('.')
+  if (parts.length !== 4) return null
+  let value = 0
+  for (const part of parts) {
+    if (!/^\d{1,3}$/.test(part) || Number(part) > 255) return null
+    value = value * 256 + Number(part)
+  }
+  return value
+}
+
+export function isValidIpEntry(entry: string): boolean {
+  const [ip, bits, extra] = entry.split('/')
+  if (extra !== undefined) return false
+  if (bits === undefined) return ipv4ToInt(ip) !== null || (/^[0-9a-f:]+$/i.test(ip) && ip.includes(':'))
+  return ipv4ToInt(ip) !== null && /^\d{1,2}$/.test(bits) && Number(bits) <= 32
+}
+
+export function isIpAllowed(ip: string, allowlist: string[]): boolean {
+  if (!allowlist || allowlist.length === 0) return true
   
+  return allowlist.some(entry => {
+    if (!entry.includes('/')) return entry.toLowerCase() === ip.toLowerCase()
+    
+    const [range, bits] = entry.split('/')
+    const ipInt = ipv4ToInt(ip)
+    const rangeInt = ipv4ToInt(range)
+    if (ipInt === null || rangeInt === null) return false
+    
+    const size = 2 ** (32 - Number(bits))
+    return Math.floor(ipInt / size) === Math.floor(rangeInt / size)
+  })
+}
+
+// ----- API KEY SCOPES -----
+// Scopes are `resource:action`. Keys may also hold `resource:*` or `*`.
+// Legacy scopes: `read` = every `*:read`, `deploy` = `pages:deploy`, `write` = full access.
+export const API_KEY_SCOPES: Record<string, string> = {
+  'usage:read': 'Check usage and plan limits',
+  'usage:write': 'Record usage events',
+  'pages:read': 'Read pages and setup snippets',
+  'pages:deploy': 'Deploy pages to Cloudflare',
+  'billing:read': 'Read subscription status, invoices and purchases',
+  'billing:write': 'Change plans and start checkouts',
+  'domains:read': 'List domains',
+  'domains:write': 'Add, verify and delete domains',
+  'services:read': 'Discover services and health',
+  'services:write': 'Configure services',
+  'team:read': 'List members and invites',
+  'team:write': 'Invite members',
+  'activity:write': 'Write audit log entries',
+  'analytics:read': 'Read analytics reports',
+  'sub_saas:read': 'Read sub-SaaS apps and users',
+  'sub_saas:write': 'Manage sub-SaaS apps and users',
+}
+
+const LEGACY_SCOPES = ['read', 'write', 'deploy', '*']
+
+export function isValidScope(scope: string): boolean {
+  if (LEGACY_SCOPES.includes(scope) || scope in API_KEY_SCOPES) return true
+  const [resource, action] = scope.split(':')
+  return action === '*' && Object.keys(API_KEY_SCOPES).some(s => s.startsWith(`${resource}:`))
+}
+
+export function hasScope(granted: string[], required: string): boolean {
+  const [resource, action] = required.split(':')
+  return granted.includes(required) ||
+    granted.includes('*') ||
+    granted.includes('write') ||
+    granted.includes(`${resource}:*`) ||
+    (action === 'read' && granted.includes('read')) ||
+    (required === 'pages:deploy' && granted.includes('deploy'))
+}
+
+export function getMissingScopes(granted: string[], required: string[]): string[] {
+  return required.filter(scope => !hasScope(granted, scope))
+}
+
+// ----- ADMIN KEY / CRON SECRET -----
+export function timingSafeEqual(expected: string, provided: string): boolean {
   // Constant-time comparison
-  if (adminKey.length !== providedKey.length) return false
+  if (expected.length !== provided.length) return false
   let result = 0
-  for (let i = 0; i < adminKey.length; i++) {
-    result |= adminKey.charCodeAt(i) ^ providedKey.charCodeAt(i)
+  for (let i = 0; i < expected.length; i++) {
+    result |= expected.charCodeAt(i) ^ provided.charCodeAt(i)
   }
   return result === 0
 }
 
+export function validateAdminKey(providedKey: string | null | undefined): boolean {
+  const adminKey = Deno.env.get('ADMIN_KEY')
+  if (!adminKey || !providedKey) return false
+  return timingSafeEqual(adminKey, providedKey)
+}
+
+export function validateCronSecret(providedSecret: string | null | undefined): boolean {
+  const cronSecret = Deno.env.get('CRON_SECRET')
+  if (!cronSecret || !providedSecret) return false
+  return timingSafeEqual(cronSecret, providedSecret)
+}
+
 // ----- UTILITIES -----
 export function getClientIp(req: Request): string {
   return req.headers.get('CF-Connecting-IP') ||
@@ -197,12 +551,24 @@ export function jsonResponse(
   })
 }
 
+const DEFAULT_ERROR_CODES: Record<number, string> = {
+  400: 'BAD_REQUEST',
+  401: 'UNAUTHORIZED',
+  403: 'FORBIDDEN',
+  404: 'NOT_FOUND',
+  409: 'CONFLICT',
+  429: 'RATE_LIMITED',
+  500: 'INTERNAL_ERROR',
+  502: 'UPSTREAM_ERROR',
+}
+
+// Every error carries a machine-readable code; specific codes override the status default
 export function errorResponse(
   message: string,
   status: number = 400,
   code?: string
 ): Response {
-  return jsonResponse({ error: message, ...(code && { code }) }, status)
+  return jsonResponse({ error: message, code: code || DEFAULT_ERROR_CODES[status] || 'ERROR' }, status)
 }
 
 // ----- INPUT VALIDATION -----
@@ -0,0 +1,401 @@
+// =====================================================
+// STRIPE EVENT LEDGER
+// Webhook events are recorded in stripe_events, then applied
+// at most once per event id. Subscription and account events
+// older than the last one applied are skipped, and events that
+// keep failing are dead-lettered until an admin replays them.
+// =====================================================
+
+import Stripe from "https://esm.sh/stripe@14"
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { DUNNING_CLEARED, startDunningFields } from './dunning.ts'
+import { getPlanForPrice } from './plan-prices.ts'
+
+// Failed attempts before an event is dead-lettered
+export const MAX_EVENT_ATTEMPTS = 5
+
+export type StripeEventStatus = 'pending' | 'processing' | 'processed' | 'skipped' | 'failed' | 'dead_letter'
+
+export interface ProcessEventResult {
+  event_id: string
+  type: string
+  status: StripeEventStatus | 'duplicate'  // duplicate: already handled or being handled elsewhere
+  skip_reason?: string
+  error?: string
+}
+
+// Subscription statuses that keep the paid plan (dunning decides access)
+export const ENTITLED_STATUSES = ['trialing', 'active', 'past_due', 'unpaid']
+
+interface LedgerTenant {
+  id: string
+  stripe_subscription_id: string | null
+  subscription_status: string
+}
+
+interface EventContext {
+  supabase: SupabaseClient
+  event: Stripe.Event
+  tenant: LedgerTenant | null
+}
+
+// Returns a skip reason when the event was deliberately not applied
+type EventHandler = (ctx: EventContext) => Promise<string | void>
+
+// Customer the event belongs to, used to find the tenant
+function eventCustomerId(event: Stripe.Event): string | null {
+  const object = event.data.object as { object?: string; id?: string; customer?: string | { id: string } | null }
+  if (object.object === 'customer') return object.id || null
+  if (!object.customer) return null
+  return typeof object.customer === 'string' ? object.customer : object.customer.id
+}
+
+// Connected account the event belongs to (Connect webhook endpoint)
+function eventAccountId(event: Stripe.Event): string | null {
+  const object = event.data.object as { object?: string; id?: string }
+  return event.account || (object.object === 'account' ? object.id || null : null)
+}
+
+async function findTenantId(supabase: SupabaseClient, customerId: string | null, accountId: string | null) {
+  if (accountId) {
+    const { data } = await supabase
+      .from('stripe_connect_accounts')
+      .select('tenant_id')
+      .eq('stripe_account_id', accountId)
+      .maybeSingle()
+    return data?.tenant_id || null
+  }
+  if (customerId) {
+    const { data } = await supabase
+      .from('tenants')
+      .select('id')
+      .eq('stripe_customer_id', customerId)
+      .maybeSingle()
+    return data?.id || null
+  }
+  return null
+}
+
+// Records a verified webhook event; a redelivered event keeps its existing row
+export async function recordStripeEvent(supabase: SupabaseClient, event: Stripe.Event): Promise<void> {
+  const customerId = eventCustomerId(event)
+  const accountId = eventAccountId(event)
+
+  const { error } = await supabase
+    .from('stripe_events')
+    .upsert({
+      id: event.id,
+      type: event.type,
+      created: toTimestamp(event.created),
+      livemode: event.livemode,
+      tenant_id: await findTenantId(supabase, customerId, accountId),
+      stripe_customer_id: customerId,
+      stripe_account_id: accountId,
+      payload: event
+    }, { onConflict: 'id', ignoreDuplicates: true })
+
+  if (error) throw new Error(`Could not record event ${event.id}: ${error.message}`)
+}
+
+// Claims and applies one recorded event. Replays also re-run processed,
+// skipped and dead-lettered events; handlers are safe to run twice.
+export async function processStripeEvent(
+  supabase: SupabaseClient,
+  eventId: string,
+  options: { replay?: boolean } = {}
+): Promise<ProcessEventResult> {
+  const { data: claimed, error: claimError } = await supabase
+    .rpc('claim_stripe_event', { p_event_id: eventId, p_replay: !!options.replay })
+    .maybeSingle()
+
+  if (claimError) throw new Error(`Could not claim event ${eventId}: ${claimError.message}`)
+
+  const row = claimed as {
+    payload: Stripe.Event
+    attempts: number
+    stripe_customer_id: string | null
+    stripe_account_id: string | null
+  } | null
+  if (!row) return { event_id: eventId, type: 'unknown', status: 'duplicate' }
+
+  const event = row.payload
+  const finish = async (status: StripeEventStatus, fields: Record<string, unknown> = {}) => {
+    await supabase
+      .from('stripe_events')
+      .update({ status, processed_at: new Date().toISOString(), ...fields })
+      .eq('id', eventId)
+    return { event_id: eventId, type: event.type, status, ...fields } as ProcessEventResult
+  }
+
+  // Events from connected accounts (their customers, payments, ...) are not the
+  // platform's billing; only the account lifecycle is tracked
+  const handler = event.account ? CONNECT_HANDLERS[event.type] : HANDLERS[event.type]
+  if (!handler) return finish('skipped', { skip_reason: 'unhandled_type' })
+
+  try {
+    // The customer may have been linked to a tenant after the event arrived
+    const tenantId = await findTenantId(supabase, row.stripe_customer_id, row.stripe_account_id)
+    const { data: tenant } = tenantId
+      ? await supabase
+        .from('tenants')
+        .select('id, stripe_subscription_id, subscription_status')
+        .eq('id', tenantId)
+        .maybeSingle()
+      : { data: null }
+
+    const skipReason = await handler({ supabase, event, tenant })
+    if (skipReason) return finish('skipped', { skip_reason: skipReason, tenant_id: tenantId })
+
+    return finish('processed', { skip_reason: null, last_error: null, tenant_id: tenantId })
+  } catch (error) {
+    console.error(`Stripe event ${eventId} (${event.type}) failed:`, error)
+    const status = row.attempts >= MAX_EVENT_ATTEMPTS ? 'dead_letter' : 'failed'
+    const result = await finish(status, { last_error: error.message })
+    return { ...result, error: error.message }
+  }
+}
+
+// =====================================================
+// HANDLERS
+// =====================================================
+
+function toTimestamp(seconds: number | null | undefined): string | null {
+  return seconds ? new Date(seconds * 1000).toISOString() : null
+}
+
+// Applies updates unless a newer event was already applied to the row.
+// The check and the update are one statement, so concurrent deliveries
+// can't interleave.
+async function applyInOrder(
+  ctx: EventContext,
+  table: 'tenants' | 'stripe_connect_accounts',
+  match: [column: string, value: string],
+  updates: Record<string, unknown>
+): Promise<string | void> {
+  const createdAt = toTimestamp(ctx.event.created)
+
+  const { data, error } = await ctx.supabase
+    .from(table)
+    .update({ ...updates, stripe_event_at: createdAt, updated_at: new Date().toISOString() })
+    .eq(match[0], match[1])
+    .or(`stripe_event_at.is.null,stripe_event_at.lte.${createdAt}`)
+    .select('stripe_event_at')
+
+  if (error) throw new Error(`Failed to update ${table}: ${error.message}`)
+  if (data?.length) return
+
+  // No row matched: either it doesn't exist or a newer event won
+  const { data: existing } = await ctx.supabase.from(table).select('id').eq(match[0], match[1]).maybeSingle()
+  return existing ? 'out_of_order' : `unknown_${table === 'tenants' ? 'customer' : 'account'}`
+}
+
+// A tenant that re-subscribed ignores late events from its previous subscription
+function isStaleSubscription(tenant: LedgerTenant, subscription: Stripe.Subscription): boolean {
+  return !!tenant.stripe_subscription_id &&
+    tenant.stripe_subscription_id !== subscription.id &&
+    ENTITLED_STATUSES.includes(tenant.subscription_status) &&
+    !ENTITLED_STATUSES.includes(subscription.status)
+}
+
+function subscriptionFields(subscription: Stripe.Subscription) {
+  return {
+    stripe_subscription_id: subscription.id,
+    subscription_status: subscription.status,
+    current_period_start: toTimestamp(subscription.current_period_start),
+    current_period_end: toTimestamp(subscription.current_period_end),
+    cancel_at_period_end: subscription.cancel_at_period_end,
+    cancel_at: toTimestamp(subscription.cancel_at),
+    canceled_at: toTimestamp(subscription.canceled_at),
+    trial_ends_at: toTimestamp(subscription.trial_end)
+  }
+}
+
+// created / updated / paused / resumed: the event carries the full subscription
+async function handleSubscriptionChange(ctx: EventContext) {
+  if (!ctx.tenant) return 'unknown_customer'
+  const subscription = ctx.event.data.object as Stripe.Subscription
+  if (isStaleSubscription(ctx.tenant, subscription)) return 'other_subscription'
+
+  const updates: Record<string, unknown> = subscriptionFields(subscription)
+
+  if (ENTITLED_STATUSES.includes(subscription.status)) {
+    // Metered usage items don't decide the plan
+    const planItem = subscription.items.data.find((item: Stripe.SubscriptionItem) => item.price.recurring?.usage_type !== 'metered')
+    if (planItem) {
+      // Unmapped prices fail (and end up dead-lettered) rather than guessing a plan;
+      // replay the events after mapping the price
+      const plan = await getPlanForPrice(ctx.supabase, planItem.price.id)
+      if (!plan) throw new Error(`No plan for price ${planItem.price.id} (manage-billing set_plan_price)`)
+      updates.plan = plan
+    }
+  } else if (subscription.status !== 'incomplete') {
+    // Ended, expired before the first payment, or paused
+    updates.plan = 'free'
+  }
+
+  return applyInOrder(ctx, 'tenants', ['id', ctx.tenant.id], updates)
+}
+
+async function handleSubscriptionDeleted(ctx: EventContext) {
+  if (!ctx.tenant) return 'unknown_customer'
+  const subscription = ctx.event.data.object as Stripe.Subscription
+  if (isStaleSubscription(ctx.tenant, subscription)) return 'other_subscription'
+
+  // Downgrade to free; nothing left to restrict
+  return applyInOrder(ctx, 'tenants', ['id', ctx.tenant.id], {
+    ...subscriptionFields(subscription),
+    ...DUNNING_CLEARED,
+    subscription_status: 'canceled',
+    cancel_at_period_end: false,
+    plan: 'free'
+  })
+}
+
+// Sent 3 days before the trial ends
+async function handleTrialWillEnd(ctx: EventContext) {
+  if (!ctx.tenant) return 'unknown_customer'
+  const subscription = ctx.event.data.object as Stripe.Subscription
+
+  const { error } = await ctx.supabase
+    .from('tenants')
+    .update({
+      trial_ends_at: toTimestamp(subscription.trial_end),
+      trial_will_end_at: toTimestamp(ctx.event.created)
+    })
+    .eq('id', ctx.tenant.id)
+
+  if (error) throw new Error(`Failed to update tenant: ${error.message}`)
+}
+
+// Paying the failed invoice, or a later one of the tenant's subscription,
+// resolves the failure and ends dunning (restores write access). Other
+// invoices (one-off, another subscription, older ones paid late) don't;
+// a late failure from before the last payment doesn't reopen it.
+async function handleInvoicePaid(ctx: EventContext) {
+  if (!ctx.tenant) return 'unknown_customer'
+  const invoice = ctx.event.data.object as Stripe.Invoice
+  const paidAt = toTimestamp(ctx.event.created)
+
+  const subscriptionId = typeof invoice.subscription === 'string' ? invoice.subscription : invoice.subscription?.id
+  if (!subscriptionId || subscriptionId !== ctx.tenant.stripe_subscription_id) return 'other_subscription'
+
+  // Both checks run in the update, so they can't race another delivery
+  const inOrder = `or(last_payment_at.is.null,last_payment_at.lt.${paidAt})`
+  const resolvesFailure = `or(payment_failed_at.is.null,last_invoice_id.eq.${invoice.id},payment_failed_at.lte.${toTimestamp(invoice.created)})`
+
+  const { data, error } = await ctx.supabase
+    .from('tenants')
+    .update({ last_payment_at: paidAt, last_invoice_id: invoice.id, payment_failed_at: null, ...DUNNING_CLEARED })
+    .eq('id', ctx.tenant.id)
+    .or(`and(${inOrder},${resolvesFailure})`)
+    .select('id')
+
+  if (error) throw new Error(`Failed to update tenant: ${error.message}`)
+  if (!data?.length) return 'out_of_order'
+}
+
+// The first unresolved failure is kept: it's when the payment problem
+// started, and it starts the grace period
+async function handlePaymentFailed(ctx: EventContext) {
+  if (!ctx.tenant) return 'unknown_customer'
+  const invoice = ctx.event.data.object as Stripe.Invoice
+  const failedAt = toTimestamp(ctx.event.created)!
+  const dunning = await startDunningFields(ctx.supabase, ctx.tenant.id, failedAt)
+
+  const { data, error } = await ctx.supabase
+    .from('tenants')
+    .update({ payment_failed_at: failedAt, last_invoice_id: invoice.id, ...dunning })
+    .eq('id', ctx.tenant.id)
+    .is('payment_failed_at', null)
+    .or(`last_payment_at.is.null,last_payment_at.lt.${failedAt}`)
+    .select('id')
+
+  if (error) throw new Error(`Failed to update tenant: ${error.message}`)
+  if (!data?.length) return 'already_failed_or_paid'
+}
+
+// One-time purchases (manage-billing purchase_product). Subscription
+// checkouts are applied through the subscription events.
+async function handleCheckoutCompleted(ctx: EventContext) {
+  const session = ctx.event.data.object as Stripe.Checkout.Session
+
+  if (session.mode !== 'payment') return 'not_a_purchase'
+  // Delayed payment methods complete later with checkout.session.async_payment_succeeded
+  if (session.payment_status !== 'paid') return 'payment_pending'
+  if (!session.metadata?.product_id) return 'no_product'
+
+  // verify_purchase may have recorded it already
+  const { error } = await ctx.supabase
+    .from('purchases')
+    .upsert({
+      stripe_session_id: session.id,
+      stripe_payment_intent: session.payment_intent as string | null,
+      product_id: session.metadata.product_id,
+      user_id: session.metadata.user_id || null,
+      tenant_id: session.metadata.tenant_id || ctx.tenant?.id || null,
+      amount: (session.amount_total || 0) / 100,
+      currency: session.currency,
+      status: 'completed'
+    }, { onConflict: 'stripe_session_id', ignoreDuplicates: true })
+
+  if (error) throw new Error(`Failed to record purchase: ${error.message}`)
+}
+
+async function handleAccountUpdated(ctx: EventContext) {
+  const account = ctx.event.data.object as Stripe.Account
+
+  const skipReason = await applyInOrder(ctx, 'stripe_connect_accounts', ['stripe_account_id', account.id], {
+    details_submitted: account.details_submitted,
+    charges_enabled: account.charges_enabled,
+    payouts_enabled: account.payouts_enabled,
+    business_name: account.business_profile?.name || null,
+    country: account.country,
+    default_currency: account.default_currency,
+    disconnected_at: null
+  })
+  if (skipReason) return skipReason
+
+  const { error } = await ctx.supabase
+    .from('sub_saas_apps')
+    .update({ stripe_connect_enabled: true, stripe_onboarding_complete: !!account.details_submitted })
+    .eq('stripe_account_id', account.id)
+
+  if (error) throw new Error(`Failed to update sub-SaaS app: ${error.message}`)
+}
+
+// The account owner disconnected the platform; payments can no longer be created
+async function handleAccountDeauthorized(ctx: EventContext) {
+  const accountId = ctx.event.account!
+
+  const skipReason = await applyInOrder(ctx, 'stripe_connect_accounts', ['stripe_account_id', accountId], {
+    charges_enabled: false,
+    payouts_enabled: false,
+    disconnected_at: toTimestamp(ctx.event.created)
+  })
+  if (skipReason) return skipReason
+
+  const { error } = await ctx.supabase
+    .from('sub_saas_apps')
+    .update({ stripe_connect_enabled: false })
+    .eq('stripe_account_id', accountId)
+
+  if (error) throw new Error(`Failed to update sub-SaaS app: ${error.message}`)
+}
+
+const HANDLERS: Record<string, EventHandler> = {
+  'customer.subscription.created': handleSubscriptionChange,
+  'customer.subscription.updated': handleSubscriptionChange,
+  'customer.subscription.paused': handleSubscriptionChange,
+  'customer.subscription.resumed': handleSubscriptionChange,
+  'customer.subscription.deleted': handleSubscriptionDeleted,
+  'customer.subscription.trial_will_end': handleTrialWillEnd,
+  'invoice.paid': handleInvoicePaid,
+  'invoice.payment_failed': handlePaymentFailed,
+  'checkout.session.completed': handleCheckoutCompleted,
+  'checkout.session.async_payment_succeeded': handleCheckoutCompleted
+}
+
+const CONNECT_HANDLERS: Record<string, EventHandler> = {
+  'account.updated': handleAccountUpdated,
+  'account.application.deauthorized': handleAccountDeauthorized
+}
@@ -0,0 +1,260 @@
+// =====================================================
+// TENANT LIFECYCLE
+// Suspension, scheduled deletion and purge. A purge cleans up
+// every subsystem outside the tenant's rows first (Stripe
+// subscription, ss_* tables, vault, cron, Cloudflare, Resend,
+// data export files),
+// then deletes the rows (purge_tenant_rows). If an external
+// step fails the rows are kept, so the next run can retry;
+// every step is safe to repeat. Each attempt's report is saved
+// on the tenant_deletions row.
+// =====================================================
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { listTenantExportFiles, removeExportFiles } from './privacy.ts'
+
+export interface PurgeStep {
+  step: string
+  status: 'done' | 'planned' | 'skipped' | 'failed'
+  items?: string[]          // What was (or would be) removed
+  error?: string
+}
+
+export interface DeletionReport {
+  tenant_id: string
+  tenant_name: string
+  dry_run: boolean
+  started_at: string
+  finished_at: string
+  steps: PurgeStep[]
+  rows_deleted: Record<string, number>
+  purged: boolean
+}
+
+const STRIPE_SECRET_KEY = Deno.env.get('STRIPE_SECRET_KEY')
+const CF_ACCOUNT_ID = Deno.env.get('CLOUDFLARE_ACCOUNT_ID')
+const CF_API_TOKEN = Deno.env.get('CLOUDFLARE_API_TOKEN')
+const RESEND_API_KEY = Deno.env.get('RESEND_FULL')
+
+// DELETE on an external API; a resource that is already gone counts as deleted
+async function deleteRemote(url: string, token: string): Promise<void> {
+  const response = await fetch(url, { method: 'DELETE', headers: { 'Authorization': `Bearer ${token}` } })
+  if (!response.ok && response.status !== 404) {
+    throw new Error(`HTTP ${response.status}: ${(await response.text()).slice(0, 200)}`)
+  }
+}
+
+// Runs one purge step over its items; dry runs only list them
+async function runStep(
+  step: string,
+  items: string[],
+  dryRun: boolean,
+  remove: (item: string) => Promise<void>
+): Promise<PurgeStep> {
+  if (!items.length) return { step, status: 'skipped' }
+  if (dryRun) return { step, status: 'planned', items }
+
+  const removed: string[] = []
+  const errors: string[] = []
+
+  for (const item of items) {
+    try {
+      await remove(item)
+      removed.push(item)
+    } catch (error) {
+      errors.push(`${item}: ${error.message}`)
+    }
+  }
+
+  return errors.length
+    ? { step, status: 'failed', items: removed, error: errors.join('; ') }
+    : { step, status: 'done', items: removed }
+}
+
+// Same, for steps that remove all items in one call
+async function runBatchStep(
+  step: string,
+  items: string[],
+  dryRun: boolean,
+  removeAll: () => Promise<void>
+): Promise<PurgeStep> {
+  if (!items.length) return { step, status: 'skipped' }
+  if (dryRun) return { step, status: 'planned', items }
+
+  try {
+    await removeAll()
+    return { step, status: 'done', items }
+  } catch (error) {
+    return { step, status: 'failed', error: error.message }
+  }
+}
+
+// Purges one tenant. `force` deletes the rows even when an external step
+// failed (the failed resources are then left behind).
+export async function purgeTenant(
+  supabase: SupabaseClient,
+  tenantId: string,
+  options: { dryRun: boolean; force?: boolean }
+): Promise<DeletionReport> {
+  const startedAt = new Date().toISOString()
+  const { dryRun } = options
+
+  const { data: tenant, error } = await supabase
+    .from('tenants')
+    .select('id, name, stripe_subscription_id, subscription_status')
+    .eq('id', tenantId)
+    .single()
+
+  if (error || !tenant) throw new Error(`Tenant not found: ${tenantId}`)
+
+  const [{ data: apps }, { data: pages }, { data: domains }, { data: secrets }, { data: jobs }] = await Promise.all([
+    supabase.from('sub_saas_apps').select('id').eq('tenant_id', tenantId),
+    supabase.from('pages').select('cloudflare_project').eq('tenant_id', tenantId).not('cloudflare_project', 'is', null),
+    supabase.from('domains').select('domain, resend_domain_id').eq('tenant_id', tenantId).not('resend_domain_id', 'is', null),
+    supabase.from('tenant_secrets').select('name').eq('tenant_id', tenantId),
+    supabase.from('cron_job_registry').select('job_name').eq('tenant_id', tenantId)
+  ])
+
+  const steps: PurgeStep[] = []
+
+  // 1. Stop billing
+  const subscription = tenant.stripe_subscription_id && tenant.subscription_status !== 'canceled'
+    ? [tenant.stripe_subscription_id]
+    : []
+  steps.push(await runStep('stripe_subscription', subscription, dryRun, async (id) => {
+    if (!STRIPE_SECRET_KEY) throw new Error('STRIPE_SECRET_KEY not set')
+    await deleteRemote(`https://api.stripe.com/v1/subscriptions/${id}`, STRIPE_SECRET_KEY)
+  }))
+
+  // 2. Per-app ss_* tables
+  steps.push(await runStep('sub_saas_tables', (apps || []).map((app: any) => app.id), dryRun, async (appId) => {
+    const { data, error } = await supabase.rpc('drop_sub_saas_tables', { sub_saas_uuid: appId })
+    if (error) throw error
+    if (!data?.success) throw new Error(data?.error || 'drop_sub_saas_tables failed')
+  }))
+
+  // 3. Vault secrets
+  steps.push(await runBatchStep('vault_secrets', (secrets || []).map((s: any) => s.name), dryRun, async () => {
+    const { error } = await supabase.rpc('purge_tenant_vault', { p_tenant_id: tenantId })
+    if (error) throw error
+  }))
+
+  // 4. pg_cron jobs
+  steps.push(await runBatchStep('cron_jobs', (jobs || []).map((j: any) => j.job_name), dryRun, async () => {
+    const { error } = await supabase.rpc('purge_tenant_cron_jobs', { p_tenant_id: tenantId })
+    if (error) throw error
+  }))
+
+  // 5. Cloudflare Pages projects
+  const projects = [...new Set((pages || []).map((p: any) => p.cloudflare_project as string))]
+  steps.push(await runStep('cloudflare_projects', projects, dryRun, async (project) => {
+    if (!CF_ACCOUNT_ID || !CF_API_TOKEN) throw new Error('Cloudflare credentials not set')
+    await deleteRemote(`https://api.cloudflare.com/client/v4/accounts/${CF_ACCOUNT_ID}/pages/projects/${project}`, CF_API_TOKEN)
+  }))
+
+  // 6. Resend sending domains
+  const resendIds = new Map((domains || []).map((d: any) => [d.domain as string, d.resend_domain_id as string]))
+  steps.push(await runStep('resend_domains', [...resendIds.keys()], dryRun, async (domain) => {
+    if (!RESEND_API_KEY) throw new Error('RESEND_FULL not set')
+    await deleteRemote(`https://api.resend.com/domains/${resendIds.get(domain)}`, RESEND_API_KEY)
+  }))
+
+  // 7. GDPR export files in Storage
+  try {
+    const files = await listTenantExportFiles(supabase, tenantId)
+    steps.push(await runBatchStep('data_exports', files, dryRun, () => removeExportFiles(supabase, files)))
+  } catch (e) {
+    steps.push({ step: 'data_exports', status: 'failed', error: e.message })
+  }
+
+  // 8. The tenant's rows, unless something above failed
+  let rowsDeleted: Record<string, number> = {}
+  const failed = steps.some(step => step.status === 'failed')
+
+  if (dryRun) {
+    steps.push({ step: 'database', status: 'planned' })
+  } else if (failed && !options.force) {
+    steps.push({ step: 'database', status: 'skipped', error: 'Kept until the failed steps succeed (or force)' })
+  } else {
+    const { data, error: purgeError } = await supabase.rpc('purge_tenant_rows', { p_tenant_id: tenantId })
+    if (purgeError) {
+      steps.push({ step: 'database', status: 'failed', error: purgeError.message })
+    } else {
+      rowsDeleted = data || {}
+      steps.push({ step: 'database', status: 'done', items: Object.keys(rowsDeleted) })
+    }
+  }
+
+  return {
+    tenant_id: tenantId,
+    tenant_name: tenant.name,
+    dry_run: dryRun,
+    started_at: startedAt,
+    finished_at: new Date().toISOString(),
+    steps,
+    rows_deleted: rowsDeleted,
+    purged: !dryRun && steps[steps.length - 1].status === 'done'
+  }
+}
+
+export interface PurgeRunResult {
+  dry_run: boolean
+  purged: DeletionReport[]
+  failed: DeletionReport[]
+}
+
+// Purges tenants whose deletion is due (or one tenant's open deletion right
+// away) and records each attempt on its tenant_deletions row
+export async function runTenantPurge(
+  supabase: SupabaseClient,
+  options: { tenantId?: string; dryRun: boolean; force?: boolean }
+): Promise<PurgeRunResult> {
+  let query = supabase
+    .from('tenant_deletions')
+    .select('id, tenant_id, attempts')
+    .in('status', ['scheduled', 'failed'])
+    .order('scheduled_for')
+
+  query = options.tenantId
+    ? query.eq('tenant_id', options.tenantId)
+    : query.lte('scheduled_for', new Date().toISOString())
+
+  const { data: deletions, error } = await query
+  if (error) throw error
+
+  const result: PurgeRunResult = { dry_run: options.dryRun, purged: [], failed: [] }
+
+  for (const deletion of deletions || []) {
+    let report: DeletionReport
+    try {
+      report = await purgeTenant(supabase, deletion.tenant_id, options)
+    } catch (e) {
+      console.error(`Purge of ${deletion.tenant_id} failed:`, e.message)
+      report = {
+        tenant_id: deletion.tenant_id, tenant_name: '', dry_run: options.dryRun,
+        started_at: new Date().toISOString(), finished_at: new Date().toISOString(),
+        steps: [{ step: 'tenant', status: 'failed', error: e.message }], rows_deleted: {}, purged: false
+      }
+    }
+
+    if (options.dryRun) {
+      result.purged.push(report)
+      continue
+    }
+
+    await supabase
+      .from('tenant_deletions')
+      .update({
+        status: report.purged ? 'completed' : 'failed',
+        attempts: deletion.attempts + 1,
+        report,
+        ...(report.purged && { completed_at: report.finished_at }),
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', deletion.id)
+
+    ;(report.purged ? result.purged : result.failed).push(report)
+  }
+
+  return result
+}
@@ -0,0 +1,235 @@
+// =====================================================
+// USAGE ALERTS
+// Fires a tenant's usage thresholds (percent of the plan limit)
+// once per limit period: email to owners, outbound webhook
+// 'usage.threshold_reached' and an in-app notification.
+// Thresholds and channels come from global_config 'usage_alerts'
+// (global or per tenant).
+// =====================================================
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { sendTemplateEmail, sendQuickEmail } from './email.ts'
+import { sendWebhookEvent } from './webhooks.ts'
+import type { LimitCheck } from './plans.ts'
+
+export const USAGE_ALERTS_CONFIG_KEY = 'usage_alerts'
+export const ALERT_CHANNELS = ['email', 'webhook', 'in_app'] as const
+
+export interface UsageAlertConfig {
+  thresholds: number[]                  // Percent of the limit
+  features: Record<string, number[]>    // Per-feature thresholds
+  channels: string[]
+}
+
+const DEFAULT_USAGE_ALERT_CONFIG: UsageAlertConfig = { thresholds: [80, 100], features: {}, channels: [...ALERT_CHANNELS] }
+const DAY_MS = 24 * 60 * 60 * 1000
+const BILLING_URL = `${Deno.env.get('APP_URL') || 'https://kurs.ing'}/billing`
+
+// Global config with the tenant's override on top
+export async function getUsageAlertConfig(supabase: SupabaseClient, tenantId: string): Promise<UsageAlertConfig> {
+  const { data } = await supabase
+    .from('global_config')
+    .select('scope, value')
+    .eq('key', USAGE_ALERTS_CONFIG_KEY)
+    .or(`scope.eq.global,tenant_id.eq.${tenantId}`)
+
+  const global = data?.find(row => row.scope === 'global')?.value
+  const tenant = data?.find(row => row.scope === 'tenant')?.value
+  const config = { ...DEFAULT_USAGE_ALERT_CONFIG, ...global, ...tenant }
+
+  const percents = (values: unknown) => (Array.isArray(values) ? values : [])
+    .map(Number)
+    .filter(value => Number.isFinite(value) && value > 0)
+    .sort((a, b) => a - b)
+
+  return {
+    thresholds: percents(config.thresholds),
+    features: Object.fromEntries(
+      Object.entries(config.features || {}).map(([feature, values]) => [feature, percents(values)])
+    ),
+    channels: (Array.isArray(config.channels) ? config.channels : [])
+      .filter((channel: string) => (ALERT_CHANNELS as readonly string[]).includes(channel))
+  }
+}
+
+// One key per limit period, so each threshold fires once per period.
+// Rolling limits have no period start; they use fixed 30-day windows.
+export function periodKey(check: LimitCheck): string {
+  if (check.period === 'rolling_30d') return `rolling_30d:${Math.floor(Date.now() / (30 * DAY_MS))}`
+  if (check.period === 'total') return 'total'
+  return `${check.period}:${check.period_start}`
+}
+
+// Fires the thresholds the tenant's usage has reached. Each alert is claimed
+// with a unique insert before anything is sent, so concurrent checks don't
+// send twice; when every channel fails the claim is released, so the next
+// check retries. Never throws: alerts must not fail the request.
+export async function checkUsageAlerts(
+  supabase: SupabaseClient,
+  tenantId: string,
+  check: LimitCheck
+): Promise<number[]> {
+  try {
+    if (check.limit <= 0) return []
+
+    const config = await getUsageAlertConfig(supabase, tenantId)
+    const thresholds = config.features[check.feature] || config.thresholds
+    const percent = (check.current / check.limit) * 100
+    const reached = thresholds.filter(threshold => percent >= threshold)
+    if (!reached.length || !config.channels.length) return []
+
+    const fired: number[] = []
+
+    for (const threshold of reached) {
+      const { data: claimed } = await supabase
+        .from('usage_alerts')
+        .upsert({
+          tenant_id: tenantId,
+          feature: check.feature,
+          threshold,
+          period_key: periodKey(check),
+          limit_value: check.limit,
+          usage_value: check.current
+        }, { onConflict: 'tenant_id,feature,threshold,period_key,limit_value', ignoreDuplicates: true })
+        .select('id')
+
+      if (claimed?.length) fired.push(threshold)
+    }
+
+    if (!fired.length) return []
+
+    // Only the highest new threshold is announced when several are crossed at once
+    const threshold = fired[fired.length - 1]
+    const channels = await deliverUsageAlert(supabase, tenantId, check, threshold, config.channels)
+
+    // The rows claimed above
+    const firedRows = (query: any) => query
+      .eq('tenant_id', tenantId)
+      .eq('feature', check.feature)
+      .eq('period_key', periodKey(check))
+      .eq('limit_value', check.limit)
+      .in('threshold', fired)
+
+    if (!channels.length) {
+      console.warn(`Usage alert ${tenantId}/${check.feature} at ${threshold}% failed on every channel (${config.channels.join(', ')}); released for retry`)
+      await firedRows(supabase.from('usage_alerts').delete())
+      return []
+    }
+
+    await firedRows(supabase.from('usage_alerts').update({ channels }))
+
+    return fired
+  } catch (error) {
+    console.error(`Usage alerts for ${tenantId}/${check.feature} failed:`, error.message)
+    return []
+  }
+}
+
+async function deliverUsageAlert(
+  supabase: SupabaseClient,
+  tenantId: string,
+  check: LimitCheck,
+  threshold: number,
+  channels: string[]
+): Promise<string[]> {
+  const { data: tenant } = await supabase.from('tenants').select('name').eq('id', tenantId).single()
+  const tenantName = tenant?.name || 'your workspace'
+
+  const data = {
+    feature: check.feature,
+    threshold,
+    usage: check.current,
+    limit: check.limit,
+    period: check.period,
+    period_start: check.period_start || null,
+    plan: check.plan
+  }
+  const title = threshold >= 100
+    ? `${check.feature} limit reached`
+    : `${check.feature} at ${threshold}% of your plan limit`
+  const text = `${tenantName} has used ${check.current} of ${check.limit} ${check.feature} this ${check.period === 'total' ? 'plan' : 'period'} (${check.plan} plan). Upgrade to raise the limit.\n\n${BILLING_URL}`
+
+  const delivered: string[] = []
+
+  if (channels.includes('in_app')) {
+    const { error } = await supabase.from('notifications').insert({
+      tenant_id: tenantId,
+      type: 'usage_alert',
+      title,
+      body: text.split('\n\n')[0],
+      data
+    })
+    if (!error) delivered.push('in_app')
+  }
+
+  if (channels.includes('webhook')) {
+    if (await sendWebhookEvent(supabase, tenantId, 'usage.threshold_reached', data)) delivered.push('webhook')
+  }
+
+  if (channels.includes('email')) {
+    if (await sendUsageAlertEmail(supabase, tenantId, tenantName, title, text, data)) delivered.push('email')
+  }
+
+  return delivered
+}
+
+// Emails the tenant's owners with the 'usage_alert' template, or a
+// built-in message when the tenant has none
+async function sendUsageAlertEmail(
+  supabase: SupabaseClient,
+  tenantId: string,
+  tenantName: string,
+  subject: string,
+  text: string,
+  data: Record<string, unknown>
+): Promise<boolean> {
+  const { data: owners } = await supabase
+    .from('user_tenants')
+    .select('user_id')
+    .eq('tenant_id', tenantId)
+    .eq('role', 'owner')
+
+  const variables: Record<string, string> = Object.fromEntries(
+    Object.entries({ ...data, tenant_name: tenantName, billing_url: BILLING_URL }).map(([key, value]) => [key, String(value ?? '')])
+  )
+  let sent = false
+
+  for (const owner of owners || []) {
+    const { data: { user } } = await supabase.auth.admin.getUserById(owner.user_id)
+    if (!user?.email) continue
+
+    let emailResult = await sendTemplateEmail(supabase, {
+      templateName: 'usage_alert',
+      to: user.email,
+      variables,
+      tenantId
+    })
+
+    if (!emailResult.success && emailResult.error === `Template 'usage_alert' not found`) {
+      emailResult = await sendQuickEmail(supabase, {
+        to: user.email,
+        subject,
+        html: `<p>${escapeHtml(text).replace(/\n\n/g, '</p><p>')}</p>`,
+        text,
+        tenantId
+      })
+    }
+
+    if (emailResult.success) {
+      sent = true
+    } else {
+      console.error(`Usage alert email to ${user.email} failed:`, emailResult.error)
+    }
+  }
+
+  return sent
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
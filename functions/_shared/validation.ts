@@ -0,0 +1,173 @@
+// =====================================================
+// REQUEST VALIDATION
+// Checks a body against its action schema (schemas.ts),
+// coerces simple types and applies defaults.
+// createHandler runs this when given `actions`.
+// =====================================================
+
+import { ActionSchema, ActionSchemas, FieldSchema } from './schemas.ts'
+
+export interface FieldError {
+  field: string
+  message: string
+}
+
+export type ValidationResult =
+  | { valid: true; data: Record<string, any> }
+  | { valid: false; status: number; error: string; code: string; details: Record<string, any> }
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+// Validate body.action and the fields of that action
+export function validateAction(body: Record<string, any>, actions: ActionSchemas): ValidationResult {
+  const available = Object.keys(actions)
+  const { action } = body
+
+  if (action === undefined || action === null || action === '') {
+    return {
+      valid: false, status: 400, code: 'MISSING_ACTION',
+      error: 'action required', details: { available_actions: available }
+    }
+  }
+  if (typeof action !== 'string' || !Object.prototype.hasOwnProperty.call(actions, action)) {
+    return {
+      valid: false, status: 400, code: 'INVALID_ACTION',
+      error: `Invalid action: ${action}`, details: { available_actions: available }
+    }
+  }
+
+  const schema = actions[action]
+  const result = validateFields(body, schema)
+  if (!result.valid) {
+    return {
+      ...result,
+      details: { ...result.details, action, ...(schema.example ? { example: schema.example } : {}) }
+    }
+  }
+  return result
+}
+
+// Validate the declared fields of a body. Unknown fields pass through untouched.
+export function validateFields(body: Record<string, any>, schema: ActionSchema): ValidationResult {
+  const data: Record<string, any> = { ...body }
+  const errors: FieldError[] = []
+
+  for (const [field, fieldSchema] of Object.entries(schema.properties || {})) {
+    if (isMissing(data[field])) {
+      if (schema.required?.includes(field)) {
+        errors.push({ field, message: `${field} is required` })
+      } else if (fieldSchema.default !== undefined && data[field] === undefined) {
+        data[field] = structuredClone(fieldSchema.default)
+      }
+      continue
+    }
+    data[field] = checkValue(data[field], fieldSchema, field, errors)
+  }
+
+  for (const field of schema.required || []) {
+    if (!schema.properties?.[field] && isMissing(data[field])) {
+      errors.push({ field, message: `${field} is required` })
+    }
+  }
+
+  if (schema.requireAny && schema.requireAny.every(f => isMissing(data[f]))) {
+    errors.push({ field: schema.requireAny.join('|'), message: `One of ${schema.requireAny.join(', ')} is required` })
+  }
+
+  if (errors.length > 0) {
+    return {
+      valid: false, status: 400, code: 'VALIDATION_ERROR',
+      error: errors.map(e => e.message).join('; '), details: { errors }
+    }
+  }
+  return { valid: true, data }
+}
+
+function isMissing(value: unknown): boolean {
+  return value === undefined || value === null || value === ''
+}
+
+// Returns the (possibly coerced) value and records any errors
+function checkValue(value: any, schema: FieldSchema, path: string, errors: FieldError[]): any {
+  const fail = (message: string) => {
+    errors.push({ field: path, message: `${path} ${message}` })
+    return value
+  }
+
+  switch (schema.type) {
+    case 'string':
+      if (typeof value === 'number' || typeof value === 'boolean') value = String(value)
+      if (typeof value !== 'string') return fail('must be a string')
+      if (schema.minLength !== undefined && value.length < schema.minLength) {
+        return fail(`must be at least ${schema.minLength} characters`)
+      }
+      if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+        return fail(`must be at most ${schema.maxLength} characters`)
+      }
+      if (schema.pattern && !new RegExp(schema.pattern).test(value)) return fail('has an invalid format')
+      if (schema.format && !matchesFormat(value, schema.format)) return fail(`must be a valid ${schema.format}`)
+      break
+
+    case 'number':
+    case 'integer':
+      if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) value = Number(value)
+      if (typeof value !== 'number' || !Number.isFinite(value)) return fail('must be a number')
+      if (schema.type === 'integer' && !Number.isInteger(value)) return fail('must be an integer')
+      if (schema.minimum !== undefined && value < schema.minimum) return fail(`must be at least ${schema.minimum}`)
+      if (schema.maximum !== undefined && value > schema.maximum) return fail(`must be at most ${schema.maximum}`)
+      break
+
+    case 'boolean':
+      if (value === 'true' || value === '1' || value === 1) value = true
+      if (value === 'false' || value === '0' || value === 0) value = false
+      if (typeof value !== 'boolean') return fail('must be true or false')
+      break
+
+    case 'array':
+      // "a, b" -> ["a", "b"] for lists of strings
+      if (typeof value === 'string' && schema.items?.type === 'string') {
+        value = value.split(',').map(v => v.trim()).filter(Boolean)
+      }
+      if (!Array.isArray(value)) return fail('must be an array')
+      if (schema.minItems !== undefined && value.length < schema.minItems) {
+        return fail(`must have at least ${schema.minItems} item${schema.minItems === 1 ? '' : 's'}`)
+      }
+      if (schema.items) {
+        const items = schema.items
+        value = value.map((item, i) => checkValue(item, items, `${path}[${i}]`, errors))
+      }
+      break
+
+    case 'object':
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) return fail('must be an object')
+      if (schema.properties || schema.required) {
+        const nested = validateFields(value, schema)
+        if (!nested.valid) {
+          for (const e of nested.details.errors as FieldError[]) {
+            errors.push({ field: `${path}.${e.field}`, message: `${path}.${e.message}` })
+          }
+          return value
+        }
+        value = nested.data
+      }
+      break
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) return fail(`must be one of: ${schema.enum.join(', ')}`)
+  return value
+}
+
+function matchesFormat(value: string, format: NonNullable<FieldSchema['format']>): boolean {
+  switch (format) {
+    case 'uuid': return UUID_REGEX.test(value)
+    case 'email': return EMAIL_REGEX.test(value)
+    case 'date-time': return !isNaN(Date.parse(value))
+    case 'uri':
+      try {
+        return ['http:', 'https:'].includes(new URL(value).protocol)
+      } catch {
+        return false
+      }
+  }
+}
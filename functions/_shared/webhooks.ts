@@ -0,0 +1,92 @@
+// =====================================================
+// OUTBOUND WEBHOOKS
+// Tenant endpoints (webhook_endpoints) receive JSON events
+// signed with HMAC-SHA256 over "<timestamp>.<body>":
+//   X-Webhook-Signature: t=<unix seconds>,v1=<hex>
+// Every attempt is logged in webhook_deliveries.
+// =====================================================
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+export const WEBHOOK_EVENTS = ['usage.threshold_reached'] as const
+
+const DELIVERY_TIMEOUT_MS = 5000
+
+export function generateWebhookSecret(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(24))
+  return 'whsec_' + Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('')
+}
+
+async function sign(secret: string, payload: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  )
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(payload))
+  return Array.from(new Uint8Array(signature)).map(b => b.toString(16).padStart(2, '0')).join('')
+}
+
+// Sends an event to the tenant's active endpoints subscribed to it.
+// Returns the number of successful deliveries.
+export async function sendWebhookEvent(
+  supabase: SupabaseClient,
+  tenantId: string,
+  eventType: string,
+  data: Record<string, unknown>
+): Promise<number> {
+  const { data: endpoints } = await supabase
+    .from('webhook_endpoints')
+    .select('id, url, secret')
+    .eq('tenant_id', tenantId)
+    .eq('is_active', true)
+    .contains('events', [eventType])
+
+  let delivered = 0
+
+  for (const endpoint of endpoints || []) {
+    const payload = { id: crypto.randomUUID(), type: eventType, created: new Date().toISOString(), tenant_id: tenantId, data }
+    const body = JSON.stringify(payload)
+    const timestamp = Math.floor(Date.now() / 1000)
+
+    let status: 'delivered' | 'failed' = 'failed'
+    let responseStatus: number | null = null
+    let error: string | null = null
+
+    try {
+      const response = await fetch(endpoint.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Webhook-Event': eventType,
+          'X-Webhook-Signature': `t=${timestamp},v1=${await sign(endpoint.secret, `${timestamp}.${body}`)}`
+        },
+        body,
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS)
+      })
+      responseStatus = response.status
+      if (response.ok) {
+        status = 'delivered'
+        delivered++
+      } else {
+        error = `HTTP ${response.status}`
+      }
+    } catch (e) {
+      error = e.message
+    }
+
+    await supabase.from('webhook_deliveries').insert({
+      endpoint_id: endpoint.id,
+      tenant_id: tenantId,
+      event_type: eventType,
+      payload,
+      status,
+      response_status: responseStatus,
+      error
+    })
+  }
+
+  return delivered
+}
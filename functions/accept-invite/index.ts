@@ -1,30 +1,15 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2"
+import { createHandler } from "../_shared/middleware.ts"
+import { jsonResponse, errorResponse } from "../_shared/security.ts"
 
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-}
-
-serve(async (req) => {
-  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders })
-  
-  const supabase = createClient(
-    Deno.env.get('SUPABASE_URL')!,
-    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
-  )
-  
-  const authHeader = req.headers.get('Authorization')!
-  const { data: { user }, error: authError } = await supabase.auth.getUser(authHeader.replace('Bearer ', ''))
+serve(createHandler(async ({ supabase, auth, body }) => {
+  const user = auth.user!
+  const { token } = body
   
-  if (authError || !user) {
-    return new Response(JSON.stringify({ error: 'Unauthorized' }), {
-      status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-    })
+  if (!token) {
+    return errorResponse('token required', 400, 'MISSING_TOKEN')
   }
   
-  const { token } = await req.json()
-  
   // Find invite
   const { data: invite, error: inviteError } = await supabase
     .from('invites')
@@ -34,21 +19,15 @@ serve(async (req) => {
     .single()
   
   if (inviteError || !invite) {
-    return new Response(JSON.stringify({ error: 'Invalid or expired invite' }), {
-      status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-    })
+    return errorResponse('Invalid or expired invite', 404, 'INVITE_NOT_FOUND')
   }
   
   if (new Date(invite.expires_at) < new Date()) {
-    return new Response(JSON.stringify({ error: 'Invite has expired' }), {
-      status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-    })
+    return errorResponse('Invite has expired', 400, 'INVITE_EXPIRED')
   }
   
   if (invite.email.toLowerCase() !== user.email?.toLowerCase()) {
-    return new Response(JSON.stringify({ error: 'Email mismatch' }), {
-      status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-    })
+    return errorResponse('Email mismatch', 400, 'EMAIL_MISMATCH')
   }
   
   // Check existing membership
@@ -61,9 +40,7 @@ serve(async (req) => {
   
   if (existing) {
     await supabase.from('invites').update({ accepted_at: new Date().toISOString() }).eq('id', invite.id)
-    return new Response(JSON.stringify({ success: true, message: 'Already a member', tenant: invite.tenants }), {
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-    })
+    return jsonResponse({ success: true, message: 'Already a member', tenant: invite.tenants })
   }
   
   // Check if first tenant
@@ -90,9 +67,7 @@ serve(async (req) => {
     .single()
   
   if (membershipError) {
-    return new Response(JSON.stringify({ error: membershipError.message }), {
-      status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-    })
+    return errorResponse(membershipError.message, 500)
   }
   
   // Mark invite accepted
@@ -108,13 +83,11 @@ serve(async (req) => {
     metadata: { role: invite.role }
   })
   
-  return new Response(JSON.stringify({
+  return jsonResponse({
     success: true,
     membership_id: membership.id,
     tenant: invite.tenants,
     role: invite.role,
     is_default: isDefault
-  }), {
-    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
   })
-})
+}, { requireTenant: false }))
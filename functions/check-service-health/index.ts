@@ -3,12 +3,8 @@
 // Can be called via cron or manually
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2"
-
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-}
+import { createHandler } from "../_shared/middleware.ts"
+import { jsonResponse } from "../_shared/security.ts"
 
 interface HealthCheckResult {
   service_id: string
@@ -102,27 +98,7 @@ async function checkSupabase(supabaseUrl: string): Promise<HealthCheckResult[]>
   return results
 }
 
-serve(async (req) => {
-  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders })
-  
-  const supabase = createClient(
-    Deno.env.get('SUPABASE_URL')!,
-    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
-  )
-  
-  // Optional: verify request is from cron or admin
-  const authHeader = req.headers.get('Authorization')
-  const cronSecret = req.headers.get('X-Cron-Secret')
-  
-  // Allow if cron secret matches or if authenticated as admin
-  const isAuthorized = cronSecret === Deno.env.get('CRON_SECRET') || authHeader
-  
-  if (!isAuthorized) {
-    return new Response(JSON.stringify({ error: 'Unauthorized' }), {
-      status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-    })
-  }
-  
+serve(createHandler(async ({ supabase }) => {
   // Run health checks in parallel
   const [stripeResult, cloudflareResult, supabaseResults] = await Promise.all([
     checkStripe(),
@@ -197,11 +173,15 @@ serve(async (req) => {
   const degraded = allResults.filter(r => r.status === 'degraded').length
   const down = allResults.filter(r => r.status === 'down').length
   
-  return new Response(JSON.stringify({
+  return jsonResponse({
     checked_at: now,
     summary: { healthy, degraded, down, total: allResults.length },
     results: allResults
-  }), {
-    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
   })
-})
+}, {
+  // Cron (X-Cron-Secret), platform admin (X-Admin-Key), or a tenant owner/admin
+  allowCronSecret: true,
+  allowAdminKey: true,
+  allowedRoles: ['owner', 'admin'],
+  rateLimit: 10
+}))
@@ -2,12 +2,9 @@
 // Enable, disable, or configure a service for a tenant
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2"
-
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-}
+import { createHandler } from "../_shared/middleware.ts"
+import { jsonResponse, errorResponse } from "../_shared/security.ts"
+import { CONFIGURE_SERVICE_SCHEMAS } from "../_shared/schemas.ts"
 
 interface ConfigureRequest {
   service_id: string
@@ -15,46 +12,10 @@ interface ConfigureRequest {
   config?: Record<string, unknown>
 }
 
-serve(async (req) => {
-  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders })
-  
-  const supabase = createClient(
-    Deno.env.get('SUPABASE_URL')!,
-    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
-  )
+serve(createHandler(async ({ supabase, auth, body }) => {
+  const tenantId = auth.tenant!.id
   
-  // Authenticate
-  const authHeader = req.headers.get('Authorization')!
-  const { data: { user }, error: authError } = await supabase.auth.getUser(authHeader.replace('Bearer ', ''))
-  
-  if (authError || !user) {
-    return new Response(JSON.stringify({ error: 'Unauthorized' }), {
-      status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-    })
-  }
-  
-  // Get tenant
-  const { data: userTenant } = await supabase
-    .from('user_tenants')
-    .select('tenant_id, role')
-    .eq('user_id', user.id)
-    .eq('is_default', true)
-    .single()
-  
-  if (!userTenant) {
-    return new Response(JSON.stringify({ error: 'No tenant found' }), {
-      status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-    })
-  }
-  
-  // Only owners and admins can configure services
-  if (!['owner', 'admin'].includes(userTenant.role)) {
-    return new Response(JSON.stringify({ error: 'Insufficient permissions' }), {
-      status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-    })
-  }
-  
-  const { service_id, action, config }: ConfigureRequest = await req.json()
+  const { service_id, action, config }: ConfigureRequest = body
   
   // Verify service exists and is enabled platform-wide
   const { data: service, error: serviceError } = await supabase
@@ -64,22 +25,16 @@ serve(async (req) => {
     .single()
   
   if (serviceError || !service) {
-    return new Response(JSON.stringify({ error: 'Service not found' }), {
-      status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-    })
+    return errorResponse('Service not found', 404, 'SERVICE_NOT_FOUND')
   }
   
   if (!service.is_enabled) {
-    return new Response(JSON.stringify({ error: 'Service is not available' }), {
-      status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-    })
+    return errorResponse('Service is not available', 400, 'SERVICE_UNAVAILABLE')
   }
   
   // Can't disable core services
   if (service.is_core && action === 'disable') {
-    return new Response(JSON.stringify({ error: 'Cannot disable core service' }), {
-      status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-    })
+    return errorResponse('Cannot disable core service', 400, 'CORE_SERVICE')
   }
   
   // Check dependencies for enable
@@ -94,7 +49,7 @@ serve(async (req) => {
       const { data: tenantServices } = await supabase
         .from('tenant_services')
         .select('service_id')
-        .eq('tenant_id', userTenant.tenant_id)
+        .eq('tenant_id', tenantId)
         .eq('is_enabled', true)
         .in('service_id', deps.map(d => d.depends_on))
       
@@ -102,12 +57,11 @@ serve(async (req) => {
       const missingDeps = deps.filter(d => !enabledDeps.has(d.depends_on))
       
       if (missingDeps.length > 0) {
-        return new Response(JSON.stringify({ 
+        return jsonResponse({ 
           error: 'Missing required dependencies',
+          code: 'MISSING_DEPENDENCIES',
           missing: missingDeps.map(d => d.depends_on)
-        }), {
-          status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-        })
+        }, 400)
       }
     }
   }
@@ -139,7 +93,7 @@ serve(async (req) => {
   const { data: result, error: upsertError } = await supabase
     .from('tenant_services')
     .upsert({
-      tenant_id: userTenant.tenant_id,
+      tenant_id: tenantId,
       service_id: service_id,
       ...updates
     }, {
@@ -149,17 +103,19 @@ serve(async (req) => {
     .single()
   
   if (upsertError) {
-    return new Response(JSON.stringify({ error: upsertError.message }), {
-      status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-    })
+    return errorResponse(upsertError.message, 500)
   }
   
-  return new Response(JSON.stringify({
+  return jsonResponse({
     success: true,
     service_id,
     action,
     tenant_service: result
-  }), {
-    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
   })
-})
+}, {
+  // Only owners and admins can configure services
+  allowedRoles: ['owner', 'admin'],
+  allowApiKey: true,
+  requiredScopes: ['services:write'],
+  actions: CONFIGURE_SERVICE_SCHEMAS
+}))
@@ -1,62 +1,28 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2"
-import { encode as hexEncode } from "https://deno.land/std@0.168.0/encoding/hex.ts"
+import { createHandler } from "../_shared/middleware.ts"
+import { jsonResponse, errorResponse, API_KEY_SCOPES, isValidScope, generateApiKey } from "../_shared/security.ts"
 
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-}
-
-async function hashKey(key: string): Promise<string> {
-  const encoder = new TextEncoder()
-  const data = encoder.encode(key)
-  const hashBuffer = await crypto.subtle.digest('SHA-256', data)
-  return new TextDecoder().decode(hexEncode(new Uint8Array(hashBuffer)))
-}
-
-serve(async (req) => {
-  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders })
-  
-  const supabase = createClient(
-    Deno.env.get('SUPABASE_URL')!,
-    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
-  )
-  
-  const authHeader = req.headers.get('Authorization')!
-  const { data: { user }, error: authError } = await supabase.auth.getUser(authHeader.replace('Bearer ', ''))
+serve(createHandler(async ({ supabase, auth, body }) => {
+  const user = auth.user!
+  const userTenant = { tenant_id: auth.tenant!.id, tenants: auth.tenant! }
   
-  if (authError || !user) {
-    return new Response(JSON.stringify({ error: 'Unauthorized' }), {
-      status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-    })
-  }
-  
-  const { data: userTenant } = await supabase
-    .from('user_tenants')
-    .select('tenant_id, role, tenants(slug)')
-    .eq('user_id', user.id)
-    .eq('is_default', true)
-    .single()
+  const { name, scopes = ['read'], expires_in_days } = body
   
-  if (!userTenant || !['owner', 'admin'].includes(userTenant.role)) {
-    return new Response(JSON.stringify({ error: 'Insufficient permissions' }), {
-      status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-    })
+  if (!name || name.trim().length === 0) {
+    return errorResponse('Name is required', 400, 'MISSING_NAME')
   }
   
-  const { name, scopes = ['read'], expires_in_days } = await req.json()
-  
-  if (!name || name.trim().length === 0) {
-    return new Response(JSON.stringify({ error: 'Name is required' }), {
-      status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-    })
+  const invalidScopes = Array.isArray(scopes) ? scopes.filter((s: string) => !isValidScope(s)) : ['(not an array)']
+  if (invalidScopes.length > 0) {
+    return jsonResponse({
+      error: `Invalid scopes: ${invalidScopes.join(', ')}`,
+      code: 'INVALID_SCOPE',
+      available_scopes: Object.keys(API_KEY_SCOPES)
+    }, 400)
   }
   
   // Generate key
-  const randomPart = crypto.randomUUID().replace(/-/g, '') + crypto.randomUUID().replace(/-/g, '')
-  const fullKey = `pk_${userTenant.tenants.slug}_${randomPart}`
-  const keyPrefix = fullKey.substring(0, 20) + '...'
-  const keyHash = await hashKey(fullKey)
+  const { key: fullKey, prefix: keyPrefix, hash: keyHash } = await generateApiKey(userTenant.tenants.slug)
   
   const expiresAt = expires_in_days ? new Date(Date.now() + expires_in_days * 24 * 60 * 60 * 1000).toISOString() : null
   
@@ -71,9 +37,7 @@ serve(async (req) => {
     .single()
   
   if (createError) {
-    return new Response(JSON.stringify({ error: createError.message }), {
-      status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-    })
+    return errorResponse(createError.message, 500)
   }
   
   await supabase.from('activity_log').insert({
@@ -82,9 +46,9 @@ serve(async (req) => {
     metadata: { name, scopes }
   })
   
-  return new Response(JSON.stringify({
+  return jsonResponse({
     success: true,
     api_key: { ...apiKey, key: fullKey },
     warning: 'Save this key now. It cannot be retrieved again.'
-  }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } })
-})
+  })
+}, { allowedRoles: ['owner', 'admin'] }))
@@ -2,45 +2,44 @@
 // Creates a Stripe Checkout session for subscriptions or one-time payments
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2"
 import Stripe from "https://esm.sh/stripe@14"
+import { createHandler } from "../_shared/middleware.ts"
+import { jsonResponse, errorResponse } from "../_shared/security.ts"
+import { findPlanPrice, getActivePlanPrice } from "../_shared/plan-prices.ts"
 
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-}
-
-serve(async (req) => {
-  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders })
-  
-  const supabaseAdmin = createClient(
-    Deno.env.get('SUPABASE_URL')!,
-    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
-  )
-  
-  // Determine which Stripe key to use
-  const authHeader = req.headers.get('Authorization')!
-  const { data: { user } } = await supabaseAdmin.auth.getUser(authHeader.replace('Bearer ', ''))
-  
-  if (!user) {
-    return new Response(JSON.stringify({ error: 'Unauthorized' }), { 
-      status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-    })
+serve(createHandler(async ({ supabase, auth, body }) => {
+  const { plan, interval, currency, mode, success_url, cancel_url } = body
+  let { price_id } = body
+  const tenant_id = auth.tenant!.id
+  const checkoutMode = mode || 'subscription'
+  
+  if ((!price_id && !plan) || !success_url || !cancel_url) {
+    return errorResponse('price_id or plan, success_url and cancel_url required', 400, 'MISSING_FIELDS')
   }
   
-  const { tenant_id, price_id, mode, success_url, cancel_url } = await req.json()
+  // Subscriptions only use prices mapped to a plan (manage-billing set_plan_price)
+  if (checkoutMode === 'subscription') {
+    const price = plan
+      ? await findPlanPrice(supabase, plan, { interval, currency })
+      : await getActivePlanPrice(supabase, price_id)
+    
+    if (!price) {
+      return errorResponse(plan ? `No active price for plan ${plan}` : 'Price is not an active plan price', 400, 'UNKNOWN_PRICE')
+    }
+    price_id = price.stripe_price_id
+  } else if (!price_id) {
+    return errorResponse('price_id required for payment mode', 400, 'MISSING_FIELDS')
+  }
   
   // Get tenant's Stripe customer ID
-  const { data: tenant } = await supabaseAdmin
+  const { data: tenant } = await supabase
     .from('tenants')
     .select('stripe_customer_id')
     .eq('id', tenant_id)
     .single()
   
   if (!tenant?.stripe_customer_id) {
-    return new Response(JSON.stringify({ error: 'Tenant has no Stripe customer' }), {
-      status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-    })
+    return errorResponse('Tenant has no Stripe customer', 400, 'NO_STRIPE_CUSTOMER')
   }
   
   // Use live keys for production
@@ -48,14 +47,12 @@ serve(async (req) => {
   
   const session = await stripe.checkout.sessions.create({
     customer: tenant.stripe_customer_id,
-    mode: mode || 'subscription',
+    mode: checkoutMode,
     line_items: [{ price: price_id, quantity: 1 }],
     success_url,
     cancel_url,
-    metadata: { tenant_id, user_id: user.id }
+    metadata: { tenant_id, user_id: auth.role === 'api' ? null : auth.user!.id }
   })
   
-  return new Response(JSON.stringify({ url: session.url }), {
-    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-  })
-})
+  return jsonResponse({ url: session.url })
+}, { allowApiKey: true, requiredScopes: ['billing:write'], restrictUnpaid: false }))
@@ -6,57 +6,14 @@
 // =====================================================
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2"
+import { createHandler } from "../_shared/middleware.ts"
+import { jsonResponse, errorResponse } from "../_shared/security.ts"
+import { checkPlanLimit } from "../_shared/plans.ts"
 
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-admin-key',
-}
-
-const ADMIN_KEY = Deno.env.get('ADMIN_KEY')!
 const STRIPE_SECRET_KEY = Deno.env.get('STRIPE_SECRET_KEY')!
 const PLATFORM_DOMAIN = Deno.env.get('PLATFORM_DOMAIN') || 'yourplatform.com'
 
-serve(async (req) => {
-  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders })
-
-  const supabase = createClient(
-    Deno.env.get('SUPABASE_URL')!,
-    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
-  )
-
-  const authHeader = req.headers.get('Authorization')
-  const adminKey = req.headers.get('X-Admin-Key')
-  const isAdmin = adminKey === ADMIN_KEY
-
-  // Get authenticated user
-  let user: any = null
-  let membership: any = null
-
-  if (authHeader) {
-    const { data: { user: authUser } } = await supabase.auth.getUser(
-      authHeader.replace('Bearer ', '')
-    )
-    if (authUser) {
-      user = authUser
-      const { data: m } = await supabase
-        .from('user_tenants')
-        .select('tenant_id, role, tenants(id, name, plan)')
-        .eq('user_id', user.id)
-        .eq('is_default', true)
-        .single()
-      membership = m
-    }
-  }
-
-  // Must be authenticated and have admin/owner role (or platform admin)
-  if (!isAdmin && (!membership || !['owner', 'admin'].includes(membership.role))) {
-    return new Response(JSON.stringify({ error: 'Admin access required' }), {
-      status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-    })
-  }
-
-  const body = await req.json()
+serve(createHandler(async ({ supabase, auth, body, isAdmin }) => {
   const { 
     name, 
     slug, 
@@ -70,25 +27,19 @@ serve(async (req) => {
 
   // Validation
   if (!name || !slug) {
-    return new Response(JSON.stringify({ error: 'name and slug are required' }), {
-      status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-    })
+    return errorResponse('name and slug are required', 400)
   }
 
   // Validate slug format
   const slugRegex = /^[a-z0-9-]+$/
   if (!slugRegex.test(slug)) {
-    return new Response(JSON.stringify({ error: 'slug must be lowercase alphanumeric with hyphens only' }), {
-      status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-    })
+    return errorResponse('slug must be lowercase alphanumeric with hyphens only', 400)
   }
 
-  const tenantId = isAdmin ? body.tenant_id : membership.tenant_id
+  const tenantId = isAdmin ? body.tenant_id : auth.tenant?.id
 
   if (!tenantId) {
-    return new Response(JSON.stringify({ error: 'tenant_id required' }), {
-      status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-    })
+    return errorResponse('tenant_id required', 400)
   }
 
   try {
@@ -100,9 +51,7 @@ serve(async (req) => {
       .single()
 
     if (existing) {
-      return new Response(JSON.stringify({ error: 'Slug already taken' }), {
-        status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse('Slug already taken', 409)
     }
 
     // Check tenant's sub-saas limit based on plan
@@ -112,26 +61,9 @@ serve(async (req) => {
       .eq('id', tenantId)
       .single()
 
-    const planLimits: Record<string, number> = {
-      free: 1,
-      starter: 3,
-      pro: 10,
-      enterprise: 100
-    }
-
-    const { count: currentCount } = await supabase
-      .from('sub_saas_apps')
-      .select('*', { count: 'exact', head: true })
-      .eq('tenant_id', tenantId)
-      .neq('status', 'deleted')
-
-    const limit = planLimits[tenant?.plan || 'free']
-    if ((currentCount || 0) >= limit) {
-      return new Response(JSON.stringify({ 
-        error: `Plan limit reached. ${tenant?.plan || 'free'} plan allows ${limit} sub-apps. Upgrade to create more.`
-      }), {
-        status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+    const limit = await checkPlanLimit(supabase, { tenantId, plan: tenant?.plan || 'free', feature: 'sub_apps' })
+    if (!limit.allowed) {
+      return errorResponse(`Plan limit reached. ${limit.plan} plan allows ${limit.limit} sub-apps. Upgrade to create more.`, 403)
     }
 
     // Fetch template from database
@@ -146,12 +78,10 @@ serve(async (req) => {
       .single()
 
     if (!templateData && template !== 'blank') {
-      return new Response(JSON.stringify({ 
+      return jsonResponse({ 
         error: `Template '${template}' not found`,
         available: await getAvailableTemplates(supabase, tenantId)
-      }), {
-        status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      }, 404)
     }
 
     // Create the sub-saas app
@@ -193,7 +123,7 @@ serve(async (req) => {
       stripeConnect = await setupStripeConnect(supabase, subSaas.id, tenantId, name)
     }
 
-    return new Response(JSON.stringify({
+    return jsonResponse({
       success: true,
       sub_saas: {
         id: subSaas.id,
@@ -208,16 +138,12 @@ serve(async (req) => {
       },
       tables_created: createdTables,
       stripe_connect: stripeConnect
-    }), {
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
     })
 
   } catch (error) {
-    return new Response(JSON.stringify({ error: error.message }), {
-      status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-    })
+    return errorResponse(error.message, 500)
   }
-})
+}, { allowAdminKey: true, allowedRoles: ['owner', 'admin'] }))
 
 // =====================================================
 // GET AVAILABLE TEMPLATES
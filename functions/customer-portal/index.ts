@@ -2,44 +2,22 @@
 // Creates a Stripe Customer Portal session for managing subscriptions
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2"
 import Stripe from "https://esm.sh/stripe@14"
+import { createHandler } from "../_shared/middleware.ts"
+import { jsonResponse, errorResponse } from "../_shared/security.ts"
 
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-}
-
-serve(async (req) => {
-  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders })
-  
-  const supabaseAdmin = createClient(
-    Deno.env.get('SUPABASE_URL')!,
-    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
-  )
-  
-  const authHeader = req.headers.get('Authorization')!
-  const { data: { user } } = await supabaseAdmin.auth.getUser(authHeader.replace('Bearer ', ''))
-  
-  if (!user) {
-    return new Response(JSON.stringify({ error: 'Unauthorized' }), { 
-      status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-    })
-  }
-  
-  const { tenant_id, return_url } = await req.json()
+serve(createHandler(async ({ req, supabase, auth, body }) => {
+  const { return_url } = body
   
   // Get tenant's Stripe customer ID
-  const { data: tenant } = await supabaseAdmin
+  const { data: tenant } = await supabase
     .from('tenants')
     .select('stripe_customer_id')
-    .eq('id', tenant_id)
+    .eq('id', auth.tenant!.id)
     .single()
   
   if (!tenant?.stripe_customer_id) {
-    return new Response(JSON.stringify({ error: 'Tenant has no Stripe customer' }), {
-      status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-    })
+    return errorResponse('Tenant has no Stripe customer', 400, 'NO_STRIPE_CUSTOMER')
   }
   
   const stripe = new Stripe(Deno.env.get('STRIPE_SECRET_KEY')!)
@@ -49,7 +27,5 @@ serve(async (req) => {
     return_url: return_url || req.headers.get('referer') || 'https://example.com'
   })
   
-  return new Response(JSON.stringify({ url: session.url }), {
-    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-  })
-})
+  return jsonResponse({ url: session.url })
+}, { restrictUnpaid: false }))
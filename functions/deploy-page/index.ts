@@ -2,48 +2,18 @@
 // Deploys a page to Cloudflare Pages with production credentials
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2"
+import { createHandler } from "../_shared/middleware.ts"
+import { jsonResponse, errorResponse } from "../_shared/security.ts"
 
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-}
-
-serve(async (req) => {
-  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders })
-  
-  const supabase = createClient(
-    Deno.env.get('SUPABASE_URL')!,
-    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
-  )
-  
+serve(createHandler(async ({ supabase, auth, body }) => {
   const CF_ACCOUNT_ID = Deno.env.get('CLOUDFLARE_ACCOUNT_ID')!
   const CF_API_TOKEN = Deno.env.get('CLOUDFLARE_API_TOKEN')!
   
-  const authHeader = req.headers.get('Authorization')!
-  const { data: { user } } = await supabase.auth.getUser(authHeader.replace('Bearer ', ''))
-  
-  if (!user) {
-    return new Response(JSON.stringify({ error: 'Unauthorized' }), { 
-      status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-    })
-  }
-  
-  const { page_id, project_name } = await req.json()
-  
-  // Get tenant
-  const { data: userTenant } = await supabase
-    .from('user_tenants')
-    .select('tenant_id')
-    .eq('user_id', user.id)
-    .single()
-  
-  const tenant_id = userTenant?.tenant_id
+  const { page_id, project_name } = body
+  const tenant_id = auth.tenant!.id
   
-  if (!tenant_id) {
-    return new Response(JSON.stringify({ error: 'No tenant found' }), { 
-      status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-    })
+  if (!page_id) {
+    return errorResponse('page_id required', 400, 'MISSING_PAGE_ID')
   }
   
   // Get page content
@@ -55,9 +25,7 @@ serve(async (req) => {
     .single()
   
   if (pageError || !page) {
-    return new Response(JSON.stringify({ error: 'Page not found' }), { 
-      status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-    })
+    return errorResponse('Page not found', 404, 'PAGE_NOT_FOUND')
   }
 
   // Swap test credentials for production
@@ -111,9 +79,7 @@ serve(async (req) => {
   const deployResult = await deployResponse.json()
   
   if (!deployResult.success) {
-    return new Response(JSON.stringify({ error: deployResult.errors }), {
-      status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-    })
+    return jsonResponse({ error: 'Cloudflare deployment failed', code: 'DEPLOY_FAILED', details: deployResult.errors }, 502)
   }
   
   const deployment = deployResult.result
@@ -137,16 +103,14 @@ serve(async (req) => {
     environment: 'production',
     cloudflare_deployment_id: deployment.id,
     html_hash: hashHex,
-    deployed_by: user.id
+    deployed_by: auth.role === 'api' ? null : auth.user!.id
   })
   
-  return new Response(JSON.stringify({
+  return jsonResponse({
     success: true,
     deployment_id: deployment.id,
     url: liveUrl,
     preview_url: deployment.url,
     project: cfProjectName
-  }), {
-    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
   })
-})
+}, { allowApiKey: true, requiredScopes: ['pages:deploy'] }))
@@ -2,12 +2,8 @@
 // Returns available services, their status, and tenant-specific configuration
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2"
-
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-}
+import { createHandler } from "../_shared/middleware.ts"
+import { jsonResponse, errorResponse } from "../_shared/security.ts"
 
 interface ServiceWithStatus {
   id: string
@@ -30,38 +26,14 @@ interface ServiceWithStatus {
   }
 }
 
-serve(async (req) => {
-  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders })
-  
-  const supabase = createClient(
-    Deno.env.get('SUPABASE_URL')!,
-    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
-  )
-  
-  // Check if user is authenticated
-  const authHeader = req.headers.get('Authorization')
-  let tenant_id: string | null = null
-  
-  if (authHeader) {
-    const { data: { user } } = await supabase.auth.getUser(authHeader.replace('Bearer ', ''))
-    
-    if (user) {
-      // Get user's tenant
-      const { data: userTenant } = await supabase
-        .from('user_tenants')
-        .select('tenant_id')
-        .eq('user_id', user.id)
-        .eq('is_default', true)
-        .single()
-      
-      tenant_id = userTenant?.tenant_id
-    }
-  }
+serve(createHandler(async ({ req, supabase, auth, body }) => {
+  // Tenant config is included when authenticated
+  const tenant_id: string | null = auth.tenant?.id || null
   
-  // Get query params
+  // Query params, or the JSON body for POST callers (e.g. MCP)
   const url = new URL(req.url)
-  const category = url.searchParams.get('category')
-  const includeDisabled = url.searchParams.get('include_disabled') === 'true'
+  const category = url.searchParams.get('category') || body.category || null
+  const includeDisabled = (url.searchParams.get('include_disabled') ?? String(body.include_disabled ?? false)) === 'true'
   
   // Fetch all services
   let servicesQuery = supabase
@@ -80,9 +52,7 @@ serve(async (req) => {
   const { data: services, error: servicesError } = await servicesQuery
   
   if (servicesError) {
-    return new Response(JSON.stringify({ error: servicesError.message }), {
-      status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-    })
+    return errorResponse(servicesError.message, 500)
   }
   
   // Fetch service status
@@ -155,14 +125,12 @@ serve(async (req) => {
     return acc
   }, {} as Record<string, ServiceWithStatus[]>)
   
-  return new Response(JSON.stringify({
+  return jsonResponse({
     services: result,
     by_category: grouped,
     categories: categories,
     tenant_id: tenant_id,
     total: result.length,
     configured: result.filter(s => s.tenant_config?.is_configured).length,
-  }), {
-    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
   })
-})
+}, { requireAuth: false, allowApiKey: true, requiredScopes: ['services:read'] }))
@@ -2,12 +2,8 @@
 // Dynamic message matching for Google Ads keywords
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2"
-
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'content-type',
-}
+import { createHandler } from "../_shared/middleware.ts"
+import { jsonResponse, errorResponse } from "../_shared/security.ts"
 
 interface MatchRequest {
   page_id: string
@@ -16,15 +12,12 @@ interface MatchRequest {
   url: string
 }
 
-serve(async (req) => {
-  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders })
+serve(createHandler(async ({ supabase, body }) => {
+  const { page_id, gclid, keyword, url }: MatchRequest = body
   
-  const supabase = createClient(
-    Deno.env.get('SUPABASE_URL')!,
-    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
-  )
-  
-  const { page_id, gclid, keyword, url }: MatchRequest = await req.json()
+  if (!page_id) {
+    return errorResponse('page_id required', 400, 'MISSING_PAGE_ID')
+  }
   
   // Get page's gads_config
   const { data: page } = await supabase
@@ -34,9 +27,7 @@ serve(async (req) => {
     .single()
   
   if (!page?.gads_config) {
-    return new Response(JSON.stringify({ replacements: null }), {
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-    })
+    return jsonResponse({ replacements: null })
   }
   
   const config = page.gads_config as {
@@ -75,7 +66,5 @@ serve(async (req) => {
     matched_config: Object.keys(replacements).length > 0
   }).then(() => {}).catch(() => {})
   
-  return new Response(JSON.stringify({ replacements }), {
-    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-  })
-})
+  return jsonResponse({ replacements })
+}, { requireAuth: false, publicCors: true, rateLimit: 300 }))
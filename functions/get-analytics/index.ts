@@ -5,59 +5,38 @@
 // =====================================================
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2"
+import { createHandler } from "../_shared/middleware.ts"
+import { jsonResponse, errorResponse } from "../_shared/security.ts"
 
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-admin-key',
-}
-
-const ADMIN_KEY = Deno.env.get('ADMIN_KEY')!
-
-serve(async (req) => {
-  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders })
-
-  const adminKey = req.headers.get('X-Admin-Key')
-  if (!adminKey || adminKey !== ADMIN_KEY) {
-    return new Response(JSON.stringify({ error: 'Admin key required' }), {
-      status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-    })
-  }
-
-  const supabase = createClient(
-    Deno.env.get('SUPABASE_URL')!,
-    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
-  )
-
-  const { report_type, tenant_id, start_date, end_date, limit } = await req.json()
+serve(createHandler(async ({ supabase, body }) => {
+  const { report_type, tenant_id, start_date, end_date, limit, granularity = 'day', feature } = body
 
   // ===== USAGE REPORT =====
+  // Hourly, daily (tenant timezone) or monthly rollups of usage_events
   if (report_type === 'usage') {
+    if (!['hour', 'day', 'month'].includes(granularity)) {
+      return errorResponse('granularity must be hour, day or month', 400)
+    }
+
     const query = supabase
-      .from('usage_tracking')
-      .select(`
-        tenant_id,
-        tenants(name, plan),
-        metric,
-        SUM(quantity)::int as total,
-        COUNT(*)::int as count
-      `)
-      .gte('created_at', start_date || new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString())
+      .from('usage_rollups')
+      .select('tenant_id, tenants(name, plan, timezone), feature, bucket_start, quantity, event_count')
+      .eq('granularity', granularity)
+      .gte('bucket_start', start_date || new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString())
+      .order('bucket_start')
+      .limit(limit || 1000)
 
     if (tenant_id) query.eq('tenant_id', tenant_id)
-    if (end_date) query.lte('created_at', end_date)
+    if (feature) query.eq('feature', feature)
+    if (end_date) query.lte('bucket_start', end_date)
 
     const { data, error } = await query
 
     if (error) {
-      return new Response(JSON.stringify({ error: error.message }), {
-        status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse(error.message, 500)
     }
 
-    return new Response(JSON.stringify({ usage: data }), {
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-    })
+    return jsonResponse({ granularity, usage: data })
   }
 
   // ===== ACTIVITY LOGS =====
@@ -75,14 +54,10 @@ serve(async (req) => {
     const { data, error } = await query
 
     if (error) {
-      return new Response(JSON.stringify({ error: error.message }), {
-        status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse(error.message, 500)
     }
 
-    return new Response(JSON.stringify({ logs: data, count: data.length }), {
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-    })
+    return jsonResponse({ logs: data, count: data.length })
   }
 
   // ===== API REQUESTS =====
@@ -100,9 +75,7 @@ serve(async (req) => {
     const { data, error } = await query
 
     if (error) {
-      return new Response(JSON.stringify({ error: error.message }), {
-        status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse(error.message, 500)
     }
 
     // Aggregate stats
@@ -119,9 +92,7 @@ serve(async (req) => {
       }, {})
     }
 
-    return new Response(JSON.stringify({ requests: data, stats }), {
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-    })
+    return jsonResponse({ requests: data, stats })
   }
 
   // ===== TENANT SUMMARY =====
@@ -142,14 +113,10 @@ serve(async (req) => {
       .gte('usage_tracking.created_at', start_date || new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString())
 
     if (error) {
-      return new Response(JSON.stringify({ error: error.message }), {
-        status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse(error.message, 500)
     }
 
-    return new Response(JSON.stringify({ tenants: data }), {
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-    })
+    return jsonResponse({ tenants: data })
   }
 
   // ===== METRICS DASHBOARD =====
@@ -162,18 +129,12 @@ serve(async (req) => {
         .gte('created_at', new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString())
     ])
 
-    return new Response(JSON.stringify({
+    return jsonResponse({
       total_tenants: tenantsResult.count,
       total_users: usersResult.count,
       api_requests_24h: apiResult.data?.length || 0
-    }), {
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
     })
   }
 
-  return new Response(JSON.stringify({
-    error: 'Invalid report_type. Use: usage, activity, api_requests, tenant_summary, dashboard'
-  }), {
-    status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-  })
-})
+  return errorResponse('Invalid report_type. Use: usage, activity, api_requests, tenant_summary, dashboard', 400)
+}, { requireAdmin: true }))
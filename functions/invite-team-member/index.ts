@@ -1,89 +1,53 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2"
 import { sendTemplateEmail, sendQuickEmail } from '../_shared/email.ts'
+import { createHandler } from "../_shared/middleware.ts"
+import { jsonResponse, errorResponse, validateEmail } from "../_shared/security.ts"
+import { checkPlanLimit } from "../_shared/plans.ts"
 
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-}
-
-serve(async (req) => {
-  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders })
-  
-  const supabase = createClient(
-    Deno.env.get('SUPABASE_URL')!,
-    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
-  )
-  
-  const authHeader = req.headers.get('Authorization')!
-  const { data: { user }, error: authError } = await supabase.auth.getUser(authHeader.replace('Bearer ', ''))
-  
-  if (authError || !user) {
-    return new Response(JSON.stringify({ error: 'Unauthorized' }), {
-      status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-    })
-  }
-  
-  // Get user's tenant with domain info
-  const { data: userTenant } = await supabase
-    .from('user_tenants')
-    .select(`
-      tenant_id, 
-      role, 
-      tenants(
-        id, name, slug, plan,
-        domains(id, domain, email_enabled, is_primary)
-      )
-    `)
-    .eq('user_id', user.id)
-    .eq('is_default', true)
+serve(createHandler(async ({ supabase, auth, body }) => {
+  const user = auth.user!
+  
+  // Tenant with domain info
+  const { data: tenant } = await supabase
+    .from('tenants')
+    .select('id, name, slug, plan, domains(id, domain, email_enabled, is_primary)')
+    .eq('id', auth.tenant!.id)
     .single()
   
-  if (!userTenant || !['owner', 'admin'].includes(userTenant.role)) {
-    return new Response(JSON.stringify({ error: 'Insufficient permissions' }), {
-      status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-    })
-  }
+  const userTenant = { tenant_id: auth.tenant!.id, role: auth.role, tenants: tenant }
   
-  const { email, role, message, page_id, domain_id } = await req.json()
+  const { email, role, message, page_id, domain_id } = body
   
-  if (!email || !email.includes('@')) {
-    return new Response(JSON.stringify({ error: 'Invalid email' }), {
-      status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-    })
+  if (!email || !validateEmail(email)) {
+    return errorResponse('Invalid email', 400, 'INVALID_EMAIL')
+  }
+  if (role && !['admin', 'member', 'viewer'].includes(role)) {
+    return errorResponse('role must be admin, member or viewer', 400, 'INVALID_ROLE')
   }
   
-  // Check team member limit
-  const { data: planLimit } = await supabase
-    .from('plan_limits')
-    .select('limit_value')
-    .eq('plan', userTenant.tenants.plan)
-    .eq('feature', 'team_members')
-    .single()
+  // Check team member limit; pending invites count as members
+  const { count: pendingInvites } = await supabase
+    .from('invites')
+    .select('*', { count: 'exact', head: true })
+    .eq('tenant_id', userTenant.tenant_id)
+    .is('accepted_at', null)
+    .gt('expires_at', new Date().toISOString())
+  
+  const memberLimit = await checkPlanLimit(supabase, {
+    tenantId: userTenant.tenant_id,
+    plan: userTenant.tenants.plan,
+    feature: 'team_members',
+    quantity: (pendingInvites || 0) + 1
+  })
   
-  if (planLimit && planLimit.limit_value !== -1) {
-    const { count: currentMembers } = await supabase
-      .from('user_tenants')
-      .select('*', { count: 'exact', head: true })
-      .eq('tenant_id', userTenant.tenant_id)
-    
-    const { count: pendingInvites } = await supabase
-      .from('invites')
-      .select('*', { count: 'exact', head: true })
-      .eq('tenant_id', userTenant.tenant_id)
-      .is('accepted_at', null)
-      .gt('expires_at', new Date().toISOString())
-    
-    if ((currentMembers || 0) + (pendingInvites || 0) >= planLimit.limit_value) {
-      return new Response(JSON.stringify({ 
-        error: 'Team member limit reached',
-        limit: planLimit.limit_value,
-        current: currentMembers,
-        pending: pendingInvites
-      }), {
-        status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
-    }
+  if (!memberLimit.allowed) {
+    return jsonResponse({ 
+      error: 'Team member limit reached',
+      code: 'LIMIT_REACHED',
+      limit: memberLimit.limit,
+      current: memberLimit.current,
+      pending: pendingInvites
+    }, 400)
   }
   
   // Create invite
@@ -104,9 +68,7 @@ serve(async (req) => {
     .single()
   
   if (inviteError) {
-    return new Response(JSON.stringify({ error: inviteError.message }), {
-      status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-    })
+    return errorResponse(inviteError.message, 500)
   }
   
   // Determine which domain to send from
@@ -204,14 +166,12 @@ serve(async (req) => {
     }
   })
   
-  return new Response(JSON.stringify({
+  return jsonResponse({
     success: true,
     invite_id: invite.id,
     invite_url: inviteUrl,
     expires_at: invite.expires_at,
     email_sent: emailResult.success,
     email_error: emailResult.error
-  }), {
-    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
   })
-})
+}, { allowedRoles: ['owner', 'admin'] }))
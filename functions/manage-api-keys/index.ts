@@ -0,0 +1,249 @@
+// =====================================================
+// MANAGE API KEYS
+// List, revoke, rotate and restrict a tenant's API keys
+// and report per-key request stats
+// Owners and admins only. Keys are created by create-api-key.
+// =====================================================
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createHandler } from "../_shared/middleware.ts"
+import {
+  jsonResponse, errorResponse, generateApiKey,
+  isValidScope, isValidIpEntry, keyStatus, API_KEY_SCOPES
+} from "../_shared/security.ts"
+import { MANAGE_API_KEYS_SCHEMAS } from "../_shared/schemas.ts"
+
+const KEY_COLUMNS = 'id, name, key_prefix, scopes, ip_allowlist, last_used_at, last_used_ip, expires_at, is_active, created_by, created_at, revoked_at, revoked_by, rotated_from, rotated_at'
+
+serve(createHandler(async ({ supabase, auth, body }) => {
+  const { action } = body
+  const tenantId = auth.tenant!.id
+  const userId = auth.user!.id
+
+  const getKey = async (keyId: string) => {
+    const { data } = await supabase
+      .from('api_keys')
+      .select(KEY_COLUMNS)
+      .eq('id', keyId)
+      .eq('tenant_id', tenantId)
+      .single()
+    return data
+  }
+
+  const logActivity = (activity: string, keyId: string, metadata: Record<string, any>) =>
+    supabase.from('activity_log').insert({
+      tenant_id: tenantId, user_id: userId,
+      action: activity, resource_type: 'api_key', resource_id: keyId,
+      metadata
+    })
+
+  // ===== LIST =====
+  if (action === 'list') {
+    const { include_revoked = false } = body
+
+    let query = supabase
+      .from('api_keys')
+      .select(KEY_COLUMNS)
+      .eq('tenant_id', tenantId)
+      .order('created_at', { ascending: false })
+
+    if (!include_revoked) query = query.eq('is_active', true)
+
+    const { data, error } = await query
+    if (error) return errorResponse(error.message, 500)
+
+    const keys = (data || []).map((k: any) => ({ ...k, status: keyStatus(k) }))
+    return jsonResponse({ keys, count: keys.length })
+  }
+
+  // ===== REQUEST STATS =====
+  // Per-key request counts, error rates and latency from api_request_log
+  if (action === 'request_stats') {
+    const end = body.end_date ? new Date(body.end_date) : new Date()
+    const start = body.start_date ? new Date(body.start_date) : new Date(end.getTime() - 7 * 24 * 60 * 60 * 1000)
+
+    if (isNaN(start.getTime()) || isNaN(end.getTime()) || start >= end) {
+      return errorResponse('start_date must be a valid date before end_date', 400, 'INVALID_DATE_RANGE')
+    }
+
+    const { data, error } = await supabase.rpc('get_api_request_stats', {
+      p_tenant_id: tenantId,
+      p_start: start.toISOString(),
+      p_end: end.toISOString(),
+      p_api_key_id: body.key_id || null
+    })
+
+    if (error) return errorResponse(error.message, 500)
+
+    const keys = (data || []).map((row: any) => ({
+      ...row,
+      error_rate: Number(row.error_rate),
+      avg_latency_ms: row.avg_latency_ms === null ? null : Number(row.avg_latency_ms),
+      p95_latency_ms: row.p95_latency_ms === null ? null : Number(row.p95_latency_ms)
+    }))
+    const totalRequests = keys.reduce((sum: number, k: any) => sum + Number(k.request_count), 0)
+    const totalErrors = keys.reduce((sum: number, k: any) => sum + Number(k.error_count), 0)
+
+    return jsonResponse({
+      start_date: start.toISOString(),
+      end_date: end.toISOString(),
+      keys,
+      totals: {
+        request_count: totalRequests,
+        error_count: totalErrors,
+        error_rate: totalRequests ? Number((totalErrors / totalRequests).toFixed(4)) : 0
+      }
+    })
+  }
+
+  // All remaining actions target one key
+  const { key_id } = body
+
+  const key = await getKey(key_id)
+  if (!key) return errorResponse('API key not found', 404, 'KEY_NOT_FOUND')
+  if (!key.is_active) return errorResponse('API key is already revoked', 409, 'KEY_REVOKED')
+
+  // ===== REVOKE =====
+  if (action === 'revoke') {
+    const { reason } = body
+
+    const { data, error } = await supabase
+      .from('api_keys')
+      .update({ is_active: false, revoked_at: new Date().toISOString(), revoked_by: userId })
+      .eq('id', key_id)
+      .select(KEY_COLUMNS)
+      .single()
+
+    if (error) return errorResponse(error.message, 500)
+
+    await logActivity('api_key.revoked', key_id, { name: key.name, reason: reason || null })
+
+    return jsonResponse({ success: true, api_key: { ...data, status: keyStatus(data) } })
+  }
+
+  // ===== ROTATE =====
+  // Issues a new secret with the same name, scopes and allowlist.
+  // The old key keeps working until the overlap window ends.
+  if (action === 'rotate') {
+    const overlapHours: number = body.overlap_hours
+
+    if (key.rotated_at) {
+      return errorResponse('API key has already been rotated', 409, 'KEY_ALREADY_ROTATED')
+    }
+
+    const { data: tenant } = await supabase
+      .from('tenants')
+      .select('slug')
+      .eq('id', tenantId)
+      .single()
+
+    const { key: fullKey, prefix, hash } = await generateApiKey(tenant!.slug)
+    const now = new Date()
+
+    const { data: newKey, error: createError } = await supabase
+      .from('api_keys')
+      .insert({
+        tenant_id: tenantId,
+        name: key.name,
+        key_prefix: prefix,
+        key_hash: hash,
+        scopes: key.scopes,
+        ip_allowlist: key.ip_allowlist || [],
+        expires_at: key.expires_at,
+        created_by: userId,
+        rotated_from: key.id
+      })
+      .select(KEY_COLUMNS)
+      .single()
+
+    if (createError) return errorResponse(createError.message, 500)
+
+    // Never extend the old key past its original expiry
+    let oldExpiresAt = new Date(now.getTime() + overlapHours * 60 * 60 * 1000)
+    if (key.expires_at && new Date(key.expires_at) < oldExpiresAt) {
+      oldExpiresAt = new Date(key.expires_at)
+    }
+
+    const oldKeyUpdate = overlapHours === 0
+      ? { is_active: false, revoked_at: now.toISOString(), revoked_by: userId, rotated_at: now.toISOString() }
+      : { expires_at: oldExpiresAt.toISOString(), rotated_at: now.toISOString() }
+
+    await supabase.from('api_keys').update(oldKeyUpdate).eq('id', key.id)
+
+    await logActivity('api_key.rotated', newKey.id, {
+      name: key.name,
+      previous_key_id: key.id,
+      overlap_hours: overlapHours,
+      previous_key_expires_at: overlapHours === 0 ? now.toISOString() : oldExpiresAt.toISOString()
+    })
+
+    return jsonResponse({
+      success: true,
+      api_key: { ...newKey, key: fullKey, status: keyStatus(newKey) },
+      previous_key: {
+        id: key.id,
+        key_prefix: key.key_prefix,
+        expires_at: overlapHours === 0 ? now.toISOString() : oldExpiresAt.toISOString()
+      },
+      warning: 'Save this key now. It cannot be retrieved again.'
+    })
+  }
+
+  // ===== UPDATE SCOPES =====
+  if (action === 'update_scopes') {
+    const { scopes } = body
+
+    const invalidScopes = scopes.filter((s: string) => !isValidScope(s))
+    if (invalidScopes.length > 0) {
+      return jsonResponse({
+        error: `Invalid scopes: ${invalidScopes.join(', ')}`,
+        code: 'INVALID_SCOPE',
+        available_scopes: Object.keys(API_KEY_SCOPES)
+      }, 400)
+    }
+
+    const { data, error } = await supabase
+      .from('api_keys')
+      .update({ scopes })
+      .eq('id', key_id)
+      .select(KEY_COLUMNS)
+      .single()
+
+    if (error) return errorResponse(error.message, 500)
+
+    await logActivity('api_key.scopes_updated', key_id, { name: key.name, previous_scopes: key.scopes, scopes })
+
+    return jsonResponse({ success: true, api_key: { ...data, status: keyStatus(data) } })
+  }
+
+  // ===== SET IP ALLOWLIST =====
+  // Empty list removes the restriction
+  const { ip_allowlist } = body
+
+  if (!ip_allowlist.every((e: unknown) => typeof e === 'string')) {
+    return errorResponse('IP entries must be strings', 400, 'INVALID_IP_ALLOWLIST')
+  }
+
+  const entries = [...new Set<string>((ip_allowlist as string[]).map(e => e.trim()))]
+  const invalidEntries = entries.filter(e => !isValidIpEntry(e))
+  if (invalidEntries.length > 0) {
+    return errorResponse(`Invalid IP entries: ${invalidEntries.join(', ')}`, 400, 'INVALID_IP_ALLOWLIST')
+  }
+
+  const { data, error } = await supabase
+    .from('api_keys')
+    .update({ ip_allowlist: entries })
+    .eq('id', key_id)
+    .select(KEY_COLUMNS)
+    .single()
+
+  if (error) return errorResponse(error.message, 500)
+
+  await logActivity('api_key.ip_allowlist_updated', key_id, {
+    name: key.name,
+    previous_ip_allowlist: key.ip_allowlist || [],
+    ip_allowlist: entries
+  })
+
+  return jsonResponse({ success: true, api_key: { ...data, status: keyStatus(data) } })
+}, { allowedRoles: ['owner', 'admin'], actions: MANAGE_API_KEYS_SCHEMAS }))
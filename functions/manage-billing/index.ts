@@ -5,53 +5,55 @@
 // =====================================================
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2"
-
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-admin-key',
-}
+import { createHandler } from "../_shared/middleware.ts"
+import { jsonResponse, errorResponse } from "../_shared/security.ts"
+import { MANAGE_BILLING_SCHEMAS } from "../_shared/schemas.ts"
+import { processStripeEvent } from "../_shared/stripe-events.ts"
+import { runDunning } from "../_shared/dunning.ts"
+import { findPlanPrice } from "../_shared/plan-prices.ts"
+import { getPlanCatalog } from "../_shared/plans.ts"
 
 const STRIPE_SECRET_KEY = Deno.env.get('STRIPE_SECRET_KEY')!
-const ADMIN_KEY = Deno.env.get('ADMIN_KEY')!
 const SUPABASE_URL = Deno.env.get('SUPABASE_URL')!
 
-serve(async (req) => {
-  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders })
+// Billing periods that ended within this window are still reported,
+// so the last hour of a period isn't lost
+const REPORT_LOOKBACK_MS = 2 * 24 * 60 * 60 * 1000
 
-  const supabase = createClient(
-    Deno.env.get('SUPABASE_URL')!,
-    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
-  )
+// Usage reporting posts legacy usage records (subscription_items/{id}/usage_records)
+// and reads current_period_* from the subscription. Both were removed in API version
+// 2025-03-31.basil, so these requests pin the version stripe@14 uses (as the webhook does).
+const STRIPE_USAGE_API_VERSION = '2023-10-16'
 
-  const authHeader = req.headers.get('Authorization')
-  const adminKey = req.headers.get('X-Admin-Key')
-  const isAdmin = adminKey === ADMIN_KEY
+// Scheduled actions (X-Cron-Secret)
+const CRON_ACTIONS = ['report_usage', 'process_dunning']
 
-  let user: any = null
+// Subscription changes are limited to owners and admins
+const BILLING_CHANGE_ACTIONS = ['change_plan', 'cancel', 'reactivate', 'update_payment_method']
+
+serve(createHandler(async ({ supabase, auth, body, isAdmin, isCron }) => {
+  const user: any = auth.user
   let tenant: any = null
   let membership: any = null
 
-  // Auth for non-admin requests
-  if (!isAdmin && authHeader) {
-    const { data: { user: authUser }, error: authError } = await supabase.auth.getUser(
-      authHeader.replace('Bearer ', '')
-    )
-    if (!authError && authUser) {
-      user = authUser
-      const { data: m } = await supabase
-        .from('user_tenants')
-        .select('tenant_id, tenants(id, stripe_customer_id, stripe_subscription_id, plan)')
-        .eq('user_id', user.id)
-        .single()
-      membership = m
-      tenant = m?.tenants
-    }
+  // Stripe ids aren't part of the auth context
+  if (auth.tenant) {
+    const { data } = await supabase
+      .from('tenants')
+      .select('id, stripe_customer_id, stripe_subscription_id, plan, subscription_status, current_period_end, cancel_at_period_end, trial_ends_at, payment_failed_at, dunning_status, grace_ends_at, restricted_at, dunning_reminders_sent, dunning_last_reminder_at')
+      .eq('id', auth.tenant.id)
+      .single()
+    tenant = data
+    membership = { tenant_id: auth.tenant.id, role: auth.role }
   }
 
-  const body = await req.json()
   const { action } = body
 
+  // The cron secret only covers the scheduled actions
+  if (isCron && !isAdmin && !CRON_ACTIONS.includes(action)) {
+    return errorResponse(`Cron secret only allowed for ${CRON_ACTIONS.join(', ')}`, 403, 'FORBIDDEN')
+  }
+
   const stripeHeaders = {
     'Authorization': `Bearer ${STRIPE_SECRET_KEY}`,
     'Content-Type': 'application/x-www-form-urlencoded'
@@ -64,19 +66,11 @@ serve(async (req) => {
   // ===== CREATE PRODUCT =====
   if (action === 'create_product') {
     if (!isAdmin) {
-      return new Response(JSON.stringify({ error: 'Admin key required' }), {
-        status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse('Admin key required', 401, 'ADMIN_KEY_REQUIRED')
     }
 
     const { name, description, price, currency, metadata, images } = body
 
-    if (!name || !price) {
-      return new Response(JSON.stringify({ error: 'name and price required' }), {
-        status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
-    }
-
     try {
       // Create product in Stripe
       const productParams = new URLSearchParams({
@@ -102,9 +96,7 @@ serve(async (req) => {
       const product = await productResponse.json()
 
       if (product.error) {
-        return new Response(JSON.stringify({ error: product.error.message }), {
-          status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-        })
+        return errorResponse(product.error.message, 400)
       }
 
       // Create price for product
@@ -138,7 +130,7 @@ serve(async (req) => {
         .select()
         .single()
 
-      return new Response(JSON.stringify({
+      return jsonResponse({
         success: true,
         product: {
           id: dbProduct?.id,
@@ -148,13 +140,9 @@ serve(async (req) => {
           price,
           currency: currency || 'usd'
         }
-      }), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
       })
     } catch (error) {
-      return new Response(JSON.stringify({ error: error.message }), {
-        status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse(error.message, 500)
     }
   }
 
@@ -170,32 +158,20 @@ serve(async (req) => {
 
       if (error) throw error
 
-      return new Response(JSON.stringify({ products }), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return jsonResponse({ products })
     } catch (error) {
-      return new Response(JSON.stringify({ error: error.message }), {
-        status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse(error.message, 500)
     }
   }
 
   // ===== UPDATE PRODUCT =====
   if (action === 'update_product') {
     if (!isAdmin) {
-      return new Response(JSON.stringify({ error: 'Admin key required' }), {
-        status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse('Admin key required', 401, 'ADMIN_KEY_REQUIRED')
     }
 
     const { product_id, name, description, active, metadata } = body
 
-    if (!product_id) {
-      return new Response(JSON.stringify({ error: 'product_id required' }), {
-        status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
-    }
-
     try {
       // Get product from DB
       const { data: dbProduct } = await supabase
@@ -205,9 +181,7 @@ serve(async (req) => {
         .single()
 
       if (!dbProduct) {
-        return new Response(JSON.stringify({ error: 'Product not found' }), {
-          status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-        })
+        return errorResponse('Product not found', 404)
       }
 
       // Update in Stripe
@@ -241,32 +215,20 @@ serve(async (req) => {
         .select()
         .single()
 
-      return new Response(JSON.stringify({ success: true, product: updated }), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return jsonResponse({ success: true, product: updated })
     } catch (error) {
-      return new Response(JSON.stringify({ error: error.message }), {
-        status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse(error.message, 500)
     }
   }
 
   // ===== DELETE/ARCHIVE PRODUCT =====
   if (action === 'archive_product') {
     if (!isAdmin) {
-      return new Response(JSON.stringify({ error: 'Admin key required' }), {
-        status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse('Admin key required', 401, 'ADMIN_KEY_REQUIRED')
     }
 
     const { product_id } = body
 
-    if (!product_id) {
-      return new Response(JSON.stringify({ error: 'product_id required' }), {
-        status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
-    }
-
     try {
       const { data: dbProduct } = await supabase
         .from('products')
@@ -289,13 +251,9 @@ serve(async (req) => {
         .update({ active: false })
         .eq('id', product_id)
 
-      return new Response(JSON.stringify({ success: true }), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return jsonResponse({ success: true })
     } catch (error) {
-      return new Response(JSON.stringify({ error: error.message }), {
-        status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse(error.message, 500)
     }
   }
 
@@ -306,19 +264,11 @@ serve(async (req) => {
   // ===== CREATE CHECKOUT SESSION =====
   if (action === 'purchase_product') {
     if (!user) {
-      return new Response(JSON.stringify({ error: 'Authentication required' }), {
-        status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse('Authentication required', 401)
     }
 
     const { product_id, success_url, cancel_url, quantity } = body
 
-    if (!product_id) {
-      return new Response(JSON.stringify({ error: 'product_id required' }), {
-        status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
-    }
-
     try {
       // Get product
       const { data: product } = await supabase
@@ -329,9 +279,7 @@ serve(async (req) => {
         .single()
 
       if (!product) {
-        return new Response(JSON.stringify({ error: 'Product not found or inactive' }), {
-          status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-        })
+        return errorResponse('Product not found or inactive', 404)
       }
 
       // Ensure customer exists
@@ -379,30 +327,22 @@ serve(async (req) => {
       const session = await sessionResponse.json()
 
       if (session.error) {
-        return new Response(JSON.stringify({ error: session.error.message }), {
-          status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-        })
+        return errorResponse(session.error.message, 400)
       }
 
-      return new Response(JSON.stringify({
+      return jsonResponse({
         checkout_url: session.url,
         session_id: session.id
-      }), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
       })
     } catch (error) {
-      return new Response(JSON.stringify({ error: error.message }), {
-        status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse(error.message, 500)
     }
   }
 
   // ===== GET PURCHASES =====
   if (action === 'get_purchases') {
     if (!user && !isAdmin) {
-      return new Response(JSON.stringify({ error: 'Authentication required' }), {
-        status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse('Authentication required', 401)
     }
 
     const { tenant_id: queryTenantId } = body
@@ -428,13 +368,9 @@ serve(async (req) => {
 
       if (error) throw error
 
-      return new Response(JSON.stringify({ purchases }), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return jsonResponse({ purchases })
     } catch (error) {
-      return new Response(JSON.stringify({ error: error.message }), {
-        status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse(error.message, 500)
     }
   }
 
@@ -442,12 +378,6 @@ serve(async (req) => {
   if (action === 'verify_purchase') {
     const { session_id } = body
 
-    if (!session_id) {
-      return new Response(JSON.stringify({ error: 'session_id required' }), {
-        status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
-    }
-
     try {
       const response = await fetch(
         `https://api.stripe.com/v1/checkout/sessions/${session_id}`,
@@ -478,25 +408,19 @@ serve(async (req) => {
             })
         }
 
-        return new Response(JSON.stringify({
+        return jsonResponse({
           verified: true,
           status: 'completed',
           product_id: session.metadata.product_id
-        }), {
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
         })
       }
 
-      return new Response(JSON.stringify({
+      return jsonResponse({
         verified: false,
         status: session.payment_status
-      }), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
       })
     } catch (error) {
-      return new Response(JSON.stringify({ error: error.message }), {
-        status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse(error.message, 500)
     }
   }
 
@@ -506,23 +430,38 @@ serve(async (req) => {
 
   // User auth required for subscription actions
   if (!user && ['get_status', 'change_plan', 'cancel', 'reactivate', 'update_payment_method', 'get_invoices'].includes(action)) {
-    return new Response(JSON.stringify({ error: 'Authentication required' }), {
-      status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-    })
+    return errorResponse('Authentication required', 401)
   }
 
   // ===== GET SUBSCRIPTION STATUS =====
   if (action === 'get_status') {
+    // Failed payment -> grace -> restricted (write actions get a 402)
+    const dunning = {
+      status: tenant?.dunning_status || 'none',
+      payment_failed_at: tenant?.payment_failed_at || null,
+      grace_ends_at: tenant?.grace_ends_at || null,
+      restricted_at: tenant?.restricted_at || null,
+      reminders_sent: tenant?.dunning_reminders_sent || 0,
+      last_reminder_at: tenant?.dunning_last_reminder_at || null
+    }
+
     if (!tenant?.stripe_subscription_id) {
-      return new Response(JSON.stringify({
+      return jsonResponse({
         plan: tenant?.plan || 'free',
         status: 'inactive',
-        current_period_end: null
-      }), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        current_period_end: null,
+        dunning
       })
     }
 
+    // Last state applied by stripe-webhook
+    const lifecycle = {
+      subscription_status: tenant.subscription_status,
+      trial_ends_at: tenant.trial_ends_at,
+      payment_failed_at: tenant.payment_failed_at,
+      dunning
+    }
+
     try {
       const response = await fetch(
         `https://api.stripe.com/v1/subscriptions/${tenant.stripe_subscription_id}`,
@@ -530,7 +469,7 @@ serve(async (req) => {
       )
       const subscription = await response.json()
 
-      return new Response(JSON.stringify({
+      return jsonResponse({
         plan: tenant.plan,
         status: subscription.status,
         current_period_end: new Date(subscription.current_period_end * 1000),
@@ -538,44 +477,21 @@ serve(async (req) => {
         items: subscription.items?.data?.map((item: any) => ({
           price_id: item.price.id,
           quantity: item.quantity
-        }))
-      }), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })),
+        ...lifecycle
       })
     } catch (error) {
-      return new Response(JSON.stringify({ error: error.message }), {
-        status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse(error.message, 500)
     }
   }
 
   // ===== CHANGE PLAN =====
   if (action === 'change_plan') {
-    const { plan } = body
-
-    if (!plan) {
-      return new Response(JSON.stringify({ error: 'plan required' }), {
-        status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
-    }
-
-    const priceIds: Record<string, string> = {
-      starter: Deno.env.get('STRIPE_PRICE_STARTER')!,
-      pro: Deno.env.get('STRIPE_PRICE_PRO')!,
-      enterprise: Deno.env.get('STRIPE_PRICE_ENTERPRISE')!
-    }
-
-    if (!priceIds[plan]) {
-      return new Response(JSON.stringify({ error: 'Invalid plan' }), {
-        status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
-    }
+    const { plan, interval } = body
 
     try {
       if (!tenant?.stripe_subscription_id) {
-        return new Response(JSON.stringify({ error: 'No active subscription' }), {
-          status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-        })
+        return errorResponse('No active subscription', 400)
       }
 
       const subResponse = await fetch(
@@ -584,14 +500,27 @@ serve(async (req) => {
       )
       const currentSub = await subResponse.json()
 
+      // Metered items stay as they are; only the plan's licensed item is swapped
+      const planItem = currentSub.items.data.find((item: any) => item.price.recurring?.usage_type !== 'metered')
+
+      // Same billing interval and currency as today unless another interval is asked for
+      const price = await findPlanPrice(supabase, plan, {
+        interval: interval || planItem.price.recurring?.interval,
+        currency: planItem.price.currency
+      })
+
+      if (!price) {
+        return errorResponse(`No active price for plan ${plan}`, 400, 'INVALID_PLAN')
+      }
+
       const updateResponse = await fetch(
         `https://api.stripe.com/v1/subscriptions/${tenant.stripe_subscription_id}`,
         {
           method: 'POST',
           headers: stripeHeaders,
           body: new URLSearchParams({
-            'items[0][id]': currentSub.items.data[0].id,
-            'items[0][price]': priceIds[plan],
+            'items[0][id]': planItem.id,
+            'items[0][price]': price.stripe_price_id,
             'proration_behavior': 'always_invoice'
           })
         }
@@ -599,31 +528,31 @@ serve(async (req) => {
 
       const updatedSub = await updateResponse.json()
 
+      if (updatedSub.error) {
+        return errorResponse(updatedSub.error.message, 400)
+      }
+
       await supabase
         .from('tenants')
         .update({ plan })
         .eq('id', membership.tenant_id)
 
-      return new Response(JSON.stringify({
+      return jsonResponse({
         success: true,
         plan,
+        price_id: price.stripe_price_id,
+        interval: price.interval,
         subscription: updatedSub
-      }), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
       })
     } catch (error) {
-      return new Response(JSON.stringify({ error: error.message }), {
-        status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse(error.message, 500)
     }
   }
 
   // ===== CANCEL SUBSCRIPTION =====
   if (action === 'cancel') {
     if (!tenant?.stripe_subscription_id) {
-      return new Response(JSON.stringify({ error: 'No active subscription' }), {
-        status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse('No active subscription', 400)
     }
 
     try {
@@ -638,26 +567,20 @@ serve(async (req) => {
 
       const subscription = await response.json()
 
-      return new Response(JSON.stringify({
+      return jsonResponse({
         success: true,
         cancelled_at_period_end: true,
         period_end: new Date(subscription.current_period_end * 1000)
-      }), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
       })
     } catch (error) {
-      return new Response(JSON.stringify({ error: error.message }), {
-        status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse(error.message, 500)
     }
   }
 
   // ===== REACTIVATE SUBSCRIPTION =====
   if (action === 'reactivate') {
     if (!tenant?.stripe_subscription_id) {
-      return new Response(JSON.stringify({ error: 'No subscription to reactivate' }), {
-        status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse('No subscription to reactivate', 400)
     }
 
     try {
@@ -672,16 +595,12 @@ serve(async (req) => {
 
       const subscription = await response.json()
 
-      return new Response(JSON.stringify({
+      return jsonResponse({
         success: true,
         status: subscription.status
-      }), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
       })
     } catch (error) {
-      return new Response(JSON.stringify({ error: error.message }), {
-        status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse(error.message, 500)
     }
   }
 
@@ -689,12 +608,6 @@ serve(async (req) => {
   if (action === 'update_payment_method') {
     const { payment_method_id } = body
 
-    if (!payment_method_id) {
-      return new Response(JSON.stringify({ error: 'payment_method_id required' }), {
-        status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
-    }
-
     try {
       await fetch(
         `https://api.stripe.com/v1/payment_methods/${payment_method_id}/attach`,
@@ -716,22 +629,16 @@ serve(async (req) => {
         }
       )
 
-      return new Response(JSON.stringify({ success: true }), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return jsonResponse({ success: true })
     } catch (error) {
-      return new Response(JSON.stringify({ error: error.message }), {
-        status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse(error.message, 500)
     }
   }
 
   // ===== GET INVOICES =====
   if (action === 'get_invoices') {
     if (!tenant?.stripe_customer_id) {
-      return new Response(JSON.stringify({ invoices: [] }), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return jsonResponse({ invoices: [] })
     }
 
     try {
@@ -741,34 +648,946 @@ serve(async (req) => {
       )
       const { data: invoices } = await response.json()
 
-      return new Response(JSON.stringify({
-        invoices: invoices?.map((inv: any) => ({
-          id: inv.id,
-          number: inv.number,
-          amount: inv.amount_paid / 100,
-          currency: inv.currency,
-          status: inv.status,
-          created: new Date(inv.created * 1000),
-          pdf_url: inv.invoice_pdf
-        })) || []
-      }), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      const { data: meteredPrices } = await supabase
+        .from('metered_prices')
+        .select('feature, stripe_price_id')
+      const featureByPrice = new Map((meteredPrices || []).map((p: any) => [p.stripe_price_id, p.feature]))
+
+      return jsonResponse({
+        invoices: await Promise.all((invoices || []).map(async (inv: any) => {
+          const metered = await reconcileMeteredLines(supabase, tenant.id, inv, featureByPrice)
+          return {
+            id: inv.id,
+            number: inv.number,
+            amount: inv.amount_paid / 100,
+            currency: inv.currency,
+            status: inv.status,
+            created: new Date(inv.created * 1000),
+            pdf_url: inv.invoice_pdf,
+            metered,
+            reconciled: metered.every(line => line.matched)
+          }
+        }))
+      })
+    } catch (error) {
+      return errorResponse(error.message, 500)
+    }
+  }
+
+  // =====================================================
+  // METERED USAGE
+  // =====================================================
+
+  // ===== LIST METERED PRICES =====
+  if (action === 'list_metered_prices') {
+    try {
+      const { data: prices, error } = await supabase
+        .from('metered_prices')
+        .select('*, plan_limits(limit_value, period)')
+        .order('plan')
+        .order('feature')
+
+      if (error) throw error
+
+      return jsonResponse({ metered_prices: prices })
+    } catch (error) {
+      return errorResponse(error.message, 500)
+    }
+  }
+
+  // ===== SET METERED PRICE =====
+  if (action === 'set_metered_price') {
+    if (!isAdmin) {
+      return errorResponse('Admin key required', 401, 'ADMIN_KEY_REQUIRED')
+    }
+
+    const { plan, feature, stripe_price_id, is_active } = body
+
+    try {
+      const { data: limit } = await supabase
+        .from('plan_limits')
+        .select('limit_value, hard_limit, overage_unit_amount')
+        .eq('plan', plan)
+        .eq('feature', feature)
+        .maybeSingle()
+
+      if (!limit) {
+        return errorResponse(`No plan limit for ${plan}/${feature}`, 404, 'PLAN_LIMIT_NOT_FOUND')
+      }
+      // A feature bills overage one way: Stripe metered price or usage_overages
+      if ((is_active ?? true) && (limit.hard_limit !== null || limit.overage_unit_amount !== null)) {
+        return errorResponse(`${plan}/${feature} records its overage in usage_overages; clear hard_limit and overage_unit_amount (set_plan_limit) first`, 409, 'SOFT_LIMIT_FEATURE')
+      }
+
+      // Reports set the period total, so Stripe must bill the last reported value
+      const priceResponse = await fetch(`https://api.stripe.com/v1/prices/${stripe_price_id}`, { headers: stripeHeaders })
+      const price = await priceResponse.json()
+
+      if (price.error) {
+        return errorResponse(price.error.message, 400)
+      }
+      if (price.recurring?.usage_type !== 'metered' || price.recurring?.aggregate_usage !== 'last_during_period') {
+        return errorResponse('Price must be metered with aggregate_usage last_during_period', 400, 'INVALID_PRICE')
+      }
+
+      const { data: metered, error } = await supabase
+        .from('metered_prices')
+        .upsert({
+          plan,
+          feature,
+          stripe_price_id,
+          unit_label: price.nickname || null,
+          is_active: is_active ?? true,
+          updated_at: new Date().toISOString()
+        }, { onConflict: 'plan,feature' })
+        .select()
+        .single()
+
+      if (error) throw error
+
+      return jsonResponse({ success: true, metered_price: metered, included: limit.limit_value })
+    } catch (error) {
+      return errorResponse(error.message, 500)
+    }
+  }
+
+  // ===== REMOVE METERED PRICE =====
+  if (action === 'remove_metered_price') {
+    if (!isAdmin) {
+      return errorResponse('Admin key required', 401, 'ADMIN_KEY_REQUIRED')
+    }
+
+    const { plan, feature } = body
+
+    try {
+      const { data: removed, error } = await supabase
+        .from('metered_prices')
+        .delete()
+        .eq('plan', plan)
+        .eq('feature', feature)
+        .select('id')
+
+      if (error) throw error
+      if (!removed?.length) {
+        return errorResponse('Metered price not found', 404)
+      }
+
+      return jsonResponse({ success: true })
+    } catch (error) {
+      return errorResponse(error.message, 500)
+    }
+  }
+
+  // ===== REPORT USAGE =====
+  if (action === 'report_usage') {
+    if (!isAdmin && !isCron) {
+      return errorResponse('Admin key required', 401, 'ADMIN_KEY_REQUIRED')
+    }
+
+    try {
+      const result = await reportMeteredUsage(supabase, stripeHeaders, {
+        tenantId: body.tenant_id,
+        dryRun: !!body.dry_run
+      })
+
+      return jsonResponse({ success: result.failed.length === 0, ...result })
+    } catch (error) {
+      return errorResponse(error.message, 500)
+    }
+  }
+
+  // ===== LIST USAGE REPORTS =====
+  if (action === 'list_usage_reports') {
+    if (!user && !isAdmin) {
+      return errorResponse('Authentication required', 401)
+    }
+
+    const { tenant_id: queryTenantId, feature, status, limit } = body
+    const tenantId = isAdmin && queryTenantId ? queryTenantId : membership?.tenant_id
+
+    if (!tenantId && !isAdmin) {
+      return errorResponse('No tenant selected', 400, 'TENANT_REQUIRED')
+    }
+
+    try {
+      let query = supabase
+        .from('usage_reports')
+        .select('*')
+        .order('reported_at', { ascending: false })
+        .limit(limit)
+
+      if (tenantId) query = query.eq('tenant_id', tenantId)
+      if (feature) query = query.eq('feature', feature)
+      if (status) query = query.eq('status', status)
+
+      const { data: reports, error } = await query
+
+      if (error) throw error
+
+      return jsonResponse({ reports })
+    } catch (error) {
+      return errorResponse(error.message, 500)
+    }
+  }
+
+  // ===== LIST OVERAGES =====
+  if (action === 'list_overages') {
+    if (!user && !isAdmin) {
+      return errorResponse('Authentication required', 401)
+    }
+
+    const { tenant_id: queryTenantId, feature, limit } = body
+    const tenantId = isAdmin && queryTenantId ? queryTenantId : membership?.tenant_id
+
+    if (!tenantId && !isAdmin) {
+      return errorResponse('No tenant selected', 400, 'TENANT_REQUIRED')
+    }
+
+    try {
+      // Usage above soft limits, per limit period, for invoicing
+      let query = supabase
+        .from('usage_overages')
+        .select('*')
+        .order('period_start', { ascending: false })
+        .limit(limit)
+
+      if (tenantId) query = query.eq('tenant_id', tenantId)
+      if (feature) query = query.eq('feature', feature)
+
+      const { data: overages, error } = await query
+
+      if (error) throw error
+
+      return jsonResponse({ overages })
+    } catch (error) {
+      return errorResponse(error.message, 500)
+    }
+  }
+
+  // =====================================================
+  // PLAN CATALOG
+  // =====================================================
+
+  // ===== LIST PLANS (public, for pricing pages) =====
+  if (action === 'list_plans') {
+    try {
+      const catalog = await getPlanCatalog(supabase, { includeHidden: isAdmin && body.include_hidden })
+      return jsonResponse(catalog)
+    } catch (error) {
+      return errorResponse(error.message, 500)
+    }
+  }
+
+  // ===== SET PLAN =====
+  if (action === 'set_plan') {
+    if (!isAdmin) {
+      return errorResponse('Admin key required', 401, 'ADMIN_KEY_REQUIRED')
+    }
+
+    const { plan, name, description, sort_order, is_public, is_active, entitlements } = body
+
+    try {
+      const { data: existing } = await supabase.from('plans').select('id').eq('id', plan).maybeSingle()
+
+      if (!existing && !name) {
+        return errorResponse('name required for a new plan', 400, 'MISSING_FIELDS')
+      }
+
+      // Only the fields that were sent; a new plan gets the table defaults
+      const fields = Object.fromEntries(
+        Object.entries({ name, description, sort_order, is_public, is_active, entitlements })
+          .filter(([, value]) => value !== undefined)
+      )
+
+      const { data: saved, error } = existing
+        ? await supabase
+          .from('plans')
+          .update({ ...fields, updated_at: new Date().toISOString() })
+          .eq('id', plan)
+          .select()
+          .single()
+        : await supabase
+          .from('plans')
+          .insert({ id: plan, ...fields })
+          .select()
+          .single()
+
+      if (error) throw error
+
+      // Deactivated plans can't be sold any more
+      if (is_active === false) {
+        await supabase.from('plan_prices').update({ is_active: false }).eq('plan', plan).eq('is_active', true)
+      }
+
+      return jsonResponse({ success: true, created: !existing, plan: saved })
+    } catch (error) {
+      return errorResponse(error.message, 500)
+    }
+  }
+
+  // ===== DELETE PLAN =====
+  if (action === 'delete_plan') {
+    if (!isAdmin) {
+      return errorResponse('Admin key required', 401, 'ADMIN_KEY_REQUIRED')
+    }
+
+    try {
+      const { count: tenantCount } = await supabase
+        .from('tenants')
+        .select('*', { count: 'exact', head: true })
+        .eq('plan', body.plan)
+
+      if (tenantCount) {
+        return errorResponse(`${tenantCount} tenant(s) are on ${body.plan}; deactivate it instead (set_plan is_active: false)`, 409, 'PLAN_IN_USE')
+      }
+
+      // Limits go with the plan; prices are kept for the history and block the delete
+      const { data: deleted, error } = await supabase
+        .from('plans')
+        .delete()
+        .eq('id', body.plan)
+        .select('id')
+
+      if (error) {
+        return errorResponse(error.code === '23503' ? `${body.plan} still has prices; archive them first` : error.message, 409, 'PLAN_IN_USE')
+      }
+      if (!deleted?.length) {
+        return errorResponse('Plan not found', 404)
+      }
+
+      return jsonResponse({ success: true, deleted: body.plan })
+    } catch (error) {
+      return errorResponse(error.message, 500)
+    }
+  }
+
+  // ===== SET FEATURE =====
+  if (action === 'set_feature') {
+    if (!isAdmin) {
+      return errorResponse('Admin key required', 401, 'ADMIN_KEY_REQUIRED')
+    }
+
+    const { feature, name, description, unit, source, count_table, count_exclude_status } = body
+
+    if (source === 'count' && !count_table) {
+      return errorResponse('count_table required for counted features', 400, 'MISSING_FIELDS')
+    }
+
+    try {
+      const { data: saved, error } = await supabase
+        .from('features')
+        .upsert({
+          id: feature,
+          name: name || feature,
+          description: description || null,
+          unit: unit || null,
+          source,
+          count_table: source === 'count' ? count_table : null,
+          count_exclude_status: source === 'count' ? count_exclude_status || null : null,
+          updated_at: new Date().toISOString()
+        }, { onConflict: 'id' })
+        .select()
+        .single()
+
+      if (error) throw error
+
+      return jsonResponse({ success: true, feature: saved })
+    } catch (error) {
+      return errorResponse(error.message, 500)
+    }
+  }
+
+  // ===== SET PLAN LIMIT =====
+  if (action === 'set_plan_limit') {
+    if (!isAdmin) {
+      return errorResponse('Admin key required', 401, 'ADMIN_KEY_REQUIRED')
+    }
+
+    const { plan, feature, limit_value, period, hard_limit, overage_unit_amount, overage_currency } = body
+
+    // hard_limit makes limit_value a soft limit; usage above it is billed as overage
+    if (hard_limit !== undefined && hard_limit !== null && hard_limit !== -1 && (limit_value === -1 || hard_limit < limit_value)) {
+      return errorResponse('hard_limit must be -1 or at least limit_value', 400, 'INVALID_HARD_LIMIT')
+    }
+
+    try {
+      // Overage of a metered feature is billed by Stripe (report_usage); recording
+      // it in usage_overages as well would charge the same units twice
+      if ((hard_limit ?? null) !== null || (overage_unit_amount ?? null) !== null) {
+        const { data: metered } = await supabase
+          .from('metered_prices')
+          .select('stripe_price_id')
+          .eq('plan', plan)
+          .eq('feature', feature)
+          .eq('is_active', true)
+          .maybeSingle()
+
+        if (metered) {
+          return errorResponse(`${plan}/${feature} has a metered price (${metered.stripe_price_id}); remove it before setting hard_limit or overage_unit_amount`, 409, 'METERED_FEATURE')
+        }
+      }
+
+      const { data: limit, error } = await supabase
+        .from('plan_limits')
+        .upsert({
+          plan, feature, limit_value, period,
+          hard_limit: hard_limit ?? null,
+          overage_unit_amount: overage_unit_amount ?? null,
+          ...(overage_currency && { overage_currency: overage_currency.toLowerCase() }),
+          updated_at: new Date().toISOString()
+        }, { onConflict: 'plan,feature' })
+        .select('plan, feature, limit_value, period, hard_limit, overage_unit_amount, overage_currency')
+        .single()
+
+      if (error) {
+        return errorResponse(error.code === '23503' ? `Unknown plan or feature: ${plan}/${feature}` : error.message, 400)
+      }
+
+      return jsonResponse({ success: true, limit })
+    } catch (error) {
+      return errorResponse(error.message, 500)
+    }
+  }
+
+  // ===== REMOVE PLAN LIMIT =====
+  if (action === 'remove_plan_limit') {
+    if (!isAdmin) {
+      return errorResponse('Admin key required', 401, 'ADMIN_KEY_REQUIRED')
+    }
+
+    try {
+      // A feature without a limit is unlimited for the plan
+      const { error } = await supabase
+        .from('plan_limits')
+        .delete()
+        .eq('plan', body.plan)
+        .eq('feature', body.feature)
+
+      if (error) throw error
+
+      return jsonResponse({ success: true, unlimited: true })
+    } catch (error) {
+      return errorResponse(error.message, 500)
+    }
+  }
+
+  // =====================================================
+  // PLAN PRICES
+  // =====================================================
+
+  // ===== LIST PLAN PRICES =====
+  if (action === 'list_plan_prices') {
+    try {
+      let query = supabase
+        .from('plan_prices')
+        .select('stripe_price_id, plan, interval, currency, unit_amount, is_active')
+        .order('plan')
+        .order('interval')
+
+      if (!(isAdmin && body.include_inactive)) query = query.eq('is_active', true)
+
+      const { data: prices, error } = await query
+
+      if (error) throw error
+
+      // Active prices whose plan has since been deactivated
+      const { data: plans } = await supabase.from('plans').select('id').eq('is_active', true)
+      const activePlans = new Set((plans || []).map((p: any) => p.id))
+      const invalid = (prices || []).filter((p: any) => p.is_active && !activePlans.has(p.plan))
+
+      return jsonResponse({
+        prices,
+        ...(isAdmin && { invalid: invalid.map((p: any) => ({ ...p, error: `Inactive plan: ${p.plan}` })) })
       })
     } catch (error) {
-      return new Response(JSON.stringify({ error: error.message }), {
-        status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      return errorResponse(error.message, 500)
+    }
+  }
+
+  // ===== SET PLAN PRICE =====
+  if (action === 'set_plan_price') {
+    if (!isAdmin) {
+      return errorResponse('Admin key required', 401, 'ADMIN_KEY_REQUIRED')
+    }
+
+    const { stripe_price_id, plan, is_active } = body
+
+    try {
+      const { data: planRow } = await supabase
+        .from('plans')
+        .select('id')
+        .eq('id', plan)
+        .eq('is_active', true)
+        .maybeSingle()
+
+      if (!planRow) {
+        return errorResponse(`Unknown or inactive plan: ${plan} (see list_plans)`, 400, 'UNKNOWN_PLAN')
+      }
+
+      const priceResponse = await fetch(`https://api.stripe.com/v1/prices/${stripe_price_id}`, { headers: stripeHeaders })
+      const price = await priceResponse.json()
+
+      if (price.error) {
+        return errorResponse(price.error.message, 400)
+      }
+      if (price.type !== 'recurring' || price.recurring?.usage_type === 'metered') {
+        return errorResponse('Plan prices must be recurring and licensed (metered prices: set_metered_price)', 400, 'INVALID_PRICE')
+      }
+
+      const active = is_active ?? true
+
+      // The new price replaces the plan's current one for new subscriptions
+      if (active) {
+        await supabase
+          .from('plan_prices')
+          .update({ is_active: false })
+          .eq('plan', plan)
+          .eq('interval', price.recurring.interval)
+          .eq('currency', price.currency)
+          .eq('is_active', true)
+          .neq('stripe_price_id', stripe_price_id)
+      }
+
+      const { data: planPrice, error } = await supabase
+        .from('plan_prices')
+        .upsert({
+          stripe_price_id,
+          plan,
+          interval: price.recurring.interval,
+          currency: price.currency,
+          unit_amount: price.unit_amount,
+          is_active: active
+        }, { onConflict: 'stripe_price_id' })
+        .select()
+        .single()
+
+      if (error) throw error
+
+      return jsonResponse({ success: true, price: planPrice })
+    } catch (error) {
+      return errorResponse(error.message, 500)
+    }
+  }
+
+  // ===== ARCHIVE PLAN PRICE =====
+  if (action === 'archive_plan_price') {
+    if (!isAdmin) {
+      return errorResponse('Admin key required', 401, 'ADMIN_KEY_REQUIRED')
+    }
+
+    try {
+      // Kept for existing subscriptions; only new checkouts and plan changes stop using it
+      const { data: archived, error } = await supabase
+        .from('plan_prices')
+        .update({ is_active: false })
+        .eq('stripe_price_id', body.stripe_price_id)
+        .select('stripe_price_id, plan')
+
+      if (error) throw error
+      if (!archived?.length) {
+        return errorResponse('Plan price not found', 404)
+      }
+
+      return jsonResponse({ success: true, price: archived[0] })
+    } catch (error) {
+      return errorResponse(error.message, 500)
+    }
+  }
+
+  // ===== PROCESS DUNNING =====
+  if (action === 'process_dunning') {
+    if (!isAdmin && !isCron) {
+      return errorResponse('Admin key required', 401, 'ADMIN_KEY_REQUIRED')
+    }
+
+    try {
+      const result = await runDunning(supabase, { tenantId: body.tenant_id, dryRun: !!body.dry_run })
+      return jsonResponse({ success: true, ...result })
+    } catch (error) {
+      return errorResponse(error.message, 500)
+    }
+  }
+
+  // =====================================================
+  // STRIPE EVENTS
+  // =====================================================
+
+  // ===== LIST STRIPE EVENTS =====
+  if (action === 'list_stripe_events') {
+    if (!user && !isAdmin) {
+      return errorResponse('Authentication required', 401)
+    }
+
+    const { tenant_id: queryTenantId, status, type, limit } = body
+    const tenantId = isAdmin && queryTenantId ? queryTenantId : membership?.tenant_id
+
+    if (!tenantId && !isAdmin) {
+      return errorResponse('No tenant selected', 400, 'TENANT_REQUIRED')
+    }
+
+    try {
+      let query = supabase
+        .from('stripe_events')
+        .select('id, type, created, tenant_id, status, skip_reason, attempts, last_error, received_at, processed_at')
+        .order('created', { ascending: true })
+        .limit(limit)
+
+      if (tenantId) query = query.eq('tenant_id', tenantId)
+      if (status) query = query.eq('status', status)
+      if (type) query = query.eq('type', type)
+
+      const { data: events, error } = await query
+
+      if (error) throw error
+
+      return jsonResponse({ events })
+    } catch (error) {
+      return errorResponse(error.message, 500)
+    }
+  }
+
+  // ===== REPLAY STRIPE EVENTS =====
+  if (action === 'replay_stripe_events') {
+    if (!isAdmin) {
+      return errorResponse('Admin key required', 401, 'ADMIN_KEY_REQUIRED')
+    }
+
+    const { tenant_id, event_id, statuses, dry_run } = body
+
+    try {
+      const { data: target } = await supabase
+        .from('tenants')
+        .select('id, stripe_customer_id')
+        .eq('id', tenant_id)
+        .single()
+
+      if (!target) {
+        return errorResponse('Tenant not found', 404)
+      }
+
+      // Events recorded before the customer was linked have no tenant_id yet
+      let query = supabase
+        .from('stripe_events')
+        .select('id, type, created, status')
+        .order('created', { ascending: true })
+        .limit(500)
+
+      query = target.stripe_customer_id
+        ? query.or(`tenant_id.eq.${target.id},stripe_customer_id.eq.${target.stripe_customer_id}`)
+        : query.eq('tenant_id', target.id)
+
+      query = event_id ? query.eq('id', event_id) : query.in('status', statuses)
+
+      const { data: events, error } = await query
+
+      if (error) throw error
+      if (event_id && !events?.length) {
+        return errorResponse('Event not found for this tenant', 404)
+      }
+
+      if (dry_run) {
+        return jsonResponse({ dry_run: true, events })
+      }
+
+      // One at a time, oldest first, so subscription state ends up at the newest event
+      const results = []
+      for (const event of events || []) {
+        results.push(await processStripeEvent(supabase, event.id, { replay: true }))
+      }
+
+      return jsonResponse({
+        success: results.every(r => r.status !== 'failed' && r.status !== 'dead_letter'),
+        replayed: results.length,
+        results
       })
+    } catch (error) {
+      return errorResponse(error.message, 500)
     }
   }
 
-  return new Response(JSON.stringify({
+  return jsonResponse({
     error: 'Invalid action',
     available_actions: {
       subscriptions: ['get_status', 'change_plan', 'cancel', 'reactivate', 'update_payment_method', 'get_invoices'],
       products_admin: ['create_product', 'update_product', 'archive_product'],
-      products_user: ['list_products', 'purchase_product', 'get_purchases', 'verify_purchase']
+      products_user: ['list_products', 'purchase_product', 'get_purchases', 'verify_purchase'],
+      metered_usage: ['list_metered_prices', 'set_metered_price', 'remove_metered_price', 'report_usage', 'list_usage_reports', 'list_overages'],
+      stripe_events: ['list_stripe_events', 'replay_stripe_events'],
+      dunning: ['process_dunning'],
+      plan_catalog: ['list_plans', 'set_plan', 'delete_plan', 'set_feature', 'set_plan_limit', 'remove_plan_limit'],
+      plan_prices: ['list_plan_prices', 'set_plan_price', 'archive_plan_price']
     }
-  }), {
-    status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  }, 400)
+}, {
+  // Cron (X-Cron-Secret) runs report_usage and process_dunning hourly
+  requireAuth: false,
+  requireTenant: false,
+  allowAdminKey: true,
+  allowCronSecret: true,
+  allowedRoles: (body) => BILLING_CHANGE_ACTIONS.includes(body.action) ? ['owner', 'admin'] : undefined,
+  // Restricted tenants must still be able to pay
+  restrictUnpaid: false,
+  actions: MANAGE_BILLING_SCHEMAS
+}))
+
+// =====================================================
+// METERED USAGE REPORTING
+// =====================================================
+
+// Reports each tenant's overage for every metered feature in its Stripe
+// billing period as the running total of that period (action=set).
+// metered_period_usage applies the limit per its own period (daily,
+// month, total) within the billing period. A period that ended within
+// REPORT_LOOKBACK_MS gets a last report, so its final hour isn't lost;
+// its bounds come from the renewal invoice Stripe created when it closed.
+// Unchanged totals are skipped, and the Idempotency-Key makes retries
+// of the same total a no-op on Stripe's side.
+async function reportMeteredUsage(
+  supabase: any,
+  stripeHeaders: Record<string, string>,
+  options: { tenantId?: string; dryRun: boolean }
+) {
+  const headers = { ...stripeHeaders, 'Stripe-Version': STRIPE_USAGE_API_VERSION }
+
+  const { data: prices, error } = await supabase
+    .from('metered_prices')
+    .select('plan, feature, stripe_price_id, plan_limits(limit_value, period)')
+    .eq('is_active', true)
+
+  if (error) throw error
+
+  const reported: any[] = []
+  const failed: any[] = []
+  let skipped = 0
+
+  if (!prices?.length) return { dry_run: options.dryRun, reported, failed, skipped }
+
+  let query = supabase
+    .from('tenants')
+    .select('id, plan, stripe_subscription_id')
+    .in('plan', [...new Set(prices.map((p: any) => p.plan))])
+    .not('stripe_subscription_id', 'is', null)
+
+  if (options.tenantId) query = query.eq('id', options.tenantId)
+
+  const { data: tenants, error: tenantsError } = await query
+  if (tenantsError) throw tenantsError
+
+  const subscriptions = new Map<string, any>()  // Stripe subscriptions fetched during this run
+  const closedPeriods = new Map<string, { start: number; end: number } | null>()
+
+  for (const tenant of tenants || []) {
+    for (const price of prices.filter((p: any) => p.plan === tenant.plan)) {
+      const included = price.plan_limits?.limit_value ?? -1
+      const limitPeriod = price.plan_limits?.period ?? 'month'
+
+      // Unlimited, or a rate limit
+      if (included === -1 || limitPeriod === 'minute') {
+        skipped++
+        continue
+      }
+
+      const now = Date.now()
+      const periods: { start: number; end: number; timestamp: number }[] = []
+
+      try {
+        const subscription = await getSubscription(subscriptions, tenant.stripe_subscription_id, headers)
+        const currentStart = subscription.current_period_start * 1000
+
+        // The previous period, if it just ended
+        if (now - currentStart < REPORT_LOOKBACK_MS) {
+          const previous = await getClosedPeriod(closedPeriods, subscription, headers)
+          if (previous) periods.push({ ...previous, timestamp: previous.end - 1000 })
+        }
+
+        periods.push({ start: currentStart, end: now, timestamp: now })
+      } catch (error) {
+        failed.push({ tenant_id: tenant.id, feature: price.feature, error: error.message })
+        continue
+      }
+
+      for (const period of periods) {
+        const { data: usage, error: usageError } = await supabase.rpc('metered_period_usage', {
+          p_tenant_id: tenant.id,
+          p_feature: price.feature,
+          p_limit: included,
+          p_period: limitPeriod,
+          p_from: new Date(period.start).toISOString(),
+          p_to: new Date(period.end).toISOString()
+        })
+
+        if (usageError) {
+          failed.push({ tenant_id: tenant.id, feature: price.feature, error: usageError.message })
+          continue
+        }
+
+        const quantity = Number(usage.overage)
+        const { data: last } = await supabase
+          .from('usage_reports')
+          .select('quantity')
+          .eq('tenant_id', tenant.id)
+          .eq('stripe_price_id', price.stripe_price_id)
+          .eq('period_start', new Date(period.start).toISOString())
+          .eq('status', 'reported')
+          .order('reported_at', { ascending: false })
+          .limit(1)
+          .maybeSingle()
+        if (quantity === (last?.quantity ?? 0)) {
+          skipped++
+          continue
+        }
+
+        const report = {
+          tenant_id: tenant.id,
+          feature: price.feature,
+          period_start: new Date(period.start).toISOString(),
+          usage_value: Number(usage.usage),
+          included,
+          quantity,
+          usage_timestamp: new Date(period.timestamp).toISOString(),
+          stripe_price_id: price.stripe_price_id,
+          idempotency_key: `usage-${tenant.id}-${price.stripe_price_id}-${period.start / 1000}-${quantity}`
+        }
+
+        if (options.dryRun) {
+          reported.push(report)
+          continue
+        }
+
+        try {
+          const itemId = await getMeteredItem(subscriptions, tenant.stripe_subscription_id, price.stripe_price_id, headers)
+
+          const response = await fetch(`https://api.stripe.com/v1/subscription_items/${itemId}/usage_records`, {
+            method: 'POST',
+            headers: { ...headers, 'Idempotency-Key': report.idempotency_key },
+            body: new URLSearchParams({
+              'quantity': String(quantity),
+              'timestamp': String(Math.floor(period.timestamp / 1000)),
+              'action': 'set'
+            })
+          })
+          const usageRecord = await response.json()
+
+          if (usageRecord.error) throw new Error(usageRecord.error.message)
+
+          await supabase.from('usage_reports').insert({
+            ...report,
+            stripe_subscription_item_id: itemId,
+            stripe_usage_record_id: usageRecord.id,
+            status: 'reported'
+          })
+
+          reported.push(report)
+        } catch (error) {
+          // Left unreported: the next run tries again
+          await supabase.from('usage_reports').insert({ ...report, status: 'failed', error: error.message })
+          failed.push({ ...report, error: error.message })
+        }
+      }
+    }
+  }
+
+  return { dry_run: options.dryRun, reported, failed, skipped }
+}
+
+// Stripe subscription, fetched once per run
+async function getSubscription(
+  subscriptions: Map<string, any>,
+  subscriptionId: string,
+  stripeHeaders: Record<string, string>
+): Promise<any> {
+  let subscription = subscriptions.get(subscriptionId)
+
+  if (!subscription) {
+    const response = await fetch(`https://api.stripe.com/v1/subscriptions/${subscriptionId}`, { headers: stripeHeaders })
+    subscription = await response.json()
+    if (subscription.error) throw new Error(subscription.error.message)
+    subscriptions.set(subscriptionId, subscription)
+  }
+
+  return subscription
+}
+
+// The billing period that ended when the current one started, from the
+// renewal invoice Stripe creates at the boundary (its period is the closed
+// period). Null until that invoice exists. Fetched once per run.
+async function getClosedPeriod(
+  closedPeriods: Map<string, { start: number; end: number } | null>,
+  subscription: any,
+  stripeHeaders: Record<string, string>
+): Promise<{ start: number; end: number } | null> {
+  if (!closedPeriods.has(subscription.id)) {
+    const params = new URLSearchParams({
+      'subscription': subscription.id,
+      'created[gte]': String(subscription.current_period_start),
+      'limit': '10'
+    })
+    const response = await fetch(`https://api.stripe.com/v1/invoices?${params}`, { headers: stripeHeaders })
+    const invoices = await response.json()
+    if (invoices.error) throw new Error(invoices.error.message)
+
+    const renewal = invoices.data.find((invoice: any) =>
+      invoice.billing_reason === 'subscription_cycle' && invoice.period_end === subscription.current_period_start)
+    closedPeriods.set(subscription.id, renewal ? { start: renewal.period_start * 1000, end: renewal.period_end * 1000 } : null)
+  }
+
+  return closedPeriods.get(subscription.id)!
+}
+
+// Subscription item for a metered price; added to the subscription on first use
+async function getMeteredItem(
+  subscriptions: Map<string, any>,
+  subscriptionId: string,
+  priceId: string,
+  stripeHeaders: Record<string, string>
+): Promise<string> {
+  const subscription = await getSubscription(subscriptions, subscriptionId, stripeHeaders)
+
+  const item = subscription.items.data.find((i: any) => i.price.id === priceId)
+  if (item) return item.id
+
+  const response = await fetch('https://api.stripe.com/v1/subscription_items', {
+    method: 'POST',
+    headers: { ...stripeHeaders, 'Idempotency-Key': `metered-item-${subscriptionId}-${priceId}` },
+    body: new URLSearchParams({ 'subscription': subscriptionId, 'price': priceId })
   })
-})
+  const created = await response.json()
+
+  if (created.error) throw new Error(created.error.message)
+
+  subscription.items.data.push(created)
+  return created.id
+}
+
+// Metered lines of an invoice vs. the last quantity reported within the line's period
+async function reconcileMeteredLines(supabase: any, tenantId: string, invoice: any, featureByPrice: Map<string, string>) {
+  const lines = (invoice.lines?.data || []).filter((line: any) => line.price?.recurring?.usage_type === 'metered')
+
+  return Promise.all(lines.map(async (line: any) => {
+    const { data: report } = await supabase
+      .from('usage_reports')
+      .select('quantity, usage_timestamp')
+      .eq('tenant_id', tenantId)
+      .eq('stripe_price_id', line.price.id)
+      .eq('status', 'reported')
+      .gte('usage_timestamp', new Date(line.period.start * 1000).toISOString())
+      .lte('usage_timestamp', new Date(line.period.end * 1000).toISOString())
+      .order('usage_timestamp', { ascending: false })
+      .order('reported_at', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    const reportedQuantity = report?.quantity ?? 0
+
+    return {
+      feature: featureByPrice.get(line.price.id) || null,
+      price_id: line.price.id,
+      period_start: new Date(line.period.start * 1000),
+      period_end: new Date(line.period.end * 1000),
+      invoiced_quantity: line.quantity,
+      reported_quantity: reportedQuantity,
+      amount: line.amount / 100,
+      matched: line.quantity === reportedQuantity
+    }
+  }))
+}
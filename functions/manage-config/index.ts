@@ -5,31 +5,14 @@
 // =====================================================
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2"
+import { createHandler } from "../_shared/middleware.ts"
+import { jsonResponse, errorResponse, CORS_CONFIG_KEY } from "../_shared/security.ts"
+import { MANAGE_CONFIG_SCHEMAS } from "../_shared/schemas.ts"
 
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-admin-key',
-}
+const ORIGIN_PATTERN = /^https?:\/\/(\*\.)?[a-z0-9.-]+(:\d+)?$/i
 
-const ADMIN_KEY = Deno.env.get('ADMIN_KEY')!
-
-serve(async (req) => {
-  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders })
-
-  const adminKey = req.headers.get('X-Admin-Key')
-  if (!adminKey || adminKey !== ADMIN_KEY) {
-    return new Response(JSON.stringify({ error: 'Admin key required' }), {
-      status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-    })
-  }
-
-  const supabase = createClient(
-    Deno.env.get('SUPABASE_URL')!,
-    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
-  )
-
-  const { action, key, value, scope, tenant_id } = await req.json()
+serve(createHandler(async ({ supabase, body }) => {
+  const { action, key, value, scope, tenant_id } = body
 
   // ===== GET CONFIG =====
   if (action === 'get') {
@@ -44,24 +27,14 @@ serve(async (req) => {
     const { data, error } = await query
 
     if (error) {
-      return new Response(JSON.stringify({ error: error.message }), {
-        status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse(error.message, 500)
     }
 
-    return new Response(JSON.stringify(key ? data[0] : { config: data }), {
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-    })
+    return jsonResponse(key ? data[0] : { config: data })
   }
 
   // ===== SET CONFIG =====
   if (action === 'set') {
-    if (!key || value === undefined) {
-      return new Response(JSON.stringify({ error: 'key and value required' }), {
-        status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
-    }
-
     const { data, error } = await supabase
       .from('global_config')
       .upsert({
@@ -74,24 +47,14 @@ serve(async (req) => {
       .single()
 
     if (error) {
-      return new Response(JSON.stringify({ error: error.message }), {
-        status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse(error.message, 500)
     }
 
-    return new Response(JSON.stringify({ success: true, config: data }), {
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-    })
+    return jsonResponse({ success: true, config: data })
   }
 
   // ===== DELETE CONFIG =====
   if (action === 'delete') {
-    if (!key) {
-      return new Response(JSON.stringify({ error: 'key required' }), {
-        status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
-    }
-
     const query = supabase
       .from('global_config')
       .delete()
@@ -103,24 +66,14 @@ serve(async (req) => {
     const { error } = await query
 
     if (error) {
-      return new Response(JSON.stringify({ error: error.message }), {
-        status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse(error.message, 500)
     }
 
-    return new Response(JSON.stringify({ success: true }), {
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-    })
+    return jsonResponse({ success: true })
   }
 
   // ===== TOGGLE FEATURE =====
   if (action === 'toggle_feature') {
-    if (!key) {
-      return new Response(JSON.stringify({ error: 'key (feature name) required' }), {
-        status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
-    }
-
     // Get current value
     const { data: current } = await supabase
       .from('global_config')
@@ -143,14 +96,10 @@ serve(async (req) => {
       .single()
 
     if (error) {
-      return new Response(JSON.stringify({ error: error.message }), {
-        status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse(error.message, 500)
     }
 
-    return new Response(JSON.stringify({ success: true, enabled: newValue }), {
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-    })
+    return jsonResponse({ success: true, enabled: newValue })
   }
 
   // ===== MAINTENANCE MODE =====
@@ -166,23 +115,58 @@ serve(async (req) => {
       }, { onConflict: 'key,scope' })
 
     if (error) {
-      return new Response(JSON.stringify({ error: error.message }), {
-        status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse(error.message, 500)
     }
 
-    return new Response(JSON.stringify({
+    return jsonResponse({
       success: true,
       maintenance_mode: enabled,
       message: enabled ? 'Maintenance mode enabled' : 'Maintenance mode disabled'
-    }), {
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
     })
   }
 
-  return new Response(JSON.stringify({
-    error: 'Invalid action. Use: get, set, delete, toggle_feature, maintenance_mode'
-  }), {
-    status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-  })
-})
+  // ===== CORS ALLOWLIST =====
+  if (action === 'list_cors_origins' || action === 'add_cors_origin' || action === 'remove_cors_origin') {
+    const { data: current } = await supabase
+      .from('global_config')
+      .select('value')
+      .eq('key', CORS_CONFIG_KEY)
+      .eq('scope', 'global')
+      .maybeSingle()
+
+    const origins: string[] = Array.isArray(current?.value) ? current.value : []
+
+    if (action === 'list_cors_origins') {
+      return jsonResponse({ origins })
+    }
+
+    const origin = typeof value === 'string' ? value.trim().replace(/\/+$/, '') : ''
+    if (!ORIGIN_PATTERN.test(origin)) {
+      return errorResponse('value must be an origin like https://app.example.com or https://*.example.com', 400)
+    }
+
+    const updated = action === 'add_cors_origin'
+      ? Array.from(new Set([...origins, origin]))
+      : origins.filter(o => o !== origin)
+
+    const { error } = await supabase
+      .from('global_config')
+      .upsert({
+        key: CORS_CONFIG_KEY,
+        value: updated,
+        scope: 'global'
+      }, { onConflict: 'key,scope' })
+
+    if (error) {
+      return errorResponse(error.message, 500)
+    }
+
+    return jsonResponse({
+      success: true,
+      origins: updated,
+      message: 'Changes apply to new Edge Function instances within 5 minutes'
+    })
+  }
+
+  return errorResponse('Invalid action. Use: get, set, delete, toggle_feature, maintenance_mode, list_cors_origins, add_cors_origin, remove_cors_origin', 400)
+}, { requireAdmin: true, actions: MANAGE_CONFIG_SCHEMAS }))
@@ -5,32 +5,12 @@
 // =====================================================
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2"
+import { createHandler } from "../_shared/middleware.ts"
+import { jsonResponse, errorResponse } from "../_shared/security.ts"
+import { MANAGE_CRON_SCHEMAS } from "../_shared/schemas.ts"
 
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-admin-key',
-}
-
-const ADMIN_KEY = Deno.env.get('ADMIN_KEY')!
-
-serve(async (req) => {
-  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders })
-  
-  // Require admin key
-  const adminKey = req.headers.get('X-Admin-Key')
-  if (!adminKey || adminKey !== ADMIN_KEY) {
-    return new Response(JSON.stringify({ error: 'Unauthorized - Admin key required' }), {
-      status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-    })
-  }
-  
-  const supabase = createClient(
-    Deno.env.get('SUPABASE_URL')!,
-    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
-  )
-  
-  const { action, job_name, schedule, command, description, active } = await req.json()
+serve(createHandler(async ({ supabase, body }) => {
+  const { action, job_name, schedule, command, description, active } = body
   
   // ===== LIST CRON JOBS =====
   if (action === 'list') {
@@ -50,34 +30,20 @@ serve(async (req) => {
             FROM cron.job
             ORDER BY jobname
           `)
-          return new Response(JSON.stringify({ success: true, jobs: result }), {
-            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-          })
+          return jsonResponse({ success: true, jobs: result })
         }
         
-        return new Response(JSON.stringify({ success: true, jobs }), {
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-        })
+        return jsonResponse({ success: true, jobs })
       }
       
-      return new Response(JSON.stringify({ success: true, jobs: data }), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return jsonResponse({ success: true, jobs: data })
     } catch (error) {
-      return new Response(JSON.stringify({ error: error.message }), {
-        status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse(error.message, 500)
     }
   }
   
   // ===== GET JOB DETAILS =====
   if (action === 'get') {
-    if (!job_name) {
-      return new Response(JSON.stringify({ error: 'job_name required' }), {
-        status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
-    }
-    
     try {
       const job = await executeSql(supabase, `
         SELECT jobid, jobname, schedule, command, nodename, nodeport, database, username, active
@@ -94,62 +60,18 @@ serve(async (req) => {
         LIMIT 10
       `)
       
-      return new Response(JSON.stringify({ 
+      return jsonResponse({ 
         success: true, 
         job: job?.[0] || null,
         recent_runs: runs || []
-      }), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
       })
     } catch (error) {
-      return new Response(JSON.stringify({ error: error.message }), {
-        status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse(error.message, 500)
     }
   }
   
   // ===== CREATE CRON JOB =====
   if (action === 'create') {
-    if (!job_name || !schedule || !command) {
-      return new Response(JSON.stringify({ 
-        error: 'job_name, schedule, and command required',
-        example: {
-          job_name: 'cleanup-old-logs',
-          schedule: '0 3 * * *',  // Every day at 3 AM
-          command: "DELETE FROM activity_log WHERE created_at < now() - interval '90 days'",
-          description: 'Clean up logs older than 90 days'
-        },
-        schedule_examples: {
-          'every_minute': '* * * * *',
-          'every_hour': '0 * * * *',
-          'every_day_3am': '0 3 * * *',
-          'every_monday_9am': '0 9 * * 1',
-          'first_of_month': '0 0 1 * *',
-          'every_5_minutes': '*/5 * * * *'
-        }
-      }), {
-        status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
-    }
-    
-    // Validate job name
-    if (!/^[a-z0-9_-]+$/.test(job_name)) {
-      return new Response(JSON.stringify({ error: 'Job name must be lowercase alphanumeric with hyphens/underscores' }), {
-        status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
-    }
-    
-    // Validate cron schedule format (basic check)
-    const cronParts = schedule.split(' ')
-    if (cronParts.length !== 5) {
-      return new Response(JSON.stringify({ 
-        error: 'Invalid cron schedule. Must have 5 parts: minute hour day month weekday',
-        example: '0 3 * * *  (every day at 3 AM)'
-      }), {
-        status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
-    }
-    
     try {
       // Create the cron job using cron.schedule
       const result = await executeSql(supabase, `
@@ -164,29 +86,19 @@ serve(async (req) => {
         metadata: { schedule, command: command.substring(0, 200), description }
       })
       
-      return new Response(JSON.stringify({
+      return jsonResponse({
         success: true,
         job_name,
         schedule,
         message: `Cron job '${job_name}' created successfully`
-      }), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
       })
     } catch (error) {
-      return new Response(JSON.stringify({ error: error.message }), {
-        status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse(error.message, 500)
     }
   }
   
   // ===== UPDATE CRON JOB =====
   if (action === 'update') {
-    if (!job_name) {
-      return new Response(JSON.stringify({ error: 'job_name required' }), {
-        status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
-    }
-    
     try {
       // Get current job
       const currentJob = await executeSql(supabase, `
@@ -194,9 +106,7 @@ serve(async (req) => {
       `)
       
       if (!currentJob || currentJob.length === 0) {
-        return new Response(JSON.stringify({ error: 'Job not found' }), {
-          status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-        })
+        return errorResponse('Job not found', 404)
       }
       
       const newSchedule = schedule || currentJob[0].schedule
@@ -225,29 +135,19 @@ serve(async (req) => {
         metadata: { schedule: newSchedule, active }
       })
       
-      return new Response(JSON.stringify({
+      return jsonResponse({
         success: true,
         job_name,
         schedule: newSchedule,
         active: active !== false
-      }), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
       })
     } catch (error) {
-      return new Response(JSON.stringify({ error: error.message }), {
-        status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse(error.message, 500)
     }
   }
   
   // ===== DELETE CRON JOB =====
   if (action === 'delete') {
-    if (!job_name) {
-      return new Response(JSON.stringify({ error: 'job_name required' }), {
-        status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
-    }
-    
     try {
       await executeSql(supabase, `SELECT cron.unschedule('${job_name}')`)
       
@@ -258,24 +158,14 @@ serve(async (req) => {
         resource_id: job_name
       })
       
-      return new Response(JSON.stringify({ success: true, deleted: job_name }), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return jsonResponse({ success: true, deleted: job_name })
     } catch (error) {
-      return new Response(JSON.stringify({ error: error.message }), {
-        status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse(error.message, 500)
     }
   }
   
   // ===== RUN JOB NOW =====
   if (action === 'run_now') {
-    if (!job_name) {
-      return new Response(JSON.stringify({ error: 'job_name required' }), {
-        status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
-    }
-    
     try {
       // Get the job's command
       const job = await executeSql(supabase, `
@@ -283,9 +173,7 @@ serve(async (req) => {
       `)
       
       if (!job || job.length === 0) {
-        return new Response(JSON.stringify({ error: 'Job not found' }), {
-          status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-        })
+        return errorResponse('Job not found', 404)
       }
       
       // Execute the command directly
@@ -298,19 +186,15 @@ serve(async (req) => {
         resource_id: job_name
       })
       
-      return new Response(JSON.stringify({ success: true, job_name, result }), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return jsonResponse({ success: true, job_name, result })
     } catch (error) {
-      return new Response(JSON.stringify({ error: error.message }), {
-        status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse(error.message, 500)
     }
   }
   
   // ===== GET JOB HISTORY =====
   if (action === 'history') {
-    const { limit = 50 } = await req.json()
+    const { limit = 50 } = body
     
     try {
       const history = await executeSql(supabase, `
@@ -329,23 +213,17 @@ serve(async (req) => {
         LIMIT ${limit}
       `)
       
-      return new Response(JSON.stringify({ success: true, history }), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return jsonResponse({ success: true, history })
     } catch (error) {
-      return new Response(JSON.stringify({ error: error.message }), {
-        status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse(error.message, 500)
     }
   }
   
-  return new Response(JSON.stringify({ 
+  return jsonResponse({ 
     error: 'Invalid action',
     available: ['list', 'get', 'create', 'update', 'delete', 'run_now', 'history']
-  }), {
-    status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-  })
-})
+  }, 400)
+}, { requireAdmin: true, actions: MANAGE_CRON_SCHEMAS }))
 
 async function executeSql(supabase: any, sql: string): Promise<any> {
   const { data, error } = await supabase.rpc('exec_sql', { query: sql })
@@ -5,32 +5,12 @@
 // =====================================================
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2"
+import { createHandler } from "../_shared/middleware.ts"
+import { jsonResponse, errorResponse } from "../_shared/security.ts"
+import { MANAGE_DATABASE_SCHEMAS } from "../_shared/schemas.ts"
 
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-admin-key',
-}
-
-const ADMIN_KEY = Deno.env.get('ADMIN_KEY')!
-
-serve(async (req) => {
-  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders })
-  
-  // Require admin key
-  const adminKey = req.headers.get('X-Admin-Key')
-  if (!adminKey || adminKey !== ADMIN_KEY) {
-    return new Response(JSON.stringify({ error: 'Unauthorized - Admin key required' }), {
-      status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-    })
-  }
-  
-  const supabase = createClient(
-    Deno.env.get('SUPABASE_URL')!,
-    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
-  )
-  
-  const { action, table_name, columns, sql, migration_name, enable_rls, tenant_isolated } = await req.json()
+serve(createHandler(async ({ supabase, body }) => {
+  const { action, table_name, columns, sql, migration_name, enable_rls, tenant_isolated } = body
   
   // ===== LIST TABLES =====
   if (action === 'list_tables') {
@@ -53,34 +33,20 @@ serve(async (req) => {
             WHERE table_schema = 'public' AND table_type = 'BASE TABLE'
             ORDER BY table_name
           `)
-          return new Response(JSON.stringify({ success: true, tables: result }), {
-            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-          })
+          return jsonResponse({ success: true, tables: result })
         }
         
-        return new Response(JSON.stringify({ success: true, tables }), {
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-        })
+        return jsonResponse({ success: true, tables })
       }
       
-      return new Response(JSON.stringify({ success: true, tables: data }), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return jsonResponse({ success: true, tables: data })
     } catch (error) {
-      return new Response(JSON.stringify({ error: error.message }), {
-        status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse(error.message, 500)
     }
   }
   
   // ===== DESCRIBE TABLE =====
   if (action === 'describe') {
-    if (!table_name) {
-      return new Response(JSON.stringify({ error: 'table_name required' }), {
-        status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
-    }
-    
     try {
       const result = await executeSql(supabase, `
         SELECT 
@@ -108,50 +74,20 @@ serve(async (req) => {
         WHERE relname = '${table_name}' AND relnamespace = 'public'::regnamespace
       `)
       
-      return new Response(JSON.stringify({
+      return jsonResponse({
         success: true,
         table: table_name,
         columns: result,
         indexes,
         rls_enabled: rlsStatus?.[0]?.relrowsecurity || false
-      }), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
       })
     } catch (error) {
-      return new Response(JSON.stringify({ error: error.message }), {
-        status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse(error.message, 500)
     }
   }
   
   // ===== CREATE TABLE =====
   if (action === 'create_table') {
-    if (!table_name || !columns || !Array.isArray(columns)) {
-      return new Response(JSON.stringify({ 
-        error: 'table_name and columns array required',
-        example: {
-          table_name: 'my_table',
-          columns: [
-            { name: 'id', type: 'UUID', primary: true, default: 'gen_random_uuid()' },
-            { name: 'tenant_id', type: 'UUID', references: 'tenants(id)', on_delete: 'CASCADE' },
-            { name: 'name', type: 'TEXT', nullable: false },
-            { name: 'created_at', type: 'TIMESTAMPTZ', default: 'now()' }
-          ],
-          enable_rls: true,
-          tenant_isolated: true
-        }
-      }), {
-        status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
-    }
-    
-    // Validate table name
-    if (!/^[a-z_][a-z0-9_]*$/.test(table_name)) {
-      return new Response(JSON.stringify({ error: 'Invalid table name. Use lowercase with underscores.' }), {
-        status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
-    }
-    
     try {
       // Build CREATE TABLE statement
       const columnDefs = columns.map((col: any) => {
@@ -196,38 +132,20 @@ serve(async (req) => {
         metadata: { columns: columns.map((c: any) => c.name), enable_rls, tenant_isolated }
       })
       
-      return new Response(JSON.stringify({
+      return jsonResponse({
         success: true,
         table: table_name,
         sql: createSql,
         rls_enabled: enable_rls !== false,
         tenant_isolated: tenant_isolated || false
-      }), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
       })
     } catch (error) {
-      return new Response(JSON.stringify({ error: error.message }), {
-        status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse(error.message, 500)
     }
   }
   
   // ===== ADD COLUMN =====
   if (action === 'add_column') {
-    if (!table_name || !columns || !Array.isArray(columns)) {
-      return new Response(JSON.stringify({ 
-        error: 'table_name and columns array required',
-        example: {
-          table_name: 'my_table',
-          columns: [
-            { name: 'new_field', type: 'TEXT', nullable: true, default: "''" }
-          ]
-        }
-      }), {
-        status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
-    }
-    
     try {
       const results = []
       
@@ -250,25 +168,15 @@ serve(async (req) => {
         metadata: { columns: columns.map((c: any) => c.name) }
       })
       
-      return new Response(JSON.stringify({ success: true, results }), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return jsonResponse({ success: true, results })
     } catch (error) {
-      return new Response(JSON.stringify({ error: error.message }), {
-        status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse(error.message, 500)
     }
   }
   
   // ===== CREATE INDEX =====
   if (action === 'create_index') {
-    const { index_name, column_names, unique } = await req.json()
-    
-    if (!table_name || !column_names) {
-      return new Response(JSON.stringify({ error: 'table_name and column_names required' }), {
-        status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
-    }
+    const { index_name, column_names, unique } = body
     
     try {
       const cols = Array.isArray(column_names) ? column_names.join(', ') : column_names
@@ -278,31 +186,19 @@ serve(async (req) => {
       const indexSql = `CREATE ${uniqueStr}INDEX IF NOT EXISTS ${idxName} ON public.${table_name}(${cols});`
       await executeSql(supabase, indexSql)
       
-      return new Response(JSON.stringify({ success: true, index: idxName, sql: indexSql }), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return jsonResponse({ success: true, index: idxName, sql: indexSql })
     } catch (error) {
-      return new Response(JSON.stringify({ error: error.message }), {
-        status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse(error.message, 500)
     }
   }
   
   // ===== RUN RAW SQL =====
   if (action === 'run_sql') {
-    if (!sql) {
-      return new Response(JSON.stringify({ error: 'sql required' }), {
-        status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
-    }
-    
     // Block dangerous operations
     const dangerous = ['DROP DATABASE', 'DROP SCHEMA', 'TRUNCATE', 'DROP TABLE tenants', 'DROP TABLE user_tenants']
     const sqlUpper = sql.toUpperCase()
     if (dangerous.some(d => sqlUpper.includes(d))) {
-      return new Response(JSON.stringify({ error: 'Operation not allowed' }), {
-        status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse('Operation not allowed', 403)
     }
     
     try {
@@ -317,30 +213,18 @@ serve(async (req) => {
         })
       }
       
-      return new Response(JSON.stringify({ success: true, result }), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return jsonResponse({ success: true, result })
     } catch (error) {
-      return new Response(JSON.stringify({ error: error.message, sql }), {
-        status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse(error.message, 500)
     }
   }
   
   // ===== DROP TABLE =====
   if (action === 'drop_table') {
-    if (!table_name) {
-      return new Response(JSON.stringify({ error: 'table_name required' }), {
-        status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
-    }
-    
     // Protect core tables
     const protectedTables = ['tenants', 'user_tenants', 'users', 'profiles', 'activity_log']
     if (protectedTables.includes(table_name)) {
-      return new Response(JSON.stringify({ error: `Cannot drop protected table: ${table_name}` }), {
-        status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse(`Cannot drop protected table: ${table_name}`, 403)
     }
     
     try {
@@ -352,23 +236,17 @@ serve(async (req) => {
         metadata: { table_name }
       })
       
-      return new Response(JSON.stringify({ success: true, dropped: table_name }), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return jsonResponse({ success: true, dropped: table_name })
     } catch (error) {
-      return new Response(JSON.stringify({ error: error.message }), {
-        status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse(error.message, 500)
     }
   }
   
-  return new Response(JSON.stringify({ 
+  return jsonResponse({ 
     error: 'Invalid action',
     available: ['list_tables', 'describe', 'create_table', 'add_column', 'create_index', 'run_sql', 'drop_table']
-  }), {
-    status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-  })
-})
+  }, 400)
+}, { requireAdmin: true, actions: MANAGE_DATABASE_SCHEMAS }))
 
 // Helper to execute raw SQL
 async function executeSql(supabase: any, sql: string): Promise<any> {
@@ -1,73 +1,36 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2"
-
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-}
+import { createHandler } from "../_shared/middleware.ts"
+import { jsonResponse, errorResponse } from "../_shared/security.ts"
+import { MANAGE_DOMAIN_SCHEMAS } from "../_shared/schemas.ts"
 
 const RESEND_API_KEY = Deno.env.get('RESEND_FULL')!
 const PORKBUN_API_KEY = Deno.env.get('PORKBUN_API_KEY')!
 const PORKBUN_SECRET_KEY = Deno.env.get('PORKBUN_SECRET_KEY')!
 
-serve(async (req) => {
-  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders })
-  
-  const supabase = createClient(
-    Deno.env.get('SUPABASE_URL')!,
-    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
-  )
-  
-  const authHeader = req.headers.get('Authorization')!
-  const { data: { user }, error: authError } = await supabase.auth.getUser(authHeader.replace('Bearer ', ''))
-  
-  if (authError || !user) {
-    return new Response(JSON.stringify({ error: 'Unauthorized' }), {
-      status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-    })
-  }
-  
-  const { data: userTenant } = await supabase
-    .from('user_tenants')
-    .select('tenant_id, role, tenants(name, slug)')
-    .eq('user_id', user.id)
-    .eq('is_default', true)
-    .single()
-  
-  if (!userTenant || !['owner', 'admin'].includes(userTenant.role)) {
-    return new Response(JSON.stringify({ error: 'Insufficient permissions' }), {
-      status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-    })
-  }
+serve(createHandler(async ({ supabase, auth, body }) => {
+  const tenant = auth.tenant!
+  const userId = auth.role === 'api' ? null : auth.user!.id
   
-  const { action, domain, domain_id, email_from_name, email_from_address } = await req.json()
+  const { action, domain, domain_id, email_from_name, email_from_address } = body
   
   // ===== LIST DOMAINS =====
   if (action === 'list') {
     const { data: domains } = await supabase
       .from('domains')
       .select('*')
-      .eq('tenant_id', userTenant.tenant_id)
+      .eq('tenant_id', tenant.id)
       .order('is_primary', { ascending: false })
     
-    return new Response(JSON.stringify({ domains }), {
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-    })
+    return jsonResponse({ domains })
   }
   
   // ===== ADD DOMAIN =====
   if (action === 'add') {
-    if (!domain || !domain.includes('.')) {
-      return new Response(JSON.stringify({ error: 'Invalid domain' }), {
-        status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
-    }
-    
     // Check if first domain (will be primary)
     const { count } = await supabase
       .from('domains')
       .select('*', { count: 'exact', head: true })
-      .eq('tenant_id', userTenant.tenant_id)
+      .eq('tenant_id', tenant.id)
     
     const isPrimary = (count || 0) === 0
     
@@ -99,62 +62,50 @@ serve(async (req) => {
     const { data: newDomain, error: domainError } = await supabase
       .from('domains')
       .insert({
-        tenant_id: userTenant.tenant_id,
+        tenant_id: tenant.id,
         domain,
         is_primary: isPrimary,
         resend_domain_id: resendDomainId,
         dns_records: dnsRecords,
-        email_from_name: email_from_name || userTenant.tenants.name,
+        email_from_name: email_from_name || tenant.name,
         email_from_address: email_from_address || 'hello'
       })
       .select()
       .single()
     
     if (domainError) {
-      return new Response(JSON.stringify({ error: domainError.message }), {
-        status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse(domainError.message, 500)
     }
     
     // Log activity
     await supabase.from('activity_log').insert({
-      tenant_id: userTenant.tenant_id,
-      user_id: user.id,
+      tenant_id: tenant.id,
+      user_id: userId,
       action: 'domain.added',
       resource_type: 'domain',
       resource_id: newDomain.id,
       metadata: { domain }
     })
     
-    return new Response(JSON.stringify({
+    return jsonResponse({
       success: true,
       domain: newDomain,
       dns_records: dnsRecords,
       message: 'Domain added. Configure DNS records to verify.'
-    }), {
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
     })
   }
   
   // ===== VERIFY DOMAIN =====
   if (action === 'verify') {
-    if (!domain_id) {
-      return new Response(JSON.stringify({ error: 'domain_id required' }), {
-        status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
-    }
-    
     const { data: domainRecord } = await supabase
       .from('domains')
       .select('*')
       .eq('id', domain_id)
-      .eq('tenant_id', userTenant.tenant_id)
+      .eq('tenant_id', tenant.id)
       .single()
     
     if (!domainRecord) {
-      return new Response(JSON.stringify({ error: 'Domain not found' }), {
-        status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse('Domain not found', 404)
     }
     
     // Check verification with Resend
@@ -208,28 +159,20 @@ serve(async (req) => {
       details: verificationDetails
     })
     
-    return new Response(JSON.stringify({
+    return jsonResponse({
       verified,
       domain: domainRecord.domain,
       details: verificationDetails
-    }), {
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
     })
   }
   
   // ===== SET PRIMARY =====
   if (action === 'set_primary') {
-    if (!domain_id) {
-      return new Response(JSON.stringify({ error: 'domain_id required' }), {
-        status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
-    }
-    
     // Unset current primary
     await supabase
       .from('domains')
       .update({ is_primary: false })
-      .eq('tenant_id', userTenant.tenant_id)
+      .eq('tenant_id', tenant.id)
       .eq('is_primary', true)
     
     // Set new primary
@@ -237,23 +180,15 @@ serve(async (req) => {
       .from('domains')
       .update({ is_primary: true })
       .eq('id', domain_id)
-      .eq('tenant_id', userTenant.tenant_id)
+      .eq('tenant_id', tenant.id)
       .select()
       .single()
     
-    return new Response(JSON.stringify({ success: true, domain: updated }), {
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-    })
+    return jsonResponse({ success: true, domain: updated })
   }
   
   // ===== UPDATE EMAIL CONFIG =====
   if (action === 'update_email') {
-    if (!domain_id) {
-      return new Response(JSON.stringify({ error: 'domain_id required' }), {
-        status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
-    }
-    
     const { data: updated } = await supabase
       .from('domains')
       .update({
@@ -262,34 +197,24 @@ serve(async (req) => {
         updated_at: new Date().toISOString()
       })
       .eq('id', domain_id)
-      .eq('tenant_id', userTenant.tenant_id)
+      .eq('tenant_id', tenant.id)
       .select()
       .single()
     
-    return new Response(JSON.stringify({ success: true, domain: updated }), {
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-    })
+    return jsonResponse({ success: true, domain: updated })
   }
   
   // ===== DELETE DOMAIN =====
   if (action === 'delete') {
-    if (!domain_id) {
-      return new Response(JSON.stringify({ error: 'domain_id required' }), {
-        status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
-    }
-    
     const { data: domainRecord } = await supabase
       .from('domains')
       .select('*')
       .eq('id', domain_id)
-      .eq('tenant_id', userTenant.tenant_id)
+      .eq('tenant_id', tenant.id)
       .single()
     
     if (!domainRecord) {
-      return new Response(JSON.stringify({ error: 'Domain not found' }), {
-        status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse('Domain not found', 404)
     }
     
     // Remove from Resend
@@ -312,19 +237,20 @@ serve(async (req) => {
     
     // Log
     await supabase.from('activity_log').insert({
-      tenant_id: userTenant.tenant_id,
-      user_id: user.id,
+      tenant_id: tenant.id,
+      user_id: userId,
       action: 'domain.deleted',
       resource_type: 'domain',
       metadata: { domain: domainRecord.domain }
     })
     
-    return new Response(JSON.stringify({ success: true, deleted: domainRecord.domain }), {
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-    })
+    return jsonResponse({ success: true, deleted: domainRecord.domain })
   }
   
-  return new Response(JSON.stringify({ error: 'Invalid action' }), {
-    status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-  })
-})
+  return errorResponse('Invalid action', 400)
+}, {
+  allowedRoles: ['owner', 'admin'],
+  allowApiKey: true,
+  requiredScopes: (body) => [body.action === 'list' ? 'domains:read' : 'domains:write'],
+  actions: MANAGE_DOMAIN_SCHEMAS
+}))
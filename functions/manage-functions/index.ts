@@ -5,36 +5,17 @@
 // =====================================================
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2"
-
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-admin-key',
-}
+import { createHandler } from "../_shared/middleware.ts"
+import { jsonResponse, errorResponse } from "../_shared/security.ts"
+import { MANAGE_FUNCTIONS_SCHEMAS } from "../_shared/schemas.ts"
 
 // Supabase Management API base URL
 const SUPABASE_PROJECT_REF = Deno.env.get('SUPABASE_URL')!.match(/https:\/\/([^.]+)/)?.[1]
 const MANAGEMENT_API = 'https://api.supabase.com/v1'
 const BASE_ACCESS_TOKEN = Deno.env.get('BASE_ACCESS_TOKEN')!  // Personal access token from supabase.com/dashboard/account/tokens
-const ADMIN_KEY = Deno.env.get('ADMIN_KEY')!
 
-serve(async (req) => {
-  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders })
-  
-  // Require admin key for all operations
-  const adminKey = req.headers.get('X-Admin-Key')
-  if (!adminKey || adminKey !== ADMIN_KEY) {
-    return new Response(JSON.stringify({ error: 'Unauthorized - Admin key required' }), {
-      status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-    })
-  }
-  
-  const supabase = createClient(
-    Deno.env.get('SUPABASE_URL')!,
-    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
-  )
-  
-  const { action, function_name, function_code, verify_jwt, import_map } = await req.json()
+serve(createHandler(async ({ supabase, body }) => {
+  const { action, function_name, function_code, verify_jwt, import_map } = body
   
   const headers = {
     'Authorization': `Bearer ${BASE_ACCESS_TOKEN}`,
@@ -51,7 +32,7 @@ serve(async (req) => {
       
       const functions = await response.json()
       
-      return new Response(JSON.stringify({
+      return jsonResponse({
         success: true,
         functions: functions.map((f: any) => ({
           id: f.id,
@@ -64,24 +45,14 @@ serve(async (req) => {
           verify_jwt: f.verify_jwt
         })),
         count: functions.length
-      }), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
       })
     } catch (error) {
-      return new Response(JSON.stringify({ error: error.message }), {
-        status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse(error.message, 500)
     }
   }
   
   // ===== GET FUNCTION DETAILS =====
   if (action === 'get') {
-    if (!function_name) {
-      return new Response(JSON.stringify({ error: 'function_name required' }), {
-        status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
-    }
-    
     try {
       const response = await fetch(
         `${MANAGEMENT_API}/projects/${SUPABASE_PROJECT_REF}/functions/${function_name}`,
@@ -89,38 +60,19 @@ serve(async (req) => {
       )
       
       if (!response.ok) {
-        return new Response(JSON.stringify({ error: 'Function not found' }), {
-          status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-        })
+        return errorResponse('Function not found', 404)
       }
       
       const func = await response.json()
       
-      return new Response(JSON.stringify({ success: true, function: func }), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return jsonResponse({ success: true, function: func })
     } catch (error) {
-      return new Response(JSON.stringify({ error: error.message }), {
-        status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse(error.message, 500)
     }
   }
   
   // ===== CREATE FUNCTION =====
   if (action === 'create') {
-    if (!function_name || !function_code) {
-      return new Response(JSON.stringify({ error: 'function_name and function_code required' }), {
-        status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
-    }
-    
-    // Validate function name (slug format)
-    if (!/^[a-z0-9-]+$/.test(function_name)) {
-      return new Response(JSON.stringify({ error: 'Function name must be lowercase alphanumeric with hyphens' }), {
-        status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
-    }
-    
     try {
       // Create the function
       const createResponse = await fetch(
@@ -141,9 +93,7 @@ serve(async (req) => {
       const result = await createResponse.json()
       
       if (!createResponse.ok) {
-        return new Response(JSON.stringify({ error: result.message || 'Failed to create function' }), {
-          status: createResponse.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-        })
+        return errorResponse(result.message || 'Failed to create function', createResponse.status)
       }
       
       // Log the action
@@ -154,28 +104,18 @@ serve(async (req) => {
         metadata: { function_name, verify_jwt: verify_jwt !== false }
       })
       
-      return new Response(JSON.stringify({
+      return jsonResponse({
         success: true,
         function: result,
         url: `${Deno.env.get('SUPABASE_URL')}/functions/v1/${function_name}`
-      }), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
       })
     } catch (error) {
-      return new Response(JSON.stringify({ error: error.message }), {
-        status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse(error.message, 500)
     }
   }
   
   // ===== UPDATE FUNCTION =====
   if (action === 'update') {
-    if (!function_name || !function_code) {
-      return new Response(JSON.stringify({ error: 'function_name and function_code required' }), {
-        status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
-    }
-    
     try {
       const updateResponse = await fetch(
         `${MANAGEMENT_API}/projects/${SUPABASE_PROJECT_REF}/functions/${function_name}`,
@@ -193,9 +133,7 @@ serve(async (req) => {
       const result = await updateResponse.json()
       
       if (!updateResponse.ok) {
-        return new Response(JSON.stringify({ error: result.message || 'Failed to update function' }), {
-          status: updateResponse.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-        })
+        return errorResponse(result.message || 'Failed to update function', updateResponse.status)
       }
       
       // Log the action
@@ -205,30 +143,18 @@ serve(async (req) => {
         metadata: { function_name }
       })
       
-      return new Response(JSON.stringify({ success: true, function: result }), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return jsonResponse({ success: true, function: result })
     } catch (error) {
-      return new Response(JSON.stringify({ error: error.message }), {
-        status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse(error.message, 500)
     }
   }
   
   // ===== DELETE FUNCTION =====
   if (action === 'delete') {
-    if (!function_name) {
-      return new Response(JSON.stringify({ error: 'function_name required' }), {
-        status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
-    }
-    
     // Prevent deleting critical functions
     const protectedFunctions = ['manage-functions', 'manage-secrets', 'manage-database']
     if (protectedFunctions.includes(function_name)) {
-      return new Response(JSON.stringify({ error: 'Cannot delete protected infrastructure function' }), {
-        status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse('Cannot delete protected infrastructure function', 403)
     }
     
     try {
@@ -242,9 +168,7 @@ serve(async (req) => {
       
       if (!deleteResponse.ok) {
         const error = await deleteResponse.json()
-        return new Response(JSON.stringify({ error: error.message || 'Failed to delete function' }), {
-          status: deleteResponse.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-        })
+        return errorResponse(error.message || 'Failed to delete function', deleteResponse.status)
       }
       
       // Log the action
@@ -254,17 +178,11 @@ serve(async (req) => {
         metadata: { function_name }
       })
       
-      return new Response(JSON.stringify({ success: true, deleted: function_name }), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return jsonResponse({ success: true, deleted: function_name })
     } catch (error) {
-      return new Response(JSON.stringify({ error: error.message }), {
-        status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse(error.message, 500)
     }
   }
   
-  return new Response(JSON.stringify({ error: 'Invalid action. Use: list, get, create, update, delete' }), {
-    status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-  })
-})
+  return errorResponse('Invalid action. Use: list, get, create, update, delete', 400)
+}, { requireAdmin: true, actions: MANAGE_FUNCTIONS_SCHEMAS }))
@@ -0,0 +1,186 @@
+// =====================================================
+// MANAGE NOTIFICATIONS
+// In-app notifications feed, usage alert thresholds and
+// outbound webhook endpoints for the current tenant
+// =====================================================
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createHandler } from "../_shared/middleware.ts"
+import { jsonResponse, errorResponse } from "../_shared/security.ts"
+import { MANAGE_NOTIFICATIONS_SCHEMAS } from "../_shared/schemas.ts"
+import { USAGE_ALERTS_CONFIG_KEY, getUsageAlertConfig } from "../_shared/usage-alerts.ts"
+import { generateWebhookSecret, WEBHOOK_EVENTS } from "../_shared/webhooks.ts"
+
+// Changing alerts and webhooks is limited to tenant owners and admins
+const SETTINGS_ACTIONS = ['set_usage_alerts', 'create_webhook', 'delete_webhook']
+
+serve(createHandler(async ({ supabase, auth, body }) => {
+  const tenant = auth.tenant!
+  const userId = auth.user!.id
+  const { action } = body
+
+  if (SETTINGS_ACTIONS.includes(action) && !['owner', 'admin'].includes(auth.role!)) {
+    return errorResponse('Only owners and admins can change notification settings', 403, 'FORBIDDEN')
+  }
+
+  // =====================================================
+  // NOTIFICATIONS FEED
+  // =====================================================
+
+  // ===== LIST NOTIFICATIONS =====
+  if (action === 'list_notifications') {
+    const { unread_only = false, limit = 50 } = body
+
+    let query = supabase
+      .from('notifications')
+      .select('id, type, title, body, data, read_at, created_at')
+      .eq('tenant_id', tenant.id)
+      .or(`user_id.is.null,user_id.eq.${userId}`)
+      .order('created_at', { ascending: false })
+      .limit(limit)
+
+    if (unread_only) query = query.is('read_at', null)
+
+    const { data: notifications, error } = await query
+
+    if (error) return errorResponse(error.message, 500)
+
+    const { count: unread } = await supabase
+      .from('notifications')
+      .select('*', { count: 'exact', head: true })
+      .eq('tenant_id', tenant.id)
+      .or(`user_id.is.null,user_id.eq.${userId}`)
+      .is('read_at', null)
+
+    return jsonResponse({ notifications, unread: unread || 0 })
+  }
+
+  // ===== MARK NOTIFICATIONS READ =====
+  if (action === 'mark_notifications_read') {
+    const { notification_ids } = body
+
+    let query = supabase
+      .from('notifications')
+      .update({ read_at: new Date().toISOString() })
+      .eq('tenant_id', tenant.id)
+      .or(`user_id.is.null,user_id.eq.${userId}`)
+      .is('read_at', null)
+
+    // Without ids, everything is marked read
+    if (notification_ids?.length) query = query.in('id', notification_ids)
+
+    const { data: marked, error } = await query.select('id')
+
+    if (error) return errorResponse(error.message, 500)
+
+    return jsonResponse({ success: true, marked: marked?.length || 0 })
+  }
+
+  // =====================================================
+  // USAGE ALERTS
+  // =====================================================
+
+  // ===== GET USAGE ALERTS =====
+  if (action === 'get_usage_alerts') {
+    const config = await getUsageAlertConfig(supabase, tenant.id)
+
+    const { data: fired } = await supabase
+      .from('usage_alerts')
+      .select('feature, threshold, period_key, limit_value, usage_value, channels, fired_at')
+      .eq('tenant_id', tenant.id)
+      .order('fired_at', { ascending: false })
+      .limit(body.limit || 50)
+
+    return jsonResponse({ config, fired })
+  }
+
+  // ===== SET USAGE ALERTS =====
+  if (action === 'set_usage_alerts') {
+    const { thresholds, features, channels } = body
+
+    // Tenant override on top of the global settings; fields not sent are kept
+    const { data: existing } = await supabase
+      .from('global_config')
+      .select('value')
+      .eq('key', USAGE_ALERTS_CONFIG_KEY)
+      .eq('scope', 'tenant')
+      .eq('tenant_id', tenant.id)
+      .maybeSingle()
+
+    const value = {
+      ...existing?.value,
+      ...(thresholds && { thresholds }),
+      ...(features && { features }),
+      ...(channels && { channels })
+    }
+
+    const { error } = await supabase
+      .from('global_config')
+      .upsert({
+        key: USAGE_ALERTS_CONFIG_KEY,
+        value,
+        scope: 'tenant',
+        tenant_id: tenant.id
+      }, { onConflict: 'key,scope,tenant_id' })
+
+    if (error) return errorResponse(error.message, 500)
+
+    return jsonResponse({ success: true, config: await getUsageAlertConfig(supabase, tenant.id) })
+  }
+
+  // =====================================================
+  // WEBHOOK ENDPOINTS
+  // =====================================================
+
+  // ===== LIST WEBHOOKS =====
+  if (action === 'list_webhooks') {
+    const { data: endpoints, error } = await supabase
+      .from('webhook_endpoints')
+      .select('id, url, events, is_active, created_at, webhook_deliveries(event_type, status, response_status, error, created_at)')
+      .eq('tenant_id', tenant.id)
+      .order('created_at')
+      .order('created_at', { referencedTable: 'webhook_deliveries', ascending: false })
+      .limit(5, { referencedTable: 'webhook_deliveries' })
+
+    if (error) return errorResponse(error.message, 500)
+
+    return jsonResponse({
+      endpoints: (endpoints || []).map((e: any) => ({ ...e, recent_deliveries: e.webhook_deliveries, webhook_deliveries: undefined })),
+      available_events: WEBHOOK_EVENTS
+    })
+  }
+
+  // ===== CREATE WEBHOOK =====
+  if (action === 'create_webhook') {
+    const { url, events } = body
+    const secret = generateWebhookSecret()
+
+    const { data: endpoint, error } = await supabase
+      .from('webhook_endpoints')
+      .insert({ tenant_id: tenant.id, url, secret, events, created_by: userId })
+      .select('id, url, events, is_active, created_at')
+      .single()
+
+    if (error) return errorResponse(error.message, 500)
+
+    // The secret is only shown once
+    return jsonResponse({ success: true, endpoint, secret })
+  }
+
+  // ===== DELETE WEBHOOK =====
+  if (action === 'delete_webhook') {
+    const { data: deleted, error } = await supabase
+      .from('webhook_endpoints')
+      .delete()
+      .eq('id', body.webhook_id)
+      .eq('tenant_id', tenant.id)
+      .select('id')
+
+    if (error) return errorResponse(error.message, 500)
+    if (!deleted?.length) return errorResponse('Webhook not found', 404)
+
+    return jsonResponse({ success: true })
+  }
+
+  return errorResponse('Invalid action. Use: list_notifications, mark_notifications_read, get_usage_alerts, set_usage_alerts, list_webhooks, create_webhook, delete_webhook', 400, 'INVALID_ACTION')
+}, { actions: MANAGE_NOTIFICATIONS_SCHEMAS }))
@@ -0,0 +1,258 @@
+// =====================================================
+// MANAGE PRIVACY
+// GDPR data exports (tenant or one user) and user erasure
+// (see privacy.ts). Exports run in the background; the hourly
+// cron picks up queued ones and deletes expired files.
+// =====================================================
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createHandler } from "../_shared/middleware.ts"
+import { jsonResponse, errorResponse } from "../_shared/security.ts"
+import { MANAGE_PRIVACY_SCHEMAS } from "../_shared/schemas.ts"
+import { runExport, processExports, createExportUrl, eraseSubject, PrivacyRequest, SIGNED_URL_TTL_SECONDS } from "../_shared/privacy.ts"
+
+// Scheduled actions (X-Cron-Secret)
+const CRON_ACTIONS = ['process_exports']
+
+// Platform actions (X-Admin-Key)
+const ADMIN_ACTIONS = ['process_exports']
+
+const REQUEST_COLUMNS = 'id, type, tenant_id, scope, subject_user_id, subject_email, format, status, requested_by, file_size, row_counts, error, expires_at, created_at, started_at, completed_at'
+
+serve(createHandler(async ({ supabase, auth, body, isAdmin, isCron }) => {
+  const { action } = body
+
+  // The cron secret only covers the scheduled actions
+  if (isCron && !isAdmin && !CRON_ACTIONS.includes(action)) {
+    return errorResponse(`Cron secret only allowed for ${CRON_ACTIONS.join(', ')}`, 403, 'FORBIDDEN')
+  }
+  if (ADMIN_ACTIONS.includes(action) && !isAdmin && !(isCron && CRON_ACTIONS.includes(action))) {
+    return errorResponse('Admin key required', 401, 'ADMIN_KEY_REQUIRED')
+  }
+
+  const userId = auth.user?.id || null
+  const isManager = ['owner', 'admin'].includes(auth.role!)
+
+  if (!isAdmin && !isCron) {
+    if (!userId) return errorResponse('User authentication required', 401, 'UNAUTHORIZED')
+    if (!auth.tenant) return errorResponse('No active tenant', 400, 'NO_TENANT')
+    // Tenants scheduled for deletion can still export and erase; suspended ones cannot
+    if (auth.tenant.status === 'suspended') return errorResponse('This tenant is suspended', 403, 'TENANT_SUSPENDED')
+  }
+
+  // Admin key callers name the tenant (or none: all tenants)
+  const tenantId: string | null = isAdmin ? body.tenant_id || null : auth.tenant?.id || null
+
+  // The person an export or erasure is about. Members other than yourself
+  // need owner/admin; a user_id must belong to the tenant.
+  const resolveSubject = async (): Promise<{ userId: string | null; email: string | null; error?: Response }> => {
+    const { user_id, email } = body
+
+    if (!user_id && !email) {
+      if (isAdmin) return { userId: null, email: null, error: errorResponse('user_id or email required', 400, 'SUBJECT_REQUIRED') }
+      return { userId, email: auth.user?.email || null }
+    }
+
+    const isSelf = (user_id && user_id === userId) || (!user_id && email?.toLowerCase() === auth.user?.email?.toLowerCase())
+    if (!isAdmin && !isSelf && !isManager) {
+      return { userId: null, email: null, error: errorResponse('Only owners and admins can act for other users', 403, 'FORBIDDEN') }
+    }
+
+    if (!user_id) return { userId: null, email }
+
+    if (!isAdmin && !isSelf) {
+      const { data: membership } = await supabase
+        .from('user_tenants')
+        .select('user_id')
+        .eq('tenant_id', tenantId)
+        .eq('user_id', user_id)
+        .maybeSingle()
+
+      if (!membership) {
+        return { userId: null, email: null, error: errorResponse('User is not a member of this tenant', 404, 'USER_NOT_FOUND') }
+      }
+    }
+
+    if (email) return { userId: user_id, email }
+
+    const { data: { user } } = await supabase.auth.admin.getUserById(user_id)
+    return { userId: user_id, email: user?.email || null }
+  }
+
+  // Owners and admins see the tenant's requests, members their own
+  const canView = (request: any) =>
+    isAdmin || (request.tenant_id === tenantId && (isManager || request.requested_by === userId))
+
+  // ===== CREATE EXPORT =====
+  if (action === 'create_export') {
+    const { scope, format } = body
+    let subject: { userId: string | null; email: string | null } = { userId: null, email: null }
+
+    if (scope === 'tenant') {
+      if (!tenantId) return errorResponse('tenant_id required', 400, 'NO_TENANT')
+      if (!isAdmin && !isManager) {
+        return errorResponse('Only owners and admins can export the tenant', 403, 'FORBIDDEN')
+      }
+    } else {
+      const resolved = await resolveSubject()
+      if (resolved.error) return resolved.error
+      subject = resolved
+    }
+
+    const { data: request, error } = await supabase
+      .from('privacy_requests')
+      .insert({
+        type: 'export',
+        tenant_id: tenantId,
+        scope,
+        subject_user_id: subject.userId,
+        subject_email: subject.email,
+        format,
+        requested_by: userId
+      })
+      .select('id, tenant_id, scope, subject_user_id, subject_email, format')
+      .single()
+
+    if (error) return errorResponse(error.message, 500)
+
+    if (tenantId) {
+      await supabase.from('activity_log').insert({
+        tenant_id: tenantId,
+        user_id: userId,
+        action: 'privacy.export_requested',
+        resource_type: 'privacy_request',
+        resource_id: request.id,
+        metadata: { scope, format, by: isAdmin ? 'admin' : 'member' }
+      })
+    }
+
+    // Starts right away; the cron retries exports that never finish
+    ;(globalThis as any).EdgeRuntime?.waitUntil?.(runExport(supabase, request as PrivacyRequest))
+
+    return jsonResponse({
+      success: true,
+      request_id: request.id,
+      status: 'queued',
+      message: 'Call get_export with request_id for the download URL once the export is completed'
+    }, 202)
+  }
+
+  // ===== GET EXPORT =====
+  if (action === 'get_export') {
+    const { data: request, error } = await supabase
+      .from('privacy_requests')
+      .select(`${REQUEST_COLUMNS}, storage_path`)
+      .eq('id', body.request_id)
+      .eq('type', 'export')
+      .maybeSingle()
+
+    if (error) return errorResponse(error.message, 500)
+    if (!request || !canView(request)) return errorResponse('Export not found', 404, 'EXPORT_NOT_FOUND')
+
+    const { storage_path, ...details } = request
+    const downloadUrl = request.status === 'completed' && storage_path
+      ? await createExportUrl(supabase, storage_path)
+      : null
+
+    return jsonResponse({
+      export: details,
+      download_url: downloadUrl,
+      ...(downloadUrl && { url_expires_in: SIGNED_URL_TTL_SECONDS })
+    })
+  }
+
+  // ===== LIST EXPORTS =====
+  if (action === 'list_exports') {
+    let query = supabase
+      .from('privacy_requests')
+      .select(REQUEST_COLUMNS)
+      .order('created_at', { ascending: false })
+      .limit(body.limit)
+
+    if (tenantId) query = query.eq('tenant_id', tenantId)
+    if (!isAdmin && !isManager) query = query.eq('requested_by', userId)
+
+    const { data: requests, error } = await query
+
+    if (error) return errorResponse(error.message, 500)
+
+    return jsonResponse({ requests })
+  }
+
+  // ===== ERASE USER =====
+  if (action === 'erase_user') {
+    if (!isAdmin && !isManager) {
+      return errorResponse('Only owners and admins can erase users', 403, 'FORBIDDEN')
+    }
+    if (!body.user_id && !body.email) {
+      return errorResponse('user_id or email required', 400, 'SUBJECT_REQUIRED')
+    }
+    if (body.confirm !== body.user_id && body.confirm?.toLowerCase() !== body.email?.toLowerCase()) {
+      return errorResponse('Set confirm to the email or user_id being erased', 400, 'CONFIRMATION_REQUIRED')
+    }
+
+    const subject = await resolveSubject()
+    if (subject.error) return subject.error
+
+    let result
+    try {
+      result = await eraseSubject(supabase, tenantId, subject)
+    } catch (error) {
+      return error.message.includes('transfer ownership')
+        ? errorResponse('Tenant owners must transfer ownership before they can be erased', 409, 'SUBJECT_IS_OWNER')
+        : errorResponse(error.message, 500)
+    }
+
+    const now = new Date().toISOString()
+    const { data: request } = await supabase
+      .from('privacy_requests')
+      .insert({
+        type: 'erasure',
+        tenant_id: tenantId,
+        scope: 'user',
+        subject_user_id: subject.userId,
+        status: 'completed',
+        requested_by: userId,
+        row_counts: result.anonymized,
+        started_at: now,
+        completed_at: now
+      })
+      .select('id')
+      .single()
+
+    // No email in the log: the entry must not undo the erasure
+    if (tenantId) {
+      await supabase.from('activity_log').insert({
+        tenant_id: tenantId,
+        user_id: userId,
+        action: 'privacy.user_erased',
+        resource_type: 'privacy_request',
+        resource_id: request?.id || null,
+        metadata: { by: isAdmin ? 'admin' : 'member' }
+      })
+    }
+
+    return jsonResponse({ success: true, request_id: request?.id || null, ...result })
+  }
+
+  // ===== PROCESS EXPORTS (admin, or hourly via cron) =====
+  if (action === 'process_exports') {
+    try {
+      return jsonResponse({ success: true, ...await processExports(supabase, { requestId: body.request_id }) })
+    } catch (error) {
+      return errorResponse(error.message, 500)
+    }
+  }
+
+  return errorResponse('Invalid action. Use: create_export, get_export, list_exports, erase_user, process_exports', 400, 'INVALID_ACTION')
+}, {
+  // Cron (X-Cron-Secret) runs process_exports hourly
+  requireTenant: false,
+  allowAdminKey: true,
+  allowCronSecret: true,
+  // Data access and erasure stay available while a tenant is unpaid or
+  // scheduled for deletion (suspended tenants are refused above)
+  allowInactiveTenant: true,
+  restrictUnpaid: false,
+  actions: MANAGE_PRIVACY_SCHEMAS
+}))
@@ -5,31 +5,12 @@
 // =====================================================
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2"
+import { createHandler } from "../_shared/middleware.ts"
+import { jsonResponse, errorResponse } from "../_shared/security.ts"
+import { MANAGE_RBAC_SCHEMAS } from "../_shared/schemas.ts"
 
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-admin-key',
-}
-
-const ADMIN_KEY = Deno.env.get('ADMIN_KEY')!
-
-serve(async (req) => {
-  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders })
-
-  const adminKey = req.headers.get('X-Admin-Key')
-  if (!adminKey || adminKey !== ADMIN_KEY) {
-    return new Response(JSON.stringify({ error: 'Admin key required' }), {
-      status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-    })
-  }
-
-  const supabase = createClient(
-    Deno.env.get('SUPABASE_URL')!,
-    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
-  )
-
-  const { action, role_name, permissions, user_id, tenant_id } = await req.json()
+serve(createHandler(async ({ supabase, body }) => {
+  const { action, role_name, permissions, user_id, tenant_id } = body
 
   // ===== LIST ROLES =====
   if (action === 'list_roles') {
@@ -39,24 +20,14 @@ serve(async (req) => {
       .order('name')
 
     if (error) {
-      return new Response(JSON.stringify({ error: error.message }), {
-        status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse(error.message, 500)
     }
 
-    return new Response(JSON.stringify({ roles: data }), {
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-    })
+    return jsonResponse({ roles: data })
   }
 
   // ===== CREATE ROLE =====
   if (action === 'create_role') {
-    if (!role_name || !permissions) {
-      return new Response(JSON.stringify({ error: 'role_name and permissions required' }), {
-        status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
-    }
-
     const { data, error } = await supabase
       .from('roles')
       .insert({
@@ -68,24 +39,14 @@ serve(async (req) => {
       .single()
 
     if (error) {
-      return new Response(JSON.stringify({ error: error.message }), {
-        status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse(error.message, 500)
     }
 
-    return new Response(JSON.stringify({ success: true, role: data }), {
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-    })
+    return jsonResponse({ success: true, role: data })
   }
 
   // ===== UPDATE ROLE =====
   if (action === 'update_role') {
-    if (!role_name) {
-      return new Response(JSON.stringify({ error: 'role_name required' }), {
-        status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
-    }
-
     const updates: any = {}
     if (permissions) updates.permissions = permissions
 
@@ -98,24 +59,14 @@ serve(async (req) => {
       .single()
 
     if (error) {
-      return new Response(JSON.stringify({ error: error.message }), {
-        status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse(error.message, 500)
     }
 
-    return new Response(JSON.stringify({ success: true, role: data }), {
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-    })
+    return jsonResponse({ success: true, role: data })
   }
 
   // ===== DELETE ROLE =====
   if (action === 'delete_role') {
-    if (!role_name) {
-      return new Response(JSON.stringify({ error: 'role_name required' }), {
-        status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
-    }
-
     const { error } = await supabase
       .from('roles')
       .delete()
@@ -123,24 +74,14 @@ serve(async (req) => {
       .eq('is_system', false)
 
     if (error) {
-      return new Response(JSON.stringify({ error: error.message }), {
-        status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse(error.message, 500)
     }
 
-    return new Response(JSON.stringify({ success: true }), {
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-    })
+    return jsonResponse({ success: true })
   }
 
   // ===== ASSIGN ROLE =====
   if (action === 'assign_role') {
-    if (!user_id || !tenant_id || !role_name) {
-      return new Response(JSON.stringify({ error: 'user_id, tenant_id, and role_name required' }), {
-        status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
-    }
-
     const { error } = await supabase
       .from('user_tenants')
       .update({ role: role_name })
@@ -148,24 +89,14 @@ serve(async (req) => {
       .eq('tenant_id', tenant_id)
 
     if (error) {
-      return new Response(JSON.stringify({ error: error.message }), {
-        status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse(error.message, 500)
     }
 
-    return new Response(JSON.stringify({ success: true }), {
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-    })
+    return jsonResponse({ success: true })
   }
 
   // ===== GET USER ROLE =====
   if (action === 'get_user_role') {
-    if (!user_id || !tenant_id) {
-      return new Response(JSON.stringify({ error: 'user_id and tenant_id required' }), {
-        status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
-    }
-
     const { data, error } = await supabase
       .from('user_tenants')
       .select('role')
@@ -174,24 +105,14 @@ serve(async (req) => {
       .single()
 
     if (error) {
-      return new Response(JSON.stringify({ error: error.message }), {
-        status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse(error.message, 500)
     }
 
-    return new Response(JSON.stringify({ role: data?.role }), {
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-    })
+    return jsonResponse({ role: data?.role })
   }
 
   // ===== CHECK PERMISSION =====
   if (action === 'check_permission') {
-    if (!user_id || !tenant_id) {
-      return new Response(JSON.stringify({ error: 'user_id and tenant_id required' }), {
-        status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
-    }
-
     const { data } = await supabase
       .from('user_tenants')
       .select('role, roles(permissions)')
@@ -200,23 +121,15 @@ serve(async (req) => {
       .single()
 
     if (!data) {
-      return new Response(JSON.stringify({ has_permission: false }), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return jsonResponse({ has_permission: false })
     }
 
     const roleData = data.roles as any
-    return new Response(JSON.stringify({
+    return jsonResponse({
       role: data.role,
       permissions: roleData?.permissions || []
-    }), {
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
     })
   }
 
-  return new Response(JSON.stringify({
-    error: 'Invalid action. Use: list_roles, create_role, update_role, delete_role, assign_role, get_user_role, check_permission'
-  }), {
-    status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-  })
-})
+  return errorResponse('Invalid action. Use: list_roles, create_role, update_role, delete_role, assign_role, get_user_role, check_permission', 400)
+}, { requireAdmin: true, actions: MANAGE_RBAC_SCHEMAS }))
@@ -5,14 +5,10 @@
 // =====================================================
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2"
+import { createHandler } from "../_shared/middleware.ts"
+import { jsonResponse, errorResponse } from "../_shared/security.ts"
+import { MANAGE_STRIPE_CONNECT_SCHEMAS } from "../_shared/schemas.ts"
 
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-admin-key',
-}
-
-const ADMIN_KEY = Deno.env.get('ADMIN_KEY')!
 const STRIPE_SECRET_KEY = Deno.env.get('STRIPE_SECRET_KEY')!
 const PLATFORM_URL = Deno.env.get('PLATFORM_URL') || 'https://yourplatform.com'
 
@@ -21,53 +17,13 @@ const stripeHeaders = {
   'Content-Type': 'application/x-www-form-urlencoded'
 }
 
-serve(async (req) => {
-  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders })
-
+serve(createHandler(async ({ supabase, auth, body, isAdmin }) => {
   if (!STRIPE_SECRET_KEY) {
-    return new Response(JSON.stringify({ error: 'Stripe not configured' }), {
-      status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-    })
-  }
-
-  const supabase = createClient(
-    Deno.env.get('SUPABASE_URL')!,
-    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
-  )
-
-  const authHeader = req.headers.get('Authorization')
-  const adminKey = req.headers.get('X-Admin-Key')
-  const isAdmin = adminKey === ADMIN_KEY
-
-  // Get authenticated user
-  let user: any = null
-  let membership: any = null
-
-  if (authHeader) {
-    const { data: { user: authUser } } = await supabase.auth.getUser(
-      authHeader.replace('Bearer ', '')
-    )
-    if (authUser) {
-      user = authUser
-      const { data: m } = await supabase
-        .from('user_tenants')
-        .select('tenant_id, role')
-        .eq('user_id', user.id)
-        .eq('is_default', true)
-        .single()
-      membership = m
-    }
+    return errorResponse('Stripe not configured', 500, 'STRIPE_NOT_CONFIGURED')
   }
 
-  if (!isAdmin && (!membership || !['owner', 'admin'].includes(membership.role))) {
-    return new Response(JSON.stringify({ error: 'Admin access required' }), {
-      status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-    })
-  }
-
-  const body = await req.json()
   const { action, sub_saas_id } = body
-  const tenantId = isAdmin ? body.tenant_id : membership?.tenant_id
+  const tenantId = isAdmin ? body.tenant_id : auth.tenant?.id
 
   // Helper to verify sub-saas access
   async function verifyAccess(subSaasId: string): Promise<any> {
@@ -85,26 +41,16 @@ serve(async (req) => {
 
   // ===== CREATE CONNECTED ACCOUNT =====
   if (action === 'create_account') {
-    if (!sub_saas_id) {
-      return new Response(JSON.stringify({ error: 'sub_saas_id required' }), {
-        status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
-    }
-
     const app = await verifyAccess(sub_saas_id)
     if (!app) {
-      return new Response(JSON.stringify({ error: 'Not found or access denied' }), {
-        status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse('Not found or access denied', 404)
     }
 
     if (app.stripe_account_id) {
-      return new Response(JSON.stringify({ 
+      return jsonResponse({ 
         error: 'Stripe Connect already set up',
         account_id: app.stripe_account_id
-      }), {
-        status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      }, 409)
     }
 
     try {
@@ -151,37 +97,25 @@ serve(async (req) => {
         })
         .eq('id', sub_saas_id)
 
-      return new Response(JSON.stringify({
+      return jsonResponse({
         success: true,
         account: {
           id: account.id,
           type: account_type,
           country: country
         }
-      }), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
       })
 
     } catch (error) {
-      return new Response(JSON.stringify({ error: error.message }), {
-        status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse(error.message, 500)
     }
   }
 
   // ===== GET ONBOARDING LINK =====
   if (action === 'get_onboarding_link') {
-    if (!sub_saas_id) {
-      return new Response(JSON.stringify({ error: 'sub_saas_id required' }), {
-        status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
-    }
-
     const app = await verifyAccess(sub_saas_id)
     if (!app || !app.stripe_account_id) {
-      return new Response(JSON.stringify({ error: 'Stripe Connect not set up' }), {
-        status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse('Stripe Connect not set up', 404)
     }
 
     const { return_url, refresh_url } = body
@@ -204,33 +138,21 @@ serve(async (req) => {
         throw new Error(link.error.message)
       }
 
-      return new Response(JSON.stringify({
+      return jsonResponse({
         url: link.url,
         expires_at: link.expires_at
-      }), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
       })
 
     } catch (error) {
-      return new Response(JSON.stringify({ error: error.message }), {
-        status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse(error.message, 500)
     }
   }
 
   // ===== GET DASHBOARD LINK =====
   if (action === 'get_dashboard_link') {
-    if (!sub_saas_id) {
-      return new Response(JSON.stringify({ error: 'sub_saas_id required' }), {
-        status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
-    }
-
     const app = await verifyAccess(sub_saas_id)
     if (!app || !app.stripe_account_id) {
-      return new Response(JSON.stringify({ error: 'Stripe Connect not set up' }), {
-        status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse('Stripe Connect not set up', 404)
     }
 
     try {
@@ -245,38 +167,20 @@ serve(async (req) => {
         throw new Error(login.error.message)
       }
 
-      return new Response(JSON.stringify({ url: login.url }), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return jsonResponse({ url: login.url })
 
     } catch (error) {
-      return new Response(JSON.stringify({ error: error.message }), {
-        status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse(error.message, 500)
     }
   }
 
   // ===== CREATE PAYMENT LINK =====
   if (action === 'create_payment_link') {
-    if (!sub_saas_id) {
-      return new Response(JSON.stringify({ error: 'sub_saas_id required' }), {
-        status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
-    }
-
     const { amount, currency = 'usd', description, metadata = {} } = body
 
-    if (!amount) {
-      return new Response(JSON.stringify({ error: 'amount required' }), {
-        status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
-    }
-
     const app = await verifyAccess(sub_saas_id)
     if (!app || !app.stripe_account_id) {
-      return new Response(JSON.stringify({ error: 'Stripe Connect not set up' }), {
-        status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse('Stripe Connect not set up', 404)
     }
 
     try {
@@ -346,7 +250,7 @@ serve(async (req) => {
         throw new Error(paymentLink.error.message)
       }
 
-      return new Response(JSON.stringify({
+      return jsonResponse({
         payment_link: {
           id: paymentLink.id,
           url: paymentLink.url,
@@ -354,30 +258,18 @@ serve(async (req) => {
           currency: currency,
           platform_fee: platformFee / 100
         }
-      }), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
       })
 
     } catch (error) {
-      return new Response(JSON.stringify({ error: error.message }), {
-        status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse(error.message, 500)
     }
   }
 
   // ===== LIST PAYMENTS =====
   if (action === 'list_payments') {
-    if (!sub_saas_id) {
-      return new Response(JSON.stringify({ error: 'sub_saas_id required' }), {
-        status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
-    }
-
     const app = await verifyAccess(sub_saas_id)
     if (!app || !app.stripe_account_id) {
-      return new Response(JSON.stringify({ error: 'Stripe Connect not set up' }), {
-        status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse('Stripe Connect not set up', 404)
     }
 
     const { limit = 10 } = body
@@ -399,7 +291,7 @@ serve(async (req) => {
         throw new Error(charges.error.message)
       }
 
-      return new Response(JSON.stringify({
+      return jsonResponse({
         payments: charges.data.map((charge: any) => ({
           id: charge.id,
           amount: charge.amount / 100,
@@ -409,30 +301,18 @@ serve(async (req) => {
           customer_email: charge.billing_details?.email,
           created: new Date(charge.created * 1000)
         }))
-      }), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
       })
 
     } catch (error) {
-      return new Response(JSON.stringify({ error: error.message }), {
-        status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse(error.message, 500)
     }
   }
 
   // ===== GET BALANCE =====
   if (action === 'get_balance') {
-    if (!sub_saas_id) {
-      return new Response(JSON.stringify({ error: 'sub_saas_id required' }), {
-        status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
-    }
-
     const app = await verifyAccess(sub_saas_id)
     if (!app || !app.stripe_account_id) {
-      return new Response(JSON.stringify({ error: 'Stripe Connect not set up' }), {
-        status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse('Stripe Connect not set up', 404)
     }
 
     try {
@@ -449,7 +329,7 @@ serve(async (req) => {
         throw new Error(balance.error.message)
       }
 
-      return new Response(JSON.stringify({
+      return jsonResponse({
         balance: {
           available: balance.available.map((b: any) => ({
             amount: b.amount / 100,
@@ -460,30 +340,18 @@ serve(async (req) => {
             currency: b.currency
           }))
         }
-      }), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
       })
 
     } catch (error) {
-      return new Response(JSON.stringify({ error: error.message }), {
-        status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse(error.message, 500)
     }
   }
 
   // ===== GET ACCOUNT STATUS =====
   if (action === 'get_status') {
-    if (!sub_saas_id) {
-      return new Response(JSON.stringify({ error: 'sub_saas_id required' }), {
-        status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
-    }
-
     const app = await verifyAccess(sub_saas_id)
     if (!app || !app.stripe_account_id) {
-      return new Response(JSON.stringify({ error: 'Stripe Connect not set up' }), {
-        status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse('Stripe Connect not set up', 404)
     }
 
     try {
@@ -517,7 +385,7 @@ serve(async (req) => {
           .eq('id', sub_saas_id)
       }
 
-      return new Response(JSON.stringify({
+      return jsonResponse({
         status: {
           account_id: account.id,
           details_submitted: account.details_submitted,
@@ -528,18 +396,14 @@ serve(async (req) => {
           default_currency: account.default_currency,
           requirements: account.requirements
         }
-      }), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
       })
 
     } catch (error) {
-      return new Response(JSON.stringify({ error: error.message }), {
-        status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse(error.message, 500)
     }
   }
 
-  return new Response(JSON.stringify({
+  return jsonResponse({
     error: 'Invalid action',
     available_actions: [
       'create_account',
@@ -550,7 +414,5 @@ serve(async (req) => {
       'get_balance',
       'get_status'
     ]
-  }), {
-    status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-  })
-})
+  }, 400)
+}, { allowAdminKey: true, allowedRoles: ['owner', 'admin'], actions: MANAGE_STRIPE_CONNECT_SCHEMAS }))
@@ -5,56 +5,13 @@
 // =====================================================
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2"
-
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-admin-key',
-}
-
-const ADMIN_KEY = Deno.env.get('ADMIN_KEY')!
-
-serve(async (req) => {
-  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders })
-
-  const supabase = createClient(
-    Deno.env.get('SUPABASE_URL')!,
-    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
-  )
-
-  const authHeader = req.headers.get('Authorization')
-  const adminKey = req.headers.get('X-Admin-Key')
-  const isAdmin = adminKey === ADMIN_KEY
-
-  // Get authenticated user
-  let user: any = null
-  let membership: any = null
-
-  if (authHeader) {
-    const { data: { user: authUser } } = await supabase.auth.getUser(
-      authHeader.replace('Bearer ', '')
-    )
-    if (authUser) {
-      user = authUser
-      const { data: m } = await supabase
-        .from('user_tenants')
-        .select('tenant_id, role')
-        .eq('user_id', user.id)
-        .eq('is_default', true)
-        .single()
-      membership = m
-    }
-  }
+import { createHandler } from "../_shared/middleware.ts"
+import { jsonResponse, errorResponse } from "../_shared/security.ts"
+import { MANAGE_SUB_SAAS_SCHEMAS } from "../_shared/schemas.ts"
 
-  if (!isAdmin && !membership) {
-    return new Response(JSON.stringify({ error: 'Authentication required' }), {
-      status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-    })
-  }
-
-  const body = await req.json()
+serve(createHandler(async ({ supabase, auth, body, isAdmin }) => {
   const { action, sub_saas_id } = body
-  const tenantId = isAdmin ? body.tenant_id : membership?.tenant_id
+  const tenantId = isAdmin ? body.tenant_id : auth.tenant?.id
 
   // Helper to verify sub-saas access
   async function verifyAccess(subSaasId: string): Promise<any> {
@@ -106,29 +63,17 @@ serve(async (req) => {
         })
       )
 
-      return new Response(JSON.stringify({ apps: appsWithCounts }), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return jsonResponse({ apps: appsWithCounts })
     } catch (error) {
-      return new Response(JSON.stringify({ error: error.message }), {
-        status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse(error.message, 500)
     }
   }
 
   // ===== GET SUB-SAAS APP =====
   if (action === 'get') {
-    if (!sub_saas_id) {
-      return new Response(JSON.stringify({ error: 'sub_saas_id required' }), {
-        status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
-    }
-
     const app = await verifyAccess(sub_saas_id)
     if (!app) {
-      return new Response(JSON.stringify({ error: 'Not found or access denied' }), {
-        status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse('Not found or access denied', 404)
     }
 
     // Get user count
@@ -148,30 +93,20 @@ serve(async (req) => {
       stripeConnect = data
     }
 
-    return new Response(JSON.stringify({
+    return jsonResponse({
       app: {
         ...app,
         user_count: userCount || 0,
         stripe_connect: stripeConnect
       }
-    }), {
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
     })
   }
 
   // ===== UPDATE SUB-SAAS APP =====
   if (action === 'update') {
-    if (!sub_saas_id) {
-      return new Response(JSON.stringify({ error: 'sub_saas_id required' }), {
-        status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
-    }
-
     const app = await verifyAccess(sub_saas_id)
     if (!app) {
-      return new Response(JSON.stringify({ error: 'Not found or access denied' }), {
-        status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse('Not found or access denied', 404)
     }
 
     const { name, description, settings, branding, status, custom_domain, max_users } = body
@@ -193,29 +128,17 @@ serve(async (req) => {
       .single()
 
     if (error) {
-      return new Response(JSON.stringify({ error: error.message }), {
-        status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse(error.message, 500)
     }
 
-    return new Response(JSON.stringify({ success: true, app: data }), {
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-    })
+    return jsonResponse({ success: true, app: data })
   }
 
   // ===== DELETE SUB-SAAS APP =====
   if (action === 'delete') {
-    if (!sub_saas_id) {
-      return new Response(JSON.stringify({ error: 'sub_saas_id required' }), {
-        status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
-    }
-
     const app = await verifyAccess(sub_saas_id)
     if (!app) {
-      return new Response(JSON.stringify({ error: 'Not found or access denied' }), {
-        status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse('Not found or access denied', 404)
     }
 
     // Soft delete
@@ -225,29 +148,17 @@ serve(async (req) => {
       .eq('id', sub_saas_id)
 
     if (error) {
-      return new Response(JSON.stringify({ error: error.message }), {
-        status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse(error.message, 500)
     }
 
-    return new Response(JSON.stringify({ success: true }), {
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-    })
+    return jsonResponse({ success: true })
   }
 
   // ===== LIST USERS =====
   if (action === 'list_users') {
-    if (!sub_saas_id) {
-      return new Response(JSON.stringify({ error: 'sub_saas_id required' }), {
-        status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
-    }
-
     const app = await verifyAccess(sub_saas_id)
     if (!app) {
-      return new Response(JSON.stringify({ error: 'Not found or access denied' }), {
-        status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse('Not found or access denied', 404)
     }
 
     const { data, error } = await supabase
@@ -257,37 +168,19 @@ serve(async (req) => {
       .order('created_at', { ascending: false })
 
     if (error) {
-      return new Response(JSON.stringify({ error: error.message }), {
-        status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse(error.message, 500)
     }
 
-    return new Response(JSON.stringify({ users: data }), {
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-    })
+    return jsonResponse({ users: data })
   }
 
   // ===== ADD USER =====
   if (action === 'add_user') {
-    if (!sub_saas_id) {
-      return new Response(JSON.stringify({ error: 'sub_saas_id required' }), {
-        status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
-    }
-
     const { user_email, user_name, user_role = 'user' } = body
 
-    if (!user_email) {
-      return new Response(JSON.stringify({ error: 'user_email required' }), {
-        status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
-    }
-
     const app = await verifyAccess(sub_saas_id)
     if (!app) {
-      return new Response(JSON.stringify({ error: 'Not found or access denied' }), {
-        status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse('Not found or access denied', 404)
     }
 
     // Check user limit
@@ -297,9 +190,7 @@ serve(async (req) => {
       .eq('sub_saas_id', sub_saas_id)
 
     if ((count || 0) >= app.max_users) {
-      return new Response(JSON.stringify({ error: `User limit reached (${app.max_users})` }), {
-        status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse(`User limit reached (${app.max_users})`, 403)
     }
 
     const { data, error } = await supabase
@@ -315,41 +206,21 @@ serve(async (req) => {
 
     if (error) {
       if (error.code === '23505') {
-        return new Response(JSON.stringify({ error: 'User already exists' }), {
-          status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-        })
+        return errorResponse('User already exists', 409)
       }
-      return new Response(JSON.stringify({ error: error.message }), {
-        status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse(error.message, 500)
     }
 
-    return new Response(JSON.stringify({ success: true, user: data }), {
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-    })
+    return jsonResponse({ success: true, user: data })
   }
 
   // ===== REMOVE USER =====
   if (action === 'remove_user') {
-    if (!sub_saas_id) {
-      return new Response(JSON.stringify({ error: 'sub_saas_id required' }), {
-        status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
-    }
-
     const { user_id, user_email } = body
 
-    if (!user_id && !user_email) {
-      return new Response(JSON.stringify({ error: 'user_id or user_email required' }), {
-        status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
-    }
-
     const app = await verifyAccess(sub_saas_id)
     if (!app) {
-      return new Response(JSON.stringify({ error: 'Not found or access denied' }), {
-        status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse('Not found or access denied', 404)
     }
 
     let query = supabase
@@ -366,29 +237,17 @@ serve(async (req) => {
     const { error } = await query
 
     if (error) {
-      return new Response(JSON.stringify({ error: error.message }), {
-        status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse(error.message, 500)
     }
 
-    return new Response(JSON.stringify({ success: true }), {
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-    })
+    return jsonResponse({ success: true })
   }
 
   // ===== GET METRICS =====
   if (action === 'get_metrics') {
-    if (!sub_saas_id) {
-      return new Response(JSON.stringify({ error: 'sub_saas_id required' }), {
-        status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
-    }
-
     const app = await verifyAccess(sub_saas_id)
     if (!app) {
-      return new Response(JSON.stringify({ error: 'Not found or access denied' }), {
-        status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse('Not found or access denied', 404)
     }
 
     // User metrics
@@ -430,7 +289,7 @@ serve(async (req) => {
       .eq('sub_saas_id', sub_saas_id)
       .gte('created_at', thirtyDaysAgo.toISOString())
 
-    return new Response(JSON.stringify({
+    return jsonResponse({
       metrics: {
         total_users: totalUsers || 0,
         max_users: app.max_users,
@@ -439,15 +298,11 @@ serve(async (req) => {
         payments: paymentMetrics,
         status: app.status
       }
-    }), {
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
     })
   }
 
-  return new Response(JSON.stringify({
+  return jsonResponse({
     error: 'Invalid action',
     available_actions: ['list', 'get', 'update', 'delete', 'list_users', 'add_user', 'remove_user', 'get_metrics']
-  }), {
-    status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-  })
-})
+  }, 400)
+}, { allowAdminKey: true, actions: MANAGE_SUB_SAAS_SCHEMAS }))
@@ -5,50 +5,13 @@
 // =====================================================
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2"
-
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-admin-key',
-}
-
-const ADMIN_KEY = Deno.env.get('ADMIN_KEY')!
-
-serve(async (req) => {
-  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders })
-
-  const supabase = createClient(
-    Deno.env.get('SUPABASE_URL')!,
-    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
-  )
-
-  const authHeader = req.headers.get('Authorization')
-  const adminKey = req.headers.get('X-Admin-Key')
-  const isAdmin = adminKey === ADMIN_KEY
-
-  // Get authenticated user
-  let user: any = null
-  let membership: any = null
-
-  if (authHeader) {
-    const { data: { user: authUser } } = await supabase.auth.getUser(
-      authHeader.replace('Bearer ', '')
-    )
-    if (authUser) {
-      user = authUser
-      const { data: m } = await supabase
-        .from('user_tenants')
-        .select('tenant_id, role')
-        .eq('user_id', user.id)
-        .eq('is_default', true)
-        .single()
-      membership = m
-    }
-  }
+import { createHandler } from "../_shared/middleware.ts"
+import { jsonResponse, errorResponse } from "../_shared/security.ts"
+import { MANAGE_TEMPLATES_SCHEMAS } from "../_shared/schemas.ts"
 
-  const body = await req.json()
+serve(createHandler(async ({ supabase, auth, body, isAdmin }) => {
   const { action } = body
-  const tenantId = isAdmin ? body.tenant_id : membership?.tenant_id
+  const tenantId = isAdmin ? body.tenant_id : auth.tenant?.id
 
   // ===== LIST TEMPLATES =====
   if (action === 'list') {
@@ -82,13 +45,9 @@ serve(async (req) => {
         schemas: undefined
       }))
 
-      return new Response(JSON.stringify({ templates }), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return jsonResponse({ templates })
     } catch (error) {
-      return new Response(JSON.stringify({ error: error.message }), {
-        status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse(error.message, 500)
     }
   }
 
@@ -96,12 +55,6 @@ serve(async (req) => {
   if (action === 'get') {
     const { template_id, slug } = body
 
-    if (!template_id && !slug) {
-      return new Response(JSON.stringify({ error: 'template_id or slug required' }), {
-        status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
-    }
-
     try {
       let query = supabase
         .from('sub_saas_templates')
@@ -122,28 +75,20 @@ serve(async (req) => {
 
       // Check access
       if (!data.is_public && !isAdmin && data.tenant_id !== tenantId) {
-        return new Response(JSON.stringify({ error: 'Access denied' }), {
-          status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-        })
+        return errorResponse('Access denied', 403)
       }
 
-      return new Response(JSON.stringify({ template: data }), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return jsonResponse({ template: data })
     } catch (error) {
-      return new Response(JSON.stringify({ error: error.message }), {
-        status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse(error.message, 500)
     }
   }
 
   // ===== CREATE TEMPLATE =====
   if (action === 'create') {
     // Must be admin or have tenant membership
-    if (!isAdmin && (!membership || !['owner', 'admin'].includes(membership.role))) {
-      return new Response(JSON.stringify({ error: 'Admin access required' }), {
-        status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+    if (!isAdmin && (!auth.tenant || !['owner', 'admin'].includes(auth.role!))) {
+      return errorResponse('Admin access required', 403)
     }
 
     const {
@@ -159,12 +104,6 @@ serve(async (req) => {
       is_public = false // Only platform admin can create public templates
     } = body
 
-    if (!slug || !name) {
-      return new Response(JSON.stringify({ error: 'slug and name required' }), {
-        status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
-    }
-
     // Only platform admin can create public templates
     const makePublic = is_public && isAdmin
 
@@ -177,9 +116,7 @@ serve(async (req) => {
         .single()
 
       if (existing) {
-        return new Response(JSON.stringify({ error: 'Template slug already exists' }), {
-          status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-        })
+        return errorResponse('Template slug already exists', 409)
       }
 
       // Create template
@@ -235,17 +172,13 @@ serve(async (req) => {
         .eq('id', template.id)
         .single()
 
-      return new Response(JSON.stringify({ 
+      return jsonResponse({ 
         success: true, 
         template: completeTemplate 
-      }), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
       })
 
     } catch (error) {
-      return new Response(JSON.stringify({ error: error.message }), {
-        status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse(error.message, 500)
     }
   }
 
@@ -253,12 +186,6 @@ serve(async (req) => {
   if (action === 'update') {
     const { template_id } = body
 
-    if (!template_id) {
-      return new Response(JSON.stringify({ error: 'template_id required' }), {
-        status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
-    }
-
     // Verify ownership
     const { data: existing } = await supabase
       .from('sub_saas_templates')
@@ -267,16 +194,12 @@ serve(async (req) => {
       .single()
 
     if (!existing) {
-      return new Response(JSON.stringify({ error: 'Template not found' }), {
-        status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse('Template not found', 404)
     }
 
     // Check access
     if (!isAdmin && existing.tenant_id !== tenantId) {
-      return new Response(JSON.stringify({ error: 'Access denied' }), {
-        status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse('Access denied', 403)
     }
 
     const {
@@ -310,13 +233,9 @@ serve(async (req) => {
 
       if (error) throw error
 
-      return new Response(JSON.stringify({ success: true, template: data }), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return jsonResponse({ success: true, template: data })
     } catch (error) {
-      return new Response(JSON.stringify({ error: error.message }), {
-        status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse(error.message, 500)
     }
   }
 
@@ -324,12 +243,6 @@ serve(async (req) => {
   if (action === 'delete') {
     const { template_id } = body
 
-    if (!template_id) {
-      return new Response(JSON.stringify({ error: 'template_id required' }), {
-        status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
-    }
-
     // Verify ownership
     const { data: existing } = await supabase
       .from('sub_saas_templates')
@@ -338,23 +251,17 @@ serve(async (req) => {
       .single()
 
     if (!existing) {
-      return new Response(JSON.stringify({ error: 'Template not found' }), {
-        status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse('Template not found', 404)
     }
 
     // Can't delete public templates unless platform admin
     if (existing.is_public && !isAdmin) {
-      return new Response(JSON.stringify({ error: 'Cannot delete public templates' }), {
-        status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse('Cannot delete public templates', 403)
     }
 
     // Check access
     if (!isAdmin && existing.tenant_id !== tenantId) {
-      return new Response(JSON.stringify({ error: 'Access denied' }), {
-        status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse('Access denied', 403)
     }
 
     try {
@@ -371,13 +278,9 @@ serve(async (req) => {
           .eq('id', template_id)
       }
 
-      return new Response(JSON.stringify({ success: true }), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return jsonResponse({ success: true })
     } catch (error) {
-      return new Response(JSON.stringify({ error: error.message }), {
-        status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse(error.message, 500)
     }
   }
 
@@ -385,12 +288,6 @@ serve(async (req) => {
   if (action === 'add_table') {
     const { template_id, table } = body
 
-    if (!template_id || !table) {
-      return new Response(JSON.stringify({ error: 'template_id and table required' }), {
-        status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
-    }
-
     // Verify ownership
     const { data: existing } = await supabase
       .from('sub_saas_templates')
@@ -399,9 +296,7 @@ serve(async (req) => {
       .single()
 
     if (!existing || (!isAdmin && existing.tenant_id !== tenantId)) {
-      return new Response(JSON.stringify({ error: 'Access denied' }), {
-        status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse('Access denied', 403)
     }
 
     try {
@@ -430,13 +325,9 @@ serve(async (req) => {
         .update({ version: (existing.version || 1) + 1 })
         .eq('id', template_id)
 
-      return new Response(JSON.stringify({ success: true, schema: data }), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return jsonResponse({ success: true, schema: data })
     } catch (error) {
-      return new Response(JSON.stringify({ error: error.message }), {
-        status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse(error.message, 500)
     }
   }
 
@@ -444,12 +335,6 @@ serve(async (req) => {
   if (action === 'update_table') {
     const { schema_id, updates } = body
 
-    if (!schema_id || !updates) {
-      return new Response(JSON.stringify({ error: 'schema_id and updates required' }), {
-        status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
-    }
-
     // Verify ownership through template
     const { data: schema } = await supabase
       .from('template_table_schemas')
@@ -458,9 +343,7 @@ serve(async (req) => {
       .single()
 
     if (!schema || (!isAdmin && schema.template.tenant_id !== tenantId)) {
-      return new Response(JSON.stringify({ error: 'Access denied' }), {
-        status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse('Access denied', 403)
     }
 
     const allowedUpdates: any = {}
@@ -481,13 +364,9 @@ serve(async (req) => {
 
       if (error) throw error
 
-      return new Response(JSON.stringify({ success: true, schema: data }), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return jsonResponse({ success: true, schema: data })
     } catch (error) {
-      return new Response(JSON.stringify({ error: error.message }), {
-        status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse(error.message, 500)
     }
   }
 
@@ -495,12 +374,6 @@ serve(async (req) => {
   if (action === 'delete_table') {
     const { schema_id } = body
 
-    if (!schema_id) {
-      return new Response(JSON.stringify({ error: 'schema_id required' }), {
-        status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
-    }
-
     // Verify ownership through template
     const { data: schema } = await supabase
       .from('template_table_schemas')
@@ -509,15 +382,11 @@ serve(async (req) => {
       .single()
 
     if (!schema || (!isAdmin && schema.template.tenant_id !== tenantId)) {
-      return new Response(JSON.stringify({ error: 'Access denied' }), {
-        status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse('Access denied', 403)
     }
 
     if (schema.is_system) {
-      return new Response(JSON.stringify({ error: 'Cannot delete system tables' }), {
-        status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse('Cannot delete system tables', 403)
     }
 
     try {
@@ -526,23 +395,17 @@ serve(async (req) => {
         .delete()
         .eq('id', schema_id)
 
-      return new Response(JSON.stringify({ success: true }), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return jsonResponse({ success: true })
     } catch (error) {
-      return new Response(JSON.stringify({ error: error.message }), {
-        status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse(error.message, 500)
     }
   }
 
-  return new Response(JSON.stringify({
+  return jsonResponse({
     error: 'Invalid action',
     available_actions: [
       'list', 'get', 'create', 'update', 'delete',
       'add_table', 'update_table', 'delete_table'
     ]
-  }), {
-    status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-  })
-})
+  }, 400)
+}, { requireAuth: false, requireTenant: false, allowAdminKey: true, actions: MANAGE_TEMPLATES_SCHEMAS }))
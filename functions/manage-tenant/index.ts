@@ -0,0 +1,346 @@
+// =====================================================
+// MANAGE TENANT
+// List memberships, switch the active tenant, tenant settings,
+// suspension, scheduled deletion and purge (see tenant-lifecycle.ts)
+// Send X-Tenant-Id (uuid or slug) to act on a tenant per request
+// =====================================================
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createHandler } from "../_shared/middleware.ts"
+import { jsonResponse, errorResponse, resolveTenantMembership, TENANT_HEADER } from "../_shared/security.ts"
+import { MANAGE_TENANT_SCHEMAS } from "../_shared/schemas.ts"
+import { runTenantPurge } from "../_shared/tenant-lifecycle.ts"
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Scheduled actions (X-Cron-Secret)
+const CRON_ACTIONS = ['purge']
+
+// Platform actions (X-Admin-Key)
+const ADMIN_ACTIONS = ['suspend', 'purge', 'list_deletions']
+
+serve(createHandler(async ({ supabase, auth, body, isAdmin, isCron }) => {
+  const { action } = body
+
+  // The cron secret only covers the scheduled actions
+  if (isCron && !isAdmin && !CRON_ACTIONS.includes(action)) {
+    return errorResponse(`Cron secret only allowed for ${CRON_ACTIONS.join(', ')}`, 403, 'FORBIDDEN')
+  }
+  if (ADMIN_ACTIONS.includes(action) && !isAdmin && !(isCron && CRON_ACTIONS.includes(action))) {
+    return errorResponse('Admin key required', 401, 'ADMIN_KEY_REQUIRED')
+  }
+
+  const userId = auth.user?.id || null
+
+  // Lifecycle actions act on body.tenant_id with the admin key, otherwise on
+  // the current tenant, which only its owners may close
+  const lifecycleTarget = async (): Promise<{ tenant?: any; error?: Response }> => {
+    const tenantId = isAdmin ? body.tenant_id : auth.tenant?.id
+    if (!tenantId) {
+      return { error: errorResponse(isAdmin ? 'tenant_id required' : 'No active tenant', 400, 'NO_TENANT') }
+    }
+    if (!isAdmin && auth.role !== 'owner') {
+      return { error: errorResponse('Only tenant owners can do this', 403, 'FORBIDDEN') }
+    }
+
+    const { data: tenant } = await supabase
+      .from('tenants')
+      .select('id, name, slug, status, suspended_at, suspension_reason, deletion_scheduled_for')
+      .eq('id', tenantId)
+      .maybeSingle()
+
+    if (!tenant) return { error: errorResponse('Tenant not found', 404, 'TENANT_NOT_FOUND') }
+    return { tenant }
+  }
+
+  const logLifecycle = (tenantId: string, event: string, metadata: Record<string, unknown>) =>
+    supabase.from('activity_log').insert({
+      tenant_id: tenantId,
+      user_id: userId,
+      action: `tenant.${event}`,
+      resource_type: 'tenant',
+      resource_id: tenantId,
+      metadata: { ...metadata, by: isAdmin ? 'admin' : 'owner' }
+    })
+
+  if (['list_tenants', 'switch_tenant', 'set_timezone'].includes(action) && !userId) {
+    return errorResponse('User authentication required', 401, 'UNAUTHORIZED')
+  }
+
+  // ===== LIST TENANTS =====
+  if (action === 'list_tenants') {
+    const { data, error } = await supabase
+      .from('user_tenants')
+      .select('role, is_default, tenants(id, name, slug, plan, status)')
+      .eq('user_id', userId)
+      .order('created_at')
+
+    if (error) return errorResponse(error.message, 500)
+
+    return jsonResponse({
+      current_tenant_id: auth.tenant?.id || null,
+      tenants: (data || []).map((m: any) => ({ ...m.tenants, role: m.role, is_default: m.is_default }))
+    })
+  }
+
+  // ===== SWITCH TENANT =====
+  if (action === 'switch_tenant') {
+    const { tenant, set_default = false } = body
+
+    const membership = await resolveTenantMembership(supabase, userId!, String(tenant))
+    if (!membership) {
+      return errorResponse('Not a member of the requested tenant', 403, 'NOT_A_MEMBER')
+    }
+
+    if (set_default) {
+      // One statement: the old default is cleared and the new one set together
+      const { error } = await supabase.rpc('set_default_tenant', {
+        p_user_id: userId,
+        p_tenant_id: membership.tenant!.id
+      })
+      if (error) return errorResponse(error.message, 500)
+    }
+
+    await supabase.from('activity_log').insert({
+      tenant_id: membership.tenant!.id,
+      user_id: userId,
+      action: 'tenant.switched',
+      resource_type: 'tenant',
+      resource_id: membership.tenant!.id,
+      metadata: { set_default, previous_tenant_id: auth.tenant?.id || null }
+    })
+
+    return jsonResponse({
+      success: true,
+      tenant: membership.tenant,
+      role: membership.role,
+      is_default: !!set_default,
+      header: { [TENANT_HEADER]: membership.tenant!.id }
+    })
+  }
+
+  // ===== SET TIMEZONE =====
+  if (action === 'set_timezone') {
+    if (!auth.tenant) {
+      return errorResponse('No active tenant', 400, 'NO_TENANT')
+    }
+    if (!['owner', 'admin'].includes(auth.role!)) {
+      return errorResponse('Only owners and admins can change tenant settings', 403, 'FORBIDDEN')
+    }
+    if (auth.tenant.status !== 'active') {
+      return errorResponse(`Tenant is ${auth.tenant.status}`, 409, 'TENANT_INACTIVE')
+    }
+
+    const { timezone } = body
+
+    const { error } = await supabase
+      .from('tenants')
+      .update({ timezone, updated_at: new Date().toISOString() })
+      .eq('id', auth.tenant.id)
+
+    if (error) {
+      return errorResponse(error.message.includes('Unknown timezone') ? `Unknown timezone: ${timezone}` : error.message, 400, 'INVALID_TIMEZONE')
+    }
+
+    // Daily and monthly rollups are bucketed in the tenant's timezone
+    const { error: rebuildError } = await supabase.rpc('rebuild_usage_rollups', { p_tenant_id: auth.tenant.id })
+    if (rebuildError) return errorResponse(rebuildError.message, 500)
+
+    return jsonResponse({ success: true, tenant_id: auth.tenant.id, timezone })
+  }
+
+  // =====================================================
+  // LIFECYCLE
+  // =====================================================
+
+  // ===== SUSPEND (admin) =====
+  if (action === 'suspend') {
+    const { tenant, error } = await lifecycleTarget()
+    if (error) return error
+    if (tenant.status !== 'active') {
+      return errorResponse(`Tenant is ${tenant.status}`, 409, 'TENANT_INACTIVE')
+    }
+
+    const suspendedAt = new Date().toISOString()
+    const { error: updateError } = await supabase
+      .from('tenants')
+      .update({ status: 'suspended', suspended_at: suspendedAt, suspension_reason: body.reason || null, updated_at: suspendedAt })
+      .eq('id', tenant.id)
+      .eq('status', 'active')
+
+    if (updateError) return errorResponse(updateError.message, 500)
+
+    await logLifecycle(tenant.id, 'suspended', { reason: body.reason || null })
+
+    return jsonResponse({ success: true, tenant_id: tenant.id, status: 'suspended', suspended_at: suspendedAt })
+  }
+
+  // ===== REACTIVATE =====
+  // Admin: lifts a suspension and cancels a scheduled deletion.
+  // Owner: cancels the deletion they scheduled (a suspension stays).
+  if (action === 'reactivate') {
+    const { tenant, error } = await lifecycleTarget()
+    if (error) return error
+    if (tenant.status === 'active') {
+      return errorResponse('Tenant is already active', 409, 'TENANT_ACTIVE')
+    }
+    if (!isAdmin && tenant.status === 'suspended') {
+      return errorResponse('Suspended tenants can only be reactivated by the platform', 403, 'FORBIDDEN')
+    }
+
+    const status = !isAdmin && tenant.suspended_at ? 'suspended' : 'active'
+    const { error: updateError } = await supabase
+      .from('tenants')
+      .update({
+        status,
+        deletion_scheduled_for: null,
+        ...(status === 'active' && { suspended_at: null, suspension_reason: null }),
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', tenant.id)
+
+    if (updateError) return errorResponse(updateError.message, 500)
+
+    const { data: canceled } = await supabase
+      .from('tenant_deletions')
+      .update({ status: 'canceled', updated_at: new Date().toISOString() })
+      .eq('tenant_id', tenant.id)
+      .in('status', ['scheduled', 'failed'])
+      .select('id')
+
+    await logLifecycle(tenant.id, 'reactivated', { previous_status: tenant.status, deletion_canceled: !!canceled?.length })
+
+    return jsonResponse({ success: true, tenant_id: tenant.id, status, deletion_canceled: !!canceled?.length })
+  }
+
+  // ===== SCHEDULE DELETION =====
+  if (action === 'schedule_deletion') {
+    const { tenant, error } = await lifecycleTarget()
+    if (error) return error
+    if (tenant.status === 'pending_deletion') {
+      return errorResponse(`Deletion already scheduled for ${tenant.deletion_scheduled_for}`, 409, 'DELETION_SCHEDULED')
+    }
+    if (!isAdmin && tenant.status === 'suspended') {
+      return errorResponse('Suspended tenants can only be deleted by the platform', 403, 'FORBIDDEN')
+    }
+    // Owners type the slug to confirm
+    if (!isAdmin && body.confirm !== tenant.slug) {
+      return errorResponse(`Set confirm to the tenant slug (${tenant.slug}) to schedule the deletion`, 400, 'CONFIRMATION_REQUIRED')
+    }
+
+    const { grace_days, reason } = body
+    const scheduledFor = new Date(Date.now() + grace_days * DAY_MS).toISOString()
+
+    const { data: deletion, error: insertError } = await supabase
+      .from('tenant_deletions')
+      .insert({
+        tenant_id: tenant.id,
+        tenant_name: tenant.name,
+        tenant_slug: tenant.slug,
+        reason: reason || null,
+        requested_by: userId,
+        scheduled_for: scheduledFor
+      })
+      .select('id, scheduled_for')
+      .single()
+
+    if (insertError) {
+      return insertError.code === '23505'
+        ? errorResponse('Deletion already scheduled', 409, 'DELETION_SCHEDULED')
+        : errorResponse(insertError.message, 500)
+    }
+
+    await supabase
+      .from('tenants')
+      .update({ status: 'pending_deletion', deletion_scheduled_for: scheduledFor, updated_at: new Date().toISOString() })
+      .eq('id', tenant.id)
+
+    await logLifecycle(tenant.id, 'deletion_scheduled', { scheduled_for: scheduledFor, grace_days, reason: reason || null })
+
+    return jsonResponse({
+      success: true,
+      tenant_id: tenant.id,
+      status: 'pending_deletion',
+      deletion_id: deletion.id,
+      scheduled_for: deletion.scheduled_for,
+      message: 'Changes are disabled until then; reads and exports keep working. reactivate cancels the deletion.'
+    })
+  }
+
+  // ===== PURGE (admin, or hourly via cron for due deletions) =====
+  if (action === 'purge') {
+    const { tenant_id, dry_run, force } = body
+
+    try {
+      // With tenant_id, that tenant's scheduled deletion runs right away
+      const result = await runTenantPurge(supabase, { tenantId: tenant_id, dryRun: !!dry_run, force: !!force })
+
+      if (tenant_id && !result.purged.length && !result.failed.length) {
+        return errorResponse('No deletion scheduled for this tenant', 404, 'DELETION_NOT_FOUND')
+      }
+
+      return jsonResponse({ success: true, ...result })
+    } catch (error) {
+      return errorResponse(error.message, 500)
+    }
+  }
+
+  // ===== GET DELETION REPORT =====
+  if (action === 'get_deletion_report') {
+    const tenantId = isAdmin ? body.tenant_id : auth.tenant?.id
+
+    if (!isAdmin && !['owner', 'admin'].includes(auth.role!)) {
+      return errorResponse('Only owners and admins can view deletions', 403, 'FORBIDDEN')
+    }
+    if (!tenantId && !body.deletion_id) {
+      return errorResponse('tenant_id or deletion_id required', 400, 'NO_TENANT')
+    }
+
+    let query = supabase
+      .from('tenant_deletions')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(1)
+
+    if (tenantId) query = query.eq('tenant_id', tenantId)
+    if (body.deletion_id) query = query.eq('id', body.deletion_id)
+
+    const { data: deletion, error } = await query.maybeSingle()
+
+    if (error) return errorResponse(error.message, 500)
+    if (!deletion) return errorResponse('No deletion found', 404, 'DELETION_NOT_FOUND')
+
+    return jsonResponse({ deletion })
+  }
+
+  // ===== LIST DELETIONS (admin) =====
+  if (action === 'list_deletions') {
+    const { status, limit } = body
+
+    let query = supabase
+      .from('tenant_deletions')
+      .select('id, tenant_id, tenant_name, tenant_slug, status, reason, scheduled_for, attempts, created_at, completed_at')
+      .order('scheduled_for', { ascending: false })
+      .limit(limit)
+
+    if (status) query = query.eq('status', status)
+
+    const { data: deletions, error } = await query
+
+    if (error) return errorResponse(error.message, 500)
+
+    return jsonResponse({ deletions })
+  }
+
+  return errorResponse('Invalid action. Use: list_tenants, switch_tenant, set_timezone, suspend, reactivate, schedule_deletion, purge, get_deletion_report, list_deletions', 400, 'INVALID_ACTION')
+}, {
+  // Cron (X-Cron-Secret) runs purge hourly
+  requireTenant: false,
+  allowAdminKey: true,
+  allowCronSecret: true,
+  // Owners must reach a tenant pending deletion to cancel it, and unpaid
+  // tenants can still close their account
+  allowInactiveTenant: true,
+  restrictUnpaid: false,
+  actions: MANAGE_TENANT_SCHEMAS
+}))
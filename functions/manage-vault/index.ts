@@ -5,58 +5,16 @@
 // =====================================================
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2"
+import { createHandler } from "../_shared/middleware.ts"
+import { jsonResponse, errorResponse } from "../_shared/security.ts"
+import { MANAGE_VAULT_SCHEMAS } from "../_shared/schemas.ts"
 
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-admin-key',
-}
-
-serve(async (req) => {
-  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders })
-  
-  const supabase = createClient(
-    Deno.env.get('SUPABASE_URL')!,
-    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
-  )
-  
-  // Can be called with user auth OR admin key
-  const authHeader = req.headers.get('Authorization')
-  const adminKey = req.headers.get('X-Admin-Key')
-  
-  let userId: string | null = null
-  let tenantId: string | null = null
-  let isAdmin = false
-  
-  // Check admin key first
-  if (adminKey && adminKey === Deno.env.get('ADMIN_KEY')) {
-    isAdmin = true
-  } else if (authHeader?.startsWith('Bearer ')) {
-    const { data: { user }, error } = await supabase.auth.getUser(authHeader.replace('Bearer ', ''))
-    if (error || !user) {
-      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
-        status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
-    }
-    userId = user.id
-    
-    // Get tenant
-    const { data: userTenant } = await supabase
-      .from('user_tenants')
-      .select('tenant_id, role')
-      .eq('user_id', user.id)
-      .eq('is_default', true)
-      .single()
-    
-    tenantId = userTenant?.tenant_id
-    isAdmin = ['owner', 'admin'].includes(userTenant?.role)
-  } else {
-    return new Response(JSON.stringify({ error: 'Authorization required' }), {
-      status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-    })
-  }
+serve(createHandler(async ({ supabase, auth, body, isAdmin: isPlatformAdmin }) => {
+  const userId = auth.user?.id || null
+  const tenantId = auth.tenant?.id || null
+  const isAdmin = isPlatformAdmin || ['owner', 'admin'].includes(auth.role!)
   
-  const { action, secret_name, secret_value, description, scope, secret_id } = await req.json()
+  const { action, secret_name, secret_value, description, scope, secret_id } = body
   
   // ===== LIST SECRETS =====
   if (action === 'list') {
@@ -80,33 +38,21 @@ serve(async (req) => {
           FROM vault.secrets
           ORDER BY name
         `)
-        return new Response(JSON.stringify({ success: true, secrets: result }), {
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-        })
+        return jsonResponse({ success: true, secrets: result })
       }
       
-      return new Response(JSON.stringify({ 
+      return jsonResponse({ 
         success: true, 
         secrets,
         count: secrets?.length || 0
-      }), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
       })
     } catch (error) {
-      return new Response(JSON.stringify({ error: error.message }), {
-        status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse(error.message, 500)
     }
   }
   
   // ===== GET SECRET VALUE =====
   if (action === 'get') {
-    if (!secret_name && !secret_id) {
-      return new Response(JSON.stringify({ error: 'secret_name or secret_id required' }), {
-        status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
-    }
-    
     try {
       let query = supabase
         .from('tenant_secrets')
@@ -125,9 +71,7 @@ serve(async (req) => {
       const { data: secret, error } = await query.single()
       
       if (error || !secret) {
-        return new Response(JSON.stringify({ error: 'Secret not found' }), {
-          status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-        })
+        return errorResponse('Secret not found', 404)
       }
       
       // Get decrypted value from vault
@@ -137,7 +81,7 @@ serve(async (req) => {
         WHERE id = '${secret.vault_secret_id}'
       `)
       
-      return new Response(JSON.stringify({ 
+      return jsonResponse({ 
         success: true,
         secret: {
           id: secret.id,
@@ -146,38 +90,18 @@ serve(async (req) => {
           description: secret.description,
           scope: secret.scope
         }
-      }), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
       })
     } catch (error) {
-      return new Response(JSON.stringify({ error: error.message }), {
-        status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse(error.message, 500)
     }
   }
   
   // ===== CREATE SECRET =====
   if (action === 'create' || action === 'set') {
-    if (!secret_name || !secret_value) {
-      return new Response(JSON.stringify({ 
-        error: 'secret_name and secret_value required',
-        example: {
-          secret_name: 'OPENAI_API_KEY',
-          secret_value: 'sk-...',
-          description: 'OpenAI API key for this tenant',
-          scope: 'tenant'  // 'tenant', 'user', or 'global'
-        }
-      }), {
-        status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
-    }
-    
     // Only admins can create global secrets
     const secretScope = scope || 'tenant'
     if (secretScope === 'global' && !isAdmin) {
-      return new Response(JSON.stringify({ error: 'Only admins can create global secrets' }), {
-        status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse('Only admins can create global secrets', 403)
     }
     
     try {
@@ -218,29 +142,19 @@ serve(async (req) => {
         metadata: { secret_name, scope: secretScope }
       })
       
-      return new Response(JSON.stringify({
+      return jsonResponse({
         success: true,
         secret_id: secretRecord?.id,
         secret_name,
         scope: secretScope
-      }), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
       })
     } catch (error) {
-      return new Response(JSON.stringify({ error: error.message }), {
-        status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse(error.message, 500)
     }
   }
   
   // ===== UPDATE SECRET =====
   if (action === 'update') {
-    if (!secret_name && !secret_id) {
-      return new Response(JSON.stringify({ error: 'secret_name or secret_id required' }), {
-        status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
-    }
-    
     try {
       // Find the secret
       let query = supabase.from('tenant_secrets').select('*')
@@ -256,9 +170,7 @@ serve(async (req) => {
       const { data: existing, error: findError } = await query.single()
       
       if (findError || !existing) {
-        return new Response(JSON.stringify({ error: 'Secret not found' }), {
-          status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-        })
+        return errorResponse('Secret not found', 404)
       }
       
       // Update in vault if value provided
@@ -288,24 +200,14 @@ serve(async (req) => {
         metadata: { secret_name: existing.name }
       })
       
-      return new Response(JSON.stringify({ success: true, updated: existing.name }), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return jsonResponse({ success: true, updated: existing.name })
     } catch (error) {
-      return new Response(JSON.stringify({ error: error.message }), {
-        status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse(error.message, 500)
     }
   }
   
   // ===== DELETE SECRET =====
   if (action === 'delete') {
-    if (!secret_name && !secret_id) {
-      return new Response(JSON.stringify({ error: 'secret_name or secret_id required' }), {
-        status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
-    }
-    
     try {
       // Find the secret
       let query = supabase.from('tenant_secrets').select('*')
@@ -321,9 +223,7 @@ serve(async (req) => {
       const { data: existing, error: findError } = await query.single()
       
       if (findError || !existing) {
-        return new Response(JSON.stringify({ error: 'Secret not found' }), {
-          status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-        })
+        return errorResponse('Secret not found', 404)
       }
       
       // Delete from vault
@@ -343,23 +243,17 @@ serve(async (req) => {
         metadata: { secret_name: existing.name }
       })
       
-      return new Response(JSON.stringify({ success: true, deleted: existing.name }), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return jsonResponse({ success: true, deleted: existing.name })
     } catch (error) {
-      return new Response(JSON.stringify({ error: error.message }), {
-        status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse(error.message, 500)
     }
   }
   
-  return new Response(JSON.stringify({ 
+  return jsonResponse({ 
     error: 'Invalid action',
     available: ['list', 'get', 'create', 'set', 'update', 'delete']
-  }), {
-    status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-  })
-})
+  }, 400)
+}, { allowAdminKey: true, actions: MANAGE_VAULT_SCHEMAS }))
 
 async function executeSql(supabase: any, sql: string): Promise<any> {
   const { data, error } = await supabase.rpc('exec_sql', { query: sql })
@@ -1,442 +1,47 @@
 // =====================================================
 // MCP SERVER - HTTP Endpoint
 // Exposes all Edge Functions as MCP tools via HTTP
-// Compatible with MCP SSE transport
+// POST /mcp: MCP Streamable HTTP (JSON-RPC, sessions, SSE)
 // =====================================================
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
-
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-admin-key',
-  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
-}
+import { createHandler } from "../_shared/middleware.ts"
+import { jsonResponse, errorResponse, validateAdminKey } from "../_shared/security.ts"
+import { getTool, listMcpTools, getToolCategories, describeFunctions, ToolDefinition } from "../_shared/tools.ts"
+import { createForgeProvider, forgeConfigFromEnv, handleForgeTool, ForgeError, ForgeProvider } from "../_shared/forge.ts"
+import { handleMcpRequest, McpError, McpServerDefinition, McpSession, INVALID_PARAMS, PROTOCOL_VERSIONS } from "../_shared/mcp-transport.ts"
+import { RESOURCE_TEMPLATES, ResourceError, getPrompt, listPrompts, listResources, readResource } from "../_shared/resources.ts"
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2"
 
 const SUPABASE_URL = Deno.env.get('SUPABASE_URL')!
 const SUPABASE_ANON_KEY = Deno.env.get('SUPABASE_ANON_KEY')!
 const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
-const ADMIN_KEY = Deno.env.get('ADMIN_KEY')!
 const SITE_URL = Deno.env.get('SITE_URL') || 'http://localhost:3000'
+const SERVER_NAME = "supabase-saas-mcp"
+const SERVER_VERSION = "2.2.0"
 
-// Tool definitions
-const tools = [
-  // ===== AUTHENTICATION TOOLS =====
-  {
-    name: "auth_sign_up",
-    description: "Create a new user account",
-    inputSchema: {
-      type: "object",
-      properties: {
-        email: { type: "string", description: "User email address" },
-        password: { type: "string", description: "User password (min 6 chars)" },
-        metadata: { type: "object", description: "Optional user metadata" }
-      },
-      required: ["email", "password"]
-    }
-  },
-  {
-    name: "auth_sign_in",
-    description: "Sign in and get session tokens",
-    inputSchema: {
-      type: "object",
-      properties: {
-        email: { type: "string", description: "User email address" },
-        password: { type: "string", description: "User password" }
-      },
-      required: ["email", "password"]
-    }
-  },
-  {
-    name: "auth_sign_out",
-    description: "Sign out and invalidate session",
-    inputSchema: {
-      type: "object",
-      properties: {
-        access_token: { type: "string", description: "Current access token" }
-      },
-      required: ["access_token"]
-    }
-  },
-  {
-    name: "auth_get_user",
-    description: "Get current user details from access token",
-    inputSchema: {
-      type: "object",
-      properties: {
-        access_token: { type: "string", description: "User's access token" }
-      },
-      required: ["access_token"]
-    }
-  },
-  {
-    name: "auth_refresh_token",
-    description: "Refresh an expired access token",
-    inputSchema: {
-      type: "object",
-      properties: {
-        refresh_token: { type: "string", description: "Refresh token from sign-in" }
-      },
-      required: ["refresh_token"]
-    }
-  },
-  {
-    name: "auth_reset_password",
-    description: "Send password reset email",
-    inputSchema: {
-      type: "object",
-      properties: {
-        email: { type: "string", description: "Email address" }
-      },
-      required: ["email"]
-    }
-  },
-  {
-    name: "auth_update_password",
-    description: "Update user password",
-    inputSchema: {
-      type: "object",
-      properties: {
-        access_token: { type: "string", description: "User's access token" },
-        new_password: { type: "string", description: "New password (min 6 chars)" }
-      },
-      required: ["access_token", "new_password"]
-    }
-  },
-  {
-    name: "auth_sign_up_with_tenant",
-    description: "Create user account AND provision tenant in one call",
-    inputSchema: {
-      type: "object",
-      properties: {
-        email: { type: "string", description: "User email address" },
-        password: { type: "string", description: "User password (min 6 chars)" },
-        tenant_name: { type: "string", description: "Organization/company name" },
-        tenant_slug: { type: "string", description: "URL-friendly slug (optional)" },
-        user_metadata: { type: "object", description: "Optional user metadata" }
-      },
-      required: ["email", "password", "tenant_name"]
-    }
-  },
-
-  // ===== INFRASTRUCTURE TOOLS =====
-  {
-    name: "manage_database",
-    description: "List tables, create tables, add columns, run SQL queries",
-    inputSchema: {
-      type: "object",
-      properties: {
-        action: { type: "string", enum: ["list_tables", "describe", "create_table", "add_column", "create_index", "run_sql", "drop_table"] },
-        table_name: { type: "string" },
-        columns: { type: "array" },
-        sql: { type: "string" },
-        enable_rls: { type: "boolean" },
-        tenant_isolated: { type: "boolean" }
-      },
-      required: ["action"]
-    }
-  },
-  {
-    name: "manage_functions",
-    description: "List, create, update, or delete Edge Functions",
-    inputSchema: {
-      type: "object",
-      properties: {
-        action: { type: "string", enum: ["list", "get", "create", "update", "delete", "invoke"] },
-        function_name: { type: "string" },
-        function_code: { type: "string" },
-        verify_jwt: { type: "boolean" },
-        payload: { type: "object" }
-      },
-      required: ["action"]
-    }
-  },
-  {
-    name: "manage_secrets",
-    description: "List, set, or delete Edge Function secrets",
-    inputSchema: {
-      type: "object",
-      properties: {
-        action: { type: "string", enum: ["list", "set", "delete"] },
-        secrets: { type: "array" }
-      },
-      required: ["action"]
-    }
-  },
-  {
-    name: "manage_cron",
-    description: "List, create, update, delete scheduled cron jobs",
-    inputSchema: {
-      type: "object",
-      properties: {
-        action: { type: "string", enum: ["list", "get", "create", "update", "delete", "run_now", "history"] },
-        job_name: { type: "string" },
-        schedule: { type: "string" },
-        command: { type: "string" },
-        active: { type: "boolean" }
-      },
-      required: ["action"]
-    }
-  },
-  {
-    name: "manage_vault",
-    description: "Securely store and retrieve encrypted secrets per tenant/user",
-    inputSchema: {
-      type: "object",
-      properties: {
-        action: { type: "string", enum: ["list", "get", "create", "set", "update", "delete"] },
-        secret_name: { type: "string" },
-        secret_value: { type: "string" },
-        description: { type: "string" },
-        scope: { type: "string", enum: ["global", "tenant", "user"] }
-      },
-      required: ["action"]
-    }
-  },
-
-  // ===== RBAC & CONFIG TOOLS =====
-  {
-    name: "manage_rbac",
-    description: "Manage roles and permissions - list, create, update, delete roles; assign roles to users",
-    inputSchema: {
-      type: "object",
-      properties: {
-        action: { type: "string", enum: ["list_roles", "create_role", "update_role", "delete_role", "assign_role", "get_user_role", "check_permission"] },
-        role_name: { type: "string" },
-        permissions: { type: "array", items: { type: "string" } },
-        user_id: { type: "string" },
-        tenant_id: { type: "string" }
-      },
-      required: ["action"]
-    }
-  },
-  {
-    name: "manage_config",
-    description: "Manage feature flags and configuration settings globally or per-tenant",
-    inputSchema: {
-      type: "object",
-      properties: {
-        action: { type: "string", enum: ["get", "set", "delete", "list", "maintenance_mode"] },
-        key: { type: "string" },
-        value: { type: "any" },
-        scope: { type: "string", enum: ["global", "tenant"] },
-        tenant_id: { type: "string" },
-        enabled: { type: "boolean" }
-      },
-      required: ["action"]
-    }
-  },
-
-  // ===== BILLING TOOLS =====
-  {
-    name: "manage_billing",
-    description: "Manage subscriptions and one-time product purchases via Stripe",
-    inputSchema: {
-      type: "object",
-      properties: {
-        action: { type: "string", enum: [
-          "get_status", "change_plan", "cancel", "reactivate", "update_payment_method", "get_invoices",
-          "create_product", "update_product", "archive_product", "list_products",
-          "purchase_product", "get_purchases", "verify_purchase"
-        ]},
-        plan: { type: "string", enum: ["starter", "pro", "enterprise"] },
-        payment_method_id: { type: "string" },
-        product_id: { type: "string" },
-        name: { type: "string" },
-        description: { type: "string" },
-        price: { type: "number" },
-        currency: { type: "string" },
-        success_url: { type: "string" },
-        cancel_url: { type: "string" },
-        session_id: { type: "string" }
-      },
-      required: ["action"]
-    }
-  },
-
-  // ===== ANALYTICS TOOLS =====
-  {
-    name: "get_analytics",
-    description: "Get usage reports, activity logs, and metrics",
-    inputSchema: {
-      type: "object",
-      properties: {
-        report: { type: "string", enum: ["dashboard", "usage", "activity", "tenant_summary"] },
-        tenant_id: { type: "string" },
-        start_date: { type: "string" },
-        end_date: { type: "string" },
-        limit: { type: "number" }
-      },
-      required: ["report"]
-    }
-  },
-
-  // ===== TENANT & TEAM TOOLS =====
-  {
-    name: "provision_tenant",
-    description: "Create a new tenant/organization with optional Stripe customer",
-    inputSchema: {
-      type: "object",
-      properties: {
-        name: { type: "string" },
-        plan: { type: "string", enum: ["free", "starter", "pro", "enterprise"] },
-        owner_email: { type: "string" }
-      },
-      required: ["name"]
-    }
-  },
-  {
-    name: "invite_team_member",
-    description: "Send team invitation email to add users to a tenant",
-    inputSchema: {
-      type: "object",
-      properties: {
-        email: { type: "string" },
-        role: { type: "string", enum: ["admin", "member", "viewer"] },
-        message: { type: "string" }
-      },
-      required: ["email", "role"]
-    }
-  },
-
-  // ===== DOMAIN & SERVICES =====
-  {
-    name: "manage_domain",
-    description: "Add, verify, update, or delete custom email/web domains",
-    inputSchema: {
-      type: "object",
-      properties: {
-        action: { type: "string", enum: ["list", "add", "verify", "set_primary", "update_email", "delete"] },
-        domain: { type: "string" },
-        domain_id: { type: "string" },
-        email_from_name: { type: "string" },
-        email_from_address: { type: "string" }
-      },
-      required: ["action"]
-    }
-  },
-  {
-    name: "discover_services",
-    description: "List available microservices and their capabilities",
-    inputSchema: {
-      type: "object",
-      properties: {
-        category: { type: "string" },
-        enabled_only: { type: "boolean" }
-      }
-    }
-  },
-  {
-    name: "check_service_health",
-    description: "Check health status of services",
-    inputSchema: {
-      type: "object",
-      properties: {
-        service_id: { type: "string" }
-      }
-    }
-  },
-
-  // ===== SUB-SAAS BUILDER TOOLS =====
-  {
-    name: "create_sub_saas",
-    description: "Create a new sub-SaaS application for a tenant (B2B2C). Sets up isolated schema, auth, and optional Stripe Connect.",
-    inputSchema: {
-      type: "object",
-      properties: {
-        name: { type: "string", description: "Name of the sub-SaaS app" },
-        slug: { type: "string", description: "URL-friendly identifier" },
-        template: { type: "string", enum: ["blank", "crm", "booking", "ecommerce", "helpdesk", "membership"] },
-        enable_stripe_connect: { type: "boolean", description: "Enable payments for sub-SaaS users" },
-        custom_domain: { type: "string" }
-      },
-      required: ["name", "slug"]
-    }
-  },
-  {
-    name: "manage_sub_saas",
-    description: "Manage existing sub-SaaS applications - list, update settings, manage users, view metrics",
-    inputSchema: {
-      type: "object",
-      properties: {
-        action: { type: "string", enum: ["list", "get", "update", "delete", "list_users", "add_user", "remove_user", "get_metrics"] },
-        sub_saas_id: { type: "string" },
-        settings: { type: "object" },
-        user_email: { type: "string" },
-        user_role: { type: "string" }
-      },
-      required: ["action"]
-    }
-  },
-  {
-    name: "manage_stripe_connect",
-    description: "Manage Stripe Connect for sub-SaaS - onboard accounts, create payment links, view payouts",
-    inputSchema: {
-      type: "object",
-      properties: {
-        action: { type: "string", enum: ["create_account", "get_onboarding_link", "get_dashboard_link", "create_payment_link", "list_payments", "get_balance"] },
-        sub_saas_id: { type: "string" },
-        amount: { type: "number" },
-        currency: { type: "string" },
-        description: { type: "string" },
-        return_url: { type: "string" }
-      },
-      required: ["action", "sub_saas_id"]
-    }
-  }
-]
-
-// Map tool names to Edge Function endpoints
-const toolEndpoints: Record<string, string> = {
-  // Infrastructure
-  manage_database: "manage-database",
-  manage_functions: "manage-functions",
-  manage_secrets: "manage-secrets",
-  manage_cron: "manage-cron",
-  manage_vault: "manage-vault",
-  // RBAC & Config
-  manage_rbac: "manage-rbac",
-  manage_config: "manage-config",
-  // Billing
-  manage_billing: "manage-billing",
-  // Analytics
-  get_analytics: "get-analytics",
-  // Tenant & Team
-  provision_tenant: "provision-tenant",
-  invite_team_member: "invite-team-member",
-  // Domain & Services
-  manage_domain: "manage-domain",
-  discover_services: "discover-services",
-  check_service_health: "check-service-health",
-  // Sub-SaaS Builder
-  create_sub_saas: "create-sub-saas",
-  manage_sub_saas: "manage-sub-saas",
-  manage_stripe_connect: "manage-stripe-connect",
+// Tool definitions (functions/_shared/tools.ts). Callers without the admin key don't see admin tools.
+const tools = listMcpTools('http')
+const userTools = listMcpTools('http', { includeAdmin: false })
+
+// Session access tokens are refreshed when they expire within this margin
+const TOKEN_REFRESH_MARGIN_MS = 60 * 1000
+
+// Git forge for list_issues / search_code (FORGE_* secrets), created on first use
+let forge: ForgeProvider | null = null
+
+function getForge(): ForgeProvider {
+  forge ||= createForgeProvider(forgeConfigFromEnv(name => Deno.env.get(name)))
+  return forge
 }
 
-// Auth tools handled directly (not via Edge Functions)
-const authTools = [
-  "auth_sign_up",
-  "auth_sign_in", 
-  "auth_sign_out",
-  "auth_get_user",
-  "auth_refresh_token",
-  "auth_reset_password",
-  "auth_update_password",
-  "auth_sign_up_with_tenant"
-]
-
-// Admin-only tools
-const adminTools = [
-  "manage_database", 
-  "manage_functions", 
-  "manage_secrets", 
-  "manage_cron",
-  "manage_rbac",
-  "manage_config",
-  "get_analytics",
-  "create_sub_saas",
-  "manage_stripe_connect"
-]
+// Non-2xx reply from an Edge Function, passed back to the caller as-is
+class ToolCallError extends Error {
+  constructor(public status: number, public data: any) {
+    super(data?.error || `Tool call failed with status ${status}`)
+    this.name = 'ToolCallError'
+  }
+}
 
 // =====================================================
 // AUTH HANDLERS
@@ -736,8 +341,8 @@ async function handleAuthSignUpWithTenant(args: Record<string, unknown>) {
   }
 }
 
-// Route auth tool calls
-async function handleAuthTool(name: string, args: Record<string, unknown>) {
+// Route tools the server handles itself (no Edge Function)
+async function handleLocalTool(name: string, args: Record<string, unknown>, supabase: SupabaseClient) {
   switch (name) {
     case "auth_sign_up": return handleAuthSignUp(args)
     case "auth_sign_in": return handleAuthSignIn(args)
@@ -747,128 +352,302 @@ async function handleAuthTool(name: string, args: Record<string, unknown>) {
     case "auth_reset_password": return handleAuthResetPassword(args)
     case "auth_update_password": return handleAuthUpdatePassword(args)
     case "auth_sign_up_with_tenant": return handleAuthSignUpWithTenant(args)
-    default: throw new Error(`Unknown auth tool: ${name}`)
+    case "get_function_registry": return getFunctionRegistry(args, supabase)
+    case "list_issues":
+    case "search_code": return handleForgeTool(getForge(), name, args)
+    default: throw new Error(`Unknown tool: ${name}`)
   }
 }
 
 // =====================================================
-// MAIN SERVER
+// MCP SESSION SIGN-IN
+// auth_sign_in within an MCP session stores the tokens on
+// mcp_sessions; later calls without an Authorization header
+// run as that user.
 // =====================================================
 
-serve(async (req) => {
-  if (req.method === 'OPTIONS') {
-    return new Response('ok', { headers: corsHeaders })
+// Stores the tokens of an auth_* result on the session; null signs the session out
+async function saveSessionTokens(supabase: SupabaseClient, sessionId: string, tokens: Record<string, any> | null) {
+  const update = tokens ? {
+    access_token: tokens.access_token,
+    refresh_token: tokens.refresh_token,
+    token_expires_at: new Date(tokens.expires_at
+      ? tokens.expires_at * 1000
+      : Date.now() + (tokens.expires_in || 3600) * 1000).toISOString(),
+    ...(tokens.user?.id && { user_id: tokens.user.id })
+  } : { user_id: null, access_token: null, refresh_token: null, token_expires_at: null }
+
+  const { error } = await supabase.from('mcp_sessions').update(update).eq('id', sessionId)
+  if (error) throw new Error(`Could not save MCP session: ${error.message}`)
+}
+
+// The session user's access token, refreshed shortly before it expires.
+// A refresh token that no longer works signs the session out.
+async function getSessionAccessToken(supabase: SupabaseClient, session: McpSession): Promise<string | null> {
+  if (!session.refresh_token) return null
+
+  const expiresAt = session.token_expires_at ? Date.parse(session.token_expires_at) : 0
+  if (session.access_token && expiresAt - Date.now() > TOKEN_REFRESH_MARGIN_MS) return session.access_token
+
+  let tokens
+  try {
+    tokens = await handleAuthRefreshToken({ refresh_token: session.refresh_token })
+  } catch (error) {
+    console.error('MCP session token refresh failed:', error.message)
+    await saveSessionTokens(supabase, session.id, null)
+    return null
   }
 
+  await saveSessionTokens(supabase, session.id, tokens)
+  session.access_token = tokens.access_token
+  session.refresh_token = tokens.refresh_token
+  return tokens.access_token
+}
+
+// Fills a token argument of an auth_* tool from the session
+function withSessionToken(args: Record<string, unknown>, key: 'access_token' | 'refresh_token', token: string | null) {
+  if (args[key]) return args
+  if (!token) throw new Error(`${key} required: pass it or sign in first (auth_sign_in)`)
+  return { ...args, [key]: token }
+}
+
+// function_registry rows with the MCP tools that call each function
+async function getFunctionRegistry(args: Record<string, unknown>, supabase: SupabaseClient) {
+  let query = supabase.from('function_registry').select('*')
+  if (args.category) query = query.eq('category', args.category)
+  if (args.active_only) query = query.eq('is_active', true)
+
+  const { data, error } = await query.order('category').order('function_name')
+  if (error) throw new Error(error.message)
+
+  return describeFunctions(data || [])
+}
+
+// =====================================================
+// MAIN SERVER
+// =====================================================
+
+serve(createHandler(async ({ req, supabase, auth, rawBody, isAdmin: hasAdminHeader }) => {
   const url = new URL(req.url)
+  let isAdmin = hasAdminHeader
   
   // Get auth from header
   const adminKey = req.headers.get('X-Admin-Key')
   const authHeader = req.headers.get('Authorization')
+  const tenantHeader = req.headers.get('X-Tenant-Id')
+
+  // Run a tool locally or forward it to its Edge Function with the caller's credentials
+  // (the Authorization header, else the MCP session's access token)
+  const callTool = async (tool: ToolDefinition, args: Record<string, unknown>, accessToken: string | null = null) => {
+    if (!tool.endpoint) return handleLocalTool(tool.name, args, supabase)
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+    if (adminKey) headers['X-Admin-Key'] = adminKey
+    if (authHeader) headers['Authorization'] = authHeader
+    else if (accessToken) headers['Authorization'] = `Bearer ${accessToken}`
+    if (tenantHeader) headers['X-Tenant-Id'] = tenantHeader
+
+    const response = await fetch(`${SUPABASE_URL}/functions/v1/${tool.endpoint}`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(args)
+    })
 
-  // ===== MCP Protocol Endpoints =====
-  
-  // GET /mcp/info - Server info
+    const data = await response.json()
+    if (!response.ok) throw new ToolCallError(response.status, data)
+    return data
+  }
+
+  // Admin tools need the admin key; user tools a signed-in user (Edge Functions check their own auth)
+  const authError = (tool: ToolDefinition, signedIn = !!auth.user) => {
+    if (tool.auth === 'admin' && !isAdmin) {
+      return errorResponse('Admin key required for this tool', 401, 'ADMIN_KEY_REQUIRED')
+    }
+    if (tool.auth === 'user' && !tool.endpoint && !signedIn && !isAdmin) {
+      return errorResponse('Sign in required for this tool', 401, 'UNAUTHORIZED')
+    }
+    return null
+  }
+
+  const visibleTools = () => isAdmin ? tools : userTools
+
+  const unknownTool = (name: unknown) => jsonResponse({
+    error: `Unknown tool: ${name}`,
+    code: 'UNKNOWN_TOOL',
+    available: visibleTools().map(t => t.name)
+  }, 400)
+
+  // ===== MCP Streamable HTTP =====
+
+  // POST /mcp - JSON-RPC (initialize, tools/list, tools/call), DELETE /mcp - end session
+  if (url.pathname.endsWith('/mcp')) {
+    // The session user's token, unless the request brings its own Authorization header
+    const sessionToken = (session: McpSession) => authHeader ? Promise.resolve(null) : getSessionAccessToken(supabase, session)
+
+    // Tool calls made on the caller's behalf to read resources (one token lookup per request)
+    const resourceCaller = (session: McpSession) => {
+      const token = sessionToken(session)
+      return async (name: string, args: Record<string, unknown>) => {
+        const accessToken = await token
+        const tool = getTool(name)!
+        const denied = authError(tool, !!(auth.user || accessToken))
+        if (denied) throw new ToolCallError(denied.status, await denied.json())
+        return callTool(tool, args, accessToken)
+      }
+    }
+
+    // auth_* tools default to the session's tokens, and sign the session in or out
+    const callSessionTool = async (tool: ToolDefinition, args: Record<string, unknown>, session: McpSession, accessToken: string | null) => {
+      switch (tool.name) {
+        case 'auth_sign_in':
+        case 'auth_sign_up':
+        case 'auth_sign_up_with_tenant': {
+          const result: any = await callTool(tool, args)
+          if (result?.access_token && result?.refresh_token) await saveSessionTokens(supabase, session.id, result)
+          return result
+        }
+        case 'auth_sign_out': {
+          const signOutArgs = withSessionToken(args, 'access_token', accessToken)
+          const result = await callTool(tool, signOutArgs)
+          if (signOutArgs.access_token === session.access_token) await saveSessionTokens(supabase, session.id, null)
+          return result
+        }
+        case 'auth_refresh_token': {
+          const refreshArgs = withSessionToken(args, 'refresh_token', session.refresh_token)
+          const result = await callTool(tool, refreshArgs)
+          if (refreshArgs.refresh_token === session.refresh_token) await saveSessionTokens(supabase, session.id, result)
+          return result
+        }
+        case 'auth_get_user':
+        case 'auth_update_password':
+          return callTool(tool, withSessionToken(args, 'access_token', accessToken))
+        default:
+          return callTool(tool, args, accessToken)
+      }
+    }
+
+    const server: McpServerDefinition = {
+      name: SERVER_NAME,
+      version: SERVER_VERSION,
+      capabilities: {
+        tools: { listChanged: false },
+        resources: { listChanged: false },
+        prompts: { listChanged: false }
+      },
+      methods: {
+        'tools/list': async () => ({ tools: visibleTools() }),
+        'resources/list': async (_params, call) => ({ resources: await listResources(resourceCaller(call.session)) }),
+        'resources/templates/list': async () => ({ resourceTemplates: RESOURCE_TEMPLATES }),
+        'resources/read': async (params, call) => {
+          try {
+            return await readResource(resourceCaller(call.session), String(params.uri || ''))
+          } catch (error) {
+            if (error instanceof ResourceError) throw new McpError(error.rpcCode, error.message)
+            if (error instanceof ToolCallError) throw new McpError(INVALID_PARAMS, error.message, error.data)
+            throw error
+          }
+        },
+        'prompts/list': async () => ({ prompts: listPrompts() }),
+        'prompts/get': async (params) => {
+          try {
+            return getPrompt(String(params.name || ''), (params.arguments as Record<string, string>) || {})
+          } catch (error) {
+            if (error instanceof ResourceError) throw new McpError(error.rpcCode, error.message)
+            throw error
+          }
+        },
+        'tools/call': async (params, call) => {
+          const name = params.name
+          const tool = typeof name === 'string' ? getTool(name, 'http') : undefined
+          if (!tool) throw new McpError(INVALID_PARAMS, `Unknown tool: ${name}`)
+
+          // Tool failures are results the model can see, not protocol errors
+          const accessToken = await sessionToken(call.session)
+          const denied = authError(tool, !!(auth.user || accessToken))
+          if (denied) return toolResult(await denied.json(), true)
+
+          call.progress(0, 1, tool.endpoint ? `Calling ${tool.endpoint}` : `Running ${tool.name}`)
+          try {
+            const args = (params.arguments as Record<string, unknown>) || {}
+            const result = await callSessionTool(tool, args, call.session, accessToken)
+            call.progress(1, 1)
+            return toolResult(result)
+          } catch (error) {
+            if (error instanceof ToolCallError) return toolResult(error.data, true)
+            if (error instanceof ForgeError) return toolResult({ error: error.message, code: error.code }, true)
+            return toolResult({ error: error.message }, true)
+          }
+        }
+      }
+    }
+    return handleMcpRequest({ req, supabase, rawBody }, server)
+  }
+
+  // ===== Legacy REST endpoints =====
+
+  let body: any = {}
+  if (req.method === 'POST' && rawBody.trim()) {
+    try {
+      body = JSON.parse(rawBody)
+    } catch {
+      return errorResponse('Request body must be valid JSON', 400, 'INVALID_JSON')
+    }
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return errorResponse('Request body must be a JSON object', 400, 'INVALID_BODY')
+    }
+    // Legacy callers may send the admin key in the body
+    isAdmin ||= validateAdminKey(body.admin_key)
+  }
+
+  // GET /info - Server info
   if (req.method === 'GET' && url.pathname.endsWith('/info')) {
-    return new Response(JSON.stringify({
-      name: "supabase-saas-mcp",
-      version: "2.1.0",
+    return jsonResponse({
+      name: SERVER_NAME,
+      version: SERVER_VERSION,
       description: "MCP server for Supabase SaaS infrastructure with auth support",
       capabilities: {
         tools: true,
-        resources: false,
-        prompts: false
+        resources: true,
+        prompts: true
+      },
+      transport: {
+        type: "streamable-http",
+        endpoint: "/mcp",
+        protocolVersions: PROTOCOL_VERSIONS
       },
       toolCount: tools.length
-    }), {
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
     })
   }
 
   // GET /mcp/tools - List available tools
   if (req.method === 'GET' && url.pathname.endsWith('/tools')) {
-    return new Response(JSON.stringify({ tools }), {
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-    })
+    return jsonResponse({ tools: visibleTools() })
   }
 
   // POST /mcp/call - Call a tool
   if (req.method === 'POST' && url.pathname.endsWith('/call')) {
     try {
-      const { name, arguments: args } = await req.json()
-
-      // Check if it's an auth tool
-      if (authTools.includes(name)) {
-        const result = await handleAuthTool(name, args || {})
-        return new Response(JSON.stringify({
-          content: [{
-            type: "text",
-            text: JSON.stringify(result, null, 2)
-          }]
-        }), {
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-        })
-      }
+      const { name, arguments: args } = body
+      const tool = typeof name === 'string' ? getTool(name, 'http') : undefined
 
-      if (!name || !toolEndpoints[name]) {
-        return new Response(JSON.stringify({ 
-          error: `Unknown tool: ${name}`,
-          available: [...authTools, ...Object.keys(toolEndpoints)]
-        }), {
-          status: 400,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-        })
-      }
-
-      // Check admin auth for admin tools
-      if (adminTools.includes(name)) {
-        if (!adminKey || adminKey !== ADMIN_KEY) {
-          return new Response(JSON.stringify({ error: 'Admin key required for this tool' }), {
-            status: 401,
-            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-          })
-        }
-      }
+      if (!tool) return unknownTool(name)
 
-      // Call the actual Edge Function
-      const endpoint = toolEndpoints[name]
-      const functionUrl = `${SUPABASE_URL}/functions/v1/${endpoint}`
-      
-      const headers: Record<string, string> = {
-        'Content-Type': 'application/json',
-      }
-      
-      if (adminKey) headers['X-Admin-Key'] = adminKey
-      if (authHeader) headers['Authorization'] = authHeader
-
-      const response = await fetch(functionUrl, {
-        method: 'POST',
-        headers,
-        body: JSON.stringify(args || {})
-      })
+      const denied = authError(tool)
+      if (denied) return denied
 
-      const result = await response.json()
+      const result = await callTool(tool, args || {})
 
-      return new Response(JSON.stringify({
-        content: [{
-          type: "text",
-          text: JSON.stringify(result, null, 2)
-        }]
-      }), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return jsonResponse(toolResult(result))
 
     } catch (error) {
-      return new Response(JSON.stringify({
+      if (error instanceof ToolCallError) return jsonResponse(toolResult(error.data, true), error.status)
+      return jsonResponse({
         content: [{
           type: "text", 
           text: `Error: ${error.message}`
         }],
         isError: true
-      }), {
-        status: 500,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      }, 500)
     }
   }
 
@@ -877,113 +656,64 @@ serve(async (req) => {
   // POST / - Direct tool call (simpler format)
   if (req.method === 'POST') {
     try {
-      const body = await req.json()
-      
       // If it's a simple {tool, ...args} format
       if (body.tool) {
-        const { tool, ...args } = body
-
-        // Handle auth tools
-        if (authTools.includes(tool)) {
-          const result = await handleAuthTool(tool, args)
-          return new Response(JSON.stringify(result), {
-            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-          })
-        }
-        
-        if (!toolEndpoints[tool]) {
-          return new Response(JSON.stringify({ 
-            error: `Unknown tool: ${tool}`,
-            available: [...authTools, ...Object.keys(toolEndpoints)]
-          }), {
-            status: 400,
-            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-          })
-        }
+        const { tool: name, ...args } = body
+        const tool = getTool(name, 'http')
 
-        // Check admin auth
-        if (adminTools.includes(tool) && (!adminKey || adminKey !== ADMIN_KEY)) {
-          return new Response(JSON.stringify({ error: 'Admin key required' }), {
-            status: 401,
-            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-          })
-        }
+        if (!tool) return unknownTool(name)
 
-        const endpoint = toolEndpoints[tool]
-        const functionUrl = `${SUPABASE_URL}/functions/v1/${endpoint}`
-        
-        const headers: Record<string, string> = { 'Content-Type': 'application/json' }
-        if (adminKey) headers['X-Admin-Key'] = adminKey
-        if (authHeader) headers['Authorization'] = authHeader
-
-        const response = await fetch(functionUrl, {
-          method: 'POST',
-          headers,
-          body: JSON.stringify(args)
-        })
-
-        const result = await response.json()
-        return new Response(JSON.stringify(result), {
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-        })
+        const denied = authError(tool)
+        if (denied) return denied
+
+        const result = await callTool(tool, args)
+        return jsonResponse(result)
       }
 
       // Default: list tools
-      return new Response(JSON.stringify({ 
+      return jsonResponse({ 
         message: "MCP Server ready",
-        version: "2.1.0",
+        version: SERVER_VERSION,
         endpoints: {
+          "POST /mcp": "MCP Streamable HTTP (JSON-RPC)",
           "GET /info": "Server info",
           "GET /tools": "List tools",
           "POST /call": "Call tool (MCP format)",
           "POST /": "Call tool (simple format: {tool, ...args})"
         },
-        tools: [...authTools, ...Object.keys(toolEndpoints)],
-        categories: {
-          authentication: authTools,
-          infrastructure: ["manage_database", "manage_functions", "manage_secrets", "manage_cron", "manage_vault"],
-          rbac_config: ["manage_rbac", "manage_config"],
-          billing: ["manage_billing"],
-          analytics: ["get_analytics"],
-          tenant_team: ["provision_tenant", "invite_team_member"],
-          domains_services: ["manage_domain", "discover_services", "check_service_health"],
-          sub_saas_builder: ["create_sub_saas", "manage_sub_saas", "manage_stripe_connect"]
-        }
-      }), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        tools: visibleTools().map(t => t.name),
+        categories: getToolCategories('http')
       })
 
     } catch (error) {
-      return new Response(JSON.stringify({ error: error.message }), {
-        status: 500,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      if (error instanceof ToolCallError) return jsonResponse(error.data, error.status)
+      if (error instanceof ForgeError) return errorResponse(error.message, error.status, error.code)
+      return errorResponse(error.message, 500)
     }
   }
 
   // GET / - Welcome
-  return new Response(JSON.stringify({
-    name: "supabase-saas-mcp",
-    version: "2.1.0",
+  return jsonResponse({
+    name: SERVER_NAME,
+    version: SERVER_VERSION,
     description: "Build and manage SaaS applications via MCP (with auth support)",
     endpoints: {
+      "POST /mcp": "MCP Streamable HTTP (JSON-RPC: initialize, tools/list, tools/call)",
+      "DELETE /mcp": "End an MCP session",
       "GET /info": "Server info",
       "GET /tools": "List available tools", 
       "POST /call": "Call a tool (MCP format: {name, arguments})",
       "POST /": "Call a tool (simple format: {tool, action, ...args})"
     },
     toolCount: tools.length,
-    categories: {
-      authentication: authTools,
-      infrastructure: ["manage_database", "manage_functions", "manage_secrets", "manage_cron", "manage_vault"],
-      rbac_config: ["manage_rbac", "manage_config"],
-      billing: ["manage_billing"],
-      analytics: ["get_analytics"],
-      tenant_team: ["provision_tenant", "invite_team_member"],
-      domains_services: ["manage_domain", "discover_services", "check_service_health"],
-      sub_saas_builder: ["create_sub_saas", "manage_sub_saas", "manage_stripe_connect"]
-    }
-  }), {
-    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    categories: getToolCategories('http')
   })
-})
+}, { requireAuth: false, requireTenant: false, allowAdminKey: true, parseJson: false, rateLimit: 300, restrictUnpaid: false }))
+
+// MCP CallToolResult with the payload as pretty-printed JSON text
+function toolResult(data: unknown, isError = false) {
+  return {
+    content: [{ type: "text", text: JSON.stringify(data, null, 2) }],
+    ...(isError && { isError: true })
+  }
+}
@@ -2,21 +2,20 @@
 // Creates a new tenant with Stripe customer
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2"
 import Stripe from "https://esm.sh/stripe@14"
+import { createHandler } from "../_shared/middleware.ts"
+import { jsonResponse, errorResponse, validateSlug } from "../_shared/security.ts"
 
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-}
-
-serve(async (req) => {
-  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders })
-
-  const supabaseAdmin = createClient(
-    Deno.env.get('SUPABASE_URL')!,
-    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
-  )
+serve(createHandler(async ({ supabase: supabaseAdmin, auth, body }) => {
+  const user = auth.user!
+  const { tenant_name, slug } = body
+  
+  if (!tenant_name || !slug) {
+    return errorResponse('tenant_name and slug required', 400, 'MISSING_FIELDS')
+  }
+  if (!validateSlug(slug)) {
+    return errorResponse('slug must be 3-50 lowercase letters, numbers and dashes', 400, 'INVALID_SLUG')
+  }
   
   // Use test or live key based on environment
   const isTest = Deno.env.get('USE_TEST_STRIPE') === 'true'
@@ -25,19 +24,6 @@ serve(async (req) => {
     : Deno.env.get('STRIPE_LIVE_SECRET_KEY')!
   const stripe = new Stripe(stripeKey)
   
-  // Get user from JWT
-  const authHeader = req.headers.get('Authorization')!
-  const token = authHeader.replace('Bearer ', '')
-  const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(token)
-  
-  if (authError || !user) {
-    return new Response(JSON.stringify({ error: 'Unauthorized' }), { 
-      status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-    })
-  }
-
-  const { tenant_name, slug } = await req.json()
-  
   // 1. Create Stripe customer
   const stripeCustomer = await stripe.customers.create({
     email: user.email,
@@ -63,9 +49,7 @@ serve(async (req) => {
   if (tenantError) {
     // Rollback Stripe customer
     await stripe.customers.del(stripeCustomer.id)
-    return new Response(JSON.stringify({ error: tenantError.message }), {
-      status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-    })
+    return errorResponse(tenantError.message, 400, 'TENANT_CREATE_FAILED')
   }
   
   // 3. Link user as owner
@@ -76,10 +60,8 @@ serve(async (req) => {
     is_default: true
   })
   
-  return new Response(JSON.stringify({ 
+  return jsonResponse({ 
     tenant,
     stripe_customer_id: stripeCustomer.id 
-  }), {
-    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
   })
-})
+}, { requireTenant: false, rateLimit: 10 }))
@@ -2,12 +2,8 @@
 // Returns injectable HTML snippets for auth, Stripe, and Google Ads
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2"
-
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-}
+import { createHandler } from "../_shared/middleware.ts"
+import { jsonResponse, errorResponse } from "../_shared/security.ts"
 
 interface SetupRequest {
   page_id: string
@@ -23,38 +19,12 @@ interface SetupRequest {
   }
 }
 
-serve(async (req) => {
-  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders })
-  
-  const supabase = createClient(
-    Deno.env.get('SUPABASE_URL')!,
-    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
-  )
-  
-  const authHeader = req.headers.get('Authorization')!
-  const { data: { user } } = await supabase.auth.getUser(authHeader.replace('Bearer ', ''))
-  
-  if (!user) {
-    return new Response(JSON.stringify({ error: 'Unauthorized' }), { 
-      status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-    })
-  }
-  
-  const { page_id, environment, features, gads_config }: SetupRequest = await req.json()
-  
-  // Get tenant for this user
-  const { data: userTenant } = await supabase
-    .from('user_tenants')
-    .select('tenant_id')
-    .eq('user_id', user.id)
-    .single()
-  
-  const tenant_id = userTenant?.tenant_id
+serve(createHandler(async ({ supabase, auth, body }) => {
+  const { page_id, environment, features, gads_config }: SetupRequest = body
+  const tenant_id = auth.tenant!.id
   
-  if (!tenant_id) {
-    return new Response(JSON.stringify({ error: 'No tenant found' }), { 
-      status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-    })
+  if (!page_id || !['test', 'production'].includes(environment) || !features) {
+    return errorResponse('page_id, environment (test or production) and features required', 400, 'INVALID_REQUEST')
   }
   
   const isTest = environment === 'test'
@@ -164,10 +134,10 @@ ${features.stripe ? '<script src="https://js.stripe.com/v3/"></script>' : ''}
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'Authorization': 'Bearer ' + (await supabase.auth.getSession()).data.session?.access_token
+          'Authorization': 'Bearer ' + (await supabase.auth.getSession()).data.session?.access_token,
+          'X-Tenant-Id': window.__SAAS_CONFIG__.tenantId
         },
         body: JSON.stringify({
-          tenant_id: window.__SAAS_CONFIG__.tenantId,
           price_id: priceId,
           mode: mode,
           success_url: window.location.href + '?checkout=success',
@@ -183,9 +153,10 @@ ${features.stripe ? '<script src="https://js.stripe.com/v3/"></script>' : ''}
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'Authorization': 'Bearer ' + (await supabase.auth.getSession()).data.session?.access_token
+          'Authorization': 'Bearer ' + (await supabase.auth.getSession()).data.session?.access_token,
+          'X-Tenant-Id': window.__SAAS_CONFIG__.tenantId
         },
-        body: JSON.stringify({ tenant_id: window.__SAAS_CONFIG__.tenantId })
+        body: JSON.stringify({})
       });
       const { url } = await response.json();
       window.location.href = url;
@@ -266,7 +237,7 @@ ${features.stripe ? '<script src="https://js.stripe.com/v3/"></script>' : ''}
       .eq('tenant_id', tenant_id)
   }
 
-  return new Response(JSON.stringify({
+  return jsonResponse({
     environment,
     tenant_id,
     page_id,
@@ -277,7 +248,5 @@ ${features.stripe ? '<script src="https://js.stripe.com/v3/"></script>' : ''}
       stripe: features.stripe ? "Add snippets.stripe_init after auth, use data-price-id on buttons" : null,
       gads: features.gads_matching ? "Add snippets.gads_init before </body>, use data-gads attributes on elements" : null,
     }
-  }), {
-    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
   })
-})
+}, { allowApiKey: true, requiredScopes: ['pages:read'] }))
@@ -1,95 +1,60 @@
 // supabase/functions/stripe-webhook/index.ts
-// Handles Stripe webhook events to update tenant plans
+// Handles Stripe webhook events: tenant subscriptions, one-time purchases
+// and Connect accounts
+// Events are recorded in stripe_events first (see _shared/stripe-events.ts),
+// so retries and out-of-order deliveries are applied at most once, in order.
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2"
 import Stripe from "https://esm.sh/stripe@14"
+import { createHandler } from "../_shared/middleware.ts"
+import { jsonResponse, errorResponse } from "../_shared/security.ts"
+import { recordStripeEvent, processStripeEvent } from "../_shared/stripe-events.ts"
 
-serve(async (req) => {
+serve(createHandler(async ({ req, supabase: supabaseAdmin, rawBody: body }) => {
   const stripe = new Stripe(Deno.env.get('STRIPE_SECRET_KEY')!)
-  const supabaseAdmin = createClient(
-    Deno.env.get('SUPABASE_URL')!,
-    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
-  )
-  
-  const signature = req.headers.get('stripe-signature')!
-  const body = await req.text()
-  
-  let event: Stripe.Event
-  
-  try {
-    event = stripe.webhooks.constructEvent(
-      body,
-      signature,
-      Deno.env.get('STRIPE_WEBHOOK_SECRET')!
-    )
-  } catch (err) {
-    console.error('Webhook signature verification failed:', err.message)
-    return new Response(JSON.stringify({ error: 'Invalid signature' }), { status: 400 })
+
+  const signature = req.headers.get('stripe-signature')
+  if (!signature) {
+    return errorResponse('Missing stripe-signature header', 400, 'MISSING_SIGNATURE')
   }
-  
-  console.log('Received event:', event.type)
-  
-  // Handle subscription events
-  if (event.type === 'customer.subscription.updated' || 
-      event.type === 'customer.subscription.created') {
-    const subscription = event.data.object as Stripe.Subscription
-    
-    // Get the price to determine plan tier
-    const priceId = subscription.items.data[0]?.price.id
-    
-    // You can map price IDs to plan tiers
-    // Or use product metadata
-    let plan = 'starter'
-    
-    if (subscription.status === 'active') {
-      // Fetch product to get plan tier from metadata
-      const price = await stripe.prices.retrieve(priceId)
-      const product = await stripe.products.retrieve(price.product as string)
-      plan = (product.metadata?.plan_tier as string) || 'starter'
-    }
-    
-    // Update tenant plan
-    const { error } = await supabaseAdmin
-      .from('tenants')
-      .update({ plan, updated_at: new Date().toISOString() })
-      .eq('stripe_customer_id', subscription.customer)
-    
-    if (error) {
-      console.error('Failed to update tenant plan:', error)
-    } else {
-      console.log(`Updated tenant plan to ${plan} for customer ${subscription.customer}`)
+
+  // Platform endpoint, plus the Connect endpoint (account events) if it has its own secret
+  const secrets = [Deno.env.get('STRIPE_WEBHOOK_SECRET'), Deno.env.get('STRIPE_CONNECT_WEBHOOK_SECRET')]
+    .filter((secret): secret is string => !!secret)
+
+  let event: Stripe.Event | null = null
+  let verifyError = ''
+
+  for (const secret of secrets) {
+    try {
+      event = stripe.webhooks.constructEvent(body, signature, secret)
+      break
+    } catch (err) {
+      verifyError = err.message
     }
   }
-  
-  if (event.type === 'customer.subscription.deleted') {
-    const subscription = event.data.object as Stripe.Subscription
-    
-    // Downgrade to free
-    await supabaseAdmin
-      .from('tenants')
-      .update({ plan: 'free', updated_at: new Date().toISOString() })
-      .eq('stripe_customer_id', subscription.customer)
-    
-    console.log(`Downgraded tenant to free for customer ${subscription.customer}`)
+
+  if (!event) {
+    console.error('Webhook signature verification failed:', verifyError)
+    return errorResponse('Invalid signature', 400, 'INVALID_SIGNATURE')
+  }
+
+  console.log('Received event:', event.type, event.id)
+
+  try {
+    await recordStripeEvent(supabaseAdmin, event)
+  } catch (err) {
+    // Not recorded: let Stripe retry
+    console.error(err.message)
+    return errorResponse('Could not record event', 500, 'EVENT_NOT_RECORDED')
   }
-  
-  if (event.type === 'invoice.payment_failed') {
-    const invoice = event.data.object as Stripe.Invoice
-    
-    // You could send a notification, update a status, etc.
-    console.log(`Payment failed for customer ${invoice.customer}`)
-    
-    // Optional: Update tenant with payment_failed status
-    await supabaseAdmin
-      .from('tenants')
-      .update({ 
-        settings: { payment_failed: true, failed_at: new Date().toISOString() }
-      })
-      .eq('stripe_customer_id', invoice.customer)
+
+  const result = await processStripeEvent(supabaseAdmin, event.id)
+
+  // Failed events are retried by Stripe; dead-lettered ones wait for a replay
+  if (result.status === 'failed') {
+    return errorResponse(`Event processing failed: ${result.error}`, 500, 'EVENT_FAILED')
   }
-  
-  return new Response(JSON.stringify({ received: true }), {
-    headers: { 'Content-Type': 'application/json' }
-  })
-})
+
+  return jsonResponse({ received: true, status: result.status, skip_reason: result.skip_reason })
+}, { requireAuth: false, parseJson: false, rateLimit: 1000 }))
@@ -1,74 +1,80 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2"
+import { createHandler } from "../_shared/middleware.ts"
+import { jsonResponse, errorResponse } from "../_shared/security.ts"
+import { checkPlanLimit, recordUsage, commitUsage, releaseUsage } from "../_shared/plans.ts"
+import { checkUsageAlerts } from "../_shared/usage-alerts.ts"
 
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-}
-
-serve(async (req) => {
-  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders })
-  
-  const supabase = createClient(
-    Deno.env.get('SUPABASE_URL')!,
-    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
-  )
+serve(createHandler(async ({ supabase, auth, body, isAdmin }) => {
+  const { metadata = {}, reservation_id, release = false, enforce_limit = false, tenant_id: bodyTenantId } = body
+  let { feature, quantity } = body
   
-  let tenant_id: string | null = null
-  let user_id: string | null = null
-  
-  const authHeader = req.headers.get('Authorization')
-  if (authHeader?.startsWith('Bearer ')) {
-    const { data: { user } } = await supabase.auth.getUser(authHeader.replace('Bearer ', ''))
-    if (user) {
-      user_id = user.id
-      const { data: userTenant } = await supabase
-        .from('user_tenants')
-        .select('tenant_id')
-        .eq('user_id', user.id)
-        .eq('is_default', true)
-        .single()
-      tenant_id = userTenant?.tenant_id
-    }
-  }
-  
-  const { feature, quantity = 1, metadata = {}, tenant_id: bodyTenantId } = await req.json()
-  if (bodyTenantId) tenant_id = bodyTenantId
+  // Admin callers may record usage for any tenant
+  const tenant_id = isAdmin && bodyTenantId ? bodyTenantId : auth.tenant?.id
+  const user_id = auth.user && auth.role !== 'api' ? auth.user.id : null
   
   if (!tenant_id) {
-    return new Response(JSON.stringify({ error: 'No tenant found' }), {
-      status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-    })
+    return errorResponse('No tenant found', 400, 'NO_TENANT')
+  }
+  if (!feature && !reservation_id) {
+    return errorResponse('feature or reservation_id required', 400, 'MISSING_FEATURE')
+  }
+  if (quantity !== undefined && (!Number.isInteger(quantity) || quantity <= 0)) {
+    return errorResponse('quantity must be a positive integer', 400, 'INVALID_QUANTITY')
   }
   
-  // Record event
-  await supabase.from('usage_events').insert({ tenant_id, user_id, feature, quantity, metadata })
-  
-  // Update aggregated record
   const now = new Date()
-  const periodStart = new Date(now.getFullYear(), now.getMonth(), 1)
-  const periodEnd = new Date(now.getFullYear(), now.getMonth() + 1, 0, 23, 59, 59)
+  let overage = 0  // Units above the soft limit, billed as overage
   
-  const { data: existing } = await supabase
-    .from('usage_records')
-    .select('id, value')
-    .eq('tenant_id', tenant_id)
-    .eq('feature', feature)
-    .gte('period_start', periodStart.toISOString())
-    .lte('period_end', periodEnd.toISOString())
-    .single()
+  let plan = auth.tenant?.plan || 'free'
+  if (tenant_id !== auth.tenant?.id) {
+    const { data: tenant } = await supabase.from('tenants').select('plan').eq('id', tenant_id).single()
+    plan = tenant?.plan || 'free'
+  }
   
-  if (existing) {
-    await supabase.from('usage_records').update({ value: existing.value + quantity, updated_at: now.toISOString() }).eq('id', existing.id)
+  // Settle a reservation from check-usage-limits (reserve: true)
+  if (reservation_id) {
+    if (release) {
+      const result = await releaseUsage(supabase, tenant_id, reservation_id)
+      if (!result.released) {
+        return errorResponse(`Reservation is ${result.status}`, result.status === 'not_found' ? 404 : 409, 'RESERVATION_NOT_PENDING')
+      }
+      return jsonResponse({ success: true, released: true, reservation_id, feature: result.feature })
+    }
+    
+    const result = await commitUsage(supabase, tenant_id, reservation_id, { quantity, userId: user_id, metadata })
+    if (!result.committed) {
+      return errorResponse(`Reservation is ${result.status}`, result.status === 'not_found' ? 404 : 409, 'RESERVATION_NOT_PENDING')
+    }
+    feature = result.feature
+    quantity = result.quantity
+    overage = result.overage || 0
   } else {
-    await supabase.from('usage_records').insert({
-      tenant_id, feature, value: quantity,
-      period_start: periodStart.toISOString(),
-      period_end: periodEnd.toISOString()
-    })
+    quantity = quantity ?? 1
+    
+    if (enforce_limit) {
+      // Check and record in one transaction; nothing is recorded over the limit
+      // (or over the hard ceiling of a soft limit)
+      const limit = await checkPlanLimit(supabase, {
+        tenantId: tenant_id, plan, feature, quantity, mode: 'consume', userId: user_id, metadata
+      })
+      if (!limit.allowed) {
+        await checkUsageAlerts(supabase, tenant_id, limit)
+        return jsonResponse({ error: 'Usage limit reached', code: 'LIMIT_REACHED', ...limit }, 403)
+      }
+      overage = limit.overage
+    } else {
+      // Event, usage record, rollups and overage in one transaction
+      const recorded = await recordUsage(supabase, { tenantId: tenant_id, feature, quantity, userId: user_id, metadata })
+      overage = recorded.overage
+    }
   }
   
-  return new Response(JSON.stringify({ success: true, feature, quantity, recorded_at: now.toISOString() }), {
-    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  // Thresholds crossed by this usage
+  const usage = await checkPlanLimit(supabase, { tenantId: tenant_id, plan, feature, quantity: 0 })
+  const alerts = await checkUsageAlerts(supabase, tenant_id, usage)
+  
+  return jsonResponse({
+    success: true, feature, quantity, overage, recorded_at: now.toISOString(),
+    ...(alerts.length && { alerts_fired: alerts })
   })
-})
+}, { allowApiKey: true, allowAdminKey: true, requiredScopes: ['usage:write'], restrictUnpaid: false }))
@@ -2,12 +2,9 @@
 // Admin function to add, update, or deprecate services
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2"
-
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-}
+import { createHandler } from "../_shared/middleware.ts"
+import { jsonResponse, errorResponse } from "../_shared/security.ts"
+import { UPDATE_SERVICE_CATALOG_SCHEMAS } from "../_shared/schemas.ts"
 
 interface ServiceDefinition {
   id: string
@@ -27,25 +24,11 @@ interface UpdateRequest {
   action: 'add' | 'update' | 'deprecate' | 'enable' | 'disable' | 'remove'
   service?: ServiceDefinition
   service_id?: string
-  admin_key?: string  // Simple admin verification
+  admin_key?: string  // Accepted in place of the X-Admin-Key header
 }
 
-serve(async (req) => {
-  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders })
-  
-  const supabase = createClient(
-    Deno.env.get('SUPABASE_URL')!,
-    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
-  )
-  
-  const { action, service, service_id, admin_key }: UpdateRequest = await req.json()
-  
-  // Simple admin verification (in production, use proper auth)
-  if (admin_key !== Deno.env.get('ADMIN_KEY')) {
-    return new Response(JSON.stringify({ error: 'Invalid admin key' }), {
-      status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-    })
-  }
+serve(createHandler(async ({ supabase, body }) => {
+  const { action, service, service_id }: UpdateRequest = body
   
   let result: unknown
   let changelogEntry: { change_type: string; title: string; description?: string } | null = null
@@ -53,9 +36,7 @@ serve(async (req) => {
   switch (action) {
     case 'add':
       if (!service) {
-        return new Response(JSON.stringify({ error: 'Service definition required' }), {
-          status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-        })
+        return errorResponse('Service definition required', 400)
       }
       
       // Insert service
@@ -77,9 +58,7 @@ serve(async (req) => {
         .single()
       
       if (insertError) {
-        return new Response(JSON.stringify({ error: insertError.message }), {
-          status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-        })
+        return errorResponse(insertError.message, 500)
       }
       
       // Add dependencies if provided
@@ -110,9 +89,7 @@ serve(async (req) => {
     
     case 'update':
       if (!service) {
-        return new Response(JSON.stringify({ error: 'Service definition required' }), {
-          status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-        })
+        return errorResponse('Service definition required', 400)
       }
       
       const { data: updated, error: updateError } = await supabase
@@ -133,9 +110,7 @@ serve(async (req) => {
         .single()
       
       if (updateError) {
-        return new Response(JSON.stringify({ error: updateError.message }), {
-          status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-        })
+        return errorResponse(updateError.message, 500)
       }
       
       result = updated
@@ -195,9 +170,7 @@ serve(async (req) => {
       break
     
     default:
-      return new Response(JSON.stringify({ error: 'Invalid action' }), {
-        status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      })
+      return errorResponse('Invalid action', 400)
   }
   
   // Log to changelog
@@ -208,11 +181,9 @@ serve(async (req) => {
     })
   }
   
-  return new Response(JSON.stringify({
+  return jsonResponse({
     success: true,
     action,
     result
-  }), {
-    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
   })
-})
+}, { requireAdmin: true, actions: UPDATE_SERVICE_CATALOG_SCHEMAS }))
@@ -1,41 +1,15 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2"
-import { encode as hexEncode } from "https://deno.land/std@0.168.0/encoding/hex.ts"
+import { createHandler } from "../_shared/middleware.ts"
+import { jsonResponse, hashString, isIpAllowed } from "../_shared/security.ts"
 
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-api-key',
-}
-
-async function hashKey(key: string): Promise<string> {
-  const encoder = new TextEncoder()
-  const data = encoder.encode(key)
-  const hashBuffer = await crypto.subtle.digest('SHA-256', data)
-  return new TextDecoder().decode(hexEncode(new Uint8Array(hashBuffer)))
-}
-
-serve(async (req) => {
-  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders })
-  
-  const supabase = createClient(
-    Deno.env.get('SUPABASE_URL')!,
-    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
-  )
-  
-  let apiKey = req.headers.get('X-API-Key')
-  
-  if (!apiKey && req.method === 'POST') {
-    const body = await req.json()
-    apiKey = body.api_key
-  }
+serve(createHandler(async ({ req, supabase, body, clientIp }) => {
+  const apiKey = req.headers.get('X-API-Key') || body.api_key
   
   if (!apiKey) {
-    return new Response(JSON.stringify({ valid: false, error: 'No API key provided' }), {
-      status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-    })
+    return jsonResponse({ valid: false, error: 'No API key provided', code: 'MISSING_API_KEY' }, 401)
   }
   
-  const keyHash = await hashKey(apiKey)
+  const keyHash = await hashString(apiKey)
   
   const { data: keyRecord, error } = await supabase
     .from('api_keys')
@@ -45,18 +19,16 @@ serve(async (req) => {
     .single()
   
   if (error || !keyRecord) {
-    return new Response(JSON.stringify({ valid: false, error: 'Invalid API key' }), {
-      status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-    })
+    return jsonResponse({ valid: false, error: 'Invalid API key', code: 'INVALID_API_KEY' }, 401)
   }
   
   if (keyRecord.expires_at && new Date(keyRecord.expires_at) < new Date()) {
-    return new Response(JSON.stringify({ valid: false, error: 'API key has expired' }), {
-      status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-    })
+    return jsonResponse({ valid: false, error: 'API key has expired', code: 'API_KEY_EXPIRED' }, 401)
   }
   
-  const clientIp = req.headers.get('CF-Connecting-IP') || req.headers.get('X-Forwarded-For')?.split(',')[0] || 'unknown'
+  if (!isIpAllowed(clientIp, keyRecord.ip_allowlist || [])) {
+    return jsonResponse({ valid: false, error: 'API key not allowed from this IP', code: 'IP_NOT_ALLOWED' }, 403)
+  }
   
   await supabase.from('api_keys').update({ last_used_at: new Date().toISOString(), last_used_ip: clientIp }).eq('id', keyRecord.id)
   
@@ -67,8 +39,8 @@ serve(async (req) => {
     ip_address: clientIp, user_agent: req.headers.get('User-Agent')
   })
   
-  return new Response(JSON.stringify({
+  return jsonResponse({
     valid: true, key_id: keyRecord.id, key_name: keyRecord.name, scopes: keyRecord.scopes,
     tenant: { id: keyRecord.tenants.id, name: keyRecord.tenants.name, slug: keyRecord.tenants.slug, plan: keyRecord.tenants.plan }
-  }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } })
-})
+  })
+}, { requireAuth: false }))
@@ -0,0 +1,85 @@
+// Fails when an Edge Function action has no schema or no MCP tool.
+// Scans functions/*/index.ts for the actions each function handles and
+// compares them with the shared schemas and tool registry.
+// Run after sync-schemas: npm run check-tools
+
+import { existsSync, readdirSync, readFileSync } from "node:fs";
+import { dirname, resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+import { FUNCTION_SCHEMAS } from "../src/schemas.js";
+import { TOOLS } from "../src/tools.js";
+
+const functionsDir = resolve(dirname(fileURLToPath(import.meta.url)), "../../functions");
+const IGNORED = new Set(["_shared", "mcp-server"]);
+
+// `action === 'x'` comparisons and `case 'x':` inside `switch (action)`
+function findActions(source: string): string[] {
+  const actions = new Set<string>();
+
+  for (const match of source.matchAll(/\baction === '([a-z_]+)'/g)) {
+    actions.add(match[1]);
+  }
+
+  for (const match of source.matchAll(/switch \(action\) \{/g)) {
+    let depth = 0;
+    let end = match.index! + match[0].length - 1;
+    for (; end < source.length; end++) {
+      if (source[end] === "{") depth++;
+      if (source[end] === "}" && --depth === 0) break;
+    }
+    const block = source.slice(match.index!, end);
+    for (const c of block.matchAll(/case '([a-z_]+)':/g)) actions.add(c[1]);
+  }
+
+  return [...actions];
+}
+
+const errors: string[] = [];
+const functionNames = readdirSync(functionsDir, { withFileTypes: true })
+  .filter(entry => entry.isDirectory() && !IGNORED.has(entry.name))
+  .map(entry => entry.name)
+  .filter(name => existsSync(resolve(functionsDir, name, "index.ts")));
+
+for (const name of functionNames) {
+  const source = readFileSync(resolve(functionsDir, name, "index.ts"), "utf8");
+  const handled = findActions(source);
+  const schemas = FUNCTION_SCHEMAS[name];
+
+  if (!schemas) {
+    if (handled.length > 0) {
+      errors.push(`${name}: handles actions (${handled.join(", ")}) but has no entry in FUNCTION_SCHEMAS`);
+    }
+    continue;
+  }
+
+  for (const action of handled) {
+    if (!schemas[action]) errors.push(`${name}: action '${action}' has no schema`);
+  }
+
+  if (!/\bactions: [A-Z_]+_SCHEMAS\b/.test(source)) {
+    errors.push(`${name}: has schemas but createHandler is not given \`actions\``);
+  }
+
+  if (!TOOLS.some(tool => tool.endpoint === name && tool.actions === schemas)) {
+    errors.push(`${name}: no MCP tool in TOOLS uses its action schemas`);
+  }
+}
+
+for (const tool of TOOLS) {
+  if (tool.endpoint && !functionNames.includes(tool.endpoint)) {
+    errors.push(`${tool.name}: endpoint '${tool.endpoint}' is not an Edge Function`);
+  }
+  if (tool.actions && tool.inputSchema) {
+    errors.push(`${tool.name}: set either actions or inputSchema, not both`);
+  }
+}
+
+const duplicates = TOOLS.map(t => t.name).filter((name, i, names) => names.indexOf(name) !== i);
+for (const name of new Set(duplicates)) errors.push(`${name}: defined more than once`);
+
+if (errors.length > 0) {
+  console.error(`Tool registry check failed:\n${errors.map(e => `  - ${e}`).join("\n")}`);
+  process.exit(1);
+}
+
+console.log(`Tool registry OK: ${TOOLS.length} tools, ${functionNames.length} Edge Functions`);
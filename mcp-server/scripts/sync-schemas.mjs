@@ -0,0 +1,27 @@
+// Copies the modules shared with the Edge Functions
+// (functions/_shared/: action schemas, tool registry, Git forge
+// client, resources and prompts) into src/ so both MCP servers
+// behave the same.
+// Runs before every build; commit the result.
+
+import { readFileSync, writeFileSync } from "node:fs";
+import { dirname, resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+
+const root = resolve(dirname(fileURLToPath(import.meta.url)), "..");
+const SHARED_FILES = ["schemas.ts", "tools.ts", "forge.ts", "resources.ts"];
+
+for (const file of SHARED_FILES) {
+  const source = resolve(root, "../functions/_shared", file);
+  const target = resolve(root, "src", file);
+
+  const header =
+    `// GENERATED by scripts/sync-schemas.mjs from functions/_shared/${file}.\n` +
+    "// Do not edit here; change the source and run `npm run sync-schemas`.\n\n";
+
+  // Deno imports use .ts, NodeNext resolution wants .js
+  const code = readFileSync(source, "utf8").replace(/(from '\.\/[\w-]+)\.ts'/g, "$1.js'");
+
+  writeFileSync(target, header + code);
+  console.log(`Synced ${target}`);
+}
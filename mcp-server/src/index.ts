@@ -4,463 +4,98 @@ import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import {
   CallToolRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
+  McpError,
+  ReadResourceRequestSchema,
   Tool,
 } from "@modelcontextprotocol/sdk/types.js";
+import { getTool, listMcpTools, describeFunctions } from "./tools.js";
+import { createForgeProvider, forgeConfigFromEnv, handleForgeTool, ForgeProvider } from "./forge.js";
+import {
+  RESOURCE_TEMPLATES,
+  ResourceError,
+  getPrompt,
+  listPrompts,
+  listResources,
+  readResource,
+} from "./resources.js";
+import { StoredSession, SessionTokens, loadSession, saveSession, sessionFilePath, toStoredSession } from "./session.js";
 
 // Configuration from environment
 const SUPABASE_URL = process.env.SUPABASE_URL!;
 const SUPABASE_ANON_KEY = process.env.SUPABASE_ANON_KEY!;
 const SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY!;
-const ADMIN_KEY = process.env.ADMIN_KEY!;
-const USER_TOKEN = process.env.SUPABASE_USER_TOKEN; // Optional: for user-scoped operations
+const ADMIN_KEY = process.env.ADMIN_KEY; // Optional: admin tools are hidden without it
+const USER_TOKEN = process.env.SUPABASE_USER_TOKEN; // Optional: used when nobody has signed in
 const SITE_URL = process.env.SITE_URL || "http://localhost:3000";
+const TENANT_HEADER = "X-Tenant-Id";
+
+// Active tenant for this session (set via switch_tenant), sent as X-Tenant-Id
+let currentTenantId: string | null = process.env.SUPABASE_TENANT_ID || null;
 
 // =====================================================
 // TOOL DEFINITIONS
 // =====================================================
 
-const tools: Tool[] = [
-  // ===== AUTHENTICATION =====
-  {
-    name: "auth_sign_up",
-    description: "Create a new user account",
-    inputSchema: {
-      type: "object",
-      properties: {
-        email: { type: "string", description: "User email address" },
-        password: { type: "string", description: "User password (min 6 chars)" },
-        metadata: { type: "object", description: "Optional user metadata (name, etc.)" }
-      },
-      required: ["email", "password"]
-    }
-  },
-  {
-    name: "auth_sign_in",
-    description: "Sign in and get session tokens",
-    inputSchema: {
-      type: "object",
-      properties: {
-        email: { type: "string", description: "User email address" },
-        password: { type: "string", description: "User password" }
-      },
-      required: ["email", "password"]
-    }
-  },
-  {
-    name: "auth_sign_out",
-    description: "Sign out and invalidate session",
-    inputSchema: {
-      type: "object",
-      properties: {
-        access_token: { type: "string", description: "Current access token to invalidate" }
-      },
-      required: ["access_token"]
-    }
-  },
-  {
-    name: "auth_get_user",
-    description: "Get current user details from access token",
-    inputSchema: {
-      type: "object",
-      properties: {
-        access_token: { type: "string", description: "User's access token" }
-      },
-      required: ["access_token"]
-    }
-  },
-  {
-    name: "auth_refresh_token",
-    description: "Refresh an expired access token",
-    inputSchema: {
-      type: "object",
-      properties: {
-        refresh_token: { type: "string", description: "Refresh token from sign-in" }
-      },
-      required: ["refresh_token"]
-    }
-  },
-  {
-    name: "auth_reset_password",
-    description: "Send password reset email",
-    inputSchema: {
-      type: "object",
-      properties: {
-        email: { type: "string", description: "Email address to send reset link" }
-      },
-      required: ["email"]
-    }
-  },
-  {
-    name: "auth_update_password",
-    description: "Update user password (requires valid session)",
-    inputSchema: {
-      type: "object",
-      properties: {
-        access_token: { type: "string", description: "User's access token" },
-        new_password: { type: "string", description: "New password (min 6 chars)" }
-      },
-      required: ["access_token", "new_password"]
-    }
-  },
-  {
-    name: "auth_sign_up_with_tenant",
-    description: "Create user account AND provision tenant in one call (complete onboarding)",
-    inputSchema: {
-      type: "object",
-      properties: {
-        email: { type: "string", description: "User email address" },
-        password: { type: "string", description: "User password (min 6 chars)" },
-        tenant_name: { type: "string", description: "Organization/company name" },
-        tenant_slug: { type: "string", description: "URL-friendly slug (optional, auto-generated from name)" },
-        user_metadata: { type: "object", description: "Optional user metadata" }
-      },
-      required: ["email", "password", "tenant_name"]
-    }
-  },
-
-  // ===== TENANT & TEAM =====
-  {
-    name: "provision_tenant",
-    description: "Create a new tenant/organization with Stripe customer",
-    inputSchema: {
-      type: "object",
-      properties: {
-        name: { type: "string", description: "Tenant/organization name" },
-        plan: { type: "string", enum: ["free", "starter", "pro", "enterprise"], description: "Initial plan" }
-      },
-      required: ["name"]
-    }
-  },
-  {
-    name: "invite_team_member",
-    description: "Send an email invitation to join a tenant",
-    inputSchema: {
-      type: "object",
-      properties: {
-        email: { type: "string", description: "Email address to invite" },
-        role: { type: "string", enum: ["admin", "member", "viewer"], description: "Role to assign" },
-        message: { type: "string", description: "Optional personal message" }
-      },
-      required: ["email", "role"]
-    }
-  },
-  {
-    name: "accept_invite",
-    description: "Accept a team invitation using the invite token",
-    inputSchema: {
-      type: "object",
-      properties: {
-        token: { type: "string", description: "Invite token from the invitation URL" }
-      },
-      required: ["token"]
-    }
-  },
+// Generated from the shared registry (src/tools.ts, synced from functions/_shared/tools.ts)
+const tools: Tool[] = listMcpTools("stdio", { includeAdmin: !!ADMIN_KEY });
 
-  // ===== DOMAIN & EMAIL =====
-  {
-    name: "manage_domain",
-    description: "Add, verify, update, or delete custom domains for email sending",
-    inputSchema: {
-      type: "object",
-      properties: {
-        action: { type: "string", enum: ["list", "add", "verify", "set_primary", "update_email", "delete"] },
-        domain: { type: "string", description: "Domain name (for add)" },
-        domain_id: { type: "string", description: "Domain UUID (for verify/update/delete)" },
-        email_from_name: { type: "string", description: "Sender name (for update_email)" },
-        email_from_address: { type: "string", description: "Sender address prefix (for update_email)" }
-      },
-      required: ["action"]
-    }
-  },
+// =====================================================
+// SESSION (signed-in user, persisted in MCP_SESSION_FILE)
+// =====================================================
 
-  // ===== BILLING =====
-  {
-    name: "create_checkout",
-    description: "Create a Stripe checkout session for subscription",
-    inputSchema: {
-      type: "object",
-      properties: {
-        price_id: { type: "string", description: "Stripe price ID" },
-        success_url: { type: "string", description: "URL to redirect after success" },
-        cancel_url: { type: "string", description: "URL to redirect after cancel" }
-      },
-      required: ["price_id"]
-    }
-  },
-  {
-    name: "customer_portal",
-    description: "Get Stripe customer portal URL for billing management",
-    inputSchema: {
-      type: "object",
-      properties: {
-        return_url: { type: "string", description: "URL to return to after portal" }
-      }
-    }
-  },
-  {
-    name: "check_usage_limits",
-    description: "Check if a feature is within plan limits",
-    inputSchema: {
-      type: "object",
-      properties: {
-        feature: { type: "string", description: "Feature to check (pages, deployments, team_members, etc.)" },
-        increment: { type: "number", description: "Amount to check against limit" }
-      },
-      required: ["feature"]
-    }
-  },
-  {
-    name: "track_usage",
-    description: "Record a usage event for billing/limits",
-    inputSchema: {
-      type: "object",
-      properties: {
-        feature: { type: "string", description: "Feature being used" },
-        quantity: { type: "number", description: "Usage quantity" },
-        metadata: { type: "object", description: "Additional context" }
-      },
-      required: ["feature", "quantity"]
-    }
-  },
+const SESSION_FILE = sessionFilePath();
+const TOKEN_REFRESH_MARGIN_S = 60;
 
-  // ===== DEPLOYMENT =====
-  {
-    name: "setup_page",
-    description: "Get injectable code snippets for a landing page",
-    inputSchema: {
-      type: "object",
-      properties: {
-        page_id: { type: "string", description: "Page UUID" }
-      },
-      required: ["page_id"]
-    }
-  },
-  {
-    name: "deploy_page",
-    description: "Deploy a page to Cloudflare Pages",
-    inputSchema: {
-      type: "object",
-      properties: {
-        page_id: { type: "string", description: "Page UUID" },
-        html: { type: "string", description: "HTML content to deploy" },
-        subdomain: { type: "string", description: "Desired subdomain" }
-      },
-      required: ["page_id", "html"]
-    }
-  },
+let session: StoredSession | null = loadSession(SESSION_FILE);
+let refreshing: Promise<void> | null = null;
 
-  // ===== SERVICES =====
-  {
-    name: "discover_services",
-    description: "List available services and their status",
-    inputSchema: {
-      type: "object",
-      properties: {
-        category: { type: "string", description: "Filter by category" },
-        enabled_only: { type: "boolean", description: "Only show enabled services" }
-      }
-    }
-  },
-  {
-    name: "configure_service",
-    description: "Enable or configure a service for the tenant",
-    inputSchema: {
-      type: "object",
-      properties: {
-        service_id: { type: "string", description: "Service UUID" },
-        enabled: { type: "boolean", description: "Enable/disable" },
-        config: { type: "object", description: "Service configuration" }
-      },
-      required: ["service_id"]
-    }
-  },
-  {
-    name: "check_service_health",
-    description: "Check health status of services",
-    inputSchema: {
-      type: "object",
-      properties: {
-        service_id: { type: "string", description: "Specific service to check (optional)" }
-      }
-    }
-  },
+// Stores the tokens from an auth_* result (sign-in, sign-up, refresh) and returns the result
+function rememberSession<T extends SessionTokens>(result: T): T {
+  const next = toStoredSession(result, session);
+  if (next) {
+    session = next;
+    saveSession(SESSION_FILE, session);
+  }
+  return result;
+}
 
-  // ===== API KEYS =====
-  {
-    name: "create_api_key",
-    description: "Generate a new API key for programmatic access",
-    inputSchema: {
-      type: "object",
-      properties: {
-        name: { type: "string", description: "Key name/description" },
-        scopes: { type: "array", items: { type: "string" }, description: "Permitted scopes" },
-        expires_in_days: { type: "number", description: "Days until expiration" }
-      },
-      required: ["name"]
-    }
-  },
-  {
-    name: "validate_api_key",
-    description: "Validate an API key and get its details",
-    inputSchema: {
-      type: "object",
-      properties: {
-        api_key: { type: "string", description: "The API key to validate" }
-      },
-      required: ["api_key"]
-    }
-  },
+function forgetSession(): void {
+  session = null;
+  saveSession(SESSION_FILE, null);
+}
 
-  // ===== INFRASTRUCTURE (Admin) =====
-  {
-    name: "manage_functions",
-    description: "List, create, update, or delete Edge Functions (admin only)",
-    inputSchema: {
-      type: "object",
-      properties: {
-        action: { type: "string", enum: ["list", "get", "create", "update", "delete"] },
-        function_name: { type: "string", description: "Function name (slug format)" },
-        function_code: { type: "string", description: "TypeScript code for the function" },
-        verify_jwt: { type: "boolean", description: "Require JWT auth (default: true)" }
-      },
-      required: ["action"]
-    }
-  },
-  {
-    name: "manage_secrets",
-    description: "List, set, or delete Edge Function environment secrets (admin only)",
-    inputSchema: {
-      type: "object",
-      properties: {
-        action: { type: "string", enum: ["list", "set", "delete"] },
-        secrets: {
-          type: "array",
-          items: {
-            type: "object",
-            properties: {
-              name: { type: "string" },
-              value: { type: "string" }
-            }
-          },
-          description: "Secrets to set or delete"
-        }
-      },
-      required: ["action"]
-    }
-  },
-  {
-    name: "manage_database",
-    description: "List tables, create tables, add columns, run SQL (admin only)",
-    inputSchema: {
-      type: "object",
-      properties: {
-        action: { type: "string", enum: ["list_tables", "describe", "create_table", "add_column", "create_index", "run_sql", "drop_table"] },
-        table_name: { type: "string", description: "Table name" },
-        columns: {
-          type: "array",
-          items: {
-            type: "object",
-            properties: {
-              name: { type: "string" },
-              type: { type: "string" },
-              primary: { type: "boolean" },
-              nullable: { type: "boolean" },
-              default: { type: "string" },
-              references: { type: "string" }
-            }
-          },
-          description: "Column definitions"
-        },
-        sql: { type: "string", description: "Raw SQL to execute" },
-        enable_rls: { type: "boolean", description: "Enable RLS on new table" },
-        tenant_isolated: { type: "boolean", description: "Add tenant isolation policy" }
-      },
-      required: ["action"]
-    }
-  },
-  {
-    name: "manage_cron",
-    description: "List, create, update, delete, or run cron jobs (admin only)",
-    inputSchema: {
-      type: "object",
-      properties: {
-        action: { type: "string", enum: ["list", "get", "create", "update", "delete", "run_now", "history"] },
-        job_name: { type: "string", description: "Job name" },
-        schedule: { type: "string", description: "Cron schedule (e.g., '0 3 * * *')" },
-        command: { type: "string", description: "SQL command to execute" },
-        active: { type: "boolean", description: "Enable/disable job" }
-      },
-      required: ["action"]
-    }
-  },
-  {
-    name: "manage_vault",
-    description: "List, get, create, update, or delete encrypted tenant secrets",
-    inputSchema: {
-      type: "object",
-      properties: {
-        action: { type: "string", enum: ["list", "get", "create", "set", "update", "delete"] },
-        secret_name: { type: "string", description: "Secret name" },
-        secret_value: { type: "string", description: "Secret value (for create/update)" },
-        description: { type: "string", description: "Secret description" },
-        scope: { type: "string", enum: ["global", "tenant", "user"], description: "Secret scope" }
-      },
-      required: ["action"]
-    }
-  },
+// Access token for Edge Function calls, refreshed shortly before it expires.
+// Falls back to SUPABASE_USER_TOKEN when nobody has signed in.
+async function getAccessToken(): Promise<string | undefined> {
+  if (!session) return USER_TOKEN;
+
+  if (session.expires_at - Date.now() / 1000 <= TOKEN_REFRESH_MARGIN_S) {
+    // One refresh at a time: refresh tokens are single-use
+    refreshing ||= handleAuthRefreshToken({ refresh_token: session.refresh_token })
+      .then((tokens) => { rememberSession(tokens as SessionTokens); })
+      .catch((error) => {
+        console.error(`Session refresh failed, signing out: ${error instanceof Error ? error.message : error}`);
+        forgetSession();
+      })
+      .finally(() => { refreshing = null; });
+    await refreshing;
+  }
 
-  // ===== ISSUES & SEARCH =====
-  {
-    name: "list_issues",
-    description: "List issues in the GitHub repository",
-    inputSchema: {
-      type: "object",
-      properties: {
-        state: { type: "string", enum: ["open", "closed", "all"] },
-        labels: { type: "array", items: { type: "string" } }
-      }
-    }
-  },
-  {
-    name: "search_code",
-    description: "Search code in the repository",
-    inputSchema: {
-      type: "object",
-      properties: {
-        query: { type: "string", description: "Search query" }
-      },
-      required: ["query"]
-    }
-  },
+  return session?.access_token || USER_TOKEN;
+}
 
-  // ===== ACTIVITY & LOGS =====
-  {
-    name: "log_activity",
-    description: "Record an activity in the audit log",
-    inputSchema: {
-      type: "object",
-      properties: {
-        action: { type: "string", description: "Action performed" },
-        resource_type: { type: "string", description: "Type of resource" },
-        resource_id: { type: "string", description: "Resource identifier" },
-        metadata: { type: "object", description: "Additional data" }
-      },
-      required: ["action", "resource_type"]
-    }
-  },
-  {
-    name: "get_function_registry",
-    description: "Get list of all registered functions with their status and dependencies",
-    inputSchema: {
-      type: "object",
-      properties: {
-        category: { type: "string", description: "Filter by category" },
-        active_only: { type: "boolean", description: "Only show active functions" }
-      }
-    }
-  }
-];
+// Fills a token argument from the session when the caller left it out
+async function withSessionToken(args: Record<string, unknown>, key: "access_token" | "refresh_token") {
+  if (args[key]) return args;
+  const token = key === "access_token" ? await getAccessToken() : session?.refresh_token;
+  if (!token) throw new Error(`${key} required: pass it or sign in first (auth_sign_in)`);
+  return { ...args, [key]: token };
+}
 
 // =====================================================
 // AUTH HANDLERS (Direct Supabase Auth API calls)
@@ -766,54 +401,8 @@ async function handleAuthSignUpWithTenant(args: Record<string, unknown>): Promis
 // API CALLER
 // =====================================================
 
-const functionEndpoints: Record<string, string> = {
-  provision_tenant: "provision-tenant",
-  invite_team_member: "invite-team-member",
-  accept_invite: "accept-invite",
-  manage_domain: "manage-domain",
-  create_checkout: "create-checkout",
-  customer_portal: "customer-portal",
-  check_usage_limits: "check-usage-limits",
-  track_usage: "track-usage",
-  setup_page: "setup-page",
-  deploy_page: "deploy-page",
-  discover_services: "discover-services",
-  configure_service: "configure-service",
-  check_service_health: "check-service-health",
-  update_service_catalog: "update-service-catalog",
-  create_api_key: "create-api-key",
-  validate_api_key: "validate-api-key",
-  log_activity: "log-activity",
-  manage_functions: "manage-functions",
-  manage_secrets: "manage-secrets",
-  manage_database: "manage-database",
-  manage_cron: "manage-cron",
-  manage_vault: "manage-vault",
-};
-
-// Admin-only functions
-const adminFunctions = [
-  "manage_functions",
-  "manage_secrets", 
-  "manage_database",
-  "manage_cron",
-  "update_service_catalog"
-];
-
-// Auth functions handled locally (not via Edge Functions)
-const authFunctions = [
-  "auth_sign_up",
-  "auth_sign_in",
-  "auth_sign_out",
-  "auth_get_user",
-  "auth_refresh_token",
-  "auth_reset_password",
-  "auth_update_password",
-  "auth_sign_up_with_tenant",
-];
-
 async function callEdgeFunction(name: string, args: Record<string, unknown>): Promise<unknown> {
-  const endpoint = functionEndpoints[name];
+  const endpoint = getTool(name)?.endpoint;
   if (!endpoint) {
     throw new Error(`Unknown function: ${name}`);
   }
@@ -826,10 +415,16 @@ async function callEdgeFunction(name: string, args: Record<string, unknown>): Pr
   };
 
   // Add auth based on function type
-  if (adminFunctions.includes(name)) {
+  if (getTool(name)?.auth === "admin") {
+    if (!ADMIN_KEY) throw new Error(`${name} requires ADMIN_KEY`);
     headers["X-Admin-Key"] = ADMIN_KEY;
-  } else if (USER_TOKEN) {
-    headers["Authorization"] = `Bearer ${USER_TOKEN}`;
+  } else {
+    const accessToken = await getAccessToken();
+    if (accessToken) headers["Authorization"] = `Bearer ${accessToken}`;
+  }
+
+  if (currentTenantId) {
+    headers[TENANT_HEADER] = currentTenantId;
   }
 
   const response = await fetch(url, {
@@ -847,9 +442,39 @@ async function callEdgeFunction(name: string, args: Record<string, unknown>): Pr
   return data;
 }
 
-// Special handler for function registry (reads from DB)
+// Tenant context: switching is session-local unless set_default is requested
+async function handleSwitchTenant(args: Record<string, unknown>): Promise<unknown> {
+  const { tenant, set_default = false } = args as { tenant: string; set_default?: boolean };
+
+  const previousTenantId = currentTenantId;
+  currentTenantId = null; // validate membership against the default tenant, not the old override
+
+  try {
+    const result = await callEdgeFunction("manage_tenant", {
+      action: "switch_tenant",
+      tenant,
+      set_default,
+    }) as { tenant: { id: string } };
+
+    currentTenantId = result.tenant.id;
+    return result;
+  } catch (error) {
+    currentTenantId = previousTenantId;
+    throw error;
+  }
+}
+
+// Git forge for list_issues / search_code (FORGE_* env vars), created on first use
+let forge: ForgeProvider | null = null;
+
+function getForge(): ForgeProvider {
+  forge ||= createForgeProvider(forgeConfigFromEnv((name) => process.env[name]));
+  return forge;
+}
+
+// Function registry: function_registry rows plus the MCP tools that call each function
 async function getFunctionRegistry(args: Record<string, unknown>): Promise<unknown> {
-  // This queries the function_registry table directly
+  // function_registry is service-role only
   const url = `${SUPABASE_URL}/rest/v1/function_registry`;
   
   let queryParams = "select=*";
@@ -863,12 +488,18 @@ async function getFunctionRegistry(args: Record<string, unknown>): Promise<unkno
 
   const response = await fetch(`${url}?${queryParams}`, {
     headers: {
-      "apikey": SUPABASE_ANON_KEY,
-      "Authorization": `Bearer ${ADMIN_KEY}`,
+      "apikey": SUPABASE_SERVICE_ROLE_KEY,
+      "Authorization": `Bearer ${SUPABASE_SERVICE_ROLE_KEY}`,
     },
   });
 
-  return response.json();
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.message || `HTTP ${response.status}`);
+  }
+
+  return describeFunctions(data);
 }
 
 // =====================================================
@@ -878,11 +509,13 @@ async function getFunctionRegistry(args: Record<string, unknown>): Promise<unkno
 const server = new Server(
   {
     name: "supabase-saas-mcp",
-    version: "1.1.0",
+    version: "1.2.0",
   },
   {
     capabilities: {
       tools: {},
+      resources: {},
+      prompts: {},
     },
   }
 );
@@ -899,30 +532,43 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
   try {
     let result: unknown;
 
-    // Route auth functions to local handlers
+    const tool = getTool(name, "stdio");
+    if (!tool || (tool.auth === "admin" && !ADMIN_KEY)) {
+      throw new Error(`Unknown tool: ${name}`);
+    }
+
+    const toolArgs = (args || {}) as Record<string, unknown>;
+
+    // Route auth functions to local handlers; sign-in results become the session
     if (name === "auth_sign_up") {
-      result = await handleAuthSignUp(args as Record<string, unknown>);
+      result = rememberSession(await handleAuthSignUp(toolArgs) as SessionTokens);
     } else if (name === "auth_sign_in") {
-      result = await handleAuthSignIn(args as Record<string, unknown>);
+      result = rememberSession(await handleAuthSignIn(toolArgs) as SessionTokens);
     } else if (name === "auth_sign_out") {
-      result = await handleAuthSignOut(args as Record<string, unknown>);
+      result = await handleAuthSignOut(await withSessionToken(toolArgs, "access_token"));
+      if (!toolArgs.access_token || toolArgs.access_token === session?.access_token) forgetSession();
     } else if (name === "auth_get_user") {
-      result = await handleAuthGetUser(args as Record<string, unknown>);
+      result = await handleAuthGetUser(await withSessionToken(toolArgs, "access_token"));
     } else if (name === "auth_refresh_token") {
-      result = await handleAuthRefreshToken(args as Record<string, unknown>);
+      const refreshArgs = await withSessionToken(toolArgs, "refresh_token");
+      result = await handleAuthRefreshToken(refreshArgs);
+      if (refreshArgs.refresh_token === session?.refresh_token) rememberSession(result as SessionTokens);
     } else if (name === "auth_reset_password") {
-      result = await handleAuthResetPassword(args as Record<string, unknown>);
+      result = await handleAuthResetPassword(toolArgs);
     } else if (name === "auth_update_password") {
-      result = await handleAuthUpdatePassword(args as Record<string, unknown>);
+      result = await handleAuthUpdatePassword(await withSessionToken(toolArgs, "access_token"));
     } else if (name === "auth_sign_up_with_tenant") {
-      result = await handleAuthSignUpWithTenant(args as Record<string, unknown>);
+      result = rememberSession(await handleAuthSignUpWithTenant(toolArgs) as SessionTokens);
+    } else if (name === "list_tenants") {
+      result = await callEdgeFunction("manage_tenant", { action: "list_tenants" });
+    } else if (name === "switch_tenant") {
+      result = await handleSwitchTenant(toolArgs);
     } else if (name === "get_function_registry") {
-      result = await getFunctionRegistry(args as Record<string, unknown>);
+      result = await getFunctionRegistry(toolArgs);
     } else if (name === "list_issues" || name === "search_code") {
-      // These would use GitHub API - placeholder for now
-      result = { message: "Use GitHub MCP tools for this" };
+      result = await handleForgeTool(getForge(), name, toolArgs);
     } else {
-      result = await callEdgeFunction(name, args as Record<string, unknown>);
+      result = await callEdgeFunction(name, toolArgs);
     }
 
     return {
@@ -946,11 +592,42 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
   }
 });
 
+// Resources (src/resources.ts) are read through the same Edge Functions as the tools
+server.setRequestHandler(ListResourcesRequestSchema, async () => {
+  return { resources: await listResources(callEdgeFunction) };
+});
+
+server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+  return { resourceTemplates: RESOURCE_TEMPLATES };
+});
+
+server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+  try {
+    return await readResource(callEdgeFunction, request.params.uri);
+  } catch (error) {
+    if (error instanceof ResourceError) throw new McpError(error.rpcCode, error.message);
+    throw error;
+  }
+});
+
+server.setRequestHandler(ListPromptsRequestSchema, async () => {
+  return { prompts: listPrompts() };
+});
+
+server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+  try {
+    return getPrompt(request.params.name, request.params.arguments);
+  } catch (error) {
+    if (error instanceof ResourceError) throw new McpError(error.rpcCode, error.message);
+    throw error;
+  }
+});
+
 // Start the server
 async function main() {
   const transport = new StdioServerTransport();
   await server.connect(transport);
-  console.error("Supabase SaaS MCP Server running (v1.1.0 with Auth)");
+  console.error("Supabase SaaS MCP Server running (v1.2.0 with Auth)");
 }
 
 main().catch(console.error);
@@ -0,0 +1,247 @@
+// GENERATED by scripts/sync-schemas.mjs from functions/_shared/resources.ts.
+// Do not edit here; change the source and run `npm run sync-schemas`.
+
+// =====================================================
+// MCP RESOURCES & PROMPTS
+// Read-only context (tenant, templates, table schemas,
+// sub-SaaS apps) and guided workflows for both MCP servers.
+// Resources are read through the regular tools, so the
+// Edge Functions' own auth and tenant checks apply.
+// No imports: mcp-server copies this file at build time
+// (npm run sync-schemas).
+// =====================================================
+
+// MCP resources/list entry
+export type McpResource = {
+  uri: string
+  name: string
+  description?: string
+  mimeType: string
+}
+
+// MCP resources/templates/list entry
+export type McpResourceTemplate = {
+  uriTemplate: string
+  name: string
+  description: string
+  mimeType: string
+}
+
+export type McpPromptArgument = {
+  name: string
+  description: string
+  required?: boolean
+}
+
+// MCP prompts/list entry
+export type McpPrompt = {
+  name: string
+  description: string
+  arguments: McpPromptArgument[]
+}
+
+export type McpPromptMessage = {
+  role: 'user' | 'assistant'
+  content: { type: 'text'; text: string }
+}
+
+export type McpResourceContents = {
+  uri: string
+  mimeType: string
+  text: string
+}
+
+// Calls an MCP tool by name with the caller's credentials; throws on failure
+export type ToolCaller = (tool: string, args: Record<string, unknown>) => Promise<any>
+
+export class ResourceError extends Error {
+  // JSON-RPC error code for the MCP response (-32002: resource not found, -32602: invalid params)
+  rpcCode: number
+
+  constructor(message: string, public code: 'RESOURCE_NOT_FOUND' | 'INVALID_PROMPT') {
+    super(message)
+    this.name = 'ResourceError'
+    this.rpcCode = code === 'RESOURCE_NOT_FOUND' ? -32002 : -32602
+  }
+}
+
+const JSON_MIME = 'application/json'
+
+export const RESOURCES: McpResource[] = [
+  {
+    uri: 'tenant://current',
+    name: 'Current tenant',
+    description: 'The active tenant (X-Tenant-Id or default), your role, and your other memberships',
+    mimeType: JSON_MIME
+  }
+]
+
+export const RESOURCE_TEMPLATES: McpResourceTemplate[] = [
+  {
+    uriTemplate: 'template://{slug}',
+    name: 'Sub-SaaS template',
+    description: 'Template definition with its tables, features and default settings (manage_templates get)',
+    mimeType: JSON_MIME
+  },
+  {
+    uriTemplate: 'table://{name}/schema',
+    name: 'Table schema',
+    description: 'Columns, indexes and RLS status of a public table (manage_database describe, admin key)',
+    mimeType: JSON_MIME
+  },
+  {
+    uriTemplate: 'sub-saas://{id}',
+    name: 'Sub-SaaS app',
+    description: 'A sub-SaaS app of the current tenant with user count and Stripe Connect status',
+    mimeType: JSON_MIME
+  }
+]
+
+// Resource URI -> tool call that reads it
+const READERS: { pattern: RegExp; read: (call: ToolCaller, match: RegExpMatchArray) => Promise<unknown> }[] = [
+  {
+    pattern: /^tenant:\/\/current$/,
+    read: async (call) => {
+      const { current_tenant_id, tenants } = await call('manage_tenant', { action: 'list_tenants' })
+      const current = (tenants || []).find((t: any) => t.id === current_tenant_id)
+      if (!current) throw new ResourceError('No current tenant. Create one or switch tenants first.', 'RESOURCE_NOT_FOUND')
+      return { tenant: current, memberships: tenants }
+    }
+  },
+  {
+    pattern: /^template:\/\/([a-z0-9-]+)$/,
+    read: async (call, [, slug]) => (await call('manage_templates', { action: 'get', slug })).template
+  },
+  {
+    pattern: /^table:\/\/([a-z_][a-z0-9_]*)\/schema$/,
+    read: async (call, [, name]) => {
+      const { table, columns, indexes, rls_enabled } = await call('manage_database', { action: 'describe', table_name: name })
+      if (!columns?.length) throw new ResourceError(`Table not found: ${name}`, 'RESOURCE_NOT_FOUND')
+      return { table, columns, indexes, rls_enabled }
+    }
+  },
+  {
+    pattern: /^sub-saas:\/\/([0-9a-f-]{36})$/,
+    read: async (call, [, id]) => (await call('manage_sub_saas', { action: 'get', sub_saas_id: id })).app
+  }
+]
+
+// Static resources plus one entry per template / app / table the caller can read.
+// Listings the caller can't access (e.g. tables without the admin key) are left out.
+export async function listResources(call: ToolCaller): Promise<McpResource[]> {
+  const optional = (promise: Promise<any>) => promise.catch(() => null)
+
+  const [templates, apps, tables] = await Promise.all([
+    optional(call('manage_templates', { action: 'list' })),
+    optional(call('manage_sub_saas', { action: 'list' })),
+    optional(call('manage_database', { action: 'list_tables' }))
+  ])
+
+  return [
+    ...RESOURCES,
+    ...(templates?.templates || []).map((t: any) => ({
+      uri: `template://${t.slug}`,
+      name: `Template: ${t.name}`,
+      description: t.description || undefined,
+      mimeType: JSON_MIME
+    })),
+    ...(apps?.apps || []).map((a: any) => ({
+      uri: `sub-saas://${a.id}`,
+      name: `Sub-SaaS: ${a.name}`,
+      description: `${a.template} app at ${a.custom_domain || a.subdomain} (${a.status})`,
+      mimeType: JSON_MIME
+    })),
+    ...(tables?.tables || []).map((t: any) => ({
+      uri: `table://${t.table_name}/schema`,
+      name: `Table: ${t.table_name}`,
+      mimeType: JSON_MIME
+    }))
+  ]
+}
+
+export async function readResource(call: ToolCaller, uri: string): Promise<{ contents: McpResourceContents[] }> {
+  for (const reader of READERS) {
+    const match = uri.match(reader.pattern)
+    if (!match) continue
+
+    const data = await reader.read(call, match)
+    if (!data) throw new ResourceError(`Resource not found: ${uri}`, 'RESOURCE_NOT_FOUND')
+    return { contents: [{ uri, mimeType: JSON_MIME, text: JSON.stringify(data, null, 2) }] }
+  }
+  throw new ResourceError(`Unknown resource: ${uri}`, 'RESOURCE_NOT_FOUND')
+}
+
+// =====================================================
+// PROMPTS
+// =====================================================
+
+interface PromptDefinition extends McpPrompt {
+  render(args: Record<string, string>): string
+}
+
+const PROMPTS: PromptDefinition[] = [
+  {
+    name: 'scaffold_sub_saas',
+    description: 'Create a sub-SaaS app from a template and deploy its landing page',
+    arguments: [
+      { name: 'template', description: 'Template slug, e.g. crm or booking', required: true },
+      { name: 'name', description: 'App name', required: true },
+      { name: 'slug', description: 'URL-friendly identifier (default: derived from name)' },
+      { name: 'page_id', description: 'Landing page (pages row) to deploy for the app' }
+    ],
+    render: ({ template, name, slug, page_id }) => {
+      const appSlug = slug || name.toLowerCase().replace(/\s+/g, '-').replace(/[^a-z0-9-]/g, '')
+      return [
+        `Scaffold a sub-SaaS app called "${name}" from the "${template}" template.`,
+        '',
+        `1. Read the resource template://${template} and summarize the tables and features the app will get. If it doesn't exist, list the available templates (manage_templates, action "list") and ask which one to use.`,
+        '2. Read tenant://current and confirm the tenant the app will belong to. The caller must be its owner or admin.',
+        `3. Call create_sub_saas with name "${name}", slug "${appSlug}" and template "${template}". Only set enable_stripe_connect, custom_domain or branding if the user asked for them.`,
+        '4. Read sub-saas://{id} for the new app and check that every table from the template was created (tables_created in the create_sub_saas result).',
+        page_id
+          ? `5. Call setup_page for page_id "${page_id}" (environment "test", features auth and stripe as the app needs them), then deploy_page with the same page_id.`
+          : '5. Ask whether to deploy a landing page. If so, get its page_id, call setup_page (environment "test") and then deploy_page.',
+        '6. Report the app URL, the deployed page URL, and anything that failed along the way.'
+      ].join('\n')
+    }
+  },
+  {
+    name: 'add_template_table',
+    description: 'Design a new table for a sub-SaaS template, modelled on an existing table',
+    arguments: [
+      { name: 'template', description: 'Template slug to extend', required: true },
+      { name: 'table', description: 'Name of the new table', required: true },
+      { name: 'like', description: 'Existing table to use as a reference (table://{name}/schema)' }
+    ],
+    render: ({ template, table, like }) => [
+      `Add a table named "${table}" to the "${template}" template.`,
+      '',
+      `1. Read template://${template} to see its existing tables and column conventions.`,
+      like
+        ? `2. Read table://${like}/schema and reuse its column types, defaults and indexes where they fit.`
+        : '2. Follow the column conventions of the template\'s existing tables (id, timestamps, foreign keys).',
+      `3. Propose the columns for "${table}" and wait for confirmation.`,
+      `4. Call manage_templates with action "add_table", the template's id as template_id, and table { table_name: "${table}", display_name, columns }. Public templates can only be changed with the admin key.`,
+      `5. Read template://${template} again and show the result. Existing apps are not changed; only new apps created from the template get the table.`
+    ].join('\n')
+  }
+]
+
+export function listPrompts(): McpPrompt[] {
+  return PROMPTS.map(({ render, ...prompt }) => prompt)
+}
+
+export function getPrompt(name: string, args: Record<string, string> = {}): { description: string; messages: McpPromptMessage[] } {
+  const prompt = PROMPTS.find(p => p.name === name)
+  if (!prompt) throw new ResourceError(`Unknown prompt: ${name}`, 'INVALID_PROMPT')
+
+  const missing = prompt.arguments.filter(a => a.required && !args[a.name]).map(a => a.name)
+  if (missing.length > 0) {
+    throw new ResourceError(`Missing required argument: ${missing.join(', ')}`, 'INVALID_PROMPT')
+  }
+
+  return {
+    description: prompt.description,
+    messages: [{ role: 'user', content: { type: 'text', text: prompt.render(args) } }]
+  }
+}
@@ -0,0 +1,66 @@
+// Signed-in user for the stdio server, saved to disk so the
+// session survives restarts. The file holds a refresh token:
+// it is written with owner-only permissions.
+
+import { chmodSync, existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { homedir } from "node:os";
+import { dirname, join } from "node:path";
+
+export interface StoredSession {
+  access_token: string;
+  refresh_token: string;
+  expires_at: number; // Unix seconds
+  user_id: string | null;
+  email: string | null;
+}
+
+// Token fields as returned by the auth_* handlers
+export interface SessionTokens {
+  access_token?: string;
+  refresh_token?: string;
+  expires_at?: number;
+  expires_in?: number;
+  user?: { id?: string; email?: string } | null;
+}
+
+export function sessionFilePath(): string {
+  return process.env.MCP_SESSION_FILE || join(homedir(), ".supabase-saas-mcp", "session.json");
+}
+
+export function loadSession(path: string): StoredSession | null {
+  if (!existsSync(path)) return null;
+  try {
+    const session = JSON.parse(readFileSync(path, "utf8")) as StoredSession;
+    return session.access_token && session.refresh_token ? session : null;
+  } catch {
+    console.error(`Ignoring unreadable session file ${path}`);
+    return null;
+  }
+}
+
+export function saveSession(path: string, session: StoredSession | null): void {
+  if (!session) {
+    rmSync(path, { force: true });
+    return;
+  }
+  mkdirSync(dirname(path), { recursive: true, mode: 0o700 });
+  writeFileSync(path, JSON.stringify(session, null, 2), { mode: 0o600 });
+  chmodSync(path, 0o600);
+}
+
+// Merges new tokens into the session; null when the result carries no tokens.
+// Refresh results have no user, so the previous user is kept.
+export function toStoredSession(tokens: SessionTokens, previous: StoredSession | null): StoredSession | null {
+  if (!tokens.access_token || !tokens.refresh_token) return null;
+
+  const expiresAt = tokens.expires_at ||
+    Math.floor(Date.now() / 1000) + (tokens.expires_in || 3600);
+
+  return {
+    access_token: tokens.access_token,
+    refresh_token: tokens.refresh_token,
+    expires_at: expiresAt,
+    user_id: tokens.user?.id || previous?.user_id || null,
+    email: tokens.user?.email || previous?.email || null,
+  };
+}
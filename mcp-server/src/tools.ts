@@ -0,0 +1,644 @@
+// GENERATED by scripts/sync-schemas.mjs from functions/_shared/tools.ts.
+// Do not edit here; change the source and run `npm run sync-schemas`.
+
+// =====================================================
+// MCP TOOL REGISTRY
+// The one list of tools both MCP servers expose
+// (mcp-server/ over stdio, functions/mcp-server over HTTP)
+// and that get_function_registry reports.
+// Only imports schemas.ts: mcp-server copies both files
+// at build time (npm run sync-schemas).
+// =====================================================
+
+import {
+  ActionSchemas,
+  FieldSchema,
+  ToolInputSchema,
+  toToolInputSchema,
+  CONFIGURE_SERVICE_SCHEMAS,
+  MANAGE_API_KEYS_SCHEMAS,
+  MANAGE_BILLING_SCHEMAS,
+  MANAGE_CONFIG_SCHEMAS,
+  MANAGE_CRON_SCHEMAS,
+  MANAGE_DATABASE_SCHEMAS,
+  MANAGE_DOMAIN_SCHEMAS,
+  MANAGE_FUNCTIONS_SCHEMAS,
+  MANAGE_NOTIFICATIONS_SCHEMAS,
+  MANAGE_PRIVACY_SCHEMAS,
+  MANAGE_RBAC_SCHEMAS,
+  MANAGE_SECRETS_SCHEMAS,
+  MANAGE_STRIPE_CONNECT_SCHEMAS,
+  MANAGE_SUB_SAAS_SCHEMAS,
+  MANAGE_TEMPLATES_SCHEMAS,
+  MANAGE_TENANT_SCHEMAS,
+  MANAGE_VAULT_SCHEMAS,
+  UPDATE_SERVICE_CATALOG_SCHEMAS
+} from './schemas.js'
+
+// none: no credentials needed
+// user: Bearer token or API key (admin key also accepted where the function allows it)
+// admin: X-Admin-Key required
+export type ToolAuth = 'none' | 'user' | 'admin'
+
+export type McpServerKind = 'stdio' | 'http'
+
+export type ToolCategory =
+  | 'authentication'
+  | 'tenant_team'
+  | 'domains_services'
+  | 'billing'
+  | 'deployment'
+  | 'developer'
+  | 'infrastructure'
+  | 'rbac_config'
+  | 'analytics'
+  | 'sub_saas_builder'
+  | 'issues'
+
+export interface ToolDefinition {
+  name: string
+  description: string
+  category: ToolCategory
+  auth: ToolAuth
+  endpoint?: string  // Edge Function the call is forwarded to. Omitted when the MCP server handles the tool itself.
+  actions?: ActionSchemas  // Action-based tools: inputSchema and per-action descriptions come from here
+  inputSchema?: ToolInputSchema  // Single-purpose tools
+  servers?: McpServerKind[]  // Default: both
+}
+
+// MCP tools/list entry
+export type McpTool = {
+  name: string
+  description: string
+  inputSchema: ToolInputSchema
+}
+
+const schema = (properties: Record<string, FieldSchema>, required?: string[]): ToolInputSchema =>
+  required ? { type: 'object', properties, required } : { type: 'object', properties }
+
+const TENANT_ID: FieldSchema = { type: 'string', format: 'uuid', description: 'Tenant UUID (admin key callers)' }
+
+export const TOOLS: ToolDefinition[] = [
+  // ===== AUTHENTICATION =====
+  {
+    name: 'auth_sign_up',
+    description: 'Create a new user account',
+    category: 'authentication',
+    auth: 'none',
+    inputSchema: schema({
+      email: { type: 'string', description: 'User email address' },
+      password: { type: 'string', description: 'User password (min 6 chars)' },
+      metadata: { type: 'object', description: 'Optional user metadata (name, etc.)' }
+    }, ['email', 'password'])
+  },
+  {
+    name: 'auth_sign_in',
+    description: 'Sign in and get session tokens. The MCP session stays signed in: later calls use the tokens, refreshed before they expire.',
+    category: 'authentication',
+    auth: 'none',
+    inputSchema: schema({
+      email: { type: 'string', description: 'User email address' },
+      password: { type: 'string', description: 'User password' }
+    }, ['email', 'password'])
+  },
+  {
+    name: 'auth_sign_out',
+    description: 'Sign out and invalidate session',
+    category: 'authentication',
+    auth: 'none',
+    inputSchema: schema({
+      access_token: { type: 'string', description: 'Access token to invalidate (default: the signed-in MCP session)' }
+    })
+  },
+  {
+    name: 'auth_get_user',
+    description: 'Get current user details from access token',
+    category: 'authentication',
+    auth: 'none',
+    inputSchema: schema({
+      access_token: { type: 'string', description: "User's access token (default: the signed-in MCP session)" }
+    })
+  },
+  {
+    name: 'auth_refresh_token',
+    description: 'Refresh an expired access token',
+    category: 'authentication',
+    auth: 'none',
+    inputSchema: schema({
+      refresh_token: { type: 'string', description: 'Refresh token from sign-in (default: the signed-in MCP session)' }
+    })
+  },
+  {
+    name: 'auth_reset_password',
+    description: 'Send password reset email',
+    category: 'authentication',
+    auth: 'none',
+    inputSchema: schema({
+      email: { type: 'string', description: 'Email address to send reset link' }
+    }, ['email'])
+  },
+  {
+    name: 'auth_update_password',
+    description: 'Update user password (requires valid session)',
+    category: 'authentication',
+    auth: 'none',
+    inputSchema: schema({
+      access_token: { type: 'string', description: "User's access token (default: the signed-in MCP session)" },
+      new_password: { type: 'string', description: 'New password (min 6 chars)' }
+    }, ['new_password'])
+  },
+  {
+    name: 'auth_sign_up_with_tenant',
+    description: 'Create user account AND provision tenant in one call (complete onboarding)',
+    category: 'authentication',
+    auth: 'none',
+    inputSchema: schema({
+      email: { type: 'string', description: 'User email address' },
+      password: { type: 'string', description: 'User password (min 6 chars)' },
+      tenant_name: { type: 'string', description: 'Organization/company name' },
+      tenant_slug: { type: 'string', description: 'URL-friendly slug (optional, auto-generated from name)' },
+      user_metadata: { type: 'object', description: 'Optional user metadata' }
+    }, ['email', 'password', 'tenant_name'])
+  },
+
+  // ===== TENANT & TEAM =====
+  {
+    name: 'provision_tenant',
+    description: 'Create a new tenant/organization with Stripe customer',
+    category: 'tenant_team',
+    auth: 'user',
+    endpoint: 'provision-tenant',
+    inputSchema: schema({
+      tenant_name: { type: 'string', description: 'Tenant/organization name' },
+      slug: { type: 'string', description: 'URL-friendly slug (optional, generated from the name)' }
+    }, ['tenant_name'])
+  },
+  {
+    name: 'list_tenants',
+    description: 'List the tenants the current user belongs to, with roles and which one is active',
+    category: 'tenant_team',
+    auth: 'user',
+    servers: ['stdio'],
+    inputSchema: schema({})
+  },
+  {
+    name: 'switch_tenant',
+    description: 'Switch the active tenant for this session; subsequent tool calls act on it',
+    category: 'tenant_team',
+    auth: 'user',
+    servers: ['stdio'],
+    inputSchema: schema({
+      tenant: { type: 'string', description: 'Tenant UUID or slug' },
+      set_default: { type: 'boolean', description: "Also make it the user's default tenant (default: false)" }
+    }, ['tenant'])
+  },
+  {
+    // The stdio server keeps the active tenant itself (list_tenants / switch_tenant)
+    name: 'manage_tenant',
+    description: 'List your tenants, switch the active tenant or set its usage timezone. Send the returned X-Tenant-Id header on later calls to act on that tenant. Owners schedule (or cancel) the tenant\'s deletion; with the admin key: suspend, reactivate, purge and deletion reports',
+    category: 'tenant_team',
+    auth: 'user',
+    endpoint: 'manage-tenant',
+    servers: ['http'],
+    actions: MANAGE_TENANT_SCHEMAS
+  },
+  {
+    name: 'invite_team_member',
+    description: 'Send an email invitation to join a tenant',
+    category: 'tenant_team',
+    auth: 'user',
+    endpoint: 'invite-team-member',
+    inputSchema: schema({
+      email: { type: 'string', format: 'email', description: 'Email address to invite' },
+      role: { type: 'string', enum: ['admin', 'member', 'viewer'], description: 'Role to assign' },
+      message: { type: 'string', description: 'Optional personal message' },
+      page_id: { type: 'string', format: 'uuid', description: 'Page to link in the invite (optional)' },
+      domain_id: { type: 'string', format: 'uuid', description: 'Domain to send from (optional)' }
+    }, ['email', 'role'])
+  },
+  {
+    name: 'accept_invite',
+    description: 'Accept a team invitation using the invite token',
+    category: 'tenant_team',
+    auth: 'user',
+    endpoint: 'accept-invite',
+    inputSchema: schema({
+      token: { type: 'string', description: 'Invite token from the invitation URL' }
+    }, ['token'])
+  },
+  {
+    name: 'manage_privacy',
+    description: 'GDPR requests: export everything stored about the tenant or a user (ZIP or JSON lines, signed download URL) and erase a user\'s personal data while keeping billing records',
+    category: 'tenant_team',
+    auth: 'user',
+    endpoint: 'manage-privacy',
+    actions: MANAGE_PRIVACY_SCHEMAS
+  },
+
+  // ===== DOMAINS & SERVICES =====
+  {
+    name: 'manage_domain',
+    description: 'Add, verify, update, or delete custom domains for email sending',
+    category: 'domains_services',
+    auth: 'user',
+    endpoint: 'manage-domain',
+    actions: MANAGE_DOMAIN_SCHEMAS
+  },
+  {
+    name: 'discover_services',
+    description: 'List available services and their status',
+    category: 'domains_services',
+    auth: 'none',
+    endpoint: 'discover-services',
+    inputSchema: schema({
+      category: { type: 'string', description: 'Filter by category' },
+      include_disabled: { type: 'boolean', description: 'Include services disabled platform-wide' }
+    })
+  },
+  {
+    name: 'configure_service',
+    description: 'Enable, disable or configure a service for the tenant',
+    category: 'domains_services',
+    auth: 'user',
+    endpoint: 'configure-service',
+    actions: CONFIGURE_SERVICE_SCHEMAS
+  },
+  {
+    name: 'check_service_health',
+    description: 'Check health of all services and update their status',
+    category: 'domains_services',
+    auth: 'user',
+    endpoint: 'check-service-health',
+    inputSchema: schema({})
+  },
+  {
+    name: 'update_service_catalog',
+    description: 'Add, update, enable, disable or remove services in the platform catalog',
+    category: 'domains_services',
+    auth: 'admin',
+    endpoint: 'update-service-catalog',
+    actions: UPDATE_SERVICE_CATALOG_SCHEMAS
+  },
+
+  // ===== BILLING =====
+  {
+    name: 'create_checkout',
+    description: 'Create a Stripe checkout session for subscription',
+    category: 'billing',
+    auth: 'user',
+    endpoint: 'create-checkout',
+    inputSchema: schema({
+      price_id: { type: 'string', description: 'Stripe price ID' },
+      mode: { type: 'string', enum: ['subscription', 'payment'], description: 'Checkout mode (default: subscription)' },
+      success_url: { type: 'string', format: 'uri', description: 'URL to redirect after success' },
+      cancel_url: { type: 'string', format: 'uri', description: 'URL to redirect after cancel' }
+    }, ['price_id'])
+  },
+  {
+    name: 'customer_portal',
+    description: 'Get Stripe customer portal URL for billing management',
+    category: 'billing',
+    auth: 'user',
+    endpoint: 'customer-portal',
+    inputSchema: schema({
+      return_url: { type: 'string', format: 'uri', description: 'URL to return to after portal' }
+    })
+  },
+  {
+    name: 'manage_billing',
+    description: 'Manage the plan catalog, subscriptions, one-time product purchases and metered usage billing via Stripe',
+    category: 'billing',
+    auth: 'user',
+    endpoint: 'manage-billing',
+    actions: MANAGE_BILLING_SCHEMAS
+  },
+  {
+    name: 'manage_notifications',
+    description: 'Read in-app notifications, configure usage alert thresholds and manage outbound webhook endpoints',
+    category: 'billing',
+    auth: 'user',
+    endpoint: 'manage-notifications',
+    actions: MANAGE_NOTIFICATIONS_SCHEMAS
+  },
+  {
+    name: 'check_usage_limits',
+    description: 'Check if a feature is within plan limits, or if the plan includes an entitlement',
+    category: 'billing',
+    auth: 'user',
+    endpoint: 'check-usage-limits',
+    inputSchema: schema({
+      feature: { type: 'string', description: 'Feature to check (pages, deployments, team_members, sub_apps, etc.)' },
+      entitlement: { type: 'string', description: 'On/off plan entitlement to check instead of a feature' },
+      quantity: { type: 'integer', minimum: 1, description: 'Amount to check against the limit (default: 1)' },
+      reserve: { type: 'boolean', description: 'Hold the quantity and return a reservation_id to commit or release with track_usage' },
+      ttl_seconds: { type: 'integer', minimum: 1, maximum: 3600, description: 'How long a reservation is held (default: 300)' },
+      tenant_id: TENANT_ID
+    })
+  },
+  {
+    name: 'track_usage',
+    description: 'Record a usage event for billing/limits',
+    category: 'billing',
+    auth: 'user',
+    endpoint: 'track-usage',
+    inputSchema: schema({
+      feature: { type: 'string', description: 'Feature being used' },
+      quantity: { type: 'integer', minimum: 1, description: 'Usage quantity (default: 1, or the reserved quantity)' },
+      metadata: { type: 'object', description: 'Additional context' },
+      enforce_limit: { type: 'boolean', description: 'Only record if within the plan limit (checked and recorded atomically)' },
+      reservation_id: { type: 'string', format: 'uuid', description: 'Commit a reservation from check_usage_limits instead of passing feature' },
+      release: { type: 'boolean', description: 'Release the reservation instead of committing it' },
+      tenant_id: TENANT_ID
+    })
+  },
+
+  // ===== DEPLOYMENT =====
+  {
+    name: 'setup_page',
+    description: 'Get injectable code snippets for a landing page',
+    category: 'deployment',
+    auth: 'user',
+    endpoint: 'setup-page',
+    inputSchema: schema({
+      page_id: { type: 'string', format: 'uuid', description: 'Page UUID' },
+      environment: { type: 'string', enum: ['test', 'production'], description: 'Stripe keys to use' },
+      features: {
+        type: 'object',
+        description: 'Snippets to include',
+        properties: {
+          auth: { type: 'boolean' },
+          stripe: { type: 'boolean' },
+          gads_matching: { type: 'boolean' }
+        }
+      },
+      gads_config: { type: 'object', description: 'Google Ads message match: { campaign_id, keywords }' }
+    }, ['page_id', 'environment', 'features'])
+  },
+  {
+    name: 'deploy_page',
+    description: 'Deploy a page to Cloudflare Pages',
+    category: 'deployment',
+    auth: 'user',
+    endpoint: 'deploy-page',
+    inputSchema: schema({
+      page_id: { type: 'string', format: 'uuid', description: 'Page UUID' },
+      project_name: { type: 'string', description: 'Cloudflare Pages project (optional, generated on first deploy)' }
+    }, ['page_id'])
+  },
+
+  // ===== DEVELOPER =====
+  {
+    name: 'create_api_key',
+    description: 'Generate a new API key for programmatic access',
+    category: 'developer',
+    auth: 'user',
+    endpoint: 'create-api-key',
+    inputSchema: schema({
+      name: { type: 'string', description: 'Key name/description' },
+      scopes: { type: 'array', items: { type: 'string' }, description: 'Permitted scopes (default: read)' },
+      expires_in_days: { type: 'number', description: 'Days until expiration' }
+    }, ['name'])
+  },
+  {
+    name: 'manage_api_keys',
+    description: 'List, revoke, rotate (old key stays valid for overlap_hours), update scopes, or set IP allowlist for tenant API keys, or get per-key request stats (counts, error rate, p95 latency)',
+    category: 'developer',
+    auth: 'user',
+    endpoint: 'manage-api-keys',
+    actions: MANAGE_API_KEYS_SCHEMAS
+  },
+  {
+    name: 'validate_api_key',
+    description: 'Validate an API key and get its details',
+    category: 'developer',
+    auth: 'none',
+    endpoint: 'validate-api-key',
+    inputSchema: schema({
+      api_key: { type: 'string', description: 'The API key to validate' }
+    }, ['api_key'])
+  },
+  {
+    name: 'log_activity',
+    description: 'Record an activity in the audit log',
+    category: 'developer',
+    auth: 'user',
+    endpoint: 'log-activity',
+    inputSchema: schema({
+      action: { type: 'string', description: 'Action performed, e.g. page.published' },
+      resource_type: { type: 'string', description: 'Type of resource' },
+      resource_id: { type: 'string', description: 'Resource identifier' },
+      metadata: { type: 'object', description: 'Additional data' },
+      tenant_id: TENANT_ID
+    }, ['action', 'resource_type'])
+  },
+  {
+    name: 'get_function_registry',
+    description: 'List registered Edge Functions with their status, dependencies and MCP tools',
+    category: 'developer',
+    auth: 'admin',
+    inputSchema: schema({
+      category: { type: 'string', description: 'Filter by category' },
+      active_only: { type: 'boolean', description: 'Only show active functions' }
+    })
+  },
+
+  // ===== INFRASTRUCTURE =====
+  {
+    name: 'manage_database',
+    description: 'List tables, create tables, add columns, run SQL (admin only)',
+    category: 'infrastructure',
+    auth: 'admin',
+    endpoint: 'manage-database',
+    actions: MANAGE_DATABASE_SCHEMAS
+  },
+  {
+    name: 'manage_functions',
+    description: 'List, create, update, or delete Edge Functions (admin only)',
+    category: 'infrastructure',
+    auth: 'admin',
+    endpoint: 'manage-functions',
+    actions: MANAGE_FUNCTIONS_SCHEMAS
+  },
+  {
+    name: 'manage_secrets',
+    description: 'List, set, or delete Edge Function environment secrets (admin only)',
+    category: 'infrastructure',
+    auth: 'admin',
+    endpoint: 'manage-secrets',
+    actions: MANAGE_SECRETS_SCHEMAS
+  },
+  {
+    name: 'manage_cron',
+    description: 'List, create, update, delete, or run cron jobs (admin only)',
+    category: 'infrastructure',
+    auth: 'admin',
+    endpoint: 'manage-cron',
+    actions: MANAGE_CRON_SCHEMAS
+  },
+  {
+    name: 'manage_vault',
+    description: 'Securely store and retrieve encrypted secrets per tenant/user',
+    category: 'infrastructure',
+    auth: 'user',
+    endpoint: 'manage-vault',
+    actions: MANAGE_VAULT_SCHEMAS
+  },
+
+  // ===== RBAC & CONFIG =====
+  {
+    name: 'manage_rbac',
+    description: 'Manage roles and permissions - list, create, update, delete roles; assign roles to users',
+    category: 'rbac_config',
+    auth: 'admin',
+    endpoint: 'manage-rbac',
+    actions: MANAGE_RBAC_SCHEMAS
+  },
+  {
+    name: 'manage_config',
+    description: 'Manage feature flags and configuration settings globally or per-tenant',
+    category: 'rbac_config',
+    auth: 'admin',
+    endpoint: 'manage-config',
+    actions: MANAGE_CONFIG_SCHEMAS
+  },
+
+  // ===== ANALYTICS =====
+  {
+    name: 'get_analytics',
+    description: 'Get usage reports, activity logs, API request stats and metrics',
+    category: 'analytics',
+    auth: 'admin',
+    endpoint: 'get-analytics',
+    inputSchema: schema({
+      report_type: { type: 'string', enum: ['dashboard', 'usage', 'activity', 'api_requests', 'tenant_summary'], description: 'Report to run' },
+      tenant_id: { type: 'string', format: 'uuid', description: 'Limit to one tenant' },
+      start_date: { type: 'string', format: 'date-time', description: 'Range start' },
+      end_date: { type: 'string', format: 'date-time', description: 'Range end' },
+      granularity: { type: 'string', enum: ['hour', 'day', 'month'], description: 'Usage report buckets (default: day)' },
+      feature: { type: 'string', description: 'Usage report: only this feature' },
+      limit: { type: 'number', description: 'Max rows' }
+    }, ['report_type'])
+  },
+
+  // ===== SUB-SAAS BUILDER =====
+  {
+    name: 'create_sub_saas',
+    description: 'Create a new sub-SaaS application for a tenant (B2B2C). Sets up isolated schema, auth, and optional Stripe Connect.',
+    category: 'sub_saas_builder',
+    auth: 'user',
+    endpoint: 'create-sub-saas',
+    inputSchema: schema({
+      name: { type: 'string', description: 'Name of the sub-SaaS app' },
+      slug: { type: 'string', pattern: '^[a-z0-9-]+$', description: 'URL-friendly identifier' },
+      description: { type: 'string', description: 'App description' },
+      template: { type: 'string', description: 'Template slug (default: blank), e.g. crm, booking, ecommerce, helpdesk, membership' },
+      enable_stripe_connect: { type: 'boolean', description: 'Enable payments for sub-SaaS users' },
+      custom_domain: { type: 'string', description: 'Custom domain for the app' },
+      settings: { type: 'object', description: 'App settings' },
+      branding: { type: 'object', description: 'Logo, colors, etc.' },
+      tenant_id: TENANT_ID
+    }, ['name', 'slug'])
+  },
+  {
+    name: 'manage_sub_saas',
+    description: 'Manage existing sub-SaaS applications - list, update settings, manage users, view metrics',
+    category: 'sub_saas_builder',
+    auth: 'user',
+    endpoint: 'manage-sub-saas',
+    actions: MANAGE_SUB_SAAS_SCHEMAS
+  },
+  {
+    name: 'manage_stripe_connect',
+    description: 'Manage Stripe Connect for sub-SaaS - onboard accounts, create payment links, view payouts',
+    category: 'sub_saas_builder',
+    auth: 'user',
+    endpoint: 'manage-stripe-connect',
+    actions: MANAGE_STRIPE_CONNECT_SCHEMAS
+  },
+  {
+    name: 'manage_templates',
+    description: 'List, create and edit sub-SaaS templates and their table schemas',
+    category: 'sub_saas_builder',
+    auth: 'user',
+    endpoint: 'manage-templates',
+    actions: MANAGE_TEMPLATES_SCHEMAS
+  },
+
+  // ===== ISSUES & SEARCH =====
+  // Answered by the configured Git forge (forge.ts), not an Edge Function
+  {
+    name: 'list_issues',
+    description: 'List issues in the project repository (GitHub, GitLab), most recently updated first',
+    category: 'issues',
+    auth: 'user',
+    inputSchema: schema({
+      state: { type: 'string', enum: ['open', 'closed', 'all'], description: 'Issue state (default: open)' },
+      labels: { type: 'array', items: { type: 'string' }, description: 'Only issues with all of these labels' },
+      limit: { type: 'integer', minimum: 1, maximum: 100, description: 'Max issues (default: 30)' }
+    })
+  },
+  {
+    name: 'search_code',
+    description: 'Search code in the project repository; returns file paths with matching snippets',
+    category: 'issues',
+    auth: 'user',
+    inputSchema: schema({
+      query: { type: 'string', minLength: 1, description: 'Text to search for' },
+      path: { type: 'string', description: 'Only files under this path, e.g. functions/' },
+      limit: { type: 'integer', minimum: 1, maximum: 100, description: 'Max files (default: 30)' }
+    }, ['query'])
+  }
+]
+
+const TOOLS_BY_NAME = new Map(TOOLS.map(tool => [tool.name, tool]))
+
+export function getTool(name: string, server?: McpServerKind): ToolDefinition | undefined {
+  const tool = TOOLS_BY_NAME.get(name)
+  return tool && (!server || isAvailableOn(tool, server)) ? tool : undefined
+}
+
+export function getToolsForServer(server: McpServerKind): ToolDefinition[] {
+  return TOOLS.filter(tool => isAvailableOn(tool, server))
+}
+
+// tools/list payload. Admin tools are left out for sessions without the admin key.
+export function listMcpTools(server: McpServerKind, options: { includeAdmin?: boolean } = {}): McpTool[] {
+  const { includeAdmin = true } = options
+  return getToolsForServer(server).filter(tool => includeAdmin || tool.auth !== 'admin').map(tool => ({
+    name: tool.name,
+    description: tool.description,
+    inputSchema: getToolInputSchema(tool)
+  }))
+}
+
+export function getToolInputSchema(tool: ToolDefinition): ToolInputSchema {
+  if (tool.actions) return toToolInputSchema(tool.actions)
+  return tool.inputSchema || { type: 'object', properties: {} }
+}
+
+// Tool names per category, e.g. for server info endpoints
+export function getToolCategories(server: McpServerKind): Partial<Record<ToolCategory, string[]>> {
+  const categories: Partial<Record<ToolCategory, string[]>> = {}
+  for (const tool of getToolsForServer(server)) {
+    (categories[tool.category] ||= []).push(tool.name)
+  }
+  return categories
+}
+
+// get_function_registry: function_registry rows plus the MCP tools that call each function
+export function describeFunctions<T extends { function_name: string }>(rows: T[]) {
+  return rows.map(row => ({
+    ...row,
+    mcp_tools: TOOLS.filter(tool => tool.endpoint === row.function_name).map(tool => ({
+      name: tool.name,
+      auth: tool.auth,
+      ...(tool.actions ? {
+        actions: Object.fromEntries(Object.entries(tool.actions).map(([name, action]) => [name, action.description || '']))
+      } : {})
+    }))
+  }))
+}
+
+function isAvailableOn(tool: ToolDefinition, server: McpServerKind): boolean {
+  return !tool.servers || tool.servers.includes(server)
+}
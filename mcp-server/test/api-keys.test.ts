@@ -0,0 +1,57 @@
+// API key status and IP allowlists (functions/_shared/security.ts)
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { isIpAllowed, isValidIpEntry, keyStatus } from "../../functions/_shared/security.ts";
+
+describe("keyStatus", () => {
+  const now = new Date("2026-06-01T12:00:00Z");
+
+  it("is active without expiry or rotation", () => {
+    assert.equal(keyStatus({ is_active: true }, now), "active");
+    assert.equal(keyStatus({ is_active: true, expires_at: "2026-07-01T00:00:00Z" }, now), "active");
+  });
+
+  it("is revoked when inactive, even if also expired or rotated", () => {
+    assert.equal(keyStatus({ is_active: false, expires_at: "2026-01-01T00:00:00Z", rotated_at: "2026-01-01T00:00:00Z" }, now), "revoked");
+  });
+
+  it("is expired once expires_at has passed", () => {
+    assert.equal(keyStatus({ is_active: true, expires_at: "2026-06-01T11:59:59Z" }, now), "expired");
+  });
+
+  it("is rotating during a rotation grace period, expired after it", () => {
+    const rotated = { is_active: true, rotated_at: "2026-06-01T00:00:00Z", expires_at: "2026-06-02T00:00:00Z" };
+    assert.equal(keyStatus(rotated, now), "rotating");
+    assert.equal(keyStatus(rotated, new Date("2026-06-03T00:00:00Z")), "expired");
+  });
+});
+
+describe("isValidIpEntry", () => {
+  it("accepts IPv4, IPv4 CIDR and IPv6 addresses", () => {
+    for (const entry of ["203.0.113.7", "10.0.0.0/8", "0.0.0.0/0", "2001:db8::1"]) {
+      assert.equal(isValidIpEntry(entry), true, entry);
+    }
+  });
+
+  it("rejects malformed entries", () => {
+    for (const entry of ["256.1.1.1", "10.0.0/8", "10.0.0.0/33", "10.0.0.0/8/1", "2001:db8::/32", "example.com", ""]) {
+      assert.equal(isValidIpEntry(entry), false, entry);
+    }
+  });
+});
+
+describe("isIpAllowed", () => {
+  it("allows any IP with an empty allowlist", () => {
+    assert.equal(isIpAllowed("198.51.100.1", []), true);
+  });
+
+  it("matches exact IPs case-insensitively and CIDR ranges", () => {
+    const allowlist = ["203.0.113.7", "10.1.0.0/16", "2001:DB8::1"];
+    assert.equal(isIpAllowed("203.0.113.7", allowlist), true);
+    assert.equal(isIpAllowed("10.1.255.3", allowlist), true);
+    assert.equal(isIpAllowed("2001:db8::1", allowlist), true);
+    assert.equal(isIpAllowed("10.2.0.1", allowlist), false);
+    assert.equal(isIpAllowed("203.0.113.8", allowlist), false);
+  });
+});
@@ -0,0 +1,4 @@
+// The part of the Deno namespace the shared modules use (see setup.mjs)
+declare const Deno: {
+  env: { get(name: string): string | undefined }
+};
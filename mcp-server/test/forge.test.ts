@@ -0,0 +1,173 @@
+// Forge tools against the in-memory fake, and GitHub issue paging
+// against a stubbed fetch. Run: npm test
+
+import { afterEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  createFakeForge,
+  createForgeProvider,
+  forgeConfigFromEnv,
+  handleForgeTool,
+  type CodeSearchHit,
+  type FakeForgeData,
+  type ForgeProvider,
+  type Issue,
+} from "../src/forge.js";
+
+type IssueList = { state: string; count: number; issues: Issue[] };
+type CodeResults = { count: number; results: CodeSearchHit[] };
+
+const listIssues = (forge: ForgeProvider, args: Record<string, unknown>) =>
+  handleForgeTool(forge, "list_issues", args) as Promise<IssueList>;
+const searchCode = (forge: ForgeProvider, args: Record<string, unknown>) =>
+  handleForgeTool(forge, "search_code", args) as Promise<CodeResults>;
+
+function issue(number: number, fields: Partial<Issue> = {}): Issue {
+  return {
+    number,
+    title: `Issue ${number}`,
+    state: "open",
+    labels: [],
+    author: "octocat",
+    url: `https://example.com/issues/${number}`,
+    comments: 0,
+    created_at: "2026-01-01T00:00:00Z",
+    updated_at: `2026-01-${String(number).padStart(2, "0")}T00:00:00Z`,
+    body: "",
+    ...fields,
+  };
+}
+
+const data: FakeForgeData = {
+  issues: [
+    issue(1, { state: "closed", labels: ["bug"] }),
+    issue(2, { labels: ["bug", "billing"] }),
+    issue(3, { labels: ["enhancement"], body: "x".repeat(600) }),
+  ],
+  files: {
+    "functions/a/index.ts": "const Alpha = 1\nconst beta = 2\nconst ALPHA = 3",
+    "docs/guide.md": "alpha in the docs",
+  },
+};
+
+describe("fake forge: list_issues", () => {
+  const forge = createFakeForge(data);
+
+  it("returns open issues, most recently updated first", async () => {
+    const result = await listIssues(forge, {});
+    assert.equal(result.state, "open");
+    assert.deepEqual(result.issues.map(i => i.number), [3, 2]);
+  });
+
+  it("filters by state and requires every label", async () => {
+    const all = await listIssues(forge, { state: "all", labels: "bug" });
+    assert.deepEqual(all.issues.map(i => i.number), [2, 1]);
+
+    const both = await listIssues(forge, { state: "all", labels: ["bug", "billing"] });
+    assert.deepEqual(both.issues.map(i => i.number), [2]);
+  });
+
+  it("applies the limit and truncates bodies", async () => {
+    const result = await listIssues(forge, { limit: 1 });
+    assert.equal(result.count, 1);
+    assert.equal(result.issues[0].body, `${"x".repeat(500)}...`);
+  });
+
+  it("rejects an unknown state", async () => {
+    await assert.rejects(listIssues(forge, { state: "merged" }), { code: "VALIDATION_ERROR" });
+  });
+});
+
+describe("fake forge: search_code", () => {
+  const forge = createFakeForge(data);
+
+  it("matches case-insensitively with line numbers", async () => {
+    const result = await searchCode(forge, { query: "alpha" });
+    assert.equal(result.count, 2);
+    assert.deepEqual(result.results[0], {
+      path: "functions/a/index.ts",
+      url: null,
+      matches: [{ line: 1, text: "const Alpha = 1" }, { line: 3, text: "const ALPHA = 3" }],
+    });
+  });
+
+  it("only searches under path", async () => {
+    const result = await searchCode(forge, { query: "alpha", path: "/docs" });
+    assert.deepEqual(result.results.map(r => r.path), ["docs/guide.md"]);
+  });
+
+  it("requires a query", async () => {
+    await assert.rejects(searchCode(forge, { query: "  " }), { code: "VALIDATION_ERROR" });
+  });
+});
+
+describe("forgeConfigFromEnv", () => {
+  const env = (vars: Record<string, string>) => (name: string) => vars[name];
+
+  it("uses the sample data for the fake provider", async () => {
+    const forge = createForgeProvider(forgeConfigFromEnv(env({ FORGE_PROVIDER: "fake" })));
+    assert.equal(forge.repo, "local/fake");
+    assert.ok((await forge.listIssues({})).length > 0);
+  });
+
+  it("reads fake data from FORGE_FAKE_DATA", async () => {
+    const config = forgeConfigFromEnv(env({ FORGE_PROVIDER: "fake", FORGE_FAKE_DATA: JSON.stringify(data) }));
+    const forge = createForgeProvider(config);
+    assert.deepEqual((await forge.listIssues({ state: "closed" })).map(i => i.number), [1]);
+  });
+
+  it("rejects invalid FORGE_FAKE_DATA", () => {
+    assert.throws(
+      () => forgeConfigFromEnv(env({ FORGE_PROVIDER: "fake", FORGE_FAKE_DATA: "{issues:" })),
+      { name: "ForgeError", code: "FORGE_CONFIG" }
+    );
+  });
+
+  it("rejects unknown providers and a missing repo", () => {
+    assert.throws(() => forgeConfigFromEnv(env({ FORGE_PROVIDER: "svn" })), { code: "FORGE_NOT_CONFIGURED" });
+    assert.throws(() => forgeConfigFromEnv(env({})), { code: "FORGE_NOT_CONFIGURED" });
+  });
+});
+
+describe("github: list_issues", () => {
+  const realFetch = globalThis.fetch;
+  afterEach(() => { globalThis.fetch = realFetch; });
+
+  // Pages of 100 where every other item is a pull request
+  function stubPages(pages: number) {
+    const requested: string[] = [];
+    globalThis.fetch = (async (url: string) => {
+      requested.push(url);
+      const page = Number(new URL(url).searchParams.get("page"));
+      const items = page > pages ? [] : Array.from({ length: 100 }, (_, i) => ({
+        number: page * 1000 + i,
+        title: "t",
+        state: "open",
+        labels: [],
+        html_url: "https://github.com/o/r/issues/1",
+        ...(i % 2 === 0 ? { pull_request: {} } : {}),
+      }));
+      return new Response(JSON.stringify(items), { status: 200 });
+    }) as typeof fetch;
+    return requested;
+  }
+
+  it("keeps paging past pull requests until the limit is reached", async () => {
+    const requested = stubPages(5);
+    const forge = createForgeProvider({ provider: "github", repo: "o/r" });
+
+    const issues = await forge.listIssues({ limit: 80 });
+    assert.equal(issues.length, 80);
+    assert.equal(requested.length, 2);
+    assert.ok(issues.every(i => i.number % 2 === 1));
+  });
+
+  it("stops at the last page", async () => {
+    const requested = stubPages(1);
+    const forge = createForgeProvider({ provider: "github", repo: "o/r" });
+
+    const issues = await forge.listIssues({ limit: 100 });
+    assert.equal(issues.length, 50);
+    assert.equal(requested.length, 2);
+  });
+});
@@ -0,0 +1,43 @@
+// GDPR export bundles (functions/_shared/privacy.ts)
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { strFromU8, unzipSync } from "fflate";
+import { buildBundle } from "../../functions/_shared/privacy.ts";
+
+const manifest = { request_id: "req-1", scope: "user", format: "zip" };
+const data = {
+  profiles: [{ id: "u1", email: "ada@example.com" }],
+  activity_log: [{ id: "a1", action: "login" }, { id: "a2", action: "logout" }],
+  api_keys: [],
+};
+
+const parseLines = (text: string) => text.trimEnd().split("\n").map((line) => JSON.parse(line));
+
+describe("buildBundle", () => {
+  it("writes JSON lines: the manifest, then one line per row", () => {
+    const lines = parseLines(strFromU8(buildBundle("jsonl", manifest, data)));
+
+    assert.deepEqual(lines, [
+      { manifest },
+      { table: "profiles", row: { id: "u1", email: "ada@example.com" } },
+      { table: "activity_log", row: { id: "a1", action: "login" } },
+      { table: "activity_log", row: { id: "a2", action: "logout" } },
+    ]);
+  });
+
+  it("zips manifest.json and a JSON lines file per table", () => {
+    const files = unzipSync(buildBundle("zip", manifest, data));
+
+    assert.deepEqual(Object.keys(files).sort(), ["activity_log.jsonl", "manifest.json", "profiles.jsonl"]);
+    assert.deepEqual(JSON.parse(strFromU8(files["manifest.json"])), manifest);
+    assert.deepEqual(parseLines(strFromU8(files["activity_log.jsonl"])), data.activity_log);
+    assert.deepEqual(parseLines(strFromU8(files["profiles.jsonl"])), data.profiles);
+  });
+
+  it("leaves out empty tables", () => {
+    const lines = parseLines(strFromU8(buildBundle("jsonl", manifest, { api_keys: [] })));
+    assert.deepEqual(lines, [{ manifest }]);
+    assert.deepEqual(Object.keys(unzipSync(buildBundle("zip", manifest, { api_keys: [] }))), ["manifest.json"]);
+  });
+});
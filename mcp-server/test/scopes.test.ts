@@ -0,0 +1,61 @@
+// API key scope checks (functions/_shared/security.ts)
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { getMissingScopes, hasScope, isValidScope } from "../../functions/_shared/security.ts";
+
+describe("hasScope", () => {
+  it("grants an exact scope", () => {
+    assert.equal(hasScope(["usage:read"], "usage:read"), true);
+    assert.equal(hasScope(["usage:read"], "usage:write"), false);
+  });
+
+  it("grants a resource wildcard for that resource only", () => {
+    assert.equal(hasScope(["pages:*"], "pages:deploy"), true);
+    assert.equal(hasScope(["pages:*"], "domains:read"), false);
+  });
+
+  it("grants everything for * and legacy write", () => {
+    assert.equal(hasScope(["*"], "billing:write"), true);
+    assert.equal(hasScope(["write"], "sub_saas:write"), true);
+  });
+
+  it("maps legacy read to every :read scope", () => {
+    assert.equal(hasScope(["read"], "analytics:read"), true);
+    assert.equal(hasScope(["read"], "usage:write"), false);
+  });
+
+  it("maps legacy deploy to pages:deploy only", () => {
+    assert.equal(hasScope(["deploy"], "pages:deploy"), true);
+    assert.equal(hasScope(["deploy"], "pages:read"), false);
+  });
+
+  it("grants nothing without scopes", () => {
+    assert.equal(hasScope([], "usage:read"), false);
+  });
+});
+
+describe("getMissingScopes", () => {
+  it("returns the required scopes the key lacks, in order", () => {
+    assert.deepEqual(getMissingScopes(["usage:read", "pages:*"], ["usage:write", "pages:deploy", "team:read"]), ["usage:write", "team:read"]);
+  });
+
+  it("returns nothing when everything is granted", () => {
+    assert.deepEqual(getMissingScopes(["read"], ["usage:read", "billing:read"]), []);
+    assert.deepEqual(getMissingScopes([], []), []);
+  });
+});
+
+describe("isValidScope", () => {
+  it("accepts known, legacy and resource wildcard scopes", () => {
+    for (const scope of ["usage:read", "read", "write", "deploy", "*", "billing:*"]) {
+      assert.equal(isValidScope(scope), true, scope);
+    }
+  });
+
+  it("rejects unknown scopes and wildcards", () => {
+    for (const scope of ["usage:delete", "nope:*", "usage", ""]) {
+      assert.equal(isValidScope(scope), false, scope);
+    }
+  });
+});
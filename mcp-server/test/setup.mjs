@@ -0,0 +1,18 @@
+// Lets tests import the Edge Functions' shared modules (written for Deno):
+// esm.sh URLs load the same packages from mcp-server's node_modules, and
+// Deno.env reads process.env. Loaded with --import by npm test.
+// tsx loads files outside this package as CommonJS, so the CommonJS
+// resolver is the one to extend.
+
+import Module, { createRequire } from "node:module";
+
+const ESM_SH = /^https:\/\/esm\.sh\/((?:@[^/]+\/)?[^@/]+)(?:@[^/]+)?(\/.*)?$/;
+const require = createRequire(import.meta.url);
+
+globalThis.Deno = { env: { get: name => process.env[name] } };
+
+const resolveFilename = Module._resolveFilename;
+Module._resolveFilename = function (request, ...rest) {
+  const match = request.match(ESM_SH);
+  return match ? require.resolve(match[1] + (match[2] || "")) : resolveFilename.call(this, request, ...rest);
+};
@@ -0,0 +1,84 @@
+// Usage alert periods and settings (functions/_shared/usage-alerts.ts)
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { getUsageAlertConfig, periodKey } from "../../functions/_shared/usage-alerts.ts";
+import type { LimitCheck } from "../../functions/_shared/plans.ts";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function check(fields: Partial<LimitCheck>): LimitCheck {
+  return {
+    allowed: true,
+    allowed_with_overage: false,
+    overage: 0,
+    feature: "api_calls",
+    current: 80,
+    reserved: 0,
+    limit: 100,
+    hard_limit: null,
+    remaining: 20,
+    period: "month",
+    plan: "pro",
+    upgrade_required: false,
+    ...fields,
+  };
+}
+
+// global_config rows for the 'usage_alerts' key
+function configClient(rows: { scope: string; value: unknown }[]) {
+  const query = { select: () => query, eq: () => query, or: async () => ({ data: rows }) };
+  return { from: () => query } as unknown as Parameters<typeof getUsageAlertConfig>[0];
+}
+
+describe("periodKey", () => {
+  it("keys calendar and billing periods on their start", () => {
+    assert.equal(periodKey(check({ period: "month", period_start: "2026-10-01T00:00:00+00:00" })), "month:2026-10-01T00:00:00+00:00");
+    assert.equal(periodKey(check({ period: "billing_period", period_start: "2026-10-15T10:00:00+00:00" })), "billing_period:2026-10-15T10:00:00+00:00");
+  });
+
+  it("gives each new period its own key", () => {
+    const october = periodKey(check({ period: "daily", period_start: "2026-10-19T00:00:00+00:00" }));
+    const next = periodKey(check({ period: "daily", period_start: "2026-10-20T00:00:00+00:00" }));
+    assert.notEqual(october, next);
+  });
+
+  it("uses one key for all-time limits", () => {
+    assert.equal(periodKey(check({ period: "total", period_start: "2026-10-01T00:00:00+00:00" })), "total");
+  });
+
+  it("uses fixed 30-day windows for rolling limits", () => {
+    const key = periodKey(check({ period: "rolling_30d" }));
+    assert.equal(key, `rolling_30d:${Math.floor(Date.now() / (30 * DAY_MS))}`);
+  });
+});
+
+describe("getUsageAlertConfig", () => {
+  it("defaults to 80% and 100% on every channel", async () => {
+    assert.deepEqual(await getUsageAlertConfig(configClient([]), "tenant"), {
+      thresholds: [80, 100],
+      features: {},
+      channels: ["email", "webhook", "in_app"],
+    });
+  });
+
+  it("lets the tenant's settings override the global ones", async () => {
+    const config = await getUsageAlertConfig(configClient([
+      { scope: "global", value: { thresholds: [50], channels: ["email"] } },
+      { scope: "tenant", value: { channels: ["webhook"] } },
+    ]), "tenant");
+    assert.deepEqual(config.thresholds, [50]);
+    assert.deepEqual(config.channels, ["webhook"]);
+  });
+
+  it("sorts thresholds and drops invalid thresholds and channels", async () => {
+    const config = await getUsageAlertConfig(configClient([
+      { scope: "global", value: {
+        thresholds: [100, "90", -5, "x", 0],
+        features: { storage: [95, 75] },
+        channels: ["in_app", "sms"],
+      } },
+    ]), "tenant");
+    assert.deepEqual(config, { thresholds: [90, 100], features: { storage: [75, 95] }, channels: ["in_app"] });
+  });
+});
@@ -0,0 +1,163 @@
+// Limit and billing periods (sql/28-usage-rollups.sql), run in an
+// in-process Postgres (PGlite) against a minimal tenants table
+
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import { PGlite } from "@electric-sql/pglite";
+
+const SQL = readFileSync(new URL("../../sql/28-usage-rollups.sql", import.meta.url), "utf8");
+
+// CREATE FUNCTION statement of one function in the migration
+function functionSql(name: string): string {
+  const match = SQL.match(new RegExp(`CREATE OR REPLACE FUNCTION public\\.${name}\\([\\s\\S]*?\\n\\$\\$;`));
+  assert.ok(match, `${name} not found`);
+  return match[0];
+}
+
+// Same calendar-month step as Stripe: the anchor's day, clamped to the month's end
+function addMonths(anchor: Date, months: number): Date {
+  const date = new Date(anchor);
+  date.setUTCDate(1);
+  date.setUTCMonth(date.getUTCMonth() + months);
+  const lastDay = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+  date.setUTCDate(Math.min(anchor.getUTCDate(), lastDay));
+  return date;
+}
+
+let db: PGlite;
+
+before(async () => {
+  db = new PGlite();
+  await db.exec(`
+    CREATE TABLE public.tenants (
+      id UUID PRIMARY KEY,
+      timezone TEXT,
+      current_period_start TIMESTAMPTZ,
+      current_period_end TIMESTAMPTZ
+    );
+    ${functionSql("billing_period_at")}
+    ${functionSql("usage_period_start")}
+  `);
+});
+
+after(async () => {
+  await db.close();
+});
+
+async function billingPeriodAt(start: string, end: string, at: string) {
+  const { rows } = await db.query<{ period_start: Date; period_end: Date }>(
+    "SELECT period_start, period_end FROM public.billing_period_at($1, $2, $3)",
+    [start, end, at]
+  );
+  return { start: rows[0].period_start.toISOString(), end: rows[0].period_end.toISOString() };
+}
+
+let tenantCount = 0;
+async function periodStart(period: string, tenant: { timezone?: string; start?: string; end?: string } = {}) {
+  const id = `00000000-0000-0000-0000-${String(++tenantCount).padStart(12, "0")}`;
+  await db.query(
+    "INSERT INTO public.tenants (id, timezone, current_period_start, current_period_end) VALUES ($1, $2, $3, $4)",
+    [id, tenant.timezone ?? null, tenant.start ?? null, tenant.end ?? null]
+  );
+  // As epoch milliseconds: -infinity isn't a valid Date
+  const { rows } = await db.query<{ start: number }>(
+    "SELECT EXTRACT(EPOCH FROM public.usage_period_start($1, $2))::FLOAT8 * 1000 AS start",
+    [id, period]
+  );
+  return rows[0].start;
+}
+
+describe("billing_period_at", () => {
+  it("steps monthly periods by calendar month from the known start", async () => {
+    const start = "2026-01-31T10:00:00.000Z";
+    const end = "2026-02-28T10:00:00.000Z";
+    assert.deepEqual(await billingPeriodAt(start, end, "2026-03-15T00:00:00Z"), {
+      start: "2026-02-28T10:00:00.000Z",
+      end: "2026-03-31T10:00:00.000Z",
+    });
+    assert.deepEqual(await billingPeriodAt(start, end, "2026-05-01T00:00:00Z"), {
+      start: "2026-04-30T10:00:00.000Z",
+      end: "2026-05-31T10:00:00.000Z",
+    });
+  });
+
+  it("doesn't drift over a year of monthly periods", async () => {
+    const period = await billingPeriodAt("2026-01-15T10:00:00Z", "2026-02-15T10:00:00Z", "2027-01-20T00:00:00Z");
+    assert.deepEqual(period, { start: "2027-01-15T10:00:00.000Z", end: "2027-02-15T10:00:00.000Z" });
+  });
+
+  it("starts the next period exactly at the boundary", async () => {
+    const period = await billingPeriodAt("2026-01-15T10:00:00Z", "2026-02-15T10:00:00Z", "2026-03-15T10:00:00Z");
+    assert.equal(period.start, "2026-03-15T10:00:00.000Z");
+  });
+
+  it("steps quarterly and yearly periods by months", async () => {
+    assert.deepEqual(await billingPeriodAt("2026-01-31T00:00:00Z", "2026-04-30T00:00:00Z", "2026-08-01T00:00:00Z"), {
+      start: "2026-07-31T00:00:00.000Z",
+      end: "2026-10-31T00:00:00.000Z",
+    });
+    assert.deepEqual(await billingPeriodAt("2024-02-29T00:00:00Z", "2025-02-28T00:00:00Z", "2026-06-01T00:00:00Z"), {
+      start: "2026-02-28T00:00:00.000Z",
+      end: "2027-02-28T00:00:00.000Z",
+    });
+  });
+
+  it("steps weekly periods by their length", async () => {
+    assert.deepEqual(await billingPeriodAt("2026-01-01T00:00:00Z", "2026-01-08T00:00:00Z", "2026-01-20T00:00:00Z"), {
+      start: "2026-01-15T00:00:00.000Z",
+      end: "2026-01-22T00:00:00.000Z",
+    });
+  });
+
+  it("steps back for a time before the known period", async () => {
+    assert.deepEqual(await billingPeriodAt("2026-03-31T00:00:00Z", "2026-04-30T00:00:00Z", "2026-02-10T00:00:00Z"), {
+      start: "2026-01-31T00:00:00.000Z",
+      end: "2026-02-28T00:00:00.000Z",
+    });
+  });
+});
+
+describe("usage_period_start", () => {
+  it("has no start for total", async () => {
+    assert.equal(await periodStart("total"), -Infinity);
+  });
+
+  it("starts daily periods at midnight in the tenant's timezone", async () => {
+    const start = new Date(await periodStart("daily", { timezone: "Asia/Tokyo" }));
+    const elapsed = Date.now() - start.getTime();
+    assert.ok(elapsed >= 0 && elapsed < 24 * 60 * 60 * 1000);
+    // Tokyo is UTC+9 without daylight saving time
+    assert.equal(start.getUTCHours(), 15);
+    assert.equal(start.getUTCMinutes(), 0);
+  });
+
+  it("starts rolling_30d periods 30 days ago, to the hour", async () => {
+    const start = new Date(await periodStart("rolling_30d"));
+    const expected = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
+    expected.setUTCMinutes(0, 0, 0);
+    assert.ok(Math.abs(start.getTime() - expected.getTime()) <= 60 * 60 * 1000);
+    assert.equal(start.getUTCMinutes(), 0);
+  });
+
+  it("rolls a stale billing period forward by calendar months", async () => {
+    const anchor = new Date("2025-01-31T10:30:00Z");
+    const start = new Date(await periodStart("billing_period", {
+      start: anchor.toISOString(),
+      end: "2025-02-28T10:30:00Z",
+    }));
+
+    let months = 0;
+    while (addMonths(anchor, months + 1).getTime() <= Date.now()) months++;
+    const expected = addMonths(anchor, months);
+    expected.setUTCMinutes(0);
+
+    assert.equal(start.toISOString(), expected.toISOString());
+  });
+
+  it("uses the calendar month without a subscription", async () => {
+    const start = new Date(await periodStart("billing_period", { timezone: "UTC" }));
+    const now = new Date();
+    assert.equal(start.toISOString(), new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)).toISOString());
+  });
+});
@@ -0,0 +1,96 @@
+-- =====================================================
+-- DISTRIBUTED RATE LIMITING
+-- Shared counters for createHandler across all isolates
+-- Sliding window (weighted previous + current window)
+-- =====================================================
+
+-- 1. Rate limit buckets (one row per key per fixed window)
+CREATE TABLE IF NOT EXISTS public.rate_limit_buckets (
+    key TEXT NOT NULL,                      -- e.g., 'ip:1.2.3.4:/track-usage', 'key:<uuid>', 'tenant:<uuid>'
+    window_start TIMESTAMPTZ NOT NULL,
+    window_seconds INTEGER NOT NULL,
+    count INTEGER NOT NULL DEFAULT 0,
+    updated_at TIMESTAMPTZ DEFAULT now(),
+    PRIMARY KEY (key, window_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_limit_buckets_window ON public.rate_limit_buckets(window_start);
+
+-- RLS (service role only, written by Edge Functions)
+ALTER TABLE public.rate_limit_buckets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role only" ON public.rate_limit_buckets
+    FOR ALL USING (auth.role() = 'service_role');
+
+-- 2. Atomic check-and-increment
+-- Counts the request in the current window and weighs the previous
+-- window by how much of it still overlaps the sliding window.
+CREATE OR REPLACE FUNCTION public.check_rate_limit(
+    p_key TEXT,
+    p_limit INTEGER,
+    p_window_seconds INTEGER DEFAULT 60
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _now TIMESTAMPTZ := clock_timestamp();
+    _window_start TIMESTAMPTZ;
+    _current INTEGER;
+    _previous INTEGER;
+    _elapsed NUMERIC;
+    _weighted NUMERIC;
+BEGIN
+    _window_start := to_timestamp(floor(extract(epoch FROM _now) / p_window_seconds) * p_window_seconds);
+    _elapsed := extract(epoch FROM (_now - _window_start)) / p_window_seconds;
+
+    INSERT INTO public.rate_limit_buckets (key, window_start, window_seconds, count)
+    VALUES (p_key, _window_start, p_window_seconds, 1)
+    ON CONFLICT (key, window_start) DO UPDATE
+        SET count = public.rate_limit_buckets.count + 1,
+            updated_at = now()
+    RETURNING count INTO _current;
+
+    SELECT count INTO _previous
+    FROM public.rate_limit_buckets
+    WHERE key = p_key
+    AND window_start = _window_start - make_interval(secs => p_window_seconds);
+
+    _weighted := COALESCE(_previous, 0) * (1 - _elapsed) + _current;
+
+    RETURN jsonb_build_object(
+        'allowed', _weighted <= p_limit,
+        'limit', p_limit,
+        'remaining', GREATEST(0, floor(p_limit - _weighted))::INTEGER,
+        'reset_in_ms', ceil((1 - _elapsed) * p_window_seconds * 1000)::INTEGER
+    );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.check_rate_limit(TEXT, INTEGER, INTEGER) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.check_rate_limit(TEXT, INTEGER, INTEGER) FROM anon;
+REVOKE ALL ON FUNCTION public.check_rate_limit(TEXT, INTEGER, INTEGER) FROM authenticated;
+
+-- 3. Seed: Plan-driven request limits (requests per minute, -1 = unlimited)
+INSERT INTO public.plan_limits (plan, feature, limit_value, period) VALUES
+('free', 'api_rate_limit', 60, 'minute'),
+('starter', 'api_rate_limit', 300, 'minute'),
+('pro', 'api_rate_limit', 1000, 'minute'),
+('enterprise', 'api_rate_limit', -1, 'minute')
+ON CONFLICT (plan, feature) DO UPDATE SET
+    limit_value = EXCLUDED.limit_value,
+    period = EXCLUDED.period,
+    updated_at = now();
+
+-- 4. Seed: Cleanup job for expired buckets
+INSERT INTO public.cron_job_registry (job_name, description, category, schedule, command, is_system, alert_on_failure) VALUES
+('cleanup-rate-limit-buckets', 'Delete rate limit buckets older than 1 hour', 'cleanup', '*/15 * * * *',
+ 'DELETE FROM public.rate_limit_buckets WHERE window_start < now() - interval ''1 hour''', true, false)
+ON CONFLICT (job_name) DO UPDATE SET
+    description = EXCLUDED.description,
+    category = EXCLUDED.category,
+    schedule = EXCLUDED.schedule,
+    command = EXCLUDED.command,
+    updated_at = now();
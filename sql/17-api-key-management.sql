@@ -0,0 +1,23 @@
+-- =====================================================
+-- API KEY MANAGEMENT
+-- Rotation with overlap window and per-key IP allowlists
+-- Used by manage-api-keys and validateApiKey
+-- =====================================================
+
+-- 1. Rotation lineage: the new key points at the key it replaced.
+-- During the overlap window the old key stays active with expires_at
+-- set to the end of the window.
+ALTER TABLE public.api_keys
+    ADD COLUMN IF NOT EXISTS rotated_from UUID REFERENCES public.api_keys(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS rotated_at TIMESTAMPTZ;
+
+-- 2. IP allowlist (exact IPs or IPv4 CIDR ranges, empty = any IP)
+ALTER TABLE public.api_keys
+    ADD COLUMN IF NOT EXISTS ip_allowlist TEXT[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS idx_api_keys_rotated_from ON public.api_keys(rotated_from);
+
+-- 3. Register function
+INSERT INTO public.function_registry (function_name, description, category, is_critical, required_secrets, required_tables) VALUES
+('manage-api-keys', 'List, revoke, rotate and restrict API keys', 'developer', false, ARRAY[]::TEXT[], ARRAY['api_keys', 'activity_log'])
+ON CONFLICT (function_name) DO NOTHING;
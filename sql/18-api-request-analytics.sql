@@ -0,0 +1,65 @@
+-- =====================================================
+-- API REQUEST ANALYTICS
+-- Per-key request counts, error rates and latency
+-- api_request_log is written by createHandler for API key requests
+-- =====================================================
+
+-- 1. Reporting indexes
+CREATE INDEX IF NOT EXISTS idx_api_request_log_tenant_created ON public.api_request_log(tenant_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_api_request_log_key_created ON public.api_request_log(api_key_id, created_at DESC);
+
+-- 2. Per-key stats over a time range
+CREATE OR REPLACE FUNCTION public.get_api_request_stats(
+    p_tenant_id UUID,
+    p_start TIMESTAMPTZ DEFAULT now() - INTERVAL '7 days',
+    p_end TIMESTAMPTZ DEFAULT now(),
+    p_api_key_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+    api_key_id UUID,
+    key_name TEXT,
+    key_prefix TEXT,
+    request_count BIGINT,
+    error_count BIGINT,
+    error_rate NUMERIC,
+    avg_latency_ms NUMERIC,
+    p95_latency_ms NUMERIC,
+    last_request_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT
+        l.api_key_id,
+        k.name,
+        k.key_prefix,
+        COUNT(*) AS request_count,
+        COUNT(*) FILTER (WHERE l.status_code >= 400) AS error_count,
+        ROUND(COUNT(*) FILTER (WHERE l.status_code >= 400)::NUMERIC / COUNT(*), 4) AS error_rate,
+        ROUND(AVG(l.response_time_ms)::NUMERIC, 1) AS avg_latency_ms,
+        ROUND((percentile_cont(0.95) WITHIN GROUP (ORDER BY l.response_time_ms))::NUMERIC, 1) AS p95_latency_ms,
+        MAX(l.created_at) AS last_request_at
+    FROM public.api_request_log l
+    LEFT JOIN public.api_keys k ON k.id = l.api_key_id
+    WHERE l.tenant_id = p_tenant_id
+      AND l.created_at >= p_start
+      AND l.created_at < p_end
+      AND (p_api_key_id IS NULL OR l.api_key_id = p_api_key_id)
+    GROUP BY l.api_key_id, k.name, k.key_prefix
+    ORDER BY request_count DESC;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_api_request_stats(UUID, TIMESTAMPTZ, TIMESTAMPTZ, UUID) FROM PUBLIC, anon, authenticated;
+
+-- 3. Seed: Retention job (90 days)
+INSERT INTO public.cron_job_registry (job_name, description, category, schedule, command, is_system, alert_on_failure) VALUES
+('cleanup-api-request-log', 'Delete API request logs older than 90 days', 'cleanup', '30 3 * * *',
+ 'DELETE FROM public.api_request_log WHERE created_at < now() - interval ''90 days''', true, false)
+ON CONFLICT (job_name) DO UPDATE SET
+    description = EXCLUDED.description,
+    category = EXCLUDED.category,
+    schedule = EXCLUDED.schedule,
+    command = EXCLUDED.command,
+    updated_at = now();
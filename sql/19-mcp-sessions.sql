@@ -0,0 +1,36 @@
+-- =====================================================
+-- MCP SESSIONS
+-- Streamable HTTP sessions for the hosted MCP server
+-- (functions/mcp-server, POST /mcp). One row per Mcp-Session-Id,
+-- shared by all isolates; expiry slides with each request.
+-- =====================================================
+
+-- 1. Sessions
+CREATE TABLE IF NOT EXISTS public.mcp_sessions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    protocol_version TEXT NOT NULL,         -- Negotiated in initialize, e.g. '2025-06-18'
+    client_info JSONB,                      -- { name, version } from the client
+    client_capabilities JSONB,
+    created_at TIMESTAMPTZ DEFAULT now(),
+    last_seen_at TIMESTAMPTZ DEFAULT now(),
+    expires_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_mcp_sessions_expires ON public.mcp_sessions(expires_at);
+
+-- RLS (service role only, written by the MCP server)
+ALTER TABLE public.mcp_sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role only" ON public.mcp_sessions
+    FOR ALL USING (auth.role() = 'service_role');
+
+-- 2. Seed: Cleanup job for expired sessions
+INSERT INTO public.cron_job_registry (job_name, description, category, schedule, command, is_system, alert_on_failure) VALUES
+('cleanup-mcp-sessions', 'Delete expired MCP sessions', 'cleanup', '45 * * * *',
+ 'DELETE FROM public.mcp_sessions WHERE expires_at < now()', true, false)
+ON CONFLICT (job_name) DO UPDATE SET
+    description = EXCLUDED.description,
+    category = EXCLUDED.category,
+    schedule = EXCLUDED.schedule,
+    command = EXCLUDED.command,
+    updated_at = now();
@@ -0,0 +1,16 @@
+-- =====================================================
+-- MCP SESSION SIGN-IN
+-- Per-session user for the hosted MCP server: auth_sign_in
+-- within an MCP session stores the tokens here, and later
+-- calls in that session run as the user. The server refreshes
+-- the access token shortly before token_expires_at.
+-- =====================================================
+
+-- 1. Signed-in user and tokens (service role only, see 19-mcp-sessions.sql)
+ALTER TABLE public.mcp_sessions
+    ADD COLUMN IF NOT EXISTS user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+    ADD COLUMN IF NOT EXISTS access_token TEXT,
+    ADD COLUMN IF NOT EXISTS refresh_token TEXT,
+    ADD COLUMN IF NOT EXISTS token_expires_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_mcp_sessions_user ON public.mcp_sessions(user_id) WHERE user_id IS NOT NULL;
@@ -0,0 +1,137 @@
+-- =====================================================
+-- METERED BILLING
+-- Reports overage to Stripe metered prices, per Stripe billing
+-- period (usage_events in the period, see metered_period_usage)
+-- manage-billing report_usage runs hourly (cron) and is
+-- idempotent: it only reports totals that changed, and Stripe
+-- dedupes retries by Idempotency-Key.
+-- Metered prices must use aggregate_usage = last_during_period:
+-- each report sets the running overage total for the period.
+-- Reports use Stripe's legacy usage records API, so manage-billing
+-- pins Stripe API version 2023-10-16 for them (removed in
+-- 2025-03-31.basil in favor of billing meters).
+-- =====================================================
+
+-- 1. Feature -> Stripe metered price, per plan
+-- Only features with a plan limit can be metered; usage above the
+-- limit (plan_limits.limit_value) is reported as overage.
+CREATE TABLE IF NOT EXISTS public.metered_prices (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    plan TEXT NOT NULL,
+    feature TEXT NOT NULL,
+    stripe_price_id TEXT NOT NULL,
+    unit_label TEXT,                        -- e.g. 'API call', from the Stripe price
+    is_active BOOLEAN DEFAULT true,
+    created_at TIMESTAMPTZ DEFAULT now(),
+    updated_at TIMESTAMPTZ DEFAULT now(),
+    UNIQUE(plan, feature),
+    FOREIGN KEY (plan, feature) REFERENCES public.plan_limits(plan, feature) ON DELETE CASCADE
+);
+
+-- 2. Report log (one row per report sent to Stripe, or failed).
+-- The latest 'reported' row per period is what Stripe bills.
+CREATE TABLE IF NOT EXISTS public.usage_reports (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+    feature TEXT NOT NULL,
+    period_start TIMESTAMPTZ NOT NULL,      -- Stripe billing period the report belongs to
+    usage_value INTEGER NOT NULL,           -- Usage in the billing period at report time
+    included INTEGER NOT NULL,              -- plan limit at report time
+    quantity INTEGER NOT NULL,              -- overage reported (usage_value - included)
+    usage_timestamp TIMESTAMPTZ NOT NULL,   -- timestamp sent to Stripe (within the billing period)
+    stripe_price_id TEXT NOT NULL,
+    stripe_subscription_item_id TEXT,
+    stripe_usage_record_id TEXT,
+    idempotency_key TEXT NOT NULL,
+    status TEXT NOT NULL CHECK (status IN ('reported', 'failed')),
+    error TEXT,
+    reported_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_usage_reports_tenant ON public.usage_reports(tenant_id, reported_at DESC);
+CREATE INDEX IF NOT EXISTS idx_usage_reports_price ON public.usage_reports(tenant_id, stripe_price_id, usage_timestamp DESC);
+
+-- RLS (service role only, written by manage-billing)
+ALTER TABLE public.metered_prices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.usage_reports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role only" ON public.metered_prices
+    FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role only" ON public.usage_reports
+    FOR ALL USING (auth.role() = 'service_role');
+
+-- 3. Usage and overage within a Stripe billing period
+-- [p_from, p_to). Overage follows the limit's own period: each daily,
+-- monthly or all-time window contributes the units above p_limit that
+-- were used inside [p_from, p_to); other periods apply the limit to the
+-- billing period itself.
+CREATE OR REPLACE FUNCTION public.metered_period_usage(
+    p_tenant_id UUID,
+    p_feature TEXT,
+    p_limit INTEGER,
+    p_period TEXT,
+    p_from TIMESTAMPTZ,
+    p_to TIMESTAMPTZ
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _tz TEXT;
+    _since TIMESTAMPTZ;
+    _usage BIGINT;
+    _overage BIGINT;
+BEGIN
+    -- tenants.timezone: 28-usage-rollups.sql
+    SELECT COALESCE(timezone, 'UTC') INTO _tz FROM public.tenants WHERE id = p_tenant_id;
+    _tz := COALESCE(_tz, 'UTC');
+
+    -- Earliest event that can count towards a window overlapping the period
+    _since := CASE p_period
+        WHEN 'total' THEN '-infinity'::TIMESTAMPTZ
+        WHEN 'daily' THEN date_trunc('day', p_from AT TIME ZONE _tz) AT TIME ZONE _tz
+        WHEN 'month' THEN date_trunc('month', p_from AT TIME ZONE _tz) AT TIME ZONE _tz
+        ELSE p_from
+    END;
+
+    SELECT
+        COALESCE(SUM(before_to - before_from), 0),
+        COALESCE(SUM(GREATEST(0, before_to - p_limit) - GREATEST(0, before_from - p_limit)), 0)
+    INTO _usage, _overage
+    FROM (
+        SELECT
+            COALESCE(SUM(quantity), 0) AS before_to,
+            COALESCE(SUM(quantity) FILTER (WHERE created_at < p_from), 0) AS before_from
+        FROM public.usage_events
+        WHERE tenant_id = p_tenant_id
+        AND feature = p_feature
+        AND created_at >= _since
+        AND created_at < p_to
+        GROUP BY CASE p_period
+            WHEN 'daily' THEN date_trunc('day', created_at AT TIME ZONE _tz)
+            WHEN 'month' THEN date_trunc('month', created_at AT TIME ZONE _tz)
+        END
+    ) windows;
+
+    RETURN jsonb_build_object('usage', _usage, 'overage', _overage);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.metered_period_usage(UUID, TEXT, INTEGER, TEXT, TIMESTAMPTZ, TIMESTAMPTZ) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.metered_period_usage(UUID, TEXT, INTEGER, TEXT, TIMESTAMPTZ, TIMESTAMPTZ) FROM anon;
+REVOKE ALL ON FUNCTION public.metered_period_usage(UUID, TEXT, INTEGER, TEXT, TIMESTAMPTZ, TIMESTAMPTZ) FROM authenticated;
+
+-- 4. Seed: Hourly usage report
+INSERT INTO public.cron_job_registry (job_name, description, category, schedule, command, is_system, alert_on_failure) VALUES
+('report-metered-usage', 'Report usage overage to Stripe metered prices', 'billing', '15 * * * *',
+ 'SELECT net.http_post(url := current_setting(''app.supabase_url'') || ''/functions/v1/manage-billing'', body := jsonb_build_object(''action'', ''report_usage''), headers := jsonb_build_object(''Content-Type'', ''application/json'', ''X-Cron-Secret'', current_setting(''app.cron_secret'')))', true, true)
+ON CONFLICT (job_name) DO UPDATE SET
+    description = EXCLUDED.description,
+    category = EXCLUDED.category,
+    schedule = EXCLUDED.schedule,
+    command = EXCLUDED.command,
+    updated_at = now();
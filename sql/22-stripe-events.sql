@@ -0,0 +1,83 @@
+-- =====================================================
+-- STRIPE EVENT LEDGER
+-- Every verified webhook event is recorded before it is applied
+-- (functions/stripe-webhook). Processing is idempotent on the
+-- Stripe event id, subscription changes are applied in event
+-- order, and events that keep failing are dead-lettered until
+-- an admin replays them (manage-billing replay_stripe_events).
+-- =====================================================
+
+-- 1. Events
+CREATE TABLE IF NOT EXISTS public.stripe_events (
+    id TEXT PRIMARY KEY,                    -- Stripe event id (evt_...)
+    type TEXT NOT NULL,                     -- e.g. 'customer.subscription.updated'
+    created TIMESTAMPTZ NOT NULL,           -- Stripe event.created, used for ordering
+    livemode BOOLEAN DEFAULT false,
+    tenant_id UUID REFERENCES public.tenants(id) ON DELETE SET NULL,
+    stripe_customer_id TEXT,
+    payload JSONB NOT NULL,                 -- Full event, so replays don't depend on Stripe
+    status TEXT NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'processing', 'processed', 'skipped', 'failed', 'dead_letter')),
+    skip_reason TEXT,                       -- e.g. 'out_of_order', 'unknown_customer', 'unhandled_type'
+    attempts INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT,
+    received_at TIMESTAMPTZ DEFAULT now(),
+    processing_started_at TIMESTAMPTZ,
+    processed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_stripe_events_tenant ON public.stripe_events(tenant_id, created);
+CREATE INDEX IF NOT EXISTS idx_stripe_events_status ON public.stripe_events(status, received_at);
+CREATE INDEX IF NOT EXISTS idx_stripe_events_customer ON public.stripe_events(stripe_customer_id, created);
+
+-- RLS (service role only, written by stripe-webhook)
+ALTER TABLE public.stripe_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role only" ON public.stripe_events
+    FOR ALL USING (auth.role() = 'service_role');
+
+-- 2. Last applied subscription event per tenant
+-- Older subscription events (delivered late or retried) are skipped.
+ALTER TABLE public.tenants
+    ADD COLUMN IF NOT EXISTS stripe_event_at TIMESTAMPTZ;
+
+-- 3. Claim an event for processing
+-- Returns the event when this caller may process it: new or failed
+-- events, events stuck in 'processing' (crashed isolate), and on
+-- replay anything not currently being processed.
+CREATE OR REPLACE FUNCTION public.claim_stripe_event(
+    p_event_id TEXT,
+    p_replay BOOLEAN DEFAULT false
+)
+RETURNS SETOF public.stripe_events
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    UPDATE public.stripe_events
+    SET status = 'processing',
+        attempts = CASE WHEN p_replay THEN 1 ELSE attempts + 1 END,
+        processing_started_at = now()
+    WHERE id = p_event_id
+    AND (
+        status IN ('pending', 'failed')
+        OR (p_replay AND status IN ('processed', 'skipped', 'dead_letter'))
+        OR (status = 'processing' AND processing_started_at < now() - interval '5 minutes')
+    )
+    RETURNING *;
+$$;
+
+REVOKE ALL ON FUNCTION public.claim_stripe_event(TEXT, BOOLEAN) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.claim_stripe_event(TEXT, BOOLEAN) FROM anon;
+REVOKE ALL ON FUNCTION public.claim_stripe_event(TEXT, BOOLEAN) FROM authenticated;
+
+-- 4. Seed: Cleanup job for old processed events
+INSERT INTO public.cron_job_registry (job_name, description, category, schedule, command, is_system, alert_on_failure) VALUES
+('cleanup-stripe-events', 'Delete processed Stripe events older than 90 days', 'cleanup', '30 3 * * *',
+ 'DELETE FROM public.stripe_events WHERE status IN (''processed'', ''skipped'') AND received_at < now() - interval ''90 days''', true, false)
+ON CONFLICT (job_name) DO UPDATE SET
+    description = EXCLUDED.description,
+    category = EXCLUDED.category,
+    schedule = EXCLUDED.schedule,
+    command = EXCLUDED.command,
+    updated_at = now();
@@ -0,0 +1,44 @@
+-- =====================================================
+-- SUBSCRIPTION LIFECYCLE
+-- Subscription state on tenants, kept in sync by stripe-webhook
+-- (see functions/_shared/stripe-events.ts). Replaces the
+-- payment_failed / failed_at flags previously written to
+-- tenants.settings.
+-- =====================================================
+
+-- 1. Subscription status model
+-- subscription_status mirrors Stripe's subscription.status;
+-- 'none' means the tenant never subscribed.
+ALTER TABLE public.tenants
+    ADD COLUMN IF NOT EXISTS stripe_subscription_id TEXT,
+    ADD COLUMN IF NOT EXISTS subscription_status TEXT NOT NULL DEFAULT 'none'
+        CHECK (subscription_status IN ('none', 'incomplete', 'incomplete_expired', 'trialing', 'active', 'past_due', 'unpaid', 'canceled', 'paused')),
+    ADD COLUMN IF NOT EXISTS current_period_end TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS cancel_at_period_end BOOLEAN NOT NULL DEFAULT false,
+    ADD COLUMN IF NOT EXISTS cancel_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS canceled_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS trial_ends_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS trial_will_end_at TIMESTAMPTZ,    -- customer.subscription.trial_will_end received
+    ADD COLUMN IF NOT EXISTS payment_failed_at TIMESTAMPTZ,    -- Oldest unresolved failed payment, cleared by invoice.paid
+    ADD COLUMN IF NOT EXISTS last_payment_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS last_invoice_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_tenants_stripe_subscription ON public.tenants(stripe_subscription_id);
+CREATE INDEX IF NOT EXISTS idx_tenants_subscription_status ON public.tenants(subscription_status);
+
+-- 2. Move the old settings flags
+UPDATE public.tenants
+SET payment_failed_at = COALESCE((settings->>'failed_at')::timestamptz, now()),
+    settings = settings - 'payment_failed' - 'failed_at'
+WHERE settings ? 'payment_failed';
+
+-- 3. Connect accounts: deauthorization, and the last applied account event
+ALTER TABLE public.stripe_connect_accounts
+    ADD COLUMN IF NOT EXISTS disconnected_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS stripe_event_at TIMESTAMPTZ;
+
+-- 4. Ledger: Connect events belong to the tenant owning the account
+ALTER TABLE public.stripe_events
+    ADD COLUMN IF NOT EXISTS stripe_account_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_stripe_events_account ON public.stripe_events(stripe_account_id, created);
@@ -0,0 +1,40 @@
+-- =====================================================
+-- DUNNING
+-- Failed payment -> grace period with reminder emails ->
+-- write actions restricted -> restored when an invoice is paid.
+-- Started and ended by stripe-webhook (invoice.payment_failed /
+-- invoice.paid), advanced hourly by manage-billing process_dunning.
+-- Grace period and reminder schedule: global_config key 'dunning',
+-- e.g. {"grace_days": 7, "reminder_days": [0, 3, 6]}
+-- (scope 'global', or 'tenant' to override for one tenant).
+-- =====================================================
+
+-- 1. Dunning state
+ALTER TABLE public.tenants
+    ADD COLUMN IF NOT EXISTS dunning_status TEXT NOT NULL DEFAULT 'none'
+        CHECK (dunning_status IN ('none', 'grace', 'restricted')),
+    ADD COLUMN IF NOT EXISTS grace_ends_at TIMESTAMPTZ,         -- Fixed when the payment fails
+    ADD COLUMN IF NOT EXISTS restricted_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS dunning_reminders_sent INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS dunning_last_reminder_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_tenants_dunning ON public.tenants(dunning_status, grace_ends_at)
+    WHERE dunning_status <> 'none';
+
+-- 2. Tenants with an unresolved failed payment start their grace period now
+UPDATE public.tenants
+SET dunning_status = 'grace',
+    grace_ends_at = now() + interval '7 days'
+WHERE payment_failed_at IS NOT NULL
+AND dunning_status = 'none';
+
+-- 3. Seed: Hourly dunning run (reminders, restriction after grace)
+INSERT INTO public.cron_job_registry (job_name, description, category, schedule, command, is_system, alert_on_failure) VALUES
+('process-dunning', 'Send payment reminders and restrict tenants whose grace period ended', 'billing', '30 * * * *',
+ 'SELECT net.http_post(url := current_setting(''app.supabase_url'') || ''/functions/v1/manage-billing'', body := jsonb_build_object(''action'', ''process_dunning''), headers := jsonb_build_object(''Content-Type'', ''application/json'', ''X-Cron-Secret'', current_setting(''app.cron_secret'')))', true, true)
+ON CONFLICT (job_name) DO UPDATE SET
+    description = EXCLUDED.description,
+    category = EXCLUDED.category,
+    schedule = EXCLUDED.schedule,
+    command = EXCLUDED.command,
+    updated_at = now();
@@ -0,0 +1,50 @@
+-- =====================================================
+-- PLAN PRICES
+-- Stripe subscription price -> plan. Used by stripe-webhook to
+-- set tenants.plan, and by create-checkout / manage-billing
+-- change_plan to pick the price for a plan. Managed with
+-- manage-billing set_plan_price / archive_plan_price.
+-- Replaces product metadata.plan_tier and STRIPE_PRICE_* env vars.
+-- =====================================================
+
+-- 1. Prices
+CREATE TABLE IF NOT EXISTS public.plan_prices (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    stripe_price_id TEXT NOT NULL UNIQUE,
+    plan TEXT NOT NULL,
+    interval TEXT NOT NULL CHECK (interval IN ('day', 'week', 'month', 'year')),
+    currency TEXT NOT NULL DEFAULT 'usd',
+    unit_amount INTEGER,                    -- Minor units, from the Stripe price
+    is_active BOOLEAN DEFAULT true,         -- Inactive prices still map existing subscriptions
+    created_at TIMESTAMPTZ DEFAULT now(),
+    updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- One active price per plan, interval and currency
+CREATE UNIQUE INDEX IF NOT EXISTS idx_plan_prices_active
+    ON public.plan_prices(plan, interval, currency) WHERE is_active;
+
+-- RLS (service role only, written by manage-billing)
+ALTER TABLE public.plan_prices ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role only" ON public.plan_prices
+    FOR ALL USING (auth.role() = 'service_role');
+
+-- 2. Active prices must belong to a plan defined in plan_limits
+CREATE OR REPLACE FUNCTION public.check_plan_price_plan()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF NEW.is_active AND NOT EXISTS (SELECT 1 FROM public.plan_limits WHERE plan = NEW.plan) THEN
+        RAISE EXCEPTION 'Unknown plan: % (no plan_limits rows)', NEW.plan;
+    END IF;
+    NEW.updated_at := now();
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_plan_price_plan ON public.plan_prices;
+CREATE TRIGGER check_plan_price_plan
+    BEFORE INSERT OR UPDATE ON public.plan_prices
+    FOR EACH ROW EXECUTE FUNCTION public.check_plan_price_plan();
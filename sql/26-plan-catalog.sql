@@ -0,0 +1,125 @@
+-- =====================================================
+-- PLAN CATALOG
+-- One place for plans, features, limits, prices and entitlements:
+--   plans        - plan definitions and entitlements (on/off flags)
+--   features     - metered or counted features and how usage is measured
+--   plan_limits  - limit per plan and feature (-1 = unlimited)
+--   plan_prices  - Stripe prices per plan (25-plan-prices.sql)
+-- Managed with manage-billing set_plan / set_feature / set_plan_limit,
+-- read by every limit check (check-usage-limits, create-sub-saas,
+-- invite-team-member) and by the public manage-billing list_plans.
+-- =====================================================
+
+-- 1. Plans
+CREATE TABLE IF NOT EXISTS public.plans (
+    id TEXT PRIMARY KEY CHECK (id ~ '^[a-z0-9_-]+$'),  -- Stored in tenants.plan
+    name TEXT NOT NULL,
+    description TEXT,
+    sort_order INTEGER DEFAULT 0,
+    is_public BOOLEAN DEFAULT true,         -- Listed on pricing pages
+    is_active BOOLEAN DEFAULT true,         -- Inactive plans keep their tenants but can't be sold
+    entitlements JSONB DEFAULT '{}',        -- e.g. {"custom_branding": true}
+    created_at TIMESTAMPTZ DEFAULT now(),
+    updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+INSERT INTO public.plans (id, name, sort_order) VALUES
+('free', 'Free', 0),
+('starter', 'Starter', 1),
+('pro', 'Pro', 2),
+('enterprise', 'Enterprise', 3)
+ON CONFLICT (id) DO NOTHING;
+
+-- Plans that only exist in plan_limits so far
+INSERT INTO public.plans (id, name, sort_order)
+SELECT DISTINCT plan, initcap(plan), 100 FROM public.plan_limits
+ON CONFLICT (id) DO NOTHING;
+
+-- 2. Features
+-- 'usage' features are recorded with track-usage (usage_records);
+-- 'count' features count the tenant's rows in count_table.
+CREATE TABLE IF NOT EXISTS public.features (
+    id TEXT PRIMARY KEY CHECK (id ~ '^[a-z0-9_]+$'),
+    name TEXT NOT NULL,
+    description TEXT,
+    unit TEXT,                              -- e.g. 'requests', 'MB'
+    source TEXT NOT NULL DEFAULT 'usage' CHECK (source IN ('usage', 'count')),
+    count_table TEXT CHECK (count_table ~ '^[a-z_][a-z0-9_]*$'),  -- Must have a tenant_id column
+    count_exclude_status TEXT,              -- Rows with this status aren't counted
+    created_at TIMESTAMPTZ DEFAULT now(),
+    updated_at TIMESTAMPTZ DEFAULT now(),
+    CHECK (source = 'usage' OR count_table IS NOT NULL)
+);
+
+INSERT INTO public.features (id, name, unit, source, count_table, count_exclude_status) VALUES
+('pages', 'Pages', 'pages', 'count', 'pages', NULL),
+('team_members', 'Team members', 'members', 'count', 'user_tenants', NULL),
+('custom_domains', 'Custom domains', 'domains', 'count', 'domains', NULL),
+('sub_apps', 'Sub-apps', 'apps', 'count', 'sub_saas_apps', 'deleted'),
+('deployments', 'Deployments', 'deployments', 'usage', NULL, NULL),
+('api_calls', 'API calls', 'requests', 'usage', NULL, NULL),
+('storage_mb', 'Storage', 'MB', 'usage', NULL, NULL),
+('api_rate_limit', 'API rate limit', 'requests/minute', 'usage', NULL, NULL)
+ON CONFLICT (id) DO NOTHING;
+
+-- Features that only exist in plan_limits so far
+INSERT INTO public.features (id, name)
+SELECT DISTINCT feature, initcap(replace(feature, '_', ' ')) FROM public.plan_limits
+ON CONFLICT (id) DO NOTHING;
+
+-- 3. Sub-app limits (were hard-coded in create-sub-saas)
+INSERT INTO public.plan_limits (plan, feature, limit_value, period) VALUES
+('free', 'sub_apps', 1, 'total'),
+('starter', 'sub_apps', 3, 'total'),
+('pro', 'sub_apps', 10, 'total'),
+('enterprise', 'sub_apps', 100, 'total')
+ON CONFLICT (plan, feature) DO NOTHING;
+
+-- 4. Everything references the catalog
+ALTER TABLE public.plan_limits DROP CONSTRAINT IF EXISTS plan_limits_plan_fkey;
+ALTER TABLE public.plan_limits ADD CONSTRAINT plan_limits_plan_fkey
+    FOREIGN KEY (plan) REFERENCES public.plans(id) ON UPDATE CASCADE ON DELETE CASCADE;
+
+ALTER TABLE public.plan_limits DROP CONSTRAINT IF EXISTS plan_limits_feature_fkey;
+ALTER TABLE public.plan_limits ADD CONSTRAINT plan_limits_feature_fkey
+    FOREIGN KEY (feature) REFERENCES public.features(id) ON UPDATE CASCADE;
+
+ALTER TABLE public.plan_prices DROP CONSTRAINT IF EXISTS plan_prices_plan_fkey;
+ALTER TABLE public.plan_prices ADD CONSTRAINT plan_prices_plan_fkey
+    FOREIGN KEY (plan) REFERENCES public.plans(id) ON UPDATE CASCADE;
+
+-- tenants.plan was limited to the four built-in plans
+ALTER TABLE public.tenants DROP CONSTRAINT IF EXISTS tenants_plan_check;
+ALTER TABLE public.tenants DROP CONSTRAINT IF EXISTS tenants_plan_fkey;
+ALTER TABLE public.tenants ADD CONSTRAINT tenants_plan_fkey
+    FOREIGN KEY (plan) REFERENCES public.plans(id) ON UPDATE CASCADE;
+
+-- 5. Active prices must belong to an active plan (was: any plan_limits plan)
+CREATE OR REPLACE FUNCTION public.check_plan_price_plan()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF NEW.is_active AND NOT EXISTS (SELECT 1 FROM public.plans WHERE id = NEW.plan AND is_active) THEN
+        RAISE EXCEPTION 'Unknown or inactive plan: %', NEW.plan;
+    END IF;
+    NEW.updated_at := now();
+    RETURN NEW;
+END;
+$$;
+
+-- 6. RLS (catalog is public; writes go through manage-billing)
+ALTER TABLE public.plans ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.features ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role only" ON public.plans
+    FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "Anyone can view public plans" ON public.plans
+    FOR SELECT USING (is_public AND is_active);
+
+CREATE POLICY "Service role only" ON public.features
+    FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "Anyone can view features" ON public.features
+    FOR SELECT USING (true);
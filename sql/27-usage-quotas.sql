@@ -0,0 +1,250 @@
+-- =====================================================
+-- USAGE QUOTAS
+-- Atomic usage counters and reserve -> commit / release:
+--   increment_usage      - adds to the period's usage_records row in one statement
+--                          (keyed on the billing period since 28-usage-rollups.sql)
+--   reserve_usage_quota  - checks the plan limit and holds (reserve) or
+--                          records (consume) the quantity in one transaction
+--   commit_usage / release_usage - settle a reservation
+-- Pending reservations count against the limit until they are
+-- committed, released or expire. Used by track-usage and
+-- check-usage-limits (functions/_shared/plans.ts).
+-- =====================================================
+
+-- 1. Reservations
+CREATE TABLE IF NOT EXISTS public.usage_reservations (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+    feature TEXT NOT NULL,
+    quantity INTEGER NOT NULL CHECK (quantity > 0),
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'committed', 'released', 'expired')),
+    committed_quantity INTEGER,
+    expires_at TIMESTAMPTZ NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT now(),
+    settled_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_usage_reservations_pending
+    ON public.usage_reservations(tenant_id, feature, expires_at) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_usage_reservations_created ON public.usage_reservations(created_at);
+
+-- RLS (service role only, written by Edge Functions)
+ALTER TABLE public.usage_reservations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role only" ON public.usage_reservations
+    FOR ALL USING (auth.role() = 'service_role');
+
+-- 2. Atomic increment of the current month's usage record
+CREATE OR REPLACE FUNCTION public.increment_usage(
+    p_tenant_id UUID,
+    p_feature TEXT,
+    p_quantity INTEGER
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _period_start TIMESTAMPTZ := date_trunc('month', now() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC';
+    _value INTEGER;
+BEGIN
+    INSERT INTO public.usage_records (tenant_id, feature, value, period_start, period_end)
+    VALUES (p_tenant_id, p_feature, p_quantity, _period_start, _period_start + interval '1 month' - interval '1 second')
+    ON CONFLICT (tenant_id, feature, period_start) DO UPDATE
+        SET value = public.usage_records.value + EXCLUDED.value,
+            updated_at = now()
+    RETURNING value INTO _value;
+
+    RETURN _value;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.increment_usage(UUID, TEXT, INTEGER) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.increment_usage(UUID, TEXT, INTEGER) FROM anon;
+REVOKE ALL ON FUNCTION public.increment_usage(UUID, TEXT, INTEGER) FROM authenticated;
+
+-- 3. Check the limit and hold or record the quantity
+-- p_mode: 'check' (no change), 'reserve' (pending reservation) or
+-- 'consume' (increment usage now). p_counted replaces the recorded
+-- usage for counted features (rows in a table, e.g. pages).
+-- Callers for the same tenant and feature are serialized.
+CREATE OR REPLACE FUNCTION public.reserve_usage_quota(
+    p_tenant_id UUID,
+    p_feature TEXT,
+    p_quantity INTEGER,
+    p_limit INTEGER,                        -- -1 = unlimited
+    p_period TEXT DEFAULT 'month',
+    p_mode TEXT DEFAULT 'reserve',
+    p_counted INTEGER DEFAULT NULL,
+    p_ttl_seconds INTEGER DEFAULT 300
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _period_start TIMESTAMPTZ := date_trunc('month', now() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC';
+    _used INTEGER;
+    _pending INTEGER;
+    _current INTEGER;
+    _allowed BOOLEAN;
+    _reservation public.usage_reservations;
+BEGIN
+    IF p_mode NOT IN ('check', 'reserve', 'consume') THEN
+        RAISE EXCEPTION 'Invalid mode: %', p_mode;
+    END IF;
+
+    PERFORM pg_advisory_xact_lock(hashtextextended(p_tenant_id::TEXT || ':' || p_feature, 0));
+
+    IF p_counted IS NOT NULL THEN
+        _used := p_counted;
+    ELSE
+        SELECT COALESCE(SUM(value), 0) INTO _used
+        FROM public.usage_records
+        WHERE tenant_id = p_tenant_id
+        AND feature = p_feature
+        AND (p_period = 'total' OR period_start = _period_start);
+    END IF;
+
+    SELECT COALESCE(SUM(quantity), 0) INTO _pending
+    FROM public.usage_reservations
+    WHERE tenant_id = p_tenant_id
+    AND feature = p_feature
+    AND status = 'pending'
+    AND expires_at > now();
+
+    _current := _used + _pending;
+    _allowed := p_limit = -1 OR _current + p_quantity <= p_limit;
+
+    IF _allowed AND p_mode = 'reserve' THEN
+        INSERT INTO public.usage_reservations (tenant_id, feature, quantity, expires_at)
+        VALUES (p_tenant_id, p_feature, p_quantity, now() + make_interval(secs => p_ttl_seconds))
+        RETURNING * INTO _reservation;
+    ELSIF _allowed AND p_mode = 'consume' AND p_counted IS NULL THEN
+        PERFORM public.increment_usage(p_tenant_id, p_feature, p_quantity);
+    END IF;
+
+    RETURN jsonb_build_object(
+        'allowed', _allowed,
+        'current', _used,
+        'reserved', _pending,
+        'limit', p_limit,
+        'remaining', CASE WHEN p_limit = -1 THEN -1 ELSE GREATEST(0, p_limit - _current) END,
+        'reservation_id', _reservation.id,
+        'expires_at', _reservation.expires_at
+    );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.reserve_usage_quota(UUID, TEXT, INTEGER, INTEGER, TEXT, TEXT, INTEGER, INTEGER) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.reserve_usage_quota(UUID, TEXT, INTEGER, INTEGER, TEXT, TEXT, INTEGER, INTEGER) FROM anon;
+REVOKE ALL ON FUNCTION public.reserve_usage_quota(UUID, TEXT, INTEGER, INTEGER, TEXT, TEXT, INTEGER, INTEGER) FROM authenticated;
+
+-- 4. Settle a reservation
+-- Commit records the used quantity (at most the reserved one; counted
+-- features are already recorded by their rows). Expired reservations
+-- can't be committed: their quota may have been handed out again.
+CREATE OR REPLACE FUNCTION public.commit_usage(
+    p_tenant_id UUID,
+    p_reservation_id UUID,
+    p_quantity INTEGER DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _reservation public.usage_reservations;
+    _quantity INTEGER;
+BEGIN
+    UPDATE public.usage_reservations
+    SET status = 'committed',
+        committed_quantity = LEAST(quantity, COALESCE(p_quantity, quantity)),
+        settled_at = now()
+    WHERE id = p_reservation_id
+    AND tenant_id = p_tenant_id
+    AND status = 'pending'
+    AND expires_at > now()
+    RETURNING * INTO _reservation;
+
+    IF _reservation.id IS NULL THEN
+        SELECT * INTO _reservation FROM public.usage_reservations
+        WHERE id = p_reservation_id AND tenant_id = p_tenant_id;
+
+        RETURN jsonb_build_object(
+            'committed', false,
+            'status', CASE
+                WHEN _reservation.id IS NULL THEN 'not_found'
+                WHEN _reservation.status = 'pending' THEN 'expired'
+                ELSE _reservation.status
+            END
+        );
+    END IF;
+
+    _quantity := _reservation.committed_quantity;
+
+    IF COALESCE((SELECT source FROM public.features WHERE id = _reservation.feature), 'usage') = 'usage' THEN
+        PERFORM public.increment_usage(p_tenant_id, _reservation.feature, _quantity);
+    END IF;
+
+    RETURN jsonb_build_object(
+        'committed', true,
+        'status', 'committed',
+        'feature', _reservation.feature,
+        'quantity', _quantity
+    );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.commit_usage(UUID, UUID, INTEGER) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.commit_usage(UUID, UUID, INTEGER) FROM anon;
+REVOKE ALL ON FUNCTION public.commit_usage(UUID, UUID, INTEGER) FROM authenticated;
+
+CREATE OR REPLACE FUNCTION public.release_usage(
+    p_tenant_id UUID,
+    p_reservation_id UUID
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _reservation public.usage_reservations;
+BEGIN
+    UPDATE public.usage_reservations
+    SET status = 'released',
+        settled_at = now()
+    WHERE id = p_reservation_id
+    AND tenant_id = p_tenant_id
+    AND status = 'pending'
+    RETURNING * INTO _reservation;
+
+    IF _reservation.id IS NULL THEN
+        SELECT * INTO _reservation FROM public.usage_reservations
+        WHERE id = p_reservation_id AND tenant_id = p_tenant_id;
+
+        RETURN jsonb_build_object('released', false, 'status', COALESCE(_reservation.status, 'not_found'));
+    END IF;
+
+    RETURN jsonb_build_object('released', true, 'status', 'released', 'feature', _reservation.feature);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.release_usage(UUID, UUID) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.release_usage(UUID, UUID) FROM anon;
+REVOKE ALL ON FUNCTION public.release_usage(UUID, UUID) FROM authenticated;
+
+-- 5. Seed: Expire stale reservations, delete settled ones after a week
+INSERT INTO public.cron_job_registry (job_name, description, category, schedule, command, is_system, alert_on_failure) VALUES
+('cleanup-usage-reservations', 'Expire pending usage reservations and delete settled ones older than 7 days', 'cleanup', '*/15 * * * *',
+ 'UPDATE public.usage_reservations SET status = ''expired'', settled_at = now() WHERE status = ''pending'' AND expires_at <= now(); DELETE FROM public.usage_reservations WHERE status <> ''pending'' AND created_at < now() - interval ''7 days''', true, false)
+ON CONFLICT (job_name) DO UPDATE SET
+    description = EXCLUDED.description,
+    category = EXCLUDED.category,
+    schedule = EXCLUDED.schedule,
+    command = EXCLUDED.command,
+    updated_at = now();
@@ -0,0 +1,455 @@
+-- =====================================================
+-- USAGE ROLLUPS
+-- Hourly, daily and monthly usage totals per tenant and feature,
+-- written with every usage event (record_usage). Daily and monthly
+-- buckets follow the tenant's timezone (tenants.timezone).
+-- Limit periods (plan_limits.period):
+--   total          - all time
+--   minute         - request rate, enforced by createHandler
+--   daily          - calendar day in the tenant's timezone
+--   month          - calendar month in the tenant's timezone
+--   rolling_30d    - last 30 days (to the hour)
+--   billing_period - since the Stripe subscription period started
+--                    (tenants.current_period_start, to the hour;
+--                    stepped by calendar months until Stripe renews)
+-- Hourly buckets are deleted after 31 days (cron), unless they are
+-- in the tenant's current billing period.
+-- usage_records are kept per billing period as well (increment_usage).
+-- =====================================================
+
+-- 1. Tenant timezone and billing anchor
+ALTER TABLE public.tenants
+    ADD COLUMN IF NOT EXISTS timezone TEXT NOT NULL DEFAULT 'UTC',
+    ADD COLUMN IF NOT EXISTS current_period_start TIMESTAMPTZ;  -- Set by stripe-webhook
+
+CREATE OR REPLACE FUNCTION public.check_tenant_timezone()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = NEW.timezone) THEN
+        RAISE EXCEPTION 'Unknown timezone: %', NEW.timezone;
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_tenant_timezone ON public.tenants;
+CREATE TRIGGER check_tenant_timezone
+    BEFORE INSERT OR UPDATE OF timezone ON public.tenants
+    FOR EACH ROW EXECUTE FUNCTION public.check_tenant_timezone();
+
+-- 2. Limit periods
+ALTER TABLE public.plan_limits DROP CONSTRAINT IF EXISTS plan_limits_period_check;
+ALTER TABLE public.plan_limits ADD CONSTRAINT plan_limits_period_check
+    CHECK (period IN ('total', 'minute', 'daily', 'month', 'rolling_30d', 'billing_period'));
+
+-- 3. Rollups
+CREATE TABLE IF NOT EXISTS public.usage_rollups (
+    tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+    feature TEXT NOT NULL,
+    granularity TEXT NOT NULL CHECK (granularity IN ('hour', 'day', 'month')),
+    bucket_start TIMESTAMPTZ NOT NULL,      -- Day and month start in the tenant's timezone
+    quantity BIGINT NOT NULL DEFAULT 0,
+    event_count INTEGER NOT NULL DEFAULT 0,
+    updated_at TIMESTAMPTZ DEFAULT now(),
+    PRIMARY KEY (tenant_id, feature, granularity, bucket_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_usage_rollups_bucket ON public.usage_rollups(granularity, bucket_start);
+
+-- RLS
+ALTER TABLE public.usage_rollups ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Tenant isolation" ON public.usage_rollups
+    FOR SELECT USING (tenant_id = public.get_current_tenant_id());
+
+CREATE POLICY "Service role only" ON public.usage_rollups
+    FOR ALL USING (auth.role() = 'service_role');
+
+-- 4. Record usage: event, billing-period usage record and rollups
+CREATE OR REPLACE FUNCTION public.record_usage(
+    p_tenant_id UUID,
+    p_feature TEXT,
+    p_quantity INTEGER,
+    p_user_id UUID DEFAULT NULL,
+    p_metadata JSONB DEFAULT '{}'
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _event_id UUID;
+    _now TIMESTAMPTZ := now();
+    _tz TEXT;
+BEGIN
+    SELECT timezone INTO _tz FROM public.tenants WHERE id = p_tenant_id;
+    _tz := COALESCE(_tz, 'UTC');
+
+    INSERT INTO public.usage_events (tenant_id, user_id, feature, quantity, metadata, created_at)
+    VALUES (p_tenant_id, p_user_id, p_feature, p_quantity, COALESCE(p_metadata, '{}'), _now)
+    RETURNING id INTO _event_id;
+
+    PERFORM public.increment_usage(p_tenant_id, p_feature, p_quantity);
+
+    INSERT INTO public.usage_rollups (tenant_id, feature, granularity, bucket_start, quantity, event_count) VALUES
+    (p_tenant_id, p_feature, 'hour', date_trunc('hour', _now), p_quantity, 1),
+    (p_tenant_id, p_feature, 'day', date_trunc('day', _now AT TIME ZONE _tz) AT TIME ZONE _tz, p_quantity, 1),
+    (p_tenant_id, p_feature, 'month', date_trunc('month', _now AT TIME ZONE _tz) AT TIME ZONE _tz, p_quantity, 1)
+    ON CONFLICT (tenant_id, feature, granularity, bucket_start) DO UPDATE
+        SET quantity = public.usage_rollups.quantity + EXCLUDED.quantity,
+            event_count = public.usage_rollups.event_count + 1,
+            updated_at = now();
+
+    RETURN _event_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.record_usage(UUID, TEXT, INTEGER, UUID, JSONB) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.record_usage(UUID, TEXT, INTEGER, UUID, JSONB) FROM anon;
+REVOKE ALL ON FUNCTION public.record_usage(UUID, TEXT, INTEGER, UUID, JSONB) FROM authenticated;
+
+-- 5. Rebuild rollups from usage_events (backfill, or after a timezone change)
+CREATE OR REPLACE FUNCTION public.rebuild_usage_rollups(p_tenant_id UUID DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _rows INTEGER;
+BEGIN
+    DELETE FROM public.usage_rollups WHERE p_tenant_id IS NULL OR tenant_id = p_tenant_id;
+
+    INSERT INTO public.usage_rollups (tenant_id, feature, granularity, bucket_start, quantity, event_count)
+    SELECT e.tenant_id, e.feature, g.granularity,
+        CASE g.granularity
+            WHEN 'hour' THEN date_trunc('hour', e.created_at)
+            ELSE date_trunc(g.granularity, e.created_at AT TIME ZONE t.timezone) AT TIME ZONE t.timezone
+        END AS bucket_start,
+        SUM(e.quantity), COUNT(*)
+    FROM public.usage_events e
+    JOIN public.tenants t ON t.id = e.tenant_id
+    CROSS JOIN (VALUES ('hour'), ('day'), ('month')) AS g(granularity)
+    WHERE p_tenant_id IS NULL OR e.tenant_id = p_tenant_id
+    GROUP BY 1, 2, 3, 4;
+
+    GET DIAGNOSTICS _rows = ROW_COUNT;
+    RETURN _rows;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.rebuild_usage_rollups(UUID) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.rebuild_usage_rollups(UUID) FROM anon;
+REVOKE ALL ON FUNCTION public.rebuild_usage_rollups(UUID) FROM authenticated;
+
+SELECT public.rebuild_usage_rollups();
+
+-- 6. Usage in the current limit period
+-- Stripe billing period containing p_at, given a known period
+-- [p_period_start, p_period_end). Month-based periods (monthly,
+-- quarterly, yearly) step by calendar months from the known start,
+-- as Stripe does (Jan 31 -> Feb 28 -> Mar 31); shorter ones
+-- (weekly, daily) by their length.
+CREATE OR REPLACE FUNCTION public.billing_period_at(
+    p_period_start TIMESTAMPTZ,
+    p_period_end TIMESTAMPTZ,
+    p_at TIMESTAMPTZ DEFAULT now()
+)
+RETURNS TABLE (period_start TIMESTAMPTZ, period_end TIMESTAMPTZ)
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+    _anchor TIMESTAMP := p_period_start AT TIME ZONE 'UTC';
+    _days NUMERIC := EXTRACT(EPOCH FROM (p_period_end - p_period_start)) / 86400;
+    _months INTEGER := CASE WHEN _days >= 28 THEN round(_days / 30.436875) ELSE 0 END;
+    _step INTERVAL;
+    _n INTEGER := 0;
+BEGIN
+    _step := CASE WHEN _months >= 1 THEN make_interval(months => _months) ELSE p_period_end - p_period_start END;
+
+    -- Each bound is computed from the known start, never by repeated addition
+    IF p_at >= p_period_start THEN
+        WHILE (_anchor + (_n + 1) * _step) AT TIME ZONE 'UTC' <= p_at LOOP
+            _n := _n + 1;
+        END LOOP;
+    ELSE
+        WHILE (_anchor + _n * _step) AT TIME ZONE 'UTC' > p_at LOOP
+            _n := _n - 1;
+        END LOOP;
+    END IF;
+
+    period_start := (_anchor + _n * _step) AT TIME ZONE 'UTC';
+    period_end := (_anchor + (_n + 1) * _step) AT TIME ZONE 'UTC';
+    RETURN NEXT;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.usage_period_start(p_tenant_id UUID, p_period TEXT)
+RETURNS TIMESTAMPTZ
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _tenant RECORD;
+    _start TIMESTAMPTZ;
+BEGIN
+    SELECT timezone, current_period_start, current_period_end INTO _tenant
+    FROM public.tenants WHERE id = p_tenant_id;
+
+    IF p_period = 'total' THEN
+        RETURN '-infinity';
+    ELSIF p_period = 'daily' THEN
+        RETURN date_trunc('day', now() AT TIME ZONE COALESCE(_tenant.timezone, 'UTC')) AT TIME ZONE COALESCE(_tenant.timezone, 'UTC');
+    ELSIF p_period = 'rolling_30d' THEN
+        RETURN date_trunc('hour', now() - interval '30 days');
+    ELSIF p_period = 'billing_period' AND _tenant.current_period_start IS NOT NULL THEN
+        -- Stripe moves the period on renewal; until the event arrives, step forward from it
+        _start := _tenant.current_period_start;
+        IF _tenant.current_period_end > _start THEN
+            SELECT b.period_start INTO _start
+            FROM public.billing_period_at(_tenant.current_period_start, _tenant.current_period_end) b;
+        END IF;
+        RETURN date_trunc('hour', _start);
+    END IF;
+
+    -- 'month', and billing_period without a subscription
+    RETURN date_trunc('month', now() AT TIME ZONE COALESCE(_tenant.timezone, 'UTC')) AT TIME ZONE COALESCE(_tenant.timezone, 'UTC');
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_period_usage(p_tenant_id UUID, p_feature TEXT, p_period TEXT)
+RETURNS BIGINT
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _start TIMESTAMPTZ := public.usage_period_start(p_tenant_id, p_period);
+    _granularity TEXT := CASE p_period
+        WHEN 'daily' THEN 'day'
+        WHEN 'month' THEN 'month'
+        WHEN 'total' THEN 'month'
+        ELSE 'hour'
+    END;
+BEGIN
+    RETURN COALESCE((
+        SELECT SUM(quantity) FROM public.usage_rollups
+        WHERE tenant_id = p_tenant_id
+        AND feature = p_feature
+        AND granularity = _granularity
+        AND bucket_start >= _start
+    ), 0);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.billing_period_at(TIMESTAMPTZ, TIMESTAMPTZ, TIMESTAMPTZ) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.billing_period_at(TIMESTAMPTZ, TIMESTAMPTZ, TIMESTAMPTZ) FROM anon;
+REVOKE ALL ON FUNCTION public.billing_period_at(TIMESTAMPTZ, TIMESTAMPTZ, TIMESTAMPTZ) FROM authenticated;
+
+REVOKE ALL ON FUNCTION public.usage_period_start(UUID, TEXT) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.usage_period_start(UUID, TEXT) FROM anon;
+REVOKE ALL ON FUNCTION public.usage_period_start(UUID, TEXT) FROM authenticated;
+
+REVOKE ALL ON FUNCTION public.get_period_usage(UUID, TEXT, TEXT) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.get_period_usage(UUID, TEXT, TEXT) FROM anon;
+REVOKE ALL ON FUNCTION public.get_period_usage(UUID, TEXT, TEXT) FROM authenticated;
+
+-- 7. Quota checks read the limit period and record through record_usage
+DROP FUNCTION IF EXISTS public.reserve_usage_quota(UUID, TEXT, INTEGER, INTEGER, TEXT, TEXT, INTEGER, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.reserve_usage_quota(
+    p_tenant_id UUID,
+    p_feature TEXT,
+    p_quantity INTEGER,
+    p_limit INTEGER,                        -- -1 = unlimited
+    p_period TEXT DEFAULT 'month',
+    p_mode TEXT DEFAULT 'reserve',
+    p_counted INTEGER DEFAULT NULL,
+    p_ttl_seconds INTEGER DEFAULT 300,
+    p_user_id UUID DEFAULT NULL,            -- consume: recorded on the usage event
+    p_metadata JSONB DEFAULT '{}'
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _used BIGINT;
+    _pending INTEGER;
+    _current BIGINT;
+    _allowed BOOLEAN;
+    _reservation public.usage_reservations;
+BEGIN
+    IF p_mode NOT IN ('check', 'reserve', 'consume') THEN
+        RAISE EXCEPTION 'Invalid mode: %', p_mode;
+    END IF;
+
+    PERFORM pg_advisory_xact_lock(hashtextextended(p_tenant_id::TEXT || ':' || p_feature, 0));
+
+    _used := COALESCE(p_counted, public.get_period_usage(p_tenant_id, p_feature, p_period));
+
+    SELECT COALESCE(SUM(quantity), 0) INTO _pending
+    FROM public.usage_reservations
+    WHERE tenant_id = p_tenant_id
+    AND feature = p_feature
+    AND status = 'pending'
+    AND expires_at > now();
+
+    _current := _used + _pending;
+    _allowed := p_limit = -1 OR _current + p_quantity <= p_limit;
+
+    IF _allowed AND p_mode = 'reserve' THEN
+        INSERT INTO public.usage_reservations (tenant_id, feature, quantity, expires_at)
+        VALUES (p_tenant_id, p_feature, p_quantity, now() + make_interval(secs => p_ttl_seconds))
+        RETURNING * INTO _reservation;
+    ELSIF _allowed AND p_mode = 'consume' AND p_counted IS NULL THEN
+        PERFORM public.record_usage(p_tenant_id, p_feature, p_quantity, p_user_id, p_metadata);
+    END IF;
+
+    RETURN jsonb_build_object(
+        'allowed', _allowed,
+        'current', _used,
+        'reserved', _pending,
+        'limit', p_limit,
+        'remaining', CASE WHEN p_limit = -1 THEN -1 ELSE GREATEST(0, p_limit - _current) END,
+        'period_start', public.usage_period_start(p_tenant_id, p_period),
+        'reservation_id', _reservation.id,
+        'expires_at', _reservation.expires_at
+    );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.reserve_usage_quota(UUID, TEXT, INTEGER, INTEGER, TEXT, TEXT, INTEGER, INTEGER, UUID, JSONB) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.reserve_usage_quota(UUID, TEXT, INTEGER, INTEGER, TEXT, TEXT, INTEGER, INTEGER, UUID, JSONB) FROM anon;
+REVOKE ALL ON FUNCTION public.reserve_usage_quota(UUID, TEXT, INTEGER, INTEGER, TEXT, TEXT, INTEGER, INTEGER, UUID, JSONB) FROM authenticated;
+
+DROP FUNCTION IF EXISTS public.commit_usage(UUID, UUID, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.commit_usage(
+    p_tenant_id UUID,
+    p_reservation_id UUID,
+    p_quantity INTEGER DEFAULT NULL,
+    p_user_id UUID DEFAULT NULL,
+    p_metadata JSONB DEFAULT '{}'
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _reservation public.usage_reservations;
+BEGIN
+    UPDATE public.usage_reservations
+    SET status = 'committed',
+        committed_quantity = LEAST(quantity, COALESCE(p_quantity, quantity)),
+        settled_at = now()
+    WHERE id = p_reservation_id
+    AND tenant_id = p_tenant_id
+    AND status = 'pending'
+    AND expires_at > now()
+    RETURNING * INTO _reservation;
+
+    IF _reservation.id IS NULL THEN
+        SELECT * INTO _reservation FROM public.usage_reservations
+        WHERE id = p_reservation_id AND tenant_id = p_tenant_id;
+
+        RETURN jsonb_build_object(
+            'committed', false,
+            'status', CASE
+                WHEN _reservation.id IS NULL THEN 'not_found'
+                WHEN _reservation.status = 'pending' THEN 'expired'
+                ELSE _reservation.status
+            END
+        );
+    END IF;
+
+    -- Counted features are already recorded by their rows
+    IF COALESCE((SELECT source FROM public.features WHERE id = _reservation.feature), 'usage') = 'usage' THEN
+        PERFORM public.record_usage(
+            p_tenant_id, _reservation.feature, _reservation.committed_quantity, p_user_id,
+            COALESCE(p_metadata, '{}') || jsonb_build_object('reservation_id', _reservation.id)
+        );
+    END IF;
+
+    RETURN jsonb_build_object(
+        'committed', true,
+        'status', 'committed',
+        'feature', _reservation.feature,
+        'quantity', _reservation.committed_quantity
+    );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.commit_usage(UUID, UUID, INTEGER, UUID, JSONB) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.commit_usage(UUID, UUID, INTEGER, UUID, JSONB) FROM anon;
+REVOKE ALL ON FUNCTION public.commit_usage(UUID, UUID, INTEGER, UUID, JSONB) FROM authenticated;
+
+-- 8. Usage records follow the billing period: one row per tenant, feature
+-- and Stripe subscription period (calendar month in the tenant's
+-- timezone without a subscription), so a period's total never resets
+-- at a calendar month boundary
+CREATE OR REPLACE FUNCTION public.increment_usage(
+    p_tenant_id UUID,
+    p_feature TEXT,
+    p_quantity INTEGER
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _tenant RECORD;
+    _tz TEXT;
+    _period_start TIMESTAMPTZ := public.usage_period_start(p_tenant_id, 'billing_period');
+    _period_end TIMESTAMPTZ;
+    _value INTEGER;
+BEGIN
+    SELECT timezone, current_period_start, current_period_end INTO _tenant
+    FROM public.tenants WHERE id = p_tenant_id;
+    _tz := COALESCE(_tenant.timezone, 'UTC');
+
+    IF _tenant.current_period_start IS NOT NULL AND _tenant.current_period_end > _tenant.current_period_start THEN
+        SELECT b.period_end INTO _period_end
+        FROM public.billing_period_at(_tenant.current_period_start, _tenant.current_period_end) b;
+    ELSE
+        _period_end := ((_period_start AT TIME ZONE _tz) + interval '1 month') AT TIME ZONE _tz;
+    END IF;
+
+    INSERT INTO public.usage_records (tenant_id, feature, value, period_start, period_end)
+    VALUES (p_tenant_id, p_feature, p_quantity, _period_start, _period_end - interval '1 second')
+    ON CONFLICT (tenant_id, feature, period_start) DO UPDATE
+        SET value = public.usage_records.value + EXCLUDED.value,
+            updated_at = now()
+    RETURNING value INTO _value;
+
+    RETURN _value;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.increment_usage(UUID, TEXT, INTEGER) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.increment_usage(UUID, TEXT, INTEGER) FROM anon;
+REVOKE ALL ON FUNCTION public.increment_usage(UUID, TEXT, INTEGER) FROM authenticated;
+
+-- 9. Seed: Hourly rollup retention. Hourly buckets serve rolling_30d and
+-- billing_period, so they are kept for 31 days and for the tenant's
+-- current billing period; daily and monthly buckets are kept.
+INSERT INTO public.cron_job_registry (job_name, description, category, schedule, command, is_system, alert_on_failure) VALUES
+('cleanup-usage-rollups', 'Delete hourly usage rollups older than 31 days and the current billing period', 'cleanup', '50 3 * * *',
+ 'DELETE FROM public.usage_rollups r USING public.tenants t WHERE r.tenant_id = t.id AND r.granularity = ''hour'' AND r.bucket_start < LEAST(now() - interval ''31 days'', date_trunc(''hour'', COALESCE(t.current_period_start, now())))', true, false)
+ON CONFLICT (job_name) DO UPDATE SET
+    description = EXCLUDED.description,
+    category = EXCLUDED.category,
+    schedule = EXCLUDED.schedule,
+    command = EXCLUDED.command,
+    updated_at = now();
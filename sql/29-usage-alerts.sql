@@ -0,0 +1,110 @@
+-- =====================================================
+-- USAGE ALERTS & NOTIFICATIONS
+-- Usage thresholds per feature (e.g. 80%, 100% of the plan limit)
+-- fire once per limit period, delivered by email, outbound webhook
+-- (event 'usage.threshold_reached') and the in-app notifications feed.
+-- Thresholds and channels: global_config key 'usage_alerts', e.g.
+-- {"thresholds": [80, 100], "features": {"api_calls": [50, 80, 100]},
+--  "channels": ["email", "webhook", "in_app"]}
+-- (scope 'global', or 'tenant' to override; manage-notifications set_usage_alerts).
+-- =====================================================
+
+-- 1. Fired alerts (one per tenant, feature, threshold, period and limit)
+CREATE TABLE IF NOT EXISTS public.usage_alerts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+    feature TEXT NOT NULL,
+    threshold INTEGER NOT NULL,             -- Percent of the limit
+    period_key TEXT NOT NULL,               -- Limit period and its start, e.g. 'month:2026-10-01T00:00:00+00:00'
+    limit_value INTEGER NOT NULL,           -- A new limit (plan change) starts over
+    usage_value BIGINT NOT NULL,
+    channels TEXT[] DEFAULT '{}',           -- Channels that were delivered
+    fired_at TIMESTAMPTZ DEFAULT now(),
+    UNIQUE(tenant_id, feature, threshold, period_key, limit_value)
+);
+
+CREATE INDEX IF NOT EXISTS idx_usage_alerts_tenant ON public.usage_alerts(tenant_id, fired_at DESC);
+
+-- 2. In-app notifications (user_id NULL = everyone in the tenant)
+CREATE TABLE IF NOT EXISTS public.notifications (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+    type TEXT NOT NULL,                     -- e.g. 'usage_alert'
+    title TEXT NOT NULL,
+    body TEXT,
+    data JSONB DEFAULT '{}',
+    read_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_tenant ON public.notifications(tenant_id, created_at DESC);
+
+-- 3. Outbound webhooks
+CREATE TABLE IF NOT EXISTS public.webhook_endpoints (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+    url TEXT NOT NULL CHECK (url ~ '^https://'),
+    secret TEXT NOT NULL,                   -- Signs deliveries (X-Webhook-Signature)
+    events TEXT[] NOT NULL DEFAULT '{usage.threshold_reached}',
+    is_active BOOLEAN DEFAULT true,
+    created_by UUID REFERENCES auth.users(id),
+    created_at TIMESTAMPTZ DEFAULT now(),
+    updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_endpoints_tenant ON public.webhook_endpoints(tenant_id) WHERE is_active;
+
+CREATE TABLE IF NOT EXISTS public.webhook_deliveries (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    endpoint_id UUID NOT NULL REFERENCES public.webhook_endpoints(id) ON DELETE CASCADE,
+    tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+    event_type TEXT NOT NULL,
+    payload JSONB NOT NULL,
+    status TEXT NOT NULL CHECK (status IN ('delivered', 'failed')),
+    response_status INTEGER,
+    error TEXT,
+    created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_endpoint ON public.webhook_deliveries(endpoint_id, created_at DESC);
+
+-- RLS
+ALTER TABLE public.usage_alerts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.webhook_endpoints ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Tenant isolation" ON public.usage_alerts
+    FOR SELECT USING (tenant_id = public.get_current_tenant_id());
+
+CREATE POLICY "Service role only" ON public.usage_alerts
+    FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "Own notifications" ON public.notifications
+    FOR SELECT USING (tenant_id = public.get_current_tenant_id() AND (user_id IS NULL OR user_id = auth.uid()));
+
+CREATE POLICY "Service role only" ON public.notifications
+    FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role only" ON public.webhook_endpoints
+    FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role only" ON public.webhook_deliveries
+    FOR ALL USING (auth.role() = 'service_role');
+
+-- 4. Register function
+INSERT INTO public.function_registry (function_name, description, category, is_critical, required_secrets, required_tables) VALUES
+('manage-notifications', 'Notifications feed, usage alert thresholds, outbound webhooks', 'billing', false, ARRAY[]::TEXT[], ARRAY['notifications', 'usage_alerts', 'webhook_endpoints', 'webhook_deliveries'])
+ON CONFLICT (function_name) DO NOTHING;
+
+-- 5. Seed: Delivery log and read notification retention
+INSERT INTO public.cron_job_registry (job_name, description, category, schedule, command, is_system, alert_on_failure) VALUES
+('cleanup-notifications', 'Delete read notifications and webhook deliveries older than 90 days', 'cleanup', '45 3 * * *',
+ 'DELETE FROM public.notifications WHERE read_at < now() - interval ''90 days''; DELETE FROM public.webhook_deliveries WHERE created_at < now() - interval ''90 days''', true, false)
+ON CONFLICT (job_name) DO UPDATE SET
+    description = EXCLUDED.description,
+    category = EXCLUDED.category,
+    schedule = EXCLUDED.schedule,
+    command = EXCLUDED.command,
+    updated_at = now();
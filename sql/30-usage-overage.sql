@@ -0,0 +1,287 @@
+-- =====================================================
+-- USAGE OVERAGE
+-- Soft limits with a hard ceiling and a per-unit overage price.
+-- plan_limits.limit_value is the included (soft) limit; usage
+-- above it is allowed up to hard_limit and recorded as overage
+-- for invoicing:
+--   hard_limit NULL - limit_value is a hard limit (no overage)
+--   hard_limit -1   - overage without a ceiling
+--   hard_limit N    - overage up to N in total
+-- record_usage splits every usage event into included and
+-- overage units (usage_events.overage_quantity) and adds the
+-- overage to usage_overages, one row per limit period.
+-- usage_overages is authoritative for features without a Stripe
+-- metered price; metered features are billed by report_usage
+-- (21-metered-billing.sql) and cannot have hard_limit or
+-- overage_unit_amount (manage-billing rejects both combinations).
+-- =====================================================
+
+-- 1. Hard ceiling and overage price per plan limit
+ALTER TABLE public.plan_limits
+    ADD COLUMN IF NOT EXISTS hard_limit INTEGER,
+    ADD COLUMN IF NOT EXISTS overage_unit_amount NUMERIC(12, 4),   -- Per unit, smallest currency unit (e.g. 0.1 = a tenth of a cent)
+    ADD COLUMN IF NOT EXISTS overage_currency TEXT NOT NULL DEFAULT 'usd';
+
+ALTER TABLE public.plan_limits DROP CONSTRAINT IF EXISTS plan_limits_hard_limit_check;
+ALTER TABLE public.plan_limits ADD CONSTRAINT plan_limits_hard_limit_check
+    CHECK (hard_limit IS NULL OR hard_limit = -1 OR (limit_value <> -1 AND hard_limit >= limit_value));
+
+ALTER TABLE public.plan_limits DROP CONSTRAINT IF EXISTS plan_limits_overage_unit_amount_check;
+ALTER TABLE public.plan_limits ADD CONSTRAINT plan_limits_overage_unit_amount_check
+    CHECK (overage_unit_amount IS NULL OR overage_unit_amount >= 0);
+
+-- 2. Overage units per usage event
+ALTER TABLE public.usage_events
+    ADD COLUMN IF NOT EXISTS overage_quantity INTEGER NOT NULL DEFAULT 0;
+
+-- 3. Overage per tenant, feature and limit period
+CREATE TABLE IF NOT EXISTS public.usage_overages (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+    feature TEXT NOT NULL,
+    period TEXT NOT NULL,                   -- plan_limits.period when recorded
+    period_start TIMESTAMPTZ NOT NULL,      -- '-infinity' for 'total' limits
+    plan TEXT NOT NULL,
+    quantity BIGINT NOT NULL DEFAULT 0,
+    unit_amount NUMERIC(12, 4),             -- Latest price; amount adds each event at its price
+    amount NUMERIC(14, 4) NOT NULL DEFAULT 0,
+    currency TEXT NOT NULL DEFAULT 'usd',
+    created_at TIMESTAMPTZ DEFAULT now(),
+    updated_at TIMESTAMPTZ DEFAULT now(),
+    UNIQUE(tenant_id, feature, period_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_usage_overages_tenant ON public.usage_overages(tenant_id, period_start DESC);
+
+-- RLS
+ALTER TABLE public.usage_overages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Tenant isolation" ON public.usage_overages
+    FOR SELECT USING (tenant_id = public.get_current_tenant_id());
+
+CREATE POLICY "Service role only" ON public.usage_overages
+    FOR ALL USING (auth.role() = 'service_role');
+
+-- 4. Record usage, splitting off overage (returns the event id and its overage)
+DROP FUNCTION IF EXISTS public.record_usage(UUID, TEXT, INTEGER, UUID, JSONB);
+
+CREATE OR REPLACE FUNCTION public.record_usage(
+    p_tenant_id UUID,
+    p_feature TEXT,
+    p_quantity INTEGER,
+    p_user_id UUID DEFAULT NULL,
+    p_metadata JSONB DEFAULT '{}'
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _event_id UUID;
+    _now TIMESTAMPTZ := now();
+    _tenant RECORD;
+    _limit RECORD;
+    _used BIGINT;
+    _overage INTEGER := 0;
+BEGIN
+    -- Same lock as reserve_usage_quota, so concurrent events split overage correctly
+    PERFORM pg_advisory_xact_lock(hashtextextended(p_tenant_id::TEXT || ':' || p_feature, 0));
+
+    SELECT plan, COALESCE(timezone, 'UTC') AS timezone INTO _tenant FROM public.tenants WHERE id = p_tenant_id;
+
+    SELECT pl.limit_value, pl.period, pl.overage_unit_amount, pl.overage_currency INTO _limit
+    FROM public.plan_limits pl
+    WHERE pl.plan = _tenant.plan
+    AND pl.feature = p_feature
+    AND pl.hard_limit IS NOT NULL
+    AND pl.limit_value <> -1
+    AND pl.period <> 'minute'
+    AND COALESCE((SELECT source FROM public.features WHERE id = p_feature), 'usage') = 'usage';
+
+    IF _limit.limit_value IS NOT NULL THEN
+        _used := public.get_period_usage(p_tenant_id, p_feature, _limit.period);
+        _overage := GREATEST(0, LEAST(p_quantity, _used + p_quantity - _limit.limit_value));
+    END IF;
+
+    INSERT INTO public.usage_events (tenant_id, user_id, feature, quantity, overage_quantity, metadata, created_at)
+    VALUES (p_tenant_id, p_user_id, p_feature, p_quantity, _overage, COALESCE(p_metadata, '{}'), _now)
+    RETURNING id INTO _event_id;
+
+    PERFORM public.increment_usage(p_tenant_id, p_feature, p_quantity);
+
+    INSERT INTO public.usage_rollups (tenant_id, feature, granularity, bucket_start, quantity, event_count) VALUES
+    (p_tenant_id, p_feature, 'hour', date_trunc('hour', _now), p_quantity, 1),
+    (p_tenant_id, p_feature, 'day', date_trunc('day', _now AT TIME ZONE _tenant.timezone) AT TIME ZONE _tenant.timezone, p_quantity, 1),
+    (p_tenant_id, p_feature, 'month', date_trunc('month', _now AT TIME ZONE _tenant.timezone) AT TIME ZONE _tenant.timezone, p_quantity, 1)
+    ON CONFLICT (tenant_id, feature, granularity, bucket_start) DO UPDATE
+        SET quantity = public.usage_rollups.quantity + EXCLUDED.quantity,
+            event_count = public.usage_rollups.event_count + 1,
+            updated_at = now();
+
+    IF _overage > 0 THEN
+        INSERT INTO public.usage_overages (tenant_id, feature, period, period_start, plan, quantity, unit_amount, amount, currency)
+        VALUES (
+            p_tenant_id, p_feature, _limit.period, public.usage_period_start(p_tenant_id, _limit.period), _tenant.plan,
+            _overage, _limit.overage_unit_amount, _overage * COALESCE(_limit.overage_unit_amount, 0), _limit.overage_currency
+        )
+        ON CONFLICT (tenant_id, feature, period_start) DO UPDATE
+            SET quantity = public.usage_overages.quantity + EXCLUDED.quantity,
+                amount = public.usage_overages.amount + EXCLUDED.amount,
+                unit_amount = EXCLUDED.unit_amount,
+                currency = EXCLUDED.currency,
+                plan = EXCLUDED.plan,
+                updated_at = now();
+    END IF;
+
+    RETURN jsonb_build_object('event_id', _event_id, 'overage', _overage);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.record_usage(UUID, TEXT, INTEGER, UUID, JSONB) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.record_usage(UUID, TEXT, INTEGER, UUID, JSONB) FROM anon;
+REVOKE ALL ON FUNCTION public.record_usage(UUID, TEXT, INTEGER, UUID, JSONB) FROM authenticated;
+
+-- 5. Quota checks allow usage over the soft limit up to the hard ceiling
+DROP FUNCTION IF EXISTS public.reserve_usage_quota(UUID, TEXT, INTEGER, INTEGER, TEXT, TEXT, INTEGER, INTEGER, UUID, JSONB);
+
+CREATE OR REPLACE FUNCTION public.reserve_usage_quota(
+    p_tenant_id UUID,
+    p_feature TEXT,
+    p_quantity INTEGER,
+    p_limit INTEGER,                        -- -1 = unlimited
+    p_hard_limit INTEGER DEFAULT NULL,      -- NULL = no overage, -1 = no ceiling
+    p_period TEXT DEFAULT 'month',
+    p_mode TEXT DEFAULT 'reserve',
+    p_counted INTEGER DEFAULT NULL,
+    p_ttl_seconds INTEGER DEFAULT 300,
+    p_user_id UUID DEFAULT NULL,            -- consume: recorded on the usage event
+    p_metadata JSONB DEFAULT '{}'
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _used BIGINT;
+    _pending INTEGER;
+    _current BIGINT;
+    _within BOOLEAN;
+    _with_overage BOOLEAN;
+    _overage INTEGER;
+    _recorded JSONB;
+    _reservation public.usage_reservations;
+BEGIN
+    IF p_mode NOT IN ('check', 'reserve', 'consume') THEN
+        RAISE EXCEPTION 'Invalid mode: %', p_mode;
+    END IF;
+
+    PERFORM pg_advisory_xact_lock(hashtextextended(p_tenant_id::TEXT || ':' || p_feature, 0));
+
+    _used := COALESCE(p_counted, public.get_period_usage(p_tenant_id, p_feature, p_period));
+
+    SELECT COALESCE(SUM(quantity), 0) INTO _pending
+    FROM public.usage_reservations
+    WHERE tenant_id = p_tenant_id
+    AND feature = p_feature
+    AND status = 'pending'
+    AND expires_at > now();
+
+    _current := _used + _pending;
+    _within := p_limit = -1 OR _current + p_quantity <= p_limit;
+    _with_overage := NOT _within AND p_hard_limit IS NOT NULL
+        AND (p_hard_limit = -1 OR _current + p_quantity <= p_hard_limit);
+    _overage := CASE WHEN _with_overage THEN LEAST(p_quantity, _current + p_quantity - p_limit) ELSE 0 END;
+
+    IF (_within OR _with_overage) AND p_mode = 'reserve' THEN
+        INSERT INTO public.usage_reservations (tenant_id, feature, quantity, expires_at)
+        VALUES (p_tenant_id, p_feature, p_quantity, now() + make_interval(secs => p_ttl_seconds))
+        RETURNING * INTO _reservation;
+    ELSIF (_within OR _with_overage) AND p_mode = 'consume' AND p_counted IS NULL THEN
+        _recorded := public.record_usage(p_tenant_id, p_feature, p_quantity, p_user_id, p_metadata);
+        _overage := (_recorded->>'overage')::INTEGER;
+    END IF;
+
+    RETURN jsonb_build_object(
+        'allowed', _within OR _with_overage,
+        'allowed_with_overage', _with_overage,
+        'overage', _overage,
+        'current', _used,
+        'reserved', _pending,
+        'limit', p_limit,
+        'hard_limit', p_hard_limit,
+        'remaining', CASE WHEN p_limit = -1 THEN -1 ELSE GREATEST(0, p_limit - _current) END,
+        'period_start', public.usage_period_start(p_tenant_id, p_period),
+        'reservation_id', _reservation.id,
+        'expires_at', _reservation.expires_at
+    );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.reserve_usage_quota(UUID, TEXT, INTEGER, INTEGER, INTEGER, TEXT, TEXT, INTEGER, INTEGER, UUID, JSONB) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.reserve_usage_quota(UUID, TEXT, INTEGER, INTEGER, INTEGER, TEXT, TEXT, INTEGER, INTEGER, UUID, JSONB) FROM anon;
+REVOKE ALL ON FUNCTION public.reserve_usage_quota(UUID, TEXT, INTEGER, INTEGER, INTEGER, TEXT, TEXT, INTEGER, INTEGER, UUID, JSONB) FROM authenticated;
+
+-- 6. Committed reservations report their overage
+CREATE OR REPLACE FUNCTION public.commit_usage(
+    p_tenant_id UUID,
+    p_reservation_id UUID,
+    p_quantity INTEGER DEFAULT NULL,
+    p_user_id UUID DEFAULT NULL,
+    p_metadata JSONB DEFAULT '{}'
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _reservation public.usage_reservations;
+    _recorded JSONB;
+BEGIN
+    UPDATE public.usage_reservations
+    SET status = 'committed',
+        committed_quantity = LEAST(quantity, COALESCE(p_quantity, quantity)),
+        settled_at = now()
+    WHERE id = p_reservation_id
+    AND tenant_id = p_tenant_id
+    AND status = 'pending'
+    AND expires_at > now()
+    RETURNING * INTO _reservation;
+
+    IF _reservation.id IS NULL THEN
+        SELECT * INTO _reservation FROM public.usage_reservations
+        WHERE id = p_reservation_id AND tenant_id = p_tenant_id;
+
+        RETURN jsonb_build_object(
+            'committed', false,
+            'status', CASE
+                WHEN _reservation.id IS NULL THEN 'not_found'
+                WHEN _reservation.status = 'pending' THEN 'expired'
+                ELSE _reservation.status
+            END
+        );
+    END IF;
+
+    -- Counted features are already recorded by their rows
+    IF COALESCE((SELECT source FROM public.features WHERE id = _reservation.feature), 'usage') = 'usage' THEN
+        _recorded := public.record_usage(
+            p_tenant_id, _reservation.feature, _reservation.committed_quantity, p_user_id,
+            COALESCE(p_metadata, '{}') || jsonb_build_object('reservation_id', _reservation.id)
+        );
+    END IF;
+
+    RETURN jsonb_build_object(
+        'committed', true,
+        'status', 'committed',
+        'feature', _reservation.feature,
+        'quantity', _reservation.committed_quantity,
+        'overage', COALESCE((_recorded->>'overage')::INTEGER, 0)
+    );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.commit_usage(UUID, UUID, INTEGER, UUID, JSONB) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.commit_usage(UUID, UUID, INTEGER, UUID, JSONB) FROM anon;
+REVOKE ALL ON FUNCTION public.commit_usage(UUID, UUID, INTEGER, UUID, JSONB) FROM authenticated;
@@ -0,0 +1,189 @@
+-- =====================================================
+-- TENANT LIFECYCLE
+-- active -> suspended (admin) -> reactivated
+-- active -> pending_deletion (grace period) -> purged
+-- Suspended tenants are locked out (403 TENANT_SUSPENDED);
+-- during the grace period only reads work, so data can still
+-- be exported. A purge walks every subsystem (Stripe
+-- subscription, ss_* sub-SaaS tables, vault secrets, cron jobs,
+-- Cloudflare projects, Resend domains), then deletes the
+-- tenant's rows, and keeps a deletion report in tenant_deletions.
+-- manage-tenant: suspend, reactivate, schedule_deletion, purge
+-- (hourly via cron for due deletions), get_deletion_report.
+-- =====================================================
+
+-- 1. Tenant status
+ALTER TABLE public.tenants
+    ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'active',
+    ADD COLUMN IF NOT EXISTS suspended_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS suspension_reason TEXT,
+    ADD COLUMN IF NOT EXISTS deletion_scheduled_for TIMESTAMPTZ;
+
+ALTER TABLE public.tenants DROP CONSTRAINT IF EXISTS tenants_status_check;
+ALTER TABLE public.tenants ADD CONSTRAINT tenants_status_check
+    CHECK (status IN ('active', 'suspended', 'pending_deletion'));
+
+CREATE INDEX IF NOT EXISTS idx_tenants_deletion ON public.tenants(deletion_scheduled_for)
+    WHERE status = 'pending_deletion';
+
+-- 2. Deletions and their reports (kept after the tenant is gone, so no foreign key)
+CREATE TABLE IF NOT EXISTS public.tenant_deletions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    tenant_id UUID NOT NULL,
+    tenant_name TEXT NOT NULL,
+    tenant_slug TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'scheduled' CHECK (status IN ('scheduled', 'canceled', 'failed', 'completed')),
+    reason TEXT,
+    requested_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,  -- NULL = admin key
+    scheduled_for TIMESTAMPTZ NOT NULL,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    report JSONB DEFAULT '{}',              -- Steps of the last purge attempt
+    created_at TIMESTAMPTZ DEFAULT now(),
+    updated_at TIMESTAMPTZ DEFAULT now(),
+    completed_at TIMESTAMPTZ
+);
+
+-- One open deletion per tenant
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tenant_deletions_open ON public.tenant_deletions(tenant_id)
+    WHERE status IN ('scheduled', 'failed');
+CREATE INDEX IF NOT EXISTS idx_tenant_deletions_due ON public.tenant_deletions(scheduled_for)
+    WHERE status IN ('scheduled', 'failed');
+
+-- RLS
+ALTER TABLE public.tenant_deletions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role only" ON public.tenant_deletions
+    FOR ALL USING (auth.role() = 'service_role');
+
+-- 3. Purge helpers
+-- Vault secrets owned by the tenant; returns how many were deleted
+CREATE OR REPLACE FUNCTION public.purge_tenant_vault(p_tenant_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _rows INTEGER;
+BEGIN
+    DELETE FROM vault.secrets
+    WHERE id IN (SELECT vault_secret_id FROM public.tenant_secrets WHERE tenant_id = p_tenant_id);
+
+    GET DIAGNOSTICS _rows = ROW_COUNT;
+
+    DELETE FROM public.tenant_secrets WHERE tenant_id = p_tenant_id;
+
+    RETURN _rows;
+END;
+$$;
+
+-- Unschedules the tenant's pg_cron jobs; returns their names
+CREATE OR REPLACE FUNCTION public.purge_tenant_cron_jobs(p_tenant_id UUID)
+RETURNS TEXT[]
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _job RECORD;
+    _removed TEXT[] := ARRAY[]::TEXT[];
+BEGIN
+    FOR _job IN SELECT job_name FROM public.cron_job_registry WHERE tenant_id = p_tenant_id LOOP
+        IF EXISTS (SELECT 1 FROM cron.job WHERE jobname = _job.job_name) THEN
+            PERFORM cron.unschedule(_job.job_name);
+        END IF;
+        _removed := array_append(_removed, _job.job_name);
+    END LOOP;
+
+    DELETE FROM public.cron_job_registry WHERE tenant_id = p_tenant_id;
+
+    RETURN _removed;
+END;
+$$;
+
+-- Deletes the tenant's rows from every table with a foreign key to tenants
+-- (several were added without ON DELETE CASCADE), then the tenant itself.
+-- Tables are retried until rows that other rows point to can go.
+-- Returns rows deleted per table.
+CREATE OR REPLACE FUNCTION public.purge_tenant_rows(p_tenant_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _ref RECORD;
+    _deleted JSONB := '{}';
+    _blocked TEXT[];
+    _progress BOOLEAN;
+    _rows INTEGER;
+    _error TEXT;
+BEGIN
+    LOOP
+        _blocked := ARRAY[]::TEXT[];
+        _progress := false;
+
+        FOR _ref IN
+            SELECT c.conrelid::regclass::TEXT AS table_name, a.attname AS column_name
+            FROM pg_constraint c
+            JOIN pg_attribute a ON a.attrelid = c.conrelid AND a.attnum = c.conkey[1]
+            WHERE c.contype = 'f'
+            AND c.confrelid = 'public.tenants'::regclass
+            AND cardinality(c.conkey) = 1
+        LOOP
+            BEGIN
+                EXECUTE format('DELETE FROM %s WHERE %I = $1', _ref.table_name, _ref.column_name) USING p_tenant_id;
+                GET DIAGNOSTICS _rows = ROW_COUNT;
+
+                IF _rows > 0 THEN
+                    _deleted := _deleted || jsonb_build_object(
+                        _ref.table_name, COALESCE((_deleted->>_ref.table_name)::INTEGER, 0) + _rows
+                    );
+                    _progress := true;
+                END IF;
+            EXCEPTION WHEN foreign_key_violation THEN
+                _blocked := array_append(_blocked, _ref.table_name);
+                _error := SQLERRM;
+            END;
+        END LOOP;
+
+        EXIT WHEN cardinality(_blocked) = 0;
+
+        IF NOT _progress THEN
+            RAISE EXCEPTION 'Could not delete rows from %: %', array_to_string(_blocked, ', '), _error;
+        END IF;
+    END LOOP;
+
+    DELETE FROM public.tenants WHERE id = p_tenant_id;
+
+    RETURN _deleted;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.purge_tenant_vault(UUID) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.purge_tenant_vault(UUID) FROM anon;
+REVOKE ALL ON FUNCTION public.purge_tenant_vault(UUID) FROM authenticated;
+
+REVOKE ALL ON FUNCTION public.purge_tenant_cron_jobs(UUID) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.purge_tenant_cron_jobs(UUID) FROM anon;
+REVOKE ALL ON FUNCTION public.purge_tenant_cron_jobs(UUID) FROM authenticated;
+
+REVOKE ALL ON FUNCTION public.purge_tenant_rows(UUID) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.purge_tenant_rows(UUID) FROM anon;
+REVOKE ALL ON FUNCTION public.purge_tenant_rows(UUID) FROM authenticated;
+
+-- 4. Register function
+INSERT INTO public.function_registry (function_name, description, category, is_critical, required_secrets, required_tables) VALUES
+('manage-tenant', 'Tenant memberships and settings, suspension, scheduled deletion and purge', 'tenant', true, ARRAY['STRIPE_SECRET_KEY', 'CLOUDFLARE_ACCOUNT_ID', 'CLOUDFLARE_API_TOKEN', 'RESEND_FULL'], ARRAY['tenants', 'user_tenants', 'tenant_deletions'])
+ON CONFLICT (function_name) DO NOTHING;
+
+-- 5. Seed: Purge tenants whose grace period ended (hourly, X-Cron-Secret)
+INSERT INTO public.cron_job_registry (job_name, description, category, schedule, command, is_system, alert_on_failure) VALUES
+('purge-tenants', 'Purge tenants whose deletion grace period ended', 'cleanup', '15 * * * *',
+ 'SELECT net.http_post(url := current_setting(''app.supabase_url'') || ''/functions/v1/manage-tenant'', body := jsonb_build_object(''action'', ''purge''), headers := jsonb_build_object(''Content-Type'', ''application/json'', ''X-Cron-Secret'', current_setting(''app.cron_secret'')))', true, true)
+ON CONFLICT (job_name) DO UPDATE SET
+    description = EXCLUDED.description,
+    category = EXCLUDED.category,
+    schedule = EXCLUDED.schedule,
+    command = EXCLUDED.command,
+    updated_at = now();
@@ -0,0 +1,283 @@
+-- =====================================================
+-- PRIVACY: DATA EXPORT & ERASURE (GDPR)
+-- Export jobs bundle everything stored about a tenant or one
+-- user (activity_log, usage_events, email_log, sub_saas_users,
+-- purchases, invites, memberships and the per-app ss_* tables)
+-- as a ZIP or JSON-lines file in the private 'data-exports'
+-- Storage bucket, served through signed URLs for 7 days.
+-- Erasure anonymizes a user's personal data; billing records
+-- (purchases, usage quantities, payments) are kept, unlinked.
+-- manage-privacy: create_export, get_export, list_exports,
+-- erase_user, process_exports (hourly via cron).
+-- =====================================================
+
+-- 1. Private bucket for export files
+INSERT INTO storage.buckets (id, name, public) VALUES ('data-exports', 'data-exports', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- 2. Export and erasure requests
+CREATE TABLE IF NOT EXISTS public.privacy_requests (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    type TEXT NOT NULL CHECK (type IN ('export', 'erasure')),
+    tenant_id UUID REFERENCES public.tenants(id) ON DELETE CASCADE,  -- NULL = all tenants (admin key)
+    scope TEXT NOT NULL CHECK (scope IN ('tenant', 'user')),
+    subject_user_id UUID,                   -- No foreign key: the user may be gone
+    subject_email TEXT,                     -- Cleared when the subject is erased
+    format TEXT CHECK (format IN ('zip', 'jsonl')),
+    status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'completed', 'failed', 'expired')),
+    requested_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,  -- NULL = admin key
+    storage_path TEXT,
+    file_size BIGINT,
+    row_counts JSONB DEFAULT '{}',          -- Rows exported (or anonymized) per table
+    error TEXT,
+    expires_at TIMESTAMPTZ,                 -- Export file removed after this
+    created_at TIMESTAMPTZ DEFAULT now(),
+    started_at TIMESTAMPTZ,
+    completed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_privacy_requests_tenant ON public.privacy_requests(tenant_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_privacy_requests_status ON public.privacy_requests(status, created_at);
+
+-- RLS
+ALTER TABLE public.privacy_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role only" ON public.privacy_requests
+    FOR ALL USING (auth.role() = 'service_role');
+
+-- 3. Rows of a sub-SaaS table that belong to a subject: any text column
+-- equal to the email, or any uuid column in p_ids
+CREATE OR REPLACE FUNCTION public.sub_saas_subject_filter(p_table TEXT, p_email TEXT, p_ids UUID[])
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _conditions TEXT[] := ARRAY[]::TEXT[];
+    _column RECORD;
+BEGIN
+    FOR _column IN
+        SELECT column_name, data_type FROM information_schema.columns
+        WHERE table_schema = 'public' AND table_name = p_table
+    LOOP
+        IF p_email IS NOT NULL AND _column.data_type IN ('text', 'character varying') THEN
+            _conditions := array_append(_conditions, format('lower(%I) = lower(%L)', _column.column_name, p_email));
+        ELSIF cardinality(p_ids) > 0 AND _column.data_type = 'uuid' THEN
+            _conditions := array_append(_conditions, format('%I = ANY(%L::UUID[])', _column.column_name, p_ids));
+        END IF;
+    END LOOP;
+
+    RETURN CASE WHEN cardinality(_conditions) = 0 THEN 'false' ELSE array_to_string(_conditions, ' OR ') END;
+END;
+$$;
+
+-- Export a page of rows from a sub-SaaS table: all rows, or a subject's
+CREATE OR REPLACE FUNCTION public.export_sub_saas_rows(
+    p_table TEXT,
+    p_email TEXT DEFAULT NULL,
+    p_ids UUID[] DEFAULT NULL,
+    p_limit INTEGER DEFAULT 1000,
+    p_offset INTEGER DEFAULT 0
+)
+RETURNS SETOF JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _filter TEXT := 'true';
+BEGIN
+    IF p_table NOT LIKE 'ss\_%' THEN
+        RAISE EXCEPTION 'Can only export sub-saas tables (ss_* prefix)';
+    END IF;
+
+    IF p_email IS NOT NULL OR p_ids IS NOT NULL THEN
+        _filter := public.sub_saas_subject_filter(p_table, p_email, p_ids);
+    END IF;
+
+    RETURN QUERY EXECUTE format(
+        'SELECT to_jsonb(t) FROM %I t WHERE %s ORDER BY 1 LIMIT %s OFFSET %s',
+        p_table, _filter, p_limit, p_offset
+    );
+END;
+$$;
+
+-- 4. Erasure: anonymizes a user (by id and/or email) in one tenant, or in
+-- all tenants when p_tenant_id is NULL. Billing records are kept but
+-- unlinked from the person. Returns rows changed per table.
+CREATE OR REPLACE FUNCTION public.anonymize_subject(p_tenant_id UUID, p_user_id UUID, p_email TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _email TEXT := p_email;
+    _user_id UUID := p_user_id;
+    _anon TEXT;
+    _end_users UUID[];
+    _ids UUID[];
+    _counts JSONB := '{}';
+    _rows INTEGER;
+    _table RECORD;
+    _column RECORD;
+    _sets TEXT[];
+BEGIN
+    IF p_user_id IS NULL AND p_email IS NULL THEN
+        RAISE EXCEPTION 'user_id or email required';
+    END IF;
+
+    IF _email IS NULL THEN
+        SELECT email INTO _email FROM auth.users WHERE id = p_user_id;
+    END IF;
+
+    -- Erasing by email also covers the platform account with that email
+    IF _user_id IS NULL THEN
+        SELECT id INTO _user_id FROM auth.users WHERE lower(email) = lower(_email);
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM public.user_tenants
+        WHERE user_id = _user_id AND role = 'owner'
+        AND (p_tenant_id IS NULL OR tenant_id = p_tenant_id)
+    ) THEN
+        RAISE EXCEPTION 'Tenant owners must transfer ownership before erasure';
+    END IF;
+
+    _anon := 'erased-' || left(md5(lower(COALESCE(_email, _user_id::TEXT))), 12) || '@anonymized.invalid';
+
+    -- Sub-SaaS end users that are this person
+    SELECT COALESCE(array_agg(u.id), ARRAY[]::UUID[]) INTO _end_users
+    FROM public.sub_saas_users u
+    JOIN public.sub_saas_apps a ON a.id = u.sub_saas_id
+    WHERE (p_tenant_id IS NULL OR a.tenant_id = p_tenant_id)
+    AND ((_email IS NOT NULL AND lower(u.email) = lower(_email)) OR (_user_id IS NOT NULL AND u.auth_user_id = _user_id));
+
+    -- ss_* rows reference either the end user or the platform user
+    _ids := _end_users || CASE WHEN _user_id IS NULL THEN ARRAY[]::UUID[] ELSE ARRAY[_user_id] END;
+
+    -- ss_* rows: the email is replaced, personal columns cleared
+    FOR _table IN
+        SELECT t.tablename FROM pg_tables t
+        JOIN public.sub_saas_apps a ON t.tablename LIKE 'ss_' || replace(a.id::TEXT, '-', '_') || '%'
+        WHERE t.schemaname = 'public'
+        AND (p_tenant_id IS NULL OR a.tenant_id = p_tenant_id)
+    LOOP
+        _sets := ARRAY[]::TEXT[];
+
+        FOR _column IN
+            SELECT column_name, data_type, is_nullable FROM information_schema.columns
+            WHERE table_schema = 'public' AND table_name = _table.tablename
+            AND data_type IN ('text', 'character varying')
+        LOOP
+            IF _column.is_nullable = 'YES' AND _column.column_name IN
+                ('name', 'full_name', 'first_name', 'last_name', 'phone', 'address', 'avatar_url', 'ip_address') THEN
+                _sets := array_append(_sets, format('%I = NULL', _column.column_name));
+            ELSIF _email IS NOT NULL THEN
+                _sets := array_append(_sets, format('%I = CASE WHEN lower(%I) = lower(%L) THEN %L ELSE %I END',
+                    _column.column_name, _column.column_name, _email, _anon, _column.column_name));
+            END IF;
+        END LOOP;
+
+        CONTINUE WHEN cardinality(_sets) = 0;
+
+        EXECUTE format('UPDATE %I SET %s WHERE %s', _table.tablename, array_to_string(_sets, ', '),
+            public.sub_saas_subject_filter(_table.tablename, _email, _ids));
+        GET DIAGNOSTICS _rows = ROW_COUNT;
+        IF _rows > 0 THEN _counts := _counts || jsonb_build_object(_table.tablename, _rows); END IF;
+    END LOOP;
+
+    -- Sub-SaaS users: kept for their payments, without personal data
+    UPDATE public.sub_saas_users
+    SET email = _anon, name = NULL, avatar_url = NULL, password_hash = NULL,
+        auth_user_id = NULL, metadata = '{}', updated_at = now()
+    WHERE id = ANY(_end_users);
+    GET DIAGNOSTICS _rows = ROW_COUNT;
+    _counts := _counts || jsonb_build_object('sub_saas_users', _rows);
+
+    -- Audit trail and usage stay, without who did it
+    UPDATE public.activity_log
+    SET user_id = NULL, ip_address = NULL, user_agent = NULL, metadata = '{}'
+    WHERE (p_tenant_id IS NULL OR tenant_id = p_tenant_id)
+    AND ((_user_id IS NOT NULL AND user_id = _user_id)
+        OR (_email IS NOT NULL AND EXISTS (
+            SELECT 1 FROM jsonb_path_query(metadata, 'strict $.**') value
+            WHERE jsonb_typeof(value) = 'string' AND lower(value #>> '{}') = lower(_email)
+        )));
+    GET DIAGNOSTICS _rows = ROW_COUNT;
+    _counts := _counts || jsonb_build_object('activity_log', _rows);
+
+    UPDATE public.usage_events
+    SET user_id = NULL, metadata = '{}'
+    WHERE _user_id IS NOT NULL AND user_id = _user_id
+    AND (p_tenant_id IS NULL OR tenant_id = p_tenant_id);
+    GET DIAGNOSTICS _rows = ROW_COUNT;
+    _counts := _counts || jsonb_build_object('usage_events', _rows);
+
+    UPDATE public.email_log
+    SET to_email = _anon, subject = '[erased]', metadata = '{}'
+    WHERE _email IS NOT NULL AND lower(to_email) = lower(_email)
+    AND (p_tenant_id IS NULL OR tenant_id = p_tenant_id);
+    GET DIAGNOSTICS _rows = ROW_COUNT;
+    _counts := _counts || jsonb_build_object('email_log', _rows);
+
+    -- Billing records are kept, unlinked from the user
+    UPDATE public.purchases
+    SET user_id = NULL
+    WHERE _user_id IS NOT NULL AND user_id = _user_id
+    AND (p_tenant_id IS NULL OR tenant_id = p_tenant_id);
+    GET DIAGNOSTICS _rows = ROW_COUNT;
+    _counts := _counts || jsonb_build_object('purchases', _rows);
+
+    DELETE FROM public.invites
+    WHERE _email IS NOT NULL AND lower(email) = lower(_email)
+    AND (p_tenant_id IS NULL OR tenant_id = p_tenant_id);
+    GET DIAGNOSTICS _rows = ROW_COUNT;
+    _counts := _counts || jsonb_build_object('invites', _rows);
+
+    DELETE FROM public.user_tenants
+    WHERE _user_id IS NOT NULL AND user_id = _user_id
+    AND (p_tenant_id IS NULL OR tenant_id = p_tenant_id);
+    GET DIAGNOSTICS _rows = ROW_COUNT;
+    _counts := _counts || jsonb_build_object('user_tenants', _rows);
+
+    -- Earlier requests no longer name the subject
+    UPDATE public.privacy_requests
+    SET subject_email = NULL
+    WHERE _email IS NOT NULL AND lower(subject_email) = lower(_email)
+    AND (p_tenant_id IS NULL OR tenant_id = p_tenant_id);
+
+    RETURN _counts;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.sub_saas_subject_filter(TEXT, TEXT, UUID[]) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.sub_saas_subject_filter(TEXT, TEXT, UUID[]) FROM anon;
+REVOKE ALL ON FUNCTION public.sub_saas_subject_filter(TEXT, TEXT, UUID[]) FROM authenticated;
+
+REVOKE ALL ON FUNCTION public.export_sub_saas_rows(TEXT, TEXT, UUID[], INTEGER, INTEGER) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.export_sub_saas_rows(TEXT, TEXT, UUID[], INTEGER, INTEGER) FROM anon;
+REVOKE ALL ON FUNCTION public.export_sub_saas_rows(TEXT, TEXT, UUID[], INTEGER, INTEGER) FROM authenticated;
+
+REVOKE ALL ON FUNCTION public.anonymize_subject(UUID, UUID, TEXT) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.anonymize_subject(UUID, UUID, TEXT) FROM anon;
+REVOKE ALL ON FUNCTION public.anonymize_subject(UUID, UUID, TEXT) FROM authenticated;
+
+-- 5. Register function
+INSERT INTO public.function_registry (function_name, description, category, is_critical, required_secrets, required_tables) VALUES
+('manage-privacy', 'GDPR data export (ZIP / JSON lines in Storage) and user erasure', 'tenant', false, ARRAY[]::TEXT[], ARRAY['privacy_requests'])
+ON CONFLICT (function_name) DO NOTHING;
+
+-- 6. Seed: Run queued exports and remove expired files (hourly, X-Cron-Secret)
+INSERT INTO public.cron_job_registry (job_name, description, category, schedule, command, is_system, alert_on_failure) VALUES
+('process-data-exports', 'Run queued data exports and delete expired export files', 'cleanup', '40 * * * *',
+ 'SELECT net.http_post(url := current_setting(''app.supabase_url'') || ''/functions/v1/manage-privacy'', body := jsonb_build_object(''action'', ''process_exports''), headers := jsonb_build_object(''Content-Type'', ''application/json'', ''X-Cron-Secret'', current_setting(''app.cron_secret'')))', true, true)
+ON CONFLICT (job_name) DO UPDATE SET
+    description = EXCLUDED.description,
+    category = EXCLUDED.category,
+    schedule = EXCLUDED.schedule,
+    command = EXCLUDED.command,
+    updated_at = now();
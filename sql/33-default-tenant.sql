@@ -0,0 +1,34 @@
+-- =====================================================
+-- DEFAULT TENANT
+-- A user's default tenant (user_tenants.is_default) is the one
+-- used when a request has no X-Tenant-Id header. Switching it
+-- is a single UPDATE, so concurrent switches never leave a user
+-- with two defaults or none.
+-- manage-tenant: switch_tenant (set_default: true)
+-- =====================================================
+
+-- 1. Move the default to one membership
+CREATE OR REPLACE FUNCTION public.set_default_tenant(p_user_id UUID, p_tenant_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM user_tenants WHERE user_id = p_user_id AND tenant_id = p_tenant_id) THEN
+        RETURN false;
+    END IF;
+
+    UPDATE user_tenants
+    SET is_default = (tenant_id = p_tenant_id),
+        last_active_at = CASE WHEN tenant_id = p_tenant_id THEN now() ELSE last_active_at END
+    WHERE user_id = p_user_id
+    AND (is_default OR tenant_id = p_tenant_id);
+
+    RETURN true;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.set_default_tenant(UUID, UUID) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.set_default_tenant(UUID, UUID) FROM anon;
+REVOKE ALL ON FUNCTION public.set_default_tenant(UUID, UUID) FROM authenticated;